@@ -0,0 +1,333 @@
+import type { GroupFile, GroupFileAnchor } from './models';
+
+export const MAX_ANCHOR_LABEL_LENGTH = 60;
+
+type AnchorPosition = {
+    line: number;
+    character: number;
+};
+
+/**
+ * A single text edit described against the document before the edit, in the
+ * same shape as a `TextDocumentContentChangeEvent` range and replacement text.
+ */
+export type AnchorTextChange = {
+    startLine: number;
+    startCharacter: number;
+    endLine: number;
+    endCharacter: number;
+    text: string;
+};
+
+export type AnchorSelection = {
+    startLine: number;
+    startCharacter: number;
+    endLine: number;
+    endCharacter: number;
+};
+
+function comparePositions(left: AnchorPosition, right: AnchorPosition): number {
+    return left.line - right.line || left.character - right.character;
+}
+
+function shiftPosition(position: AnchorPosition, change: AnchorTextChange): AnchorPosition {
+    const changeStart = { line: change.startLine, character: change.startCharacter };
+    const changeEnd = { line: change.endLine, character: change.endCharacter };
+
+    if (comparePositions(position, changeStart) < 0) {
+        return position;
+    }
+
+    // Positions inside a replaced range collapse onto the start of the edit.
+    if (comparePositions(position, changeEnd) < 0) {
+        return changeStart;
+    }
+
+    const insertedLines = change.text.split(/\r\n|\r|\n/);
+    const insertedLineCount = insertedLines.length - 1;
+
+    if (position.line > changeEnd.line) {
+        return {
+            line: position.line + insertedLineCount - (changeEnd.line - changeStart.line),
+            character: position.character
+        };
+    }
+
+    const lastInsertedLineLength = insertedLines[insertedLines.length - 1].length;
+    return {
+        line: changeStart.line + insertedLineCount,
+        character: (insertedLineCount === 0 ? changeStart.character + lastInsertedLineLength : lastInsertedLineLength)
+            + (position.character - changeEnd.character)
+    };
+}
+
+/**
+ * Move one anchor so it keeps pointing at the same text after an edit.
+ * Whole-line anchors stay whole-line anchors and only move between lines.
+ */
+export function shiftAnchorForTextChange(anchor: GroupFileAnchor, change: AnchorTextChange): GroupFileAnchor {
+    const start = shiftPosition({ line: anchor.line, character: anchor.character ?? 0 }, change);
+    const end = anchor.endLine === undefined
+        ? undefined
+        : shiftPosition({ line: anchor.endLine, character: anchor.endCharacter ?? 0 }, change);
+
+    const shifted: GroupFileAnchor = { ...anchor, line: start.line };
+    if (anchor.character !== undefined) {
+        shifted.character = start.character;
+    }
+    if (end) {
+        shifted.endLine = end.line;
+        if (anchor.endCharacter !== undefined) {
+            shifted.endCharacter = end.character;
+        }
+    }
+
+    return shifted;
+}
+
+/**
+ * Apply a batch of document edits to the anchors of every matching file entry.
+ * Returns the number of anchors whose location changed.
+ */
+export function shiftGroupFileAnchors(files: GroupFile[], changes: readonly AnchorTextChange[]): number {
+    let shiftedCount = 0;
+
+    for (const file of files) {
+        if (!file.anchors?.length) {
+            continue;
+        }
+
+        file.anchors = file.anchors.map((anchor) => {
+            const shifted = changes.reduce(shiftAnchorForTextChange, anchor);
+            if (shifted.line !== anchor.line
+                || shifted.character !== anchor.character
+                || shifted.endLine !== anchor.endLine
+                || shifted.endCharacter !== anchor.endCharacter) {
+                shiftedCount += 1;
+            }
+            return shifted;
+        });
+    }
+
+    return shiftedCount;
+}
+
+/**
+ * Build an anchor from an editor selection. An empty selection becomes a
+ * whole-line anchor; anything else keeps the exact range.
+ */
+export function createAnchorFromSelection(
+    selection: AnchorSelection,
+    createId: () => string,
+    label?: string
+): GroupFileAnchor {
+    const isEmpty = selection.startLine === selection.endLine && selection.startCharacter === selection.endCharacter;
+    const trimmedLabel = label?.trim().replace(/\s+/g, ' ').slice(0, MAX_ANCHOR_LABEL_LENGTH);
+
+    const anchor: GroupFileAnchor = isEmpty
+        ? { id: createId(), line: selection.startLine }
+        : {
+            id: createId(),
+            line: selection.startLine,
+            character: selection.startCharacter,
+            endLine: selection.endLine,
+            endCharacter: selection.endCharacter
+        };
+
+    if (trimmedLabel) {
+        anchor.label = trimmedLabel;
+    }
+
+    return anchor;
+}
+
+/**
+ * Format an anchor location with one-based numbers, for example `L12`, `L12:5` or `L12-L18`.
+ */
+export function formatAnchorLocation(anchor: GroupFileAnchor): string {
+    const start = anchor.character !== undefined && anchor.character > 0
+        ? `L${anchor.line + 1}:${anchor.character + 1}`
+        : `L${anchor.line + 1}`;
+
+    if (anchor.endLine === undefined || anchor.endLine === anchor.line) {
+        return start;
+    }
+
+    return `${start}-L${anchor.endLine + 1}`;
+}
+
+export function getAnchorLabel(anchor: GroupFileAnchor): string {
+    return anchor.label?.trim() || formatSymbolPath(anchor.symbol) || formatAnchorLocation(anchor);
+}
+
+export function formatSymbolPath(symbolPath: readonly string[] | undefined): string {
+    return symbolPath?.join('.') ?? '';
+}
+
+export function findAnchor(file: GroupFile | undefined, anchorId: string | undefined): GroupFileAnchor | undefined {
+    if (!file || !anchorId) {
+        return undefined;
+    }
+
+    return file.anchors?.find((anchor) => anchor.id === anchorId);
+}
+
+export function sortAnchors(anchors: readonly GroupFileAnchor[]): GroupFileAnchor[] {
+    return [...anchors].sort((left, right) => left.line - right.line
+        || (left.character ?? 0) - (right.character ?? 0)
+        || left.id.localeCompare(right.id));
+}
+
+/**
+ * A document symbol reduced to the fields anchors need, mirroring `vscode.DocumentSymbol`.
+ */
+export type AnchorSymbol = {
+    name: string;
+    kind: number;
+    range: AnchorSelection;
+    selectionRange: AnchorSelection;
+    children: AnchorSymbol[];
+};
+
+export type AnchorSymbolMatch = {
+    path: string[];
+    symbol: AnchorSymbol;
+    score: number;
+};
+
+export type SymbolAnchorResolution = {
+    anchor: GroupFileAnchor;
+    found: boolean;
+};
+
+const MAX_SYMBOL_MATCHES = 20;
+
+function containsPosition(range: AnchorSelection, line: number, character: number): boolean {
+    const position = { line, character };
+    return comparePositions({ line: range.startLine, character: range.startCharacter }, position) <= 0
+        && comparePositions(position, { line: range.endLine, character: range.endCharacter }) <= 0;
+}
+
+function flattenSymbols(symbols: readonly AnchorSymbol[], parentPath: string[] = []): AnchorSymbolMatch[] {
+    return symbols.flatMap((symbol) => {
+        const symbolPath = [...parentPath, symbol.name];
+        return [{ path: symbolPath, symbol, score: 0 }, ...flattenSymbols(symbol.children, symbolPath)];
+    });
+}
+
+/**
+ * Return the chain of symbols enclosing a position, outermost first.
+ */
+export function getSymbolChainAt(symbols: readonly AnchorSymbol[], line: number, character: number): AnchorSymbol[] {
+    const enclosing = symbols.find((symbol) => containsPosition(symbol.range, line, character));
+    return enclosing ? [enclosing, ...getSymbolChainAt(enclosing.children, line, character)] : [];
+}
+
+export function findSymbolByPath(
+    symbols: readonly AnchorSymbol[],
+    symbolPath: readonly string[],
+    kind?: number
+): AnchorSymbol | undefined {
+    let candidates = symbols;
+    let match: AnchorSymbol | undefined;
+
+    for (const [index, name] of symbolPath.entries()) {
+        const isLeaf = index === symbolPath.length - 1;
+        match = candidates.find((symbol) => symbol.name === name && (!isLeaf || kind === undefined || symbol.kind === kind));
+        if (!match) {
+            return undefined;
+        }
+        candidates = match.children;
+    }
+
+    return match;
+}
+
+/**
+ * Build an anchor for the innermost symbol of a chain returned by `getSymbolChainAt`.
+ */
+export function createSymbolAnchor(chain: readonly AnchorSymbol[], createId: () => string): GroupFileAnchor | undefined {
+    const symbol = chain[chain.length - 1];
+    if (!symbol) {
+        return undefined;
+    }
+
+    return {
+        id: createId(),
+        line: symbol.selectionRange.startLine,
+        character: symbol.selectionRange.startCharacter,
+        symbol: chain.map((item) => item.name),
+        symbolKind: symbol.kind
+    };
+}
+
+/**
+ * Move a symbol anchor to where its symbol lives now, or flag it as missing.
+ */
+export function resolveSymbolAnchor(anchor: GroupFileAnchor, symbols: readonly AnchorSymbol[]): SymbolAnchorResolution {
+    if (!anchor.symbol?.length) {
+        return { anchor, found: true };
+    }
+
+    const symbol = findSymbolByPath(symbols, anchor.symbol, anchor.symbolKind);
+    if (!symbol) {
+        return { anchor: { ...anchor, symbolMissing: true }, found: false };
+    }
+
+    const resolved: GroupFileAnchor = {
+        ...anchor,
+        line: symbol.selectionRange.startLine,
+        character: symbol.selectionRange.startCharacter
+    };
+    delete resolved.symbolMissing;
+    return { anchor: resolved, found: true };
+}
+
+/**
+ * Rank document symbols as re-anchor candidates for a symbol that can no
+ * longer be found: same name first, then similar names, then the same kind
+ * close to the last known line.
+ */
+export function rankSymbolMatches(anchor: GroupFileAnchor, symbols: readonly AnchorSymbol[]): AnchorSymbolMatch[] {
+    const targetPath = anchor.symbol ?? [];
+    const targetName = (targetPath[targetPath.length - 1] ?? '').toLowerCase();
+
+    return flattenSymbols(symbols)
+        .map((candidate) => {
+            const name = candidate.symbol.name.toLowerCase();
+            let score = 0;
+            if (targetName && name === targetName) {
+                score += 100;
+            } else if (targetName && (name.includes(targetName) || targetName.includes(name))) {
+                score += 40;
+            }
+            if (anchor.symbolKind !== undefined && candidate.symbol.kind === anchor.symbolKind) {
+                score += 20;
+            }
+            if (candidate.path.slice(0, -1).some((container) => targetPath.slice(0, -1).includes(container))) {
+                score += 10;
+            }
+            return { ...candidate, score };
+        })
+        .filter((candidate) => candidate.score > 0)
+        .sort((left, right) => right.score - left.score
+            || Math.abs(left.symbol.selectionRange.startLine - anchor.line) - Math.abs(right.symbol.selectionRange.startLine - anchor.line))
+        .slice(0, MAX_SYMBOL_MATCHES);
+}
+
+/**
+ * Point an anchor at a re-anchor candidate chosen from `rankSymbolMatches`.
+ */
+export function reanchorToSymbol(anchor: GroupFileAnchor, match: AnchorSymbolMatch): GroupFileAnchor {
+    const reanchored: GroupFileAnchor = {
+        ...anchor,
+        line: match.symbol.selectionRange.startLine,
+        character: match.symbol.selectionRange.startCharacter,
+        symbol: match.path,
+        symbolKind: match.symbol.kind
+    };
+    delete reanchored.symbolMissing;
+    delete reanchored.endLine;
+    delete reanchored.endCharacter;
+    return reanchored;
+}
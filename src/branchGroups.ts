@@ -0,0 +1,49 @@
+import type { FileGroup } from './models';
+
+/**
+ * Split user input into branch names or patterns, separated by commas,
+ * semicolons or new lines.
+ */
+export function parseBranchPatterns(value: string): string[] {
+  const patterns: string[] = [];
+  for (const rawPattern of value.split(/[,;\r\n]+/)) {
+    const pattern = rawPattern.trim();
+    if (pattern.length > 0 && !patterns.includes(pattern)) {
+      patterns.push(pattern);
+    }
+  }
+
+  return patterns;
+}
+
+export function formatBranchPatterns(patterns: readonly string[] | undefined): string {
+  return patterns?.join(', ') ?? '';
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Match a branch against a name or pattern. `*` matches within one path
+ * segment, `**` across segments and `?` a single character, so
+ * `feature/*` matches `feature/login` but not `feature/login/ui`.
+ */
+export function matchesBranchPattern(branch: string, pattern: string): boolean {
+  const source = escapeRegExp(pattern)
+    .replace(/\*\*|\*|\?/g, token => token === '**' ? '.*' : (token === '*' ? '[^/]*' : '[^/]'));
+  return new RegExp(`^${source}$`).test(branch);
+}
+
+/**
+ * Groups without branch bindings are always visible. Bound groups are shown
+ * only on a matching branch, or everywhere when the branch is unknown
+ * (no repository or a detached HEAD).
+ */
+export function isGroupOnBranch(group: Pick<FileGroup, 'branches'>, branch: string | undefined): boolean {
+  if (!group.branches?.length || !branch) {
+    return true;
+  }
+
+  return group.branches.some(pattern => matchesBranchPattern(branch, pattern));
+}
@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import { parseConfigText, updateConfigText } from './configText';
 
 type WebGroupFile = {
   path: string;
@@ -91,7 +92,7 @@ class WebGroupStore {
 
     try {
       const content = await vscode.workspace.fs.readFile(configUri);
-      const parsed = JSON.parse(new TextDecoder().decode(content)) as WebConfig;
+      const parsed = parseConfigText(new TextDecoder().decode(content)) as WebConfig;
       if (Array.isArray(parsed.groups)) {
         this.groups = this.normalizeGroups(parsed.groups);
         await this.context.workspaceState.update(STORAGE_KEY, this.groups);
@@ -110,9 +111,15 @@ class WebGroupStore {
     if (workspace && configUri) {
       const directory = vscode.Uri.joinPath(workspace, '.vscode');
       await vscode.workspace.fs.createDirectory(directory);
+      let existingContent = '';
+      try {
+        existingContent = new TextDecoder().decode(await vscode.workspace.fs.readFile(configUri));
+      } catch {
+        // The first save creates the file.
+      }
       await vscode.workspace.fs.writeFile(
         configUri,
-        new TextEncoder().encode(JSON.stringify({ version: 2, groups: this.groups }, null, 2))
+        new TextEncoder().encode(updateConfigText(existingContent, { version: 2, groups: this.groups }))
       );
     }
     this.changes.fire();
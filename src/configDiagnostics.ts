@@ -0,0 +1,155 @@
+import { findNodeAtLocation, Node, parseTree } from 'jsonc-parser';
+
+export type ConfigIssueKind = 'duplicateId' | 'danglingParent' | 'parentCycle' | 'missingPath';
+
+/**
+ * A semantic problem in a groups config that the JSON schema cannot express
+ */
+export interface ConfigIssue {
+  kind: ConfigIssueKind;
+  /** Offset of the offending value in the file text */
+  offset: number;
+  length: number;
+  /** The duplicate id, missing parent id or missing path */
+  value: string;
+}
+
+type GroupNodes = {
+  id?: string;
+  idNode?: Node;
+  parentId?: string;
+  parentNode?: Node;
+  isDynamic: boolean;
+  pathNodes: Node[];
+};
+
+function getString(node: Node | undefined): string | undefined {
+  return node?.type === 'string' && typeof node.value === 'string' ? node.value : undefined;
+}
+
+function createIssue(kind: ConfigIssueKind, node: Node, value: string): ConfigIssue {
+  return { kind, offset: node.offset, length: node.length, value };
+}
+
+function readGroupNodes(groupNode: Node): GroupNodes {
+  const idNode = findNodeAtLocation(groupNode, ['id']);
+  const parentNode = findNodeAtLocation(groupNode, ['parentId']);
+  const filesNode = findNodeAtLocation(groupNode, ['files']);
+  return {
+    id: getString(idNode),
+    idNode,
+    parentId: getString(parentNode),
+    parentNode,
+    isDynamic: Boolean(findNodeAtLocation(groupNode, ['patterns']) || findNodeAtLocation(groupNode, ['search'])),
+    pathNodes: (filesNode?.type === 'array' ? filesNode.children ?? [] : [])
+      .map(fileNode => findNodeAtLocation(fileNode, ['path']))
+      .filter((pathNode): pathNode is Node => getString(pathNode) !== undefined)
+  };
+}
+
+/**
+ * Find duplicate group ids, parent ids that point nowhere, parent cycles and
+ * bookmarks whose path does not exist. Paths are checked concurrently; files
+ * of dynamic groups are skipped because they are recomputed. Issues are
+ * sorted by position.
+ */
+export async function findConfigIssues(text: string, pathExists: (storedPath: string) => Promise<boolean>): Promise<ConfigIssue[]> {
+  const root = parseTree(text);
+  const groupsNode = root && findNodeAtLocation(root, ['groups']);
+  if (groupsNode?.type !== 'array') {
+    return [];
+  }
+
+  return findGroupIssues((groupsNode.children ?? []).filter(node => node.type === 'object').map(readGroupNodes), [], pathExists);
+}
+
+/**
+ * Find the same issues in one group file of the split layout. The other group
+ * files of the folder are needed to tell duplicate ids and dangling or cyclic
+ * parents apart; only issues in this file are returned.
+ */
+export async function findSplitGroupFileIssues(
+  text: string,
+  otherGroupTexts: readonly string[],
+  pathExists: (storedPath: string) => Promise<boolean>
+): Promise<ConfigIssue[]> {
+  const root = parseTree(text);
+  if (root?.type !== 'object') {
+    return [];
+  }
+
+  const otherGroups = otherGroupTexts
+    .map(otherText => parseTree(otherText))
+    .filter((node): node is Node => node?.type === 'object')
+    .map(readGroupNodes);
+  return findGroupIssues([readGroupNodes(root)], otherGroups, pathExists);
+}
+
+/**
+ * Issues of `groups`, with `otherGroups` from other files counting for ids and parents
+ */
+async function findGroupIssues(
+  groups: GroupNodes[],
+  otherGroups: GroupNodes[],
+  pathExists: (storedPath: string) => Promise<boolean>
+): Promise<ConfigIssue[]> {
+  const otherIds = new Set<string>();
+  const parentById = new Map<string, string | undefined>();
+  for (const group of otherGroups) {
+    if (group.id !== undefined && !otherIds.has(group.id)) {
+      otherIds.add(group.id);
+      parentById.set(group.id, group.parentId);
+    }
+  }
+
+  const ownIds = new Set<string>();
+  const issues: ConfigIssue[] = [];
+
+  for (const group of groups) {
+    if (group.id === undefined) {
+      continue;
+    }
+    if (ownIds.has(group.id) || otherIds.has(group.id)) {
+      issues.push(createIssue('duplicateId', group.idNode!, group.id));
+      continue;
+    }
+    ownIds.add(group.id);
+    parentById.set(group.id, group.parentId);
+  }
+
+  for (const group of groups) {
+    if (group.parentId !== undefined && group.parentNode) {
+      if (!parentById.has(group.parentId)) {
+        issues.push(createIssue('danglingParent', group.parentNode, group.parentId));
+      } else if (group.id !== undefined && isInParentCycle(group.id, parentById)) {
+        issues.push(createIssue('parentCycle', group.parentNode, group.parentId));
+      }
+    }
+
+  }
+
+  const pathNodes = groups.filter(group => !group.isDynamic).flatMap(group => group.pathNodes);
+  const existing = await Promise.all(pathNodes.map(pathNode => pathExists(getString(pathNode)!)));
+  pathNodes.forEach((pathNode, index) => {
+    if (!existing[index]) {
+      issues.push(createIssue('missingPath', pathNode, getString(pathNode)!));
+    }
+  });
+
+  return issues.sort((left, right) => left.offset - right.offset);
+}
+
+function isInParentCycle(groupId: string, parentById: ReadonlyMap<string, string | undefined>): boolean {
+  const visited = new Set<string>();
+  for (let current = parentById.get(groupId); current !== undefined; current = parentById.get(current)) {
+    if (current === groupId) {
+      return true;
+    }
+    if (visited.has(current)) {
+      return false;
+    }
+    visited.add(current);
+  }
+
+  return false;
+}
@@ -0,0 +1,211 @@
+import type { FileGroup, GroupFile } from './models';
+
+/**
+ * A change made on both sides that the merge cannot settle. A missing
+ * `ours` or `theirs` means that side deleted the group or bookmark.
+ */
+export type GroupMergeConflict =
+  | { kind: 'group'; groupId: string; name: string; fields: string[]; ours?: FileGroup; theirs?: FileGroup }
+  | { kind: 'file'; groupId: string; groupName: string; path: string; ours?: GroupFile; theirs?: GroupFile };
+
+export interface GroupMergeResult {
+  /** Merged groups, taking their side for every conflict */
+  groups: FileGroup[];
+  conflicts: GroupMergeConflict[];
+}
+
+export type ConflictSide = 'ours' | 'theirs' | 'base';
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Compare JSON values, ignoring key order
+ */
+export function isSameMergeValue(left: unknown, right: unknown): boolean {
+  if (Array.isArray(left) && Array.isArray(right)) {
+    return left.length === right.length && left.every((item, index) => isSameMergeValue(item, right[index]));
+  }
+  if (isRecord(left) && isRecord(right)) {
+    const keys = Object.keys(left);
+    return keys.length === Object.keys(right).length && keys.every(key => key in right && isSameMergeValue(left[key], right[key]));
+  }
+
+  return left === right;
+}
+
+/**
+ * Pick the merged value when only one side changed it. Returns undefined
+ * when both sides changed it differently.
+ */
+function mergeValue<T>(base: T | undefined, ours: T | undefined, theirs: T | undefined): { value: T | undefined } | undefined {
+  if (isSameMergeValue(ours, theirs) || isSameMergeValue(ours, base)) {
+    return { value: theirs };
+  }
+
+  return isSameMergeValue(theirs, base) ? { value: ours } : undefined;
+}
+
+/**
+ * Merge items keyed by id or path. The result follows their order, with
+ * items only we added appended.
+ */
+function mergeKeyed<T>(
+  base: readonly T[],
+  ours: readonly T[],
+  theirs: readonly T[],
+  getKey: (item: T) => string,
+  mergeItem: (baseItem: T | undefined, ourItem: T | undefined, theirItem: T | undefined) => T | undefined
+): T[] {
+  const baseByKey = new Map(base.map(item => [getKey(item), item]));
+  const oursByKey = new Map(ours.map(item => [getKey(item), item]));
+  const theirsByKey = new Map(theirs.map(item => [getKey(item), item]));
+  const keys = [...new Set([...theirs.map(getKey), ...ours.map(getKey), ...base.map(getKey)])];
+
+  return keys
+    .map(key => mergeItem(baseByKey.get(key), oursByKey.get(key), theirsByKey.get(key)))
+    .filter((item): item is T => item !== undefined);
+}
+
+/**
+ * Three-way merge of local groups with the groups in a changed config file,
+ * against the version both started from. Group properties merge field by
+ * field and bookmarks merge file by file; a change made differently on both
+ * sides, or a change on one side to something the other deleted, is
+ * reported as a conflict and resolved in favor of the file.
+ */
+export function mergeGroups(base: readonly FileGroup[], ours: readonly FileGroup[], theirs: readonly FileGroup[]): GroupMergeResult {
+  const conflicts: GroupMergeConflict[] = [];
+
+  const groups = mergeKeyed(base, ours, theirs, group => group.id, (baseGroup, ourGroup, theirGroup) => {
+    const merged = mergeValue(baseGroup, ourGroup, theirGroup);
+    if (merged) {
+      return merged.value;
+    }
+    if (!ourGroup || !theirGroup) {
+      const group = (ourGroup ?? theirGroup)!;
+      conflicts.push({ kind: 'group', groupId: group.id, name: group.name, fields: [], ours: ourGroup, theirs: theirGroup });
+      return theirGroup;
+    }
+
+    const result: Record<string, unknown> = {};
+    const fields: string[] = [];
+    const keys = new Set([...Object.keys(theirGroup), ...Object.keys(ourGroup)].filter(key => key !== 'files'));
+    for (const key of keys) {
+      const field = key as keyof FileGroup;
+      const mergedField = mergeValue(baseGroup?.[field], ourGroup[field], theirGroup[field]);
+      if (!mergedField) {
+        fields.push(key);
+      }
+      const value = mergedField ? mergedField.value : theirGroup[field];
+      if (value !== undefined) {
+        result[key] = value;
+      }
+    }
+    if (fields.length > 0) {
+      conflicts.push({ kind: 'group', groupId: theirGroup.id, name: theirGroup.name, fields, ours: ourGroup, theirs: theirGroup });
+    }
+
+    result.files = mergeKeyed(baseGroup?.files ?? [], ourGroup.files, theirGroup.files, file => file.path, (baseFile, ourFile, theirFile) => {
+      const mergedFile = mergeValue(baseFile, ourFile, theirFile);
+      if (mergedFile) {
+        return mergedFile.value;
+      }
+
+      conflicts.push({
+        kind: 'file', groupId: theirGroup.id, groupName: theirGroup.name, path: (ourFile ?? theirFile)!.path, ours: ourFile, theirs: theirFile
+      });
+      return theirFile;
+    });
+
+    return result as unknown as FileGroup;
+  });
+
+  return { groups, conflicts };
+}
+
+/**
+ * Switch the chosen conflicts of a merge result to our side
+ */
+export function applyMergeChoices(
+  groups: readonly FileGroup[],
+  conflicts: readonly GroupMergeConflict[],
+  keepOurs: ReadonlySet<GroupMergeConflict>
+): FileGroup[] {
+  let result = groups.map(group => ({ ...group, files: [...group.files] }));
+
+  for (const conflict of conflicts.filter(item => keepOurs.has(item))) {
+    const index = result.findIndex(group => group.id === conflict.groupId);
+    if (conflict.kind === 'group') {
+      if (!conflict.ours) {
+        result = result.filter(group => group.id !== conflict.groupId);
+      } else if (index < 0) {
+        result.push({ ...conflict.ours, files: [...conflict.ours.files] });
+      } else {
+        const group: Record<string, unknown> = { ...result[index] };
+        for (const field of conflict.fields) {
+          group[field] = conflict.ours[field as keyof FileGroup];
+        }
+        result[index] = group as unknown as FileGroup;
+      }
+      continue;
+    }
+
+    if (index < 0) {
+      continue;
+    }
+    const group = result[index];
+    const fileIndex = group.files.findIndex(file => file.path === conflict.path);
+    if (!conflict.ours) {
+      group.files = group.files.filter(file => file.path !== conflict.path);
+    } else if (fileIndex < 0) {
+      group.files.push(conflict.ours);
+    } else {
+      group.files[fileIndex] = conflict.ours;
+    }
+  }
+
+  return result;
+}
+
+const CONFLICT_START = /^<{7}(?:\s|$)/;
+const CONFLICT_BASE = /^\|{7}(?:\s|$)/;
+const CONFLICT_SEPARATOR = /^={7}\s*$/;
+const CONFLICT_END = /^>{7}(?:\s|$)/;
+
+export function hasConflictMarkers(text: string): boolean {
+  return text.split(/\r?\n/).some(line => CONFLICT_START.test(line));
+}
+
+/**
+ * Keep one side of every git conflict region in a file. Text without
+ * conflicts is returned unchanged. The base side only exists in diff3-style
+ * conflicts; without it, undefined is returned.
+ */
+export function getConflictSide(text: string, side: ConflictSide): string | undefined {
+  const lines = text.split(/(?<=\n)/);
+  const result: string[] = [];
+  let section: ConflictSide | undefined;
+  let hasConflicts = false;
+  let hasBase = false;
+
+  for (const line of lines) {
+    const content = line.replace(/\r?\n$/, '');
+    if (CONFLICT_START.test(content)) {
+      section = 'ours';
+      hasConflicts = true;
+    } else if (section && CONFLICT_BASE.test(content)) {
+      section = 'base';
+      hasBase = true;
+    } else if (section && CONFLICT_SEPARATOR.test(content)) {
+      section = 'theirs';
+    } else if (section && CONFLICT_END.test(content)) {
+      section = undefined;
+    } else if (!section || section === side) {
+      result.push(line);
+    }
+  }
+
+  return side === 'base' && hasConflicts && !hasBase ? undefined : result.join('');
+}
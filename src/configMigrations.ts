@@ -0,0 +1,130 @@
+import type { FileGroupsConfig } from './models';
+
+/** Config version written by this extension */
+export const CURRENT_CONFIG_VERSION = 2;
+
+type ConfigRecord = Record<string, unknown>;
+
+export type ConfigMigrationResult =
+  | { status: 'current' | 'migrated' | 'newer'; fromVersion: number; config: FileGroupsConfig; unknownFields: string[] }
+  | { status: 'unsupported'; fromVersion: number }
+  | { status: 'invalid' };
+
+const KNOWN_CONFIG_FIELDS = new Set(['$schema', 'version', 'compatibleVersion', 'groups', 'hideGlobalGroups', 'tagQueries']);
+const KNOWN_GROUP_FIELDS = new Set([
+  'id', 'name', 'icon', 'color', 'shortDescription', 'details', 'tags', 'createdBy', 'collapsed', 'pinned',
+  'badgeText', 'files', 'patterns', 'search', 'branches', 'sortOrder', 'layout', 'order', 'parentId', 'isGlobal'
+]);
+const KNOWN_FILE_FIELDS = new Set(['path', 'name', 'isDirectory', 'tags', 'note', 'anchors', 'searchMatch']);
+const KNOWN_ANCHOR_FIELDS = new Set([
+  'id', 'line', 'character', 'endLine', 'endCharacter', 'label', 'symbol', 'symbolKind', 'symbolMissing'
+]);
+const KNOWN_TAG_QUERY_FIELDS = new Set(['id', 'name', 'expression']);
+
+function isRecord(value: unknown): value is ConfigRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asRecords(value: unknown): ConfigRecord[] {
+  return Array.isArray(value) ? value.filter(isRecord) : [];
+}
+
+/**
+ * Upgrades keyed by the version they start from; each returns the next version.
+ */
+const MIGRATIONS: Record<number, (config: ConfigRecord) => ConfigRecord> = {
+  // Version 1 groups could omit their order, icon and color
+  1: config => ({
+    ...config,
+    version: 2,
+    groups: asRecords(config.groups).map((group, index) => ({
+      icon: 'folder',
+      color: '',
+      order: index,
+      ...group,
+      files: asRecords(group.files)
+    }))
+  })
+};
+
+function collectUnknownFields(record: ConfigRecord, knownFields: ReadonlySet<string>, prefix: string, unknownFields: string[]): void {
+  for (const key of Object.keys(record)) {
+    if (!knownFields.has(key)) {
+      unknownFields.push(`${prefix}${key}`);
+    }
+  }
+}
+
+/**
+ * List the fields this version of the extension does not know about, as
+ * paths such as `groups[0].files[2].color`. They are kept on save, but
+ * nothing in the extension reads them.
+ */
+export function findUnknownConfigFields(config: unknown): string[] {
+  if (!isRecord(config)) {
+    return [];
+  }
+
+  const unknownFields: string[] = [];
+  collectUnknownFields(config, KNOWN_CONFIG_FIELDS, '', unknownFields);
+  asRecords(config.groups).forEach((group, groupIndex) => {
+    const groupPrefix = `groups[${groupIndex}].`;
+    collectUnknownFields(group, KNOWN_GROUP_FIELDS, groupPrefix, unknownFields);
+    asRecords(group.files).forEach((file, fileIndex) => {
+      const filePrefix = `${groupPrefix}files[${fileIndex}].`;
+      collectUnknownFields(file, KNOWN_FILE_FIELDS, filePrefix, unknownFields);
+      asRecords(file.anchors).forEach((anchor, anchorIndex) => {
+        collectUnknownFields(anchor, KNOWN_ANCHOR_FIELDS, `${filePrefix}anchors[${anchorIndex}].`, unknownFields);
+      });
+    });
+  });
+  asRecords(config.tagQueries).forEach((tagQuery, index) => {
+    collectUnknownFields(tagQuery, KNOWN_TAG_QUERY_FIELDS, `tagQueries[${index}].`, unknownFields);
+  });
+
+  return unknownFields;
+}
+
+/**
+ * Whether saving over a config of this version would lose data written by a newer extension.
+ */
+export function isNewerConfigVersion(version: unknown): version is number {
+  return typeof version === 'number' && version > CURRENT_CONFIG_VERSION;
+}
+
+/**
+ * Bring a parsed config up to the current version. Files without a version
+ * are treated as version 1. A newer file is accepted unchanged only when it
+ * declares a `compatibleVersion` this extension can read.
+ */
+export function migrateConfig(raw: unknown): ConfigMigrationResult {
+  if (!isRecord(raw) || !Array.isArray(raw.groups)) {
+    return { status: 'invalid' };
+  }
+
+  const fromVersion = raw.version === undefined ? 1 : raw.version;
+  if (typeof fromVersion !== 'number' || !Number.isInteger(fromVersion) || fromVersion < 1) {
+    return { status: 'invalid' };
+  }
+
+  if (fromVersion > CURRENT_CONFIG_VERSION) {
+    const compatibleVersion = raw.compatibleVersion;
+    if (typeof compatibleVersion !== 'number' || compatibleVersion > CURRENT_CONFIG_VERSION) {
+      return { status: 'unsupported', fromVersion };
+    }
+
+    return { status: 'newer', fromVersion, config: raw as unknown as FileGroupsConfig, unknownFields: findUnknownConfigFields(raw) };
+  }
+
+  let config: ConfigRecord = raw;
+  for (let version = fromVersion; version < CURRENT_CONFIG_VERSION; version += 1) {
+    config = MIGRATIONS[version](config);
+  }
+
+  return {
+    status: fromVersion === CURRENT_CONFIG_VERSION ? 'current' : 'migrated',
+    fromVersion,
+    config: { ...config, version: CURRENT_CONFIG_VERSION } as unknown as FileGroupsConfig,
+    unknownFields: findUnknownConfigFields(config)
+  };
+}
@@ -0,0 +1,54 @@
+import type { ConfigSnapshot, ConfigSnapshotScope, FileGroup } from './models';
+
+export const MAX_CONFIG_SNAPSHOTS = 50;
+
+const SNAPSHOT_FILE_PATTERN = /^(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z\.json$/;
+
+/**
+ * File name for a snapshot taken at `date`, e.g. `2026-10-19T08-30-00-000Z.json`.
+ * Names sort chronologically and contain no characters that are invalid on Windows.
+ */
+export function createConfigSnapshotFileName(date: Date): string {
+  return `${date.toISOString().replace(/:/g, '-').replace('.', '-')}.json`;
+}
+
+export function parseConfigSnapshotFileName(scope: ConfigSnapshotScope, fileName: string): ConfigSnapshot | undefined {
+  const match = SNAPSHOT_FILE_PATTERN.exec(fileName);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, day, hours, minutes, seconds, milliseconds] = match;
+  return { scope, fileName, createdAt: `${day}T${hours}:${minutes}:${seconds}.${milliseconds}Z` };
+}
+
+/**
+ * Snapshots of one scope from a directory listing, newest first.
+ */
+export function listConfigSnapshots(scope: ConfigSnapshotScope, fileNames: readonly string[]): ConfigSnapshot[] {
+  return fileNames
+    .map(fileName => parseConfigSnapshotFileName(scope, fileName))
+    .filter((snapshot): snapshot is ConfigSnapshot => snapshot !== undefined)
+    .sort((left, right) => right.fileName.localeCompare(left.fileName));
+}
+
+/**
+ * Snapshots beyond the limit, oldest ones, that should be deleted.
+ */
+export function getConfigSnapshotsToPrune(snapshots: readonly ConfigSnapshot[], limit: number = MAX_CONFIG_SNAPSHOTS): ConfigSnapshot[] {
+  return snapshots.slice(limit);
+}
+
+/**
+ * Put one group from a snapshot back into the current groups, replacing the
+ * current version in place or adding it when it was deleted. Its subgroups
+ * are left as they are; a parent that no longer exists makes it a root group.
+ */
+export function restoreSnapshotGroup(groups: readonly FileGroup[], snapshotGroup: FileGroup): FileGroup[] {
+  const parentExists = !snapshotGroup.parentId || groups.some(group => group.id === snapshotGroup.parentId && group.id !== snapshotGroup.id);
+  const restored = parentExists ? snapshotGroup : { ...snapshotGroup, parentId: undefined };
+
+  return groups.some(group => group.id === snapshotGroup.id)
+    ? groups.map(group => group.id === snapshotGroup.id ? restored : group)
+    : [...groups, restored];
+}
@@ -0,0 +1,182 @@
+import { FormattingOptions, JSONPath, ParseError, applyEdits, modify, parse, printParseErrorCode } from 'jsonc-parser';
+
+/**
+ * Parse a config file that may contain comments and trailing commas.
+ * Throws a SyntaxError for malformed text, like JSON.parse.
+ */
+export function parseConfigText(text: string): unknown {
+  const errors: ParseError[] = [];
+  const value: unknown = parse(text, errors, { allowTrailingComma: true });
+  if (errors.length > 0) {
+    throw new SyntaxError(`${printParseErrorCode(errors[0].error)} at offset ${errors[0].offset}`);
+  }
+
+  return value;
+}
+
+/**
+ * Use the indentation and line endings the file already has for inserted text
+ */
+function getFormattingOptions(text: string): FormattingOptions {
+  const indentation = /^[ \t]+(?=\S)/m.exec(text)?.[0] ?? '  ';
+  return {
+    insertSpaces: !indentation.startsWith('\t'),
+    tabSize: indentation.startsWith('\t') ? 4 : indentation.length,
+    eol: text.includes('\r\n') ? '\r\n' : '\n'
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Compare parsed JSON values, ignoring key order
+ */
+function isSameValue(left: unknown, right: unknown): boolean {
+  if (Array.isArray(left) && Array.isArray(right)) {
+    return left.length === right.length && left.every((item, index) => isSameValue(item, right[index]));
+  }
+  if (isPlainObject(left) && isPlainObject(right)) {
+    const keys = Object.keys(left);
+    return keys.length === Object.keys(right).length && keys.every(key => key in right && isSameValue(left[key], right[key]));
+  }
+
+  return left === right;
+}
+
+/**
+ * Identity of an array item across saves: groups and anchors by id, files by
+ * path and primitives by value
+ */
+function getItemKey(item: unknown): string | undefined {
+  if (isPlainObject(item)) {
+    if (typeof item.id === 'string') {
+      return `id:${item.id}`;
+    }
+    return typeof item.path === 'string' ? `path:${item.path}` : undefined;
+  }
+
+  return typeof item === 'object' ? undefined : JSON.stringify(item);
+}
+
+function getItemKeys(items: readonly unknown[]): string[] | undefined {
+  const keys = items.map(getItemKey);
+  return keys.every((key): key is string => key !== undefined) && new Set(keys).size === keys.length ? keys : undefined;
+}
+
+function setValue(text: string, path: JSONPath, value: unknown, formattingOptions: FormattingOptions, isArrayInsertion = false): string {
+  return applyEdits(text, modify(text, path, value, { formattingOptions, isArrayInsertion }));
+}
+
+/**
+ * Update an array in place: remove items that are gone, update kept items
+ * and insert new ones. A reordered array is replaced as a whole.
+ */
+function updateArray(text: string, path: JSONPath, current: unknown[], next: unknown[], formattingOptions: FormattingOptions): string {
+  const currentKeys = getItemKeys(current);
+  const nextKeys = getItemKeys(next);
+  if (!currentKeys || !nextKeys) {
+    if (current.length !== next.length) {
+      return setValue(text, path, next, formattingOptions);
+    }
+
+    return next.reduce<string>((updated, item, index) =>
+      updateValue(updated, [...path, index], current[index], item, formattingOptions), text);
+  }
+
+  const nextKeySet = new Set(nextKeys);
+  const keptKeys = currentKeys.filter(key => nextKeySet.has(key));
+  const currentKeySet = new Set(keptKeys);
+  if (!isSameValue(keptKeys, nextKeys.filter(key => currentKeySet.has(key)))) {
+    return setValue(text, path, next, formattingOptions);
+  }
+
+  let updated = text;
+  for (let index = current.length - 1; index >= 0; index--) {
+    if (!nextKeySet.has(currentKeys[index])) {
+      updated = setValue(updated, [...path, index], undefined, formattingOptions);
+    }
+  }
+
+  const currentByKey = new Map(currentKeys.map((key, index) => [key, current[index]]));
+  next.forEach((item, index) => {
+    updated = currentByKey.has(nextKeys[index])
+      ? updateValue(updated, [...path, index], currentByKey.get(nextKeys[index]), item, formattingOptions)
+      : setValue(updated, [...path, index], item, formattingOptions, true);
+  });
+
+  return updated;
+}
+
+function updateValue(text: string, path: JSONPath, current: unknown, next: unknown, formattingOptions: FormattingOptions): string {
+  if (isSameValue(current, next)) {
+    return text;
+  }
+
+  if (Array.isArray(current) && Array.isArray(next)) {
+    return updateArray(text, path, current, next, formattingOptions);
+  }
+
+  if (!isPlainObject(current) || !isPlainObject(next)) {
+    return setValue(text, path, next, formattingOptions);
+  }
+
+  let updated = text;
+  for (const key of Object.keys(current)) {
+    if (!(key in next)) {
+      updated = setValue(updated, [...path, key], undefined, formattingOptions);
+    }
+  }
+  for (const [key, value] of Object.entries(next)) {
+    updated = updateValue(updated, [...path, key], current[key], value, formattingOptions);
+  }
+
+  return updated;
+}
+
+function parseObjectText(text: string): Record<string, unknown> | undefined {
+  try {
+    const value = text.trim().length > 0 ? parseConfigText(text) : undefined;
+    return isPlainObject(value) ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Apply top-level config changes to the text of a config file with minimal
+ * edits, so comments, key order and formatting outside the changed values
+ * survive. An undefined value removes its key. Malformed text is replaced.
+ */
+export function updateConfigText(text: string, changes: Record<string, unknown>): string {
+  // Match what JSON.stringify would write, dropping undefined properties
+  const nextValues: Record<string, unknown> = JSON.parse(JSON.stringify(changes));
+
+  const current = parseObjectText(text);
+  if (!current) {
+    return JSON.stringify(nextValues, null, 2);
+  }
+
+  const formattingOptions = getFormattingOptions(text);
+  let updated = text;
+  for (const key of Object.keys(changes)) {
+    updated = key in nextValues
+      ? updateValue(updated, [key], current[key], nextValues[key], formattingOptions)
+      : setValue(updated, [key], undefined, formattingOptions);
+  }
+
+  return updated;
+}
+
+/**
+ * Make the text of a JSON object file hold exactly `value`, with the same
+ * minimal edits as updateConfigText. Keys missing from `value` are removed.
+ */
+export function replaceConfigText(text: string, value: Record<string, unknown>): string {
+  const current = parseObjectText(text);
+  return updateConfigText(text, {
+    ...Object.fromEntries(Object.keys(current ?? {}).map(key => [key, undefined])),
+    ...value
+  });
+}
@@ -0,0 +1,121 @@
+import type { FileGroup, GroupFile, GroupFilePatterns } from './models';
+
+export const MAX_DYNAMIC_GROUP_FILES = 500;
+
+export type DynamicGroupFileMerge = {
+  files: GroupFile[];
+  changed: boolean;
+};
+
+/**
+ * Dynamic groups compute their files from glob patterns or a saved search query.
+ */
+export function isDynamicGroup(group: Pick<FileGroup, 'patterns' | 'search'>): boolean {
+  return Boolean(group.patterns?.include.length || group.search?.query);
+}
+
+/**
+ * Split user input into glob patterns, one per line or separated by semicolons.
+ * Commas are left alone because they appear inside `{a,b}` groups.
+ */
+export function parseGlobPatterns(value: string): string[] {
+  const patterns: string[] = [];
+  for (const rawPattern of value.split(/[\r\n;]+/)) {
+    const pattern = rawPattern.trim().replace(/\\/g, '/');
+    if (pattern.length > 0 && !patterns.includes(pattern)) {
+      patterns.push(pattern);
+    }
+  }
+
+  return patterns;
+}
+
+export function formatGlobPatterns(patterns: readonly string[] | undefined): string {
+  return patterns?.join('\n') ?? '';
+}
+
+export function createGroupFilePatterns(include: string, exclude: string): GroupFilePatterns | undefined {
+  const includePatterns = parseGlobPatterns(include);
+  if (includePatterns.length === 0) {
+    return undefined;
+  }
+
+  const excludePatterns = parseGlobPatterns(exclude);
+  return excludePatterns.length > 0
+    ? { include: includePatterns, exclude: excludePatterns }
+    : { include: includePatterns };
+}
+
+/**
+ * Patterns without a slash match at any depth, like `.gitignore` entries.
+ */
+function anchorGlobPattern(pattern: string): string {
+  const trimmed = pattern.replace(/^\.?\//, '');
+  return trimmed.includes('/') ? trimmed : `**/${trimmed}`;
+}
+
+/**
+ * Combine several glob patterns into the single pattern `workspace.findFiles` accepts.
+ */
+export function combineGlobPatterns(patterns: readonly string[] | undefined): string | undefined {
+  const anchored = (patterns ?? []).map(anchorGlobPattern);
+  if (anchored.length === 0) {
+    return undefined;
+  }
+
+  return anchored.length === 1 ? anchored[0] : `{${anchored.join(',')}}`;
+}
+
+/**
+ * Replace a dynamic group's files with the current matches while keeping
+ * tags, notes and anchors of bookmarks that still match.
+ */
+export function mergeDynamicGroupFiles(
+  existingFiles: readonly GroupFile[],
+  matchedPaths: readonly string[],
+  createEntry: (filePath: string) => GroupFile
+): DynamicGroupFileMerge {
+  const existingByPath = new Map(existingFiles.map(file => [file.path, file]));
+  const matchedSet = new Set(matchedPaths);
+  const files = existingFiles.filter(file => matchedSet.has(file.path));
+
+  for (const filePath of [...matchedSet].sort((left, right) => left.localeCompare(right))) {
+    if (!existingByPath.has(filePath)) {
+      files.push(createEntry(filePath));
+    }
+  }
+
+  const changed = files.length !== existingFiles.length
+    || files.some((file, index) => file !== existingFiles[index]);
+  return { files, changed };
+}
+
+/**
+ * Dynamic group files are recomputed on load, so only bookmarks carrying
+ * user-authored metadata need to be written to the shared config.
+ */
+export function getPersistedDynamicFiles(files: readonly GroupFile[]): GroupFile[] {
+  return files
+    .filter(file => Boolean(file.tags?.length || file.note || file.anchors?.length))
+    .map(({ searchMatch: _searchMatch, ...file }) => file);
+}
+
+/**
+ * Rebuild a dynamic group's files after reloading the config, which only
+ * stores bookmarks with metadata. The previously computed matches are kept
+ * until the next refresh so reloading does not empty the group.
+ */
+export function restoreDynamicGroupFiles(persistedFiles: readonly GroupFile[], previousFiles: readonly GroupFile[]): GroupFile[] {
+  const persistedByPath = new Map(persistedFiles.map(file => [file.path, file]));
+  const restored = previousFiles.map((file) => {
+    const restoredFile = persistedByPath.get(file.path) ?? getUnannotatedFile(file);
+    return file.searchMatch ? { ...restoredFile, searchMatch: file.searchMatch } : restoredFile;
+  });
+  const restoredPaths = new Set(restored.map(file => file.path));
+
+  return [...restored, ...persistedFiles.filter(file => !restoredPaths.has(file.path))];
+}
+
+function getUnannotatedFile(file: GroupFile): GroupFile {
+  return { path: file.path, name: file.name, isDirectory: file.isDirectory, tags: [] };
+}
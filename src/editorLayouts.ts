@@ -0,0 +1,52 @@
+import type { EditorLayout, EditorLayoutTab } from './models';
+
+/**
+ * Convert the paths of a layout, e.g. between absolute and workspace-relative
+ */
+export function mapEditorLayoutPaths(layout: EditorLayout, mapPath: (filePath: string) => string): EditorLayout {
+  return { ...layout, tabs: layout.tabs.map(tab => ({ ...tab, path: mapPath(tab.path) })) };
+}
+
+/**
+ * Keep only the tabs of the given files. Undefined when no tab is left.
+ */
+export function filterEditorLayout(layout: EditorLayout, filePaths: ReadonlySet<string>): EditorLayout | undefined {
+  const tabs = layout.tabs.filter(tab => filePaths.has(tab.path));
+  return tabs.length > 0 ? { ...layout, tabs } : undefined;
+}
+
+export function renameEditorLayoutPath(layout: EditorLayout, oldPath: string, newPath: string): EditorLayout {
+  return mapEditorLayoutPaths(layout, filePath => filePath === oldPath ? newPath : filePath);
+}
+
+export function removeEditorLayoutPath(layout: EditorLayout, deletedPath: string): EditorLayout | undefined {
+  return filterEditorLayout(layout, new Set(layout.tabs.map(tab => tab.path).filter(filePath => filePath !== deletedPath)));
+}
+
+/**
+ * Number columns 1, 2, 3… in their order, so a layout captured with empty
+ * columns between its tabs restores without gaps
+ */
+export function compactEditorLayoutColumns(layout: EditorLayout): EditorLayout {
+  const columns = [...new Set(layout.tabs.map(tab => tab.column))].sort((a, b) => a - b);
+  const toColumn = (column: number): number => columns.indexOf(column) + 1;
+  return {
+    ...layout,
+    tabs: layout.tabs.map(tab => ({ ...tab, column: toColumn(tab.column) })),
+    activeColumn: layout.activeColumn !== undefined && columns.includes(layout.activeColumn) ? toColumn(layout.activeColumn) : undefined
+  };
+}
+
+/**
+ * Order the steps that restore a layout: every tab column by column in tab
+ * order, then the active tab of each column again so it ends up in front,
+ * with the focused column's tab last
+ */
+export function getEditorLayoutRestoreOrder(layout: EditorLayout): { tabs: EditorLayoutTab[]; activeTabs: EditorLayoutTab[] } {
+  const tabs = [...layout.tabs].sort((a, b) => a.column - b.column);
+  const activeTabs = tabs
+    .filter(tab => tab.active)
+    .sort((a, b) => Number(a.column === layout.activeColumn) - Number(b.column === layout.activeColumn));
+
+  return { tabs, activeTabs };
+}
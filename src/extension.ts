@@ -2,28 +2,92 @@ import { execFile } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
-import { FileGroup, FileGroupTreeItem, GroupFile, GROUP_ICONS, GROUP_COLORS, generateId, isHexColor } from './models';
+import { ActivitySession, ConfigLayout, EditorLayout, EditorLayoutTab, FileGroup, FileGroupTreeItem, GroupFile, GroupFileAnchor, GroupFileSearchMatch, GroupSearchQuery, TagQueryGroup, TrashItem, GROUP_ICONS, GROUP_COLORS, OpenGroupedFileCommandArgs, generateId, isHexColor } from './models';
 import { CURRENT_USERNAME } from './userInfo';
 import { StorageService } from './storageService';
 import { FileGroupsProvider, FileGroupsDragDropController } from './fileGroupsProvider';
 import { FileGroupDecorationProvider } from './fileDecorationProvider';
 import { GroupEditorPanel } from './groupEditorPanel';
-import { CODEGROUP_LANGUAGE_CONFIGURATION_KEY, CodeGroupLanguage, countLabel, getLanguageLabel, getLanguageOptions, getLocalizedSmartGroupText, getWorkbenchLocale, normalizeCodeGroupLanguage, t } from './i18n';
-import { buildGroupedFileQuickOpenSections, makeRecentGroupFileKey, normalizeRecentGroupFileKeys } from './quickOpen';
+import { CODEGROUP_LANGUAGE_CONFIGURATION_KEY, CodeGroupLanguage, TranslationKey, countLabel, getLanguageLabel, getLanguageOptions, getLocalizedSmartGroupText, getWorkbenchLocale, normalizeCodeGroupLanguage, t } from './i18n';
+import {
+    FrecencyStore,
+    GroupedFileQuickOpenItem,
+    buildGroupedFileQuickOpenSections,
+    filterGroupedFileQuickOpenItems,
+    isEmptyQuickOpenQuery,
+    makeRecentGroupFileKey,
+    migrateRecentGroupFileKeys,
+    parseQuickOpenQuery,
+    recordFrecencyVisit
+} from './quickOpen';
 import { buildSharedGroupPayload, importSharedGroupPayload, isSharedGroupPayload } from './sharedGroups';
 import { SmartGroupSuggestion, suggestSmartGroups } from './smartGroups';
-import { isPathInsideWorkspace } from './pathUtils';
-import { buildGroupFilePathsText, collectGroupFilePaths } from './groupFilePaths';
+import { isPathInsideWorkspace, resolveWorkspacePath } from './pathUtils';
+import { buildGroupFilePathsText, buildGroupPath, buildSearchIncludePattern, canonicalFilePath, collectGroupFilePaths, findGroupsContainingFile } from './groupFilePaths';
 import { removeGroupedFilePath, renameGroupedFilePath } from './groupFileMaintenance';
+import { compactEditorLayoutColumns, filterEditorLayout, getEditorLayoutRestoreOrder } from './editorLayouts';
+import { getSessionFilePaths } from './sessionActivity';
+import { GroupStatusBar } from './groupStatusBar';
+import { isCoveredByBookmarks } from './groupDiagnostics';
+import { GroupNavigationStop, buildGroupNavigationStops, getAdjacentNavigationStop } from './groupNavigation';
 import { formatTags, parseTags } from './tags';
+import { MAX_DYNAMIC_GROUP_FILES, combineGlobPatterns, createGroupFilePatterns, isDynamicGroup, mergeDynamicGroupFiles, parseGlobPatterns } from './dynamicGroups';
+import {
+    MAX_GROUP_CONTENT_SEARCH_RESULTS,
+    MAX_SEARCH_FILE_BYTES,
+    MAX_SEARCH_GROUP_SCANNED_FILES,
+    SearchLineMatch,
+    createSearchMatcher,
+    findSearchMatchLines,
+    findSearchMatches,
+    getSearchGroupExcludePatterns,
+    getSearchQueryError,
+    mergeSearchGroupFiles,
+    parseSearchQueryInput,
+    updateSearchGroupFile
+} from './searchGroups';
+import { getTagQueryError, getTagQueryResultFiles } from './tagQueries';
+import { formatBranchPatterns, isGroupOnBranch, parseBranchPatterns } from './branchGroups';
+import { createFileTrashItems } from './trash';
+import { ConfigIssue, ConfigIssueKind, findConfigIssues, findSplitGroupFileIssues } from './configDiagnostics';
+import {
+    AnchorSelection,
+    AnchorSymbol,
+    AnchorTextChange,
+    createAnchorFromSelection,
+    createSymbolAnchor,
+    findAnchor,
+    formatAnchorLocation,
+    formatSymbolPath,
+    getSymbolChainAt,
+    rankSymbolMatches,
+    reanchorToSymbol,
+    resolveSymbolAnchor,
+    shiftGroupFileAnchors
+} from './anchors';
 
 let storageService: StorageService;
 let fileGroupsProvider: FileGroupsProvider;
 let fileDecorationProvider: FileGroupDecorationProvider;
 let treeView: vscode.TreeView<FileGroupTreeItem>;
+let groupStatusBar: GroupStatusBar;
+let dynamicGroupRefreshTimer: ReturnType<typeof setTimeout> | undefined;
+let sessionRefreshTimer: ReturnType<typeof setTimeout> | undefined;
+let diagnosticsRefreshTimer: ReturnType<typeof setTimeout> | undefined;
+/** Group last opened from the tree or stepped through with next/previous file, and the stop last stepped to */
+let navigationState: { groupId: string; stopIndex?: number } | undefined;
 
 const RECENT_GROUP_FILES_STORAGE_KEY = 'recentGroupFiles';
+const GROUP_FILE_FRECENCY_STORAGE_KEY = 'groupFileFrecency';
+const FOCUS_STATE_KEY = 'fileGroupsFocus';
+const CURRENT_GROUP_KEY = 'fileGroupsCurrentGroup';
+const FOCUS_ACTIVE_CONTEXT_KEY = 'fileGroups.focusActive';
+const SESSION_VISIBLE_CONTEXT_KEY = 'fileGroups.sessionVisible';
 const SMART_GROUP_FILE_LIMIT = 4000;
+const DYNAMIC_GROUP_REFRESH_DELAY_MS = 500;
+const SESSION_REFRESH_DELAY_MS = 1000;
+const DIAGNOSTICS_REFRESH_DELAY_MS = 1000;
+const CONFIG_VALIDATION_DELAY_MS = 1000;
 
 type PresetGroupOptions = {
     defaultName: string;
@@ -92,19 +156,20 @@ function dedupeGroupFiles(files: GroupFile[]): GroupFile[] {
     });
 }
 
-function getRecentGroupFileKeys(context: vscode.ExtensionContext): string[] {
-    const recentKeys = context.workspaceState.get<string[]>(RECENT_GROUP_FILES_STORAGE_KEY, []);
-    return normalizeRecentGroupFileKeys(recentKeys);
+/**
+ * Frecency of grouped files opened from CodeGroup, seeded from the recent
+ * list of earlier versions until the first visit is recorded
+ */
+function getGroupFileFrecency(context: vscode.ExtensionContext): FrecencyStore {
+    return context.workspaceState.get<FrecencyStore>(GROUP_FILE_FRECENCY_STORAGE_KEY)
+        ?? migrateRecentGroupFileKeys(context.workspaceState.get<string[]>(RECENT_GROUP_FILES_STORAGE_KEY, []), new Date());
 }
 
-async function rememberRecentGroupFile(context: vscode.ExtensionContext, groupId: string, filePath: string): Promise<void> {
-    const recentKeys = getRecentGroupFileKeys(context);
-    const nextKeys = normalizeRecentGroupFileKeys([
-        makeRecentGroupFileKey(groupId, filePath),
-        ...recentKeys
-    ]);
-
-    await context.workspaceState.update(RECENT_GROUP_FILES_STORAGE_KEY, nextKeys);
+async function recordGroupFileVisit(context: vscode.ExtensionContext, groupId: string, filePath: string): Promise<void> {
+    await context.workspaceState.update(
+        GROUP_FILE_FRECENCY_STORAGE_KEY,
+        recordFrecencyVisit(getGroupFileFrecency(context), makeRecentGroupFileKey(groupId, filePath), new Date())
+    );
 }
 
 async function openGroupFiles(groupId: string, includeSubgroups: boolean): Promise<void> {
@@ -119,21 +184,289 @@ async function openGroupFiles(groupId: string, includeSubgroups: boolean): Promi
         return;
     }
 
+    // Files added since the layout was captured open first, then the layout is restored on top
+    const layout = storageService.getGroup(groupId)?.layout;
+    const layoutToRestore = layout && filterEditorLayout(layout, new Set(uniqueFilePaths));
+    const layoutPaths = new Set(layoutToRestore?.tabs.map(tab => tab.path));
+
     await Promise.allSettled(
-        uniqueFilePaths.map((filePath) =>
+        uniqueFilePaths.filter(filePath => !layoutPaths.has(filePath)).map((filePath) =>
             vscode.commands.executeCommand('vscode.open', vscode.Uri.file(filePath), {
                 preview: false,
                 preserveFocus: true
             })
         )
     );
+
+    if (layoutToRestore) {
+        await restoreEditorLayout(layoutToRestore);
+    }
+}
+
+async function showEditorLayoutTab(tab: EditorLayoutTab, preserveFocus: boolean): Promise<void> {
+    try {
+        const editor = await vscode.window.showTextDocument(vscode.Uri.file(tab.path), {
+            viewColumn: tab.column,
+            preview: false,
+            preserveFocus,
+            selection: tab.selection && new vscode.Range(tab.selection.line, tab.selection.character, tab.selection.endLine, tab.selection.endCharacter)
+        });
+        if (tab.scrollLine !== undefined) {
+            editor.revealRange(new vscode.Range(tab.scrollLine, 0, tab.scrollLine, 0), vscode.TextEditorRevealType.AtTop);
+        }
+    } catch {
+        // The file was removed or cannot be shown as text
+    }
+}
+
+/**
+ * Open the tabs of a saved layout in their columns, pin the pinned ones and
+ * bring back the active tab of every column and the focused column
+ */
+async function restoreEditorLayout(layout: EditorLayout): Promise<void> {
+    const { tabs, activeTabs } = getEditorLayoutRestoreOrder(layout);
+    for (const tab of tabs) {
+        // Pinning acts on the focused editor
+        await showEditorLayoutTab(tab, !tab.pinned);
+        if (tab.pinned) {
+            await vscode.commands.executeCommand('workbench.action.pinEditor');
+        }
+    }
+
+    for (const [index, tab] of activeTabs.entries()) {
+        await showEditorLayoutTab(tab, index < activeTabs.length - 1);
+    }
+}
+
+/**
+ * Capture the open text editors showing files of a group, or all files when
+ * no group is given: their columns, pinned and active tabs, and the cursor
+ * and scroll position of visible ones
+ */
+function captureEditorLayout(filePaths?: ReadonlySet<string>): EditorLayout | undefined {
+    const tabs: EditorLayoutTab[] = [];
+    for (const tabGroup of vscode.window.tabGroups.all) {
+        for (const tab of tabGroup.tabs) {
+            const filePath = getTabFilePath(tab);
+            if (!(tab.input instanceof vscode.TabInputText) || !filePath || (filePaths && !filePaths.has(filePath))) {
+                continue;
+            }
+
+            const uri = tab.input.uri;
+            const editor = vscode.window.visibleTextEditors.find(visibleEditor =>
+                visibleEditor.viewColumn === tabGroup.viewColumn && visibleEditor.document.uri.toString() === uri.toString()
+            );
+            tabs.push({
+                path: uri.fsPath,
+                column: tabGroup.viewColumn,
+                pinned: tab.isPinned || undefined,
+                active: tab.isActive || undefined,
+                selection: editor && {
+                    line: editor.selection.anchor.line,
+                    character: editor.selection.anchor.character,
+                    endLine: editor.selection.active.line,
+                    endCharacter: editor.selection.active.character
+                },
+                scrollLine: editor?.visibleRanges[0]?.start.line
+            });
+        }
+    }
+
+    return tabs.length > 0
+        ? compactEditorLayoutColumns({ tabs, activeColumn: vscode.window.tabGroups.activeTabGroup.viewColumn })
+        : undefined;
+}
+
+/**
+ * The local file a tab shows, if any
+ */
+function getTabFilePath(tab: vscode.Tab): string | undefined {
+    const tabInput = tab.input;
+    if (tabInput && typeof tabInput === 'object' && 'uri' in tabInput) {
+        const tabUri = (tabInput as { uri: vscode.Uri }).uri;
+        if (tabUri.scheme === 'file') {
+            return tabUri.fsPath;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Close every text editor tab except those showing the given files. Tabs
+ * with unsaved changes stay open; returns how many were kept for that reason.
+ * Diffs, images, notebooks, webviews and terminals are left alone, since
+ * switching back only reopens text editors.
+ */
+async function closeTabsExcept(filePaths: ReadonlySet<string>): Promise<number> {
+    const tabsToClose: vscode.Tab[] = [];
+    let dirtyCount = 0;
+    for (const tabGroup of vscode.window.tabGroups.all) {
+        for (const tab of tabGroup.tabs) {
+            const filePath = getTabFilePath(tab);
+            if (!(tab.input instanceof vscode.TabInputText) || (filePath && filePaths.has(filePath))) {
+                continue;
+            }
+            if (tab.isDirty) {
+                dirtyCount++;
+                continue;
+            }
+            tabsToClose.push(tab);
+        }
+    }
+
+    if (tabsToClose.length > 0) {
+        try {
+            await vscode.window.tabGroups.close(tabsToClose, true);
+        } catch {
+            // Tabs might already be closed
+        }
+    }
+
+    return dirtyCount;
+}
+
+/** The group focus mode switched to, and the working set it replaced */
+interface FocusState {
+    groupId: string;
+    previous?: EditorLayout;
+}
+
+function getFocusState(context: vscode.ExtensionContext): FocusState | undefined {
+    return context.workspaceState.get<FocusState>(FOCUS_STATE_KEY);
+}
+
+async function setFocusState(context: vscode.ExtensionContext, state: FocusState | undefined): Promise<void> {
+    await context.workspaceState.update(FOCUS_STATE_KEY, state);
+    await vscode.commands.executeCommand('setContext', FOCUS_ACTIVE_CONTEXT_KEY, state !== undefined);
+}
+
+function toAnchorRange(anchor: GroupFileAnchor): vscode.Range {
+    const start = new vscode.Position(anchor.line, anchor.character ?? 0);
+    const end = anchor.endLine === undefined
+        ? start
+        : new vscode.Position(anchor.endLine, anchor.endCharacter ?? 0);
+    return new vscode.Range(start, end);
+}
+
+function toAnchorSelection(range: vscode.Range): AnchorSelection {
+    return {
+        startLine: range.start.line,
+        startCharacter: range.start.character,
+        endLine: range.end.line,
+        endCharacter: range.end.character
+    };
+}
+
+function toAnchorSymbol(symbol: vscode.DocumentSymbol | vscode.SymbolInformation): AnchorSymbol {
+    if ('children' in symbol) {
+        return {
+            name: symbol.name,
+            kind: symbol.kind,
+            range: toAnchorSelection(symbol.range),
+            selectionRange: toAnchorSelection(symbol.selectionRange),
+            children: symbol.children.map(toAnchorSymbol)
+        };
+    }
+
+    const range = toAnchorSelection(symbol.location.range);
+    return { name: symbol.name, kind: symbol.kind, range, selectionRange: range, children: [] };
+}
+
+/**
+ * Ask the language's document symbol provider for a file's symbols.
+ * Returns an empty list when no provider is available yet.
+ */
+async function getAnchorSymbols(uri: vscode.Uri): Promise<AnchorSymbol[]> {
+    try {
+        const symbols = await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[] | undefined>(
+            'vscode.executeDocumentSymbolProvider',
+            uri
+        );
+        return (symbols ?? []).map(toAnchorSymbol);
+    } catch {
+        return [];
+    }
+}
+
+function hasAnchorMoved(previous: GroupFileAnchor, next: GroupFileAnchor): boolean {
+    return previous.line !== next.line
+        || previous.character !== next.character
+        || Boolean(previous.symbolMissing) !== Boolean(next.symbolMissing);
+}
+
+/**
+ * Re-resolve symbol anchors against current document symbols, moving found
+ * anchors and flagging missing ones. `filePaths` limits the files checked and
+ * holds canonical paths. Returns the number of missing symbols.
+ */
+async function refreshSymbolAnchors(filePaths?: ReadonlySet<string>): Promise<number> {
+    const symbolsByPath = new Map<string, AnchorSymbol[]>();
+    /** Moved anchors by group id, then canonical file path, then anchor id */
+    const movedAnchors = new Map<string, Map<string, Map<string, GroupFileAnchor>>>();
+    let missingCount = 0;
+
+    for (const group of storageService.getAllGroups()) {
+        for (const file of group.files) {
+            const fileKey = canonicalFilePath(file.path);
+            if (!file.anchors?.some(anchor => anchor.symbol?.length) || (filePaths && !filePaths.has(fileKey)) || !fs.existsSync(file.path)) {
+                continue;
+            }
+
+            if (!symbolsByPath.has(fileKey)) {
+                symbolsByPath.set(fileKey, await getAnchorSymbols(vscode.Uri.file(file.path)));
+            }
+            const symbols = symbolsByPath.get(fileKey) ?? [];
+            if (symbols.length === 0) {
+                // No provider answered, so a missing symbol cannot be told apart from a missing language server
+                continue;
+            }
+
+            for (const anchor of file.anchors) {
+                const resolution = resolveSymbolAnchor(anchor, symbols);
+                missingCount += resolution.found ? 0 : 1;
+                if (hasAnchorMoved(anchor, resolution.anchor)) {
+                    const groupAnchors = movedAnchors.get(group.id) ?? new Map<string, Map<string, GroupFileAnchor>>();
+                    const fileAnchors = groupAnchors.get(fileKey) ?? new Map<string, GroupFileAnchor>();
+                    fileAnchors.set(anchor.id, resolution.anchor);
+                    groupAnchors.set(fileKey, fileAnchors);
+                    movedAnchors.set(group.id, groupAnchors);
+                }
+            }
+        }
+    }
+
+    // Symbol lookups are slow, so the moved anchors are written into the groups as they are now, in one save
+    const updates = new Map<string, (group: FileGroup) => GroupFile[] | undefined>();
+    for (const [groupId, groupAnchors] of movedAnchors) {
+        updates.set(groupId, (group) => {
+            let changed = false;
+            const files = group.files.map((file) => {
+                const fileAnchors = groupAnchors.get(canonicalFilePath(file.path));
+                if (!fileAnchors || !file.anchors?.some(anchor => fileAnchors.has(anchor.id))) {
+                    return file;
+                }
+
+                changed = true;
+                return { ...file, anchors: file.anchors.map(anchor => fileAnchors.get(anchor.id) ?? anchor) };
+            });
+            return changed ? files : undefined;
+        });
+    }
+
+    if (await storageService.updateGroupFiles(updates, { recordHistory: false })) {
+        fileGroupsProvider.refresh();
+    }
+
+    return missingCount;
 }
 
 async function openGroupedFile(
     context: vscode.ExtensionContext,
     groupId: string,
     filePath: string,
-    options?: vscode.TextDocumentShowOptions
+    options?: vscode.TextDocumentShowOptions,
+    anchorId?: string
 ): Promise<void> {
     const fileUri = vscode.Uri.file(filePath);
 
@@ -151,8 +484,42 @@ async function openGroupedFile(
         return;
     }
 
-    await vscode.commands.executeCommand('vscode.open', fileUri, options);
-    await rememberRecentGroupFile(context, groupId, filePath);
+    const storedFile = storageService.getGroup(groupId)?.files.find(file => file.path === filePath);
+    let anchor = findAnchor(storedFile, anchorId);
+    if (anchor?.symbol?.length) {
+        const symbols = await getAnchorSymbols(fileUri);
+        if (symbols.length > 0) {
+            const resolution = resolveSymbolAnchor(anchor, symbols);
+            if (hasAnchorMoved(anchor, resolution.anchor)) {
+                await storageService.updateAnchor(groupId, filePath, resolution.anchor, { recordHistory: false });
+                fileGroupsProvider.refresh();
+            }
+            anchor = resolution.anchor;
+
+            if (!resolution.found) {
+                // Still open the last known location, but offer to pick the symbol again
+                void vscode.window.showWarningMessage(
+                    t('anchor.symbol.missing.prompt', { symbol: formatSymbolPath(anchor.symbol), name: getFileName(filePath) }),
+                    t('action.reanchor')
+                ).then((selection) => {
+                    if (selection === t('action.reanchor')) {
+                        void vscode.commands.executeCommand('fileGroups.reanchorSymbol', { groupId, filePath, anchorId: resolution.anchor.id });
+                    }
+                });
+            }
+        }
+    }
+
+    const firstMatch = storedFile?.searchMatch;
+    const showOptions: vscode.TextDocumentShowOptions | undefined = anchor
+        ? { ...options, selection: toAnchorRange(anchor) }
+        : (firstMatch
+            ? { ...options, selection: new vscode.Range(firstMatch.line, firstMatch.character, firstMatch.line, firstMatch.character) }
+            : options);
+
+    await vscode.commands.executeCommand('vscode.open', fileUri, showOptions);
+    navigationState = { groupId };
+    await recordGroupFileVisit(context, groupId, filePath);
 }
 
 function getAllStoredGroups(): FileGroup[] {
@@ -303,6 +670,18 @@ async function collectGitChangedFiles(): Promise<GroupFile[] | undefined> {
     );
 }
 
+async function promoteSession(session: ActivitySession): Promise<void> {
+    await createPresetGroup({
+        defaultName: t('session.promote.name', { date: new Date(session.startedAt).toLocaleDateString() }),
+        prompt: t('session.promote.prompt'),
+        emptyMessage: t('session.empty'),
+        files: getSessionFilePaths(session).map(createFileGroupEntry),
+        icon: 'history',
+        color: 'charts.purple',
+        shortDescription: t('session.promote.summary')
+    });
+}
+
 async function createPresetGroup(options: PresetGroupOptions): Promise<void> {
     const files = dedupeGroupFiles(options.files);
     if (files.length === 0) {
@@ -390,6 +769,25 @@ async function checkForMissingFiles(): Promise<void> {
     }
 }
 
+/**
+ * Check symbol bookmarks for symbols that no longer exist and offer to re-anchor them
+ */
+async function checkForMissingSymbols(): Promise<void> {
+    const missingCount = await refreshSymbolAnchors();
+
+    if (missingCount > 0) {
+        const action = await vscode.window.showWarningMessage(
+            t('missingSymbols.startup.prompt', { count: missingCount }),
+            t('action.reanchor'),
+            t('action.ignore')
+        );
+
+        if (action === t('action.reanchor')) {
+            await vscode.commands.executeCommand('fileGroups.reanchorSymbol');
+        }
+    }
+}
+
 export async function activate(context: vscode.ExtensionContext) {
     // Initialize services
     storageService = new StorageService(context);
@@ -407,6 +805,15 @@ export async function activate(context: vscode.ExtensionContext) {
         vscode.window.registerFileDecorationProvider(fileDecorationProvider)
     );
 
+    // Show the groups of the active file in the status bar
+    groupStatusBar = new GroupStatusBar(
+        storageService,
+        fileDecorationProvider,
+        () => getCurrentGroup(context)?.id,
+        group => fileGroupsProvider.isGroupShownOnBranch(group)
+    );
+    context.subscriptions.push(groupStatusBar);
+
     // Create tree view with drag and drop support
     const dragDropController = new FileGroupsDragDropController(storageService, fileGroupsProvider);
 
@@ -438,7 +845,7 @@ export async function activate(context: vscode.ExtensionContext) {
         treeView.onDidCollapseElement((event) => {
             if (event.element.itemType === 'group') {
                 if (event.element.group) {
-                    void storageService.updateGroup(event.element.group.id, { collapsed: true });
+                    void storageService.updateGroup(event.element.group.id, { collapsed: true }, { recordHistory: false });
                 }
             }
         })
@@ -448,7 +855,7 @@ export async function activate(context: vscode.ExtensionContext) {
         treeView.onDidExpandElement((event) => {
             if (event.element.itemType === 'group') {
                 if (event.element.group) {
-                    void storageService.updateGroup(event.element.group.id, { collapsed: false });
+                    void storageService.updateGroup(event.element.group.id, { collapsed: false }, { recordHistory: false });
                 }
             }
         })
@@ -456,16 +863,236 @@ export async function activate(context: vscode.ExtensionContext) {
 
     // Set up file system watcher for file renames, deletes, and moves
     setupFileWatcher(context);
+    scheduleDynamicGroupRefresh();
+
+    // Keep line and range anchors on the same code while documents are edited
+    setupAnchorTracking(context);
+
+    // Record the files opened and edited in this work session
+    setupSessionActivityTracking(context);
+
+    // Update problem badges when diagnostics of grouped files change
+    setupDiagnosticsTracking(context);
+
+    // Show branch-scoped groups only on their branches
+    void setupBranchTracking(context);
+    setupConfigDiagnostics(context);
 
     // Register all commands
     registerCommands(context);
 
-    // Check for missing files after a short delay
+    // Check for missing files and symbols after a short delay
     setTimeout(() => {
         void checkForMissingFiles();
+        void checkForMissingSymbols();
     }, 3000);
 }
 
+/**
+ * Scan workspace files for a search group's query, skipping large and binary files
+ */
+async function findSearchGroupMatches(search: GroupSearchQuery): Promise<Map<string, GroupFileSearchMatch>> {
+    const matches = new Map<string, GroupFileSearchMatch>();
+    const matcher = createSearchMatcher(search);
+    if (!matcher) {
+        return matches;
+    }
+
+    const uris = await vscode.workspace.findFiles(
+        combineGlobPatterns(search.include) ?? '**/*',
+        combineGlobPatterns(getSearchExcludePatterns(search)),
+        MAX_SEARCH_GROUP_SCANNED_FILES
+    );
+
+    for (const uri of uris) {
+        // The config stores the query itself, so it would always match
+        if (uri.scheme !== 'file' || storageService.isConfigFile(uri)) {
+            continue;
+        }
+        if (matches.size >= MAX_DYNAMIC_GROUP_FILES) {
+            break;
+        }
+
+        const text = await readSearchableFile(uri);
+        const match = text === undefined ? undefined : findSearchMatches(text, matcher);
+        if (match) {
+            matches.set(uri.fsPath, match);
+        }
+    }
+
+    return matches;
+}
+
+/**
+ * Exclude patterns of a search group, falling back to the user's `search.exclude` setting
+ */
+function getSearchExcludePatterns(search: Pick<GroupSearchQuery, 'exclude'> = {}): string[] {
+    return getSearchGroupExcludePatterns(search, vscode.workspace.getConfiguration('search').get<Record<string, unknown>>('exclude'));
+}
+
+/**
+ * Whether a document is among the files a search group scans
+ */
+function isInSearchScope(search: GroupSearchQuery, document: vscode.TextDocument): boolean {
+    const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+    if (document.uri.scheme !== 'file' || !folder) {
+        return false;
+    }
+
+    const matches = (pattern: string) => vscode.languages.match({ pattern: new vscode.RelativePattern(folder, pattern) }, document) > 0;
+    const include = combineGlobPatterns(search.include);
+    const exclude = combineGlobPatterns(getSearchExcludePatterns(search));
+    return (!include || matches(include)) && (!exclude || !matches(exclude));
+}
+
+/**
+ * Re-check a saved file against the search groups that scan it, instead of
+ * rescanning the workspace
+ */
+async function refreshSearchGroupsForFile(document: vscode.TextDocument, groups: readonly FileGroup[]): Promise<void> {
+    const text = await readSearchableFile(document.uri);
+    const updates = new Map<string, (group: FileGroup) => GroupFile[] | undefined>();
+
+    for (const group of groups) {
+        const matcher = group.search && createSearchMatcher(group.search);
+        if (!matcher) {
+            continue;
+        }
+
+        // A query changed meanwhile triggers a full rescan, so this result is dropped
+        const query = JSON.stringify(group.search);
+        const match = text === undefined ? undefined : findSearchMatches(text, matcher);
+        updates.set(group.id, current => JSON.stringify(current.search) === query
+            ? updateSearchGroupFile(current.files, document.uri.fsPath, match, createFileGroupEntry)
+            : undefined);
+    }
+
+    if (await storageService.updateGroupFiles(updates, { recordHistory: false })) {
+        fileGroupsProvider.refresh();
+        fileDecorationProvider.refresh([document.uri]);
+    }
+}
+
+/**
+ * Text of a file for content searches, or undefined for large, binary and unreadable files
+ */
+async function readSearchableFile(uri: vscode.Uri): Promise<string | undefined> {
+    try {
+        const stat = await vscode.workspace.fs.stat(uri);
+        if (stat.size > MAX_SEARCH_FILE_BYTES) {
+            return undefined;
+        }
+
+        const content = await vscode.workspace.fs.readFile(uri);
+        return content.includes(0) ? undefined : new TextDecoder().decode(content);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Files a content search of a group and its subgroups reads: bookmarked files
+ * plus the files under bookmarked folders, with the scope and cap of the
+ * Search view and search group scans
+ */
+async function collectSearchableGroupFiles(group: FileGroup): Promise<string[]> {
+    const groups = storageService.getGroups();
+    const directories = new Set(groups.flatMap(candidate => candidate.files).filter(file => file.isDirectory).map(file => path.normalize(file.path)));
+    const filePaths = new Set<string>();
+    const exclude = combineGlobPatterns(getSearchExcludePatterns());
+
+    for (const entryPath of collectGroupFilePaths(group.id, groups, () => true, { includeSubgroups: true, includeDirectories: true })) {
+        if (filePaths.size >= MAX_SEARCH_GROUP_SCANNED_FILES) {
+            break;
+        }
+        if (!directories.has(entryPath)) {
+            filePaths.add(entryPath);
+            continue;
+        }
+
+        const uris = await vscode.workspace.findFiles(
+            new vscode.RelativePattern(vscode.Uri.file(entryPath), '**/*'),
+            exclude,
+            MAX_SEARCH_GROUP_SCANNED_FILES - filePaths.size
+        );
+        for (const uri of uris) {
+            if (uri.scheme === 'file') {
+                filePaths.add(uri.fsPath);
+            }
+        }
+    }
+
+    return [...filePaths];
+}
+
+/**
+ * Recompute the files of every dynamic group from its glob patterns or saved search.
+ * Scans run first and their results are merged into the groups as they are
+ * once the scans finish, so edits made meanwhile are not overwritten.
+ */
+async function refreshDynamicGroups(): Promise<void> {
+    const updates = new Map<string, (group: FileGroup) => GroupFile[] | undefined>();
+
+    for (const group of storageService.getAllGroups()) {
+        if (!isDynamicGroup(group)) {
+            continue;
+        }
+
+        // Results of a query that changed during the scan are dropped, the change schedules another refresh
+        const query = JSON.stringify(group.search ?? group.patterns);
+        const isSameQuery = (current: FileGroup) => JSON.stringify(current.search ?? current.patterns) === query;
+
+        if (group.search) {
+            const matches = await findSearchGroupMatches(group.search);
+            updates.set(group.id, current => {
+                const merge = isSameQuery(current) ? mergeSearchGroupFiles(current.files, matches, createFileGroupEntry) : undefined;
+                return merge?.changed ? merge.files : undefined;
+            });
+            continue;
+        }
+
+        const include = combineGlobPatterns(group.patterns?.include);
+        if (!include) {
+            continue;
+        }
+
+        const uris = await vscode.workspace.findFiles(include, combineGlobPatterns(group.patterns?.exclude), MAX_DYNAMIC_GROUP_FILES);
+        const filePaths = uris.filter(uri => uri.scheme === 'file').map(uri => uri.fsPath);
+        updates.set(group.id, current => {
+            const merge = isSameQuery(current) ? mergeDynamicGroupFiles(current.files, filePaths, createFileGroupEntry) : undefined;
+            return merge?.changed ? merge.files : undefined;
+        });
+    }
+
+    if (await storageService.updateGroupFiles(updates, { recordHistory: false })) {
+        fileGroupsProvider.refresh();
+        fileDecorationProvider.refresh();
+    }
+}
+
+/**
+ * The patterns and queries of every dynamic group as one comparable string
+ */
+function getDynamicGroupQueries(): string {
+    return JSON.stringify(storageService.getAllGroups()
+        .filter(isDynamicGroup)
+        .map(group => [group.id, group.patterns, group.search]));
+}
+
+/**
+ * Batch bursts of file events (checkouts, builds) into one dynamic group refresh
+ */
+function scheduleDynamicGroupRefresh(): void {
+    if (dynamicGroupRefreshTimer) {
+        clearTimeout(dynamicGroupRefreshTimer);
+    }
+
+    dynamicGroupRefreshTimer = setTimeout(() => {
+        dynamicGroupRefreshTimer = undefined;
+        void refreshDynamicGroups();
+    }, DYNAMIC_GROUP_REFRESH_DELAY_MS);
+}
+
 /**
  * Set up file system watcher to handle renamed, deleted, and moved files
  */
@@ -477,16 +1104,51 @@ function setupFileWatcher(context: vscode.ExtensionContext) {
     fileWatcher.onDidDelete(async (uri) => {
         const deletedPath = uri.fsPath;
         const groups = storageService.getAllGroups();
+        // Dynamic groups recompute their files, so only static bookmarks are worth restoring
+        const trashItems = createFileTrashItems(
+            groups,
+            (file, group) => file.path === deletedPath && !isDynamicGroup(group),
+            'fileDeleted',
+            generateId,
+            new Date().toISOString()
+        );
         const changed = removeGroupedFilePath(groups, deletedPath) > 0;
 
         if (changed) {
-            await storageService.saveGroups(groups);
+            await storageService.saveGroups(groups, { recordHistory: false });
+            await storageService.addToTrash(trashItems);
             fileGroupsProvider.refresh();
         }
     });
 
+    // New files may match the patterns of a dynamic group
+    fileWatcher.onDidCreate(() => scheduleDynamicGroupRefresh());
+
     context.subscriptions.push(fileWatcher);
 
+    // Saved files may start or stop matching a search group's query
+    context.subscriptions.push(
+        vscode.workspace.onDidSaveTextDocument(document => {
+            if (storageService.isConfigFile(document.uri)) {
+                return;
+            }
+            const searchGroups = storageService.getAllGroups().filter(group => group.search && isInSearchScope(group.search, document));
+            if (searchGroups.length > 0) {
+                void refreshSearchGroupsForFile(document, searchGroups);
+            }
+        })
+    );
+
+    // Trash, session and view changes fire too; only edited patterns or queries need a rescan
+    let dynamicGroupQueries = getDynamicGroupQueries();
+    context.subscriptions.push(storageService.onDidChange(() => {
+        const queries = getDynamicGroupQueries();
+        if (queries !== dynamicGroupQueries) {
+            dynamicGroupQueries = queries;
+            scheduleDynamicGroupRefresh();
+        }
+    }));
+
     // Watch for file renames/moves using the onDidRenameFiles event
     context.subscriptions.push(
         vscode.workspace.onDidRenameFiles(async (event) => {
@@ -499,8 +1161,11 @@ function setupFileWatcher(context: vscode.ExtensionContext) {
                 changed = renameGroupedFilePath(groups, oldPath, newPath) > 0 || changed;
             }
 
+            // A renamed file can move in or out of a dynamic group's patterns
+            scheduleDynamicGroupRefresh();
+
             if (changed) {
-                await storageService.saveGroups(groups);
+                await storageService.saveGroups(groups, { recordHistory: false });
                 fileGroupsProvider.refresh();
                 fileDecorationProvider.refresh();
             }
@@ -508,13 +1173,396 @@ function setupFileWatcher(context: vscode.ExtensionContext) {
     );
 }
 
-async function pickGroupForCommand(placeHolder: string, initialItem?: FileGroupTreeItem): Promise<FileGroup | undefined> {
-    if (initialItem && initialItem.itemType === 'group') {
-        return initialItem.group || undefined;
-    }
+/**
+ * Shift line and range anchors when text above or around them is edited.
+ * Anchors describe the file as saved, so edits are kept per document and
+ * applied when it is saved, and dropped when it is reverted or closed unsaved.
+ */
+function setupAnchorTracking(context: vscode.ExtensionContext) {
+    let pendingUpdate = Promise.resolve();
+    const unsavedChanges = new Map<string, AnchorTextChange[]>();
 
-    const groups = storageService.getGroups();
-    if (groups.length === 0) {
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeTextDocument((event) => {
+            if (event.document.uri.scheme !== 'file' || event.contentChanges.length === 0) {
+                return;
+            }
+
+            const documentPath = canonicalFilePath(event.document.uri.fsPath);
+            // Reverting or undoing back to the saved text leaves the anchors as they are
+            if (!event.document.isDirty) {
+                unsavedChanges.delete(documentPath);
+                return;
+            }
+
+            const changes: AnchorTextChange[] = event.contentChanges.map((change) => ({
+                startLine: change.range.start.line,
+                startCharacter: change.range.start.character,
+                endLine: change.range.end.line,
+                endCharacter: change.range.end.character,
+                text: change.text
+            }));
+            unsavedChanges.set(documentPath, [...(unsavedChanges.get(documentPath) ?? []), ...changes]);
+        }),
+        vscode.workspace.onDidCloseTextDocument((document) => {
+            unsavedChanges.delete(canonicalFilePath(document.uri.fsPath));
+        }),
+        vscode.workspace.onDidSaveTextDocument((document) => {
+            if (document.uri.scheme !== 'file') {
+                return;
+            }
+
+            const documentPath = canonicalFilePath(document.uri.fsPath);
+            const changes = unsavedChanges.get(documentPath);
+            unsavedChanges.delete(documentPath);
+
+            // Serialize updates so quick saves never write from a stale snapshot
+            pendingUpdate = pendingUpdate.then(async () => {
+                const groups = storageService.getAllGroups();
+                const anchoredFiles = groups.flatMap(group => group.files)
+                    .filter(file => file.anchors?.length && canonicalFilePath(file.path) === documentPath);
+                if (changes && anchoredFiles.length > 0 && shiftGroupFileAnchors(anchoredFiles, changes) > 0) {
+                    await storageService.saveGroups(groups, { recordHistory: false });
+                    fileGroupsProvider.refresh();
+                }
+            }).catch((error: unknown) => {
+                console.error('Failed to update CodeGroup anchors:', error);
+            }).then(async () => {
+                // Symbol anchors are re-resolved on save, when the symbol provider sees the final text
+                await refreshSymbolAnchors(new Set([documentPath]));
+            }).catch((error: unknown) => {
+                console.error('Failed to resolve CodeGroup symbol anchors:', error);
+            });
+        })
+    );
+}
+
+/**
+ * Record workspace files as they are opened or edited, whether or not they
+ * belong to a group. The Session Activity section refreshes at most once a second.
+ */
+function setupSessionActivityTracking(context: vscode.ExtensionContext) {
+    let pendingUpdate = Promise.resolve();
+
+    const record = (uri: vscode.Uri, kind: 'open' | 'edit') => {
+        if (uri.scheme !== 'file' || !vscode.workspace.getWorkspaceFolder(uri)) {
+            return;
+        }
+
+        // Serialize updates so quick editor switches never save from a stale snapshot
+        pendingUpdate = pendingUpdate.then(async () => {
+            const changed = await storageService.recordSessionActivity(uri.fsPath, kind);
+            if (changed && storageService.isSessionActivityVisible() && !sessionRefreshTimer) {
+                sessionRefreshTimer = setTimeout(() => {
+                    sessionRefreshTimer = undefined;
+                    fileGroupsProvider.refresh();
+                }, SESSION_REFRESH_DELAY_MS);
+            }
+        }).catch((error: unknown) => {
+            console.error('Failed to record CodeGroup session activity:', error);
+        });
+    };
+
+    context.subscriptions.push(
+        vscode.window.onDidChangeActiveTextEditor((editor) => {
+            if (editor) {
+                record(editor.document.uri, 'open');
+            }
+        }),
+        vscode.workspace.onDidChangeTextDocument((event) => {
+            if (event.contentChanges.length > 0) {
+                record(event.document.uri, 'edit');
+            }
+        })
+    );
+
+    if (vscode.window.activeTextEditor) {
+        record(vscode.window.activeTextEditor.document.uri, 'open');
+    }
+}
+
+function setupDiagnosticsTracking(context: vscode.ExtensionContext) {
+    context.subscriptions.push(
+        vscode.languages.onDidChangeDiagnostics((event) => {
+            if (diagnosticsRefreshTimer) {
+                return;
+            }
+
+            // Diagnostics change on almost every keystroke, so only grouped files refresh the tree
+            const bookmarks = storageService.getGroups().flatMap(group => group.files);
+            if (!event.uris.some(uri => uri.scheme === 'file' && isCoveredByBookmarks(uri.fsPath, bookmarks))) {
+                return;
+            }
+
+            diagnosticsRefreshTimer = setTimeout(() => {
+                diagnosticsRefreshTimer = undefined;
+                fileGroupsProvider.refresh();
+            }, DIAGNOSTICS_REFRESH_DELAY_MS);
+        })
+    );
+}
+
+/**
+ * Read the branch checked out in a folder. Returns undefined outside a repository or on a detached HEAD.
+ */
+async function getCurrentGitBranch(workspaceRoot: string): Promise<string | undefined> {
+    try {
+        return (await runGitCommand(['symbolic-ref', '--short', '-q', 'HEAD'], workspaceRoot)).trim() || undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Follow git checkouts in every workspace folder by watching each repository's
+ * HEAD file, and re-check when the window regains focus in case a watcher
+ * missed a change.
+ */
+async function setupBranchTracking(context: vscode.ExtensionContext): Promise<void> {
+    const headWatchers = new Map<string, vscode.Disposable>();
+
+    const updateBranches = async (): Promise<void> => {
+        const branches = new Map<string, string | undefined>();
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            branches.set(folder.uri.fsPath, await getCurrentGitBranch(folder.uri.fsPath));
+        }
+        fileGroupsProvider.setCurrentBranches(branches);
+        groupStatusBar.refresh();
+    };
+
+    // Folders can share a repository or have none; each gets its own watcher when it has one
+    const watchHeads = async (): Promise<void> => {
+        const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+        const roots = new Set(workspaceFolders.map(folder => folder.uri.fsPath));
+        for (const [root, watcher] of headWatchers) {
+            if (!roots.has(root)) {
+                watcher.dispose();
+                headWatchers.delete(root);
+            }
+        }
+
+        for (const folder of workspaceFolders) {
+            const workspaceRoot = folder.uri.fsPath;
+            if (headWatchers.has(workspaceRoot)) {
+                continue;
+            }
+
+            let gitDir: string;
+            try {
+                gitDir = (await runGitCommand(['rev-parse', '--absolute-git-dir'], workspaceRoot)).trim();
+            } catch {
+                continue;
+            }
+
+            const headWatcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(vscode.Uri.file(gitDir), 'HEAD'));
+            headWatcher.onDidChange(() => void updateBranches());
+            headWatcher.onDidCreate(() => void updateBranches());
+            headWatchers.set(workspaceRoot, headWatcher);
+        }
+    };
+
+    await updateBranches();
+
+    context.subscriptions.push(
+        vscode.window.onDidChangeWindowState((state) => {
+            if (state.focused) {
+                void updateBranches();
+            }
+        }),
+        vscode.workspace.onDidChangeWorkspaceFolders(() => {
+            void watchHeads();
+            void updateBranches();
+        }),
+        new vscode.Disposable(() => headWatchers.forEach(watcher => watcher.dispose()))
+    );
+
+    await watchHeads();
+}
+
+const CONFIG_ISSUE_KEYS: Record<ConfigIssueKind, TranslationKey> = {
+    duplicateId: 'configIssue.duplicateId',
+    danglingParent: 'configIssue.danglingParent',
+    parentCycle: 'configIssue.parentCycle',
+    missingPath: 'configIssue.missingPath'
+};
+
+/**
+ * Report problems the JSON schema cannot express in open group config files
+ * and split layout group files: duplicate ids, dangling or cyclic parents and
+ * paths that don't exist.
+ */
+function setupConfigDiagnostics(context: vscode.ExtensionContext): void {
+    const diagnostics = vscode.languages.createDiagnosticCollection('codegroup');
+    context.subscriptions.push(diagnostics);
+
+    const findIssues = async (document: vscode.TextDocument, text: string): Promise<ConfigIssue[] | undefined> => {
+        // Local configs store paths relative to their workspace folder, global ones absolute paths
+        const pathExists = (workspaceRoot: string | undefined) => async (storedPath: string): Promise<boolean> => {
+            try {
+                await vscode.workspace.fs.stat(vscode.Uri.file(workspaceRoot ? resolveWorkspacePath(storedPath, workspaceRoot) : storedPath));
+                return true;
+            } catch {
+                return false;
+            }
+        };
+
+        const configFile = storageService.getConfigFileScope(document.uri);
+        if (configFile) {
+            return findConfigIssues(text, pathExists(configFile.scope === 'local' ? configFile.workspaceRoot : undefined));
+        }
+
+        // A group file of the split layout is checked against the other group files of its folder
+        const folder = storageService.getSplitGroupFileFolder(document.uri);
+        if (!folder) {
+            return undefined;
+        }
+        const groupTexts = await storageService.readSplitGroupFiles(folder);
+        for (const openDocument of vscode.workspace.textDocuments) {
+            if (groupTexts.has(openDocument.uri.toString())) {
+                groupTexts.set(openDocument.uri.toString(), openDocument.getText());
+            }
+        }
+        groupTexts.delete(document.uri.toString());
+        return findSplitGroupFileIssues(text, [...groupTexts.values()], pathExists(folder.uri.fsPath));
+    };
+
+    const validate = async (document: vscode.TextDocument): Promise<void> => {
+        const version = document.version;
+        const issues = await findIssues(document, document.getText());
+        // A newer validation of an edited document follows
+        if (!issues || document.isClosed || document.version !== version) {
+            return;
+        }
+
+        diagnostics.set(document.uri, issues.map((issue) => {
+            const diagnostic = new vscode.Diagnostic(
+                new vscode.Range(document.positionAt(issue.offset), document.positionAt(issue.offset + issue.length)),
+                t(CONFIG_ISSUE_KEYS[issue.kind], { value: issue.value }),
+                issue.kind === 'missingPath' ? vscode.DiagnosticSeverity.Warning : vscode.DiagnosticSeverity.Error
+            );
+            diagnostic.source = 'CodeGroup';
+            diagnostic.code = issue.kind;
+            return diagnostic;
+        }));
+    };
+
+    // Editing one group file of the split layout can fix or cause issues in the others
+    const validateWithRelated = (document: vscode.TextDocument): void => {
+        const folder = storageService.getSplitGroupFileFolder(document.uri);
+        const related = folder
+            ? vscode.workspace.textDocuments.filter(openDocument => storageService.getSplitGroupFileFolder(openDocument.uri)?.uri.toString() === folder.uri.toString())
+            : [document];
+        related.forEach(openDocument => void validate(openDocument));
+    };
+
+    // Typing changes the text on every keystroke, so edits are validated once they pause
+    const validationTimers = new Map<string, ReturnType<typeof setTimeout>>();
+    const scheduleValidation = (document: vscode.TextDocument): void => {
+        if (!storageService.isConfigFile(document.uri)) {
+            return;
+        }
+
+        const key = document.uri.toString();
+        clearTimeout(validationTimers.get(key));
+        validationTimers.set(key, setTimeout(() => {
+            validationTimers.delete(key);
+            validateWithRelated(document);
+        }, CONFIG_VALIDATION_DELAY_MS));
+    };
+
+    vscode.workspace.textDocuments.forEach(document => void validate(document));
+    context.subscriptions.push(
+        vscode.workspace.onDidOpenTextDocument(document => void validate(document)),
+        vscode.workspace.onDidChangeTextDocument(event => scheduleValidation(event.document)),
+        vscode.workspace.onDidCloseTextDocument((document) => {
+            clearTimeout(validationTimers.get(document.uri.toString()));
+            validationTimers.delete(document.uri.toString());
+            diagnostics.delete(document.uri);
+        }),
+        new vscode.Disposable(() => validationTimers.forEach(timer => clearTimeout(timer)))
+    );
+}
+
+/**
+ * Group that quick-add commands add to without asking, chosen from the status bar
+ */
+function getCurrentGroup(context: vscode.ExtensionContext): FileGroup | undefined {
+    const groupId = context.workspaceState.get<string>(CURRENT_GROUP_KEY);
+    return groupId ? storageService.getGroup(groupId) : undefined;
+}
+
+async function setCurrentGroup(context: vscode.ExtensionContext, groupId: string | undefined): Promise<void> {
+    await context.workspaceState.update(CURRENT_GROUP_KEY, groupId);
+    groupStatusBar.refresh();
+}
+
+async function pickQuickAddGroup(context: vscode.ExtensionContext, placeHolder: string): Promise<FileGroup | undefined> {
+    return getCurrentGroup(context) ?? pickGroupForCommand(placeHolder);
+}
+
+/**
+ * Open the next or previous file or bookmark of the group being walked through.
+ * The group is the one last navigated if it holds the active file, otherwise
+ * the current quick-add group or a group containing the file.
+ */
+async function navigateGroupFiles(context: vscode.ExtensionContext, direction: 1 | -1): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    const filePath = editor?.document.uri.scheme === 'file' ? editor.document.uri.fsPath : undefined;
+    const includeSubgroups = vscode.workspace.getConfiguration('codegroup').get<boolean>('navigation.includeSubgroups', false);
+    const isSamePath = (left: string, right: string) => canonicalFilePath(left) === canonicalFilePath(right);
+    const getStops = async (group: FileGroup) => buildGroupNavigationStops(await fileGroupsProvider.getFilesInTreeOrder(group, includeSubgroups));
+
+    const navigationGroup = navigationState ? storageService.getGroup(navigationState.groupId) : undefined;
+    const candidates = [
+        navigationGroup,
+        getCurrentGroup(context),
+        ...(filePath ? findGroupsContainingFile(storageService.getGroups(), filePath) : [])
+    ];
+
+    let group: FileGroup | undefined;
+    let stops: GroupNavigationStop[] = [];
+    for (const candidate of candidates) {
+        if (!candidate || !filePath) {
+            continue;
+        }
+        const candidateStops = await getStops(candidate);
+        if (candidateStops.some(stop => isSamePath(stop.filePath, filePath))) {
+            group = candidate;
+            stops = candidateStops;
+            break;
+        }
+    }
+
+    if (!group) {
+        group = navigationGroup ?? await pickGroupForCommand(t('navigation.pick'));
+        if (!group) {
+            return;
+        }
+        stops = await getStops(group);
+    }
+
+    // The same file can be a stop more than once, so continue from the stop last stepped to
+    const stopIndex = navigationState?.groupId === group.id ? navigationState.stopIndex : undefined;
+    const position = filePath && editor ? { filePath, line: editor.selection.active.line, stopIndex } : undefined;
+    const index = getAdjacentNavigationStop(stops, position, direction, isSamePath);
+    if (index === undefined) {
+        vscode.window.showInformationMessage(t('navigation.empty', { name: group.name }));
+        return;
+    }
+
+    const stop = stops[index];
+    await openGroupedFile(context, stop.groupId, stop.filePath, undefined, stop.anchorId);
+    // Stepping into a subgroup keeps walking the group it started from
+    navigationState = { groupId: group.id, stopIndex: index };
+}
+
+async function pickGroupForCommand(placeHolder: string, initialItem?: FileGroupTreeItem): Promise<FileGroup | undefined> {
+    if (initialItem && initialItem.itemType === 'group') {
+        return initialItem.group || undefined;
+    }
+
+    const groups = storageService.getGroups();
+    if (groups.length === 0) {
         vscode.window.showInformationMessage(t('group.select.none'));
         return undefined;
     }
@@ -632,6 +1680,271 @@ function registerCommands(context: vscode.ExtensionContext) {
         })
     );
 
+    // Create a group whose files are computed live from glob patterns
+    context.subscriptions.push(
+        vscode.commands.registerCommand('fileGroups.createDynamicGroup', async () => {
+            const name = await vscode.window.showInputBox({
+                prompt: t('group.create.prompt'),
+                placeHolder: t('dynamic.name.placeholder')
+            });
+            if (!name) {
+                return;
+            }
+
+            const include = await vscode.window.showInputBox({
+                prompt: t('dynamic.include.prompt'),
+                placeHolder: 'src/**/auth/**',
+                ignoreFocusOut: true
+            });
+            if (!include?.trim()) {
+                return;
+            }
+
+            const exclude = await vscode.window.showInputBox({
+                prompt: t('dynamic.exclude.prompt'),
+                placeHolder: '*.test.ts; *.spec.ts',
+                ignoreFocusOut: true
+            });
+            if (exclude === undefined) {
+                return;
+            }
+
+            const groups = getAllStoredGroups();
+            const newGroup: FileGroup = {
+                id: generateId(),
+                name,
+                icon: 'filter',
+                color: '',
+                files: [],
+                patterns: createGroupFilePatterns(include, exclude),
+                order: groups.length,
+                parentId: undefined,
+                createdBy: CURRENT_USERNAME,
+                collapsed: false
+            };
+            await storageService.createGroup(newGroup);
+            await refreshDynamicGroups();
+            fileGroupsProvider.refresh();
+
+            const fileCount = storageService.getGroup(newGroup.id)?.files.length ?? 0;
+            void vscode.window.showInformationMessage(t('preset.created', {
+                name,
+                count: fileCount,
+                fileLabel: fileCount === 1 ? t('noun.file.one') : t('noun.file.other')
+            }));
+        })
+    );
+
+    // Create a group from every file matching a saved text or regex query
+    context.subscriptions.push(
+        vscode.commands.registerCommand('fileGroups.createSearchGroup', async () => {
+            const modes = [
+                { label: `$(whole-word) ${t('search.mode.text')}`, isRegex: false, matchCase: false },
+                { label: `$(case-sensitive) ${t('search.mode.matchCase')}`, isRegex: false, matchCase: true },
+                { label: `$(regex) ${t('search.mode.regex')}`, isRegex: true, matchCase: true }
+            ];
+            const mode = await vscode.window.showQuickPick(modes, { placeHolder: t('search.mode.pick') });
+            if (!mode) {
+                return;
+            }
+
+            const query = await vscode.window.showInputBox({
+                prompt: t('search.query.prompt'),
+                placeHolder: mode.isRegex ? 'FeatureFlag\\.(Checkout|Billing)' : '@deprecated',
+                ignoreFocusOut: true,
+                validateInput: (value) => {
+                    if (value.length === 0) {
+                        return t('search.query.required');
+                    }
+                    const error = getSearchQueryError({ query: value, isRegex: mode.isRegex });
+                    return error ? t('search.query.invalidRegex', { error }) : undefined;
+                }
+            });
+            if (!query) {
+                return;
+            }
+
+            const include = await vscode.window.showInputBox({
+                prompt: t('search.include.prompt'),
+                placeHolder: 'src/**; docs/**',
+                ignoreFocusOut: true
+            });
+            if (include === undefined) {
+                return;
+            }
+
+            const name = await vscode.window.showInputBox({
+                prompt: t('group.create.prompt'),
+                value: query
+            });
+            if (!name) {
+                return;
+            }
+
+            const includePatterns = parseGlobPatterns(include);
+            const search: GroupSearchQuery = {
+                query,
+                isRegex: mode.isRegex || undefined,
+                matchCase: mode.matchCase || undefined,
+                include: includePatterns.length > 0 ? includePatterns : undefined
+            };
+
+            const groups = getAllStoredGroups();
+            const newGroup: FileGroup = {
+                id: generateId(),
+                name,
+                icon: 'search',
+                color: '',
+                files: [],
+                search,
+                order: groups.length,
+                parentId: undefined,
+                createdBy: CURRENT_USERNAME,
+                collapsed: false
+            };
+            await storageService.createGroup(newGroup);
+            await refreshDynamicGroups();
+            fileGroupsProvider.refresh();
+
+            const fileCount = storageService.getGroup(newGroup.id)?.files.length ?? 0;
+            void vscode.window.showInformationMessage(t('preset.created', {
+                name,
+                count: fileCount,
+                fileLabel: fileCount === 1 ? t('noun.file.one') : t('noun.file.other')
+            }));
+        })
+    );
+
+    // Recompute dynamic group membership on demand
+    context.subscriptions.push(
+        vscode.commands.registerCommand('fileGroups.refreshDynamicGroups', async () => {
+            await refreshDynamicGroups();
+        })
+    );
+
+    // Tag-query virtual groups
+    const promptTagQuery = async (existing?: TagQueryGroup): Promise<Pick<TagQueryGroup, 'name' | 'expression'> | undefined> => {
+        const expression = await vscode.window.showInputBox({
+            prompt: t('tagQuery.expression.prompt'),
+            placeHolder: '#api AND (#auth OR #billing) AND NOT #legacy',
+            value: existing?.expression,
+            ignoreFocusOut: true,
+            validateInput: value => getTagQueryError(value)
+        });
+        if (!expression) {
+            return undefined;
+        }
+
+        const name = await vscode.window.showInputBox({
+            prompt: t('group.create.prompt'),
+            value: existing?.name ?? expression
+        });
+        return name ? { name, expression: expression.trim() } : undefined;
+    };
+
+    const pickTagQuery = async (item?: FileGroupTreeItem): Promise<TagQueryGroup | undefined> => {
+        if (item?.tagQuery) {
+            return item.tagQuery;
+        }
+
+        const picked = await vscode.window.showQuickPick(
+            storageService.getTagQueries().map(tagQuery => ({ label: `$(tag) ${tagQuery.name}`, description: tagQuery.expression, tagQuery })),
+            { placeHolder: t('tagQuery.pick') }
+        );
+        return picked?.tagQuery;
+    };
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('fileGroups.createTagQuery', async () => {
+            const input = await promptTagQuery();
+            if (!input) {
+                return;
+            }
+
+            await storageService.saveTagQueries([...storageService.getTagQueries(), { id: generateId(), ...input }]);
+            fileGroupsProvider.refresh();
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('fileGroups.editTagQuery', async (item?: FileGroupTreeItem) => {
+            const tagQuery = await pickTagQuery(item);
+            const input = tagQuery ? await promptTagQuery(tagQuery) : undefined;
+            if (!tagQuery || !input) {
+                return;
+            }
+
+            await storageService.saveTagQueries(storageService.getTagQueries().map(existing =>
+                existing.id === tagQuery.id ? { ...existing, ...input } : existing
+            ));
+            fileGroupsProvider.refresh();
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('fileGroups.deleteTagQuery', async (item?: FileGroupTreeItem) => {
+            const tagQuery = await pickTagQuery(item);
+            if (!tagQuery) {
+                return;
+            }
+
+            const confirm = await vscode.window.showWarningMessage(
+                t('tagQuery.delete.confirm', { name: tagQuery.name }),
+                { modal: true },
+                t('action.delete')
+            );
+            if (confirm === t('action.delete')) {
+                await storageService.saveTagQueries(storageService.getTagQueries().filter(existing => existing.id !== tagQuery.id));
+                fileGroupsProvider.refresh();
+            }
+        })
+    );
+
+    // Copy a tag query's current result into a real, editable group
+    context.subscriptions.push(
+        vscode.commands.registerCommand('fileGroups.materializeTagQuery', async (item?: FileGroupTreeItem) => {
+            const tagQuery = await pickTagQuery(item);
+            if (!tagQuery) {
+                return;
+            }
+
+            const files = getTagQueryResultFiles(fileGroupsProvider.getTagQueryResult(tagQuery));
+            if (files.length === 0) {
+                void vscode.window.showInformationMessage(t('tagQuery.materialize.empty', { name: tagQuery.name }));
+                return;
+            }
+
+            const name = await vscode.window.showInputBox({
+                prompt: t('group.create.prompt'),
+                value: tagQuery.name
+            });
+            if (!name) {
+                return;
+            }
+
+            const groups = getAllStoredGroups();
+            await storageService.createGroup({
+                id: generateId(),
+                name,
+                icon: 'tag',
+                color: '',
+                files,
+                order: groups.length,
+                parentId: undefined,
+                createdBy: CURRENT_USERNAME,
+                collapsed: false
+            });
+            fileGroupsProvider.refresh();
+            fileDecorationProvider.refresh(files.map(file => vscode.Uri.file(file.path)));
+
+            void vscode.window.showInformationMessage(t('preset.created', {
+                name,
+                count: files.length,
+                fileLabel: files.length === 1 ? t('noun.file.one') : t('noun.file.other')
+            }));
+        })
+    );
+
     // Create a group from open editors
     context.subscriptions.push(
         vscode.commands.registerCommand('fileGroups.createGroupFromOpenEditors', async () => {
@@ -951,7 +2264,7 @@ function registerCommands(context: vscode.ExtensionContext) {
             const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
             const { recentItems, otherItems } = buildGroupedFileQuickOpenSections(
                 groups,
-                getRecentGroupFileKeys(context),
+                getGroupFileFrecency(context),
                 workspaceRoot
             );
 
@@ -970,7 +2283,7 @@ function registerCommands(context: vscode.ExtensionContext) {
                 return;
             }
 
-            const toQuickPickItem = (item: typeof recentItems[number]): GroupedFileQuickPickItem => ({
+            const toQuickPickItem = (item: GroupedFileQuickOpenItem): GroupedFileQuickPickItem => ({
                 label: item.fileName,
                 description: item.groupIsGlobal ? `${item.groupTrail} • global` : item.groupTrail,
                 detail: item.detail,
@@ -978,28 +2291,48 @@ function registerCommands(context: vscode.ExtensionContext) {
                 filePath: item.filePath
             });
 
-            const quickPickItems: GroupedFileQuickPickItem[] = [];
+            const sectionItems: GroupedFileQuickPickItem[] = [];
 
             if (recentItems.length > 0) {
-                quickPickItems.push({
+                sectionItems.push({
                     label: t('quickOpen.separator.recent'),
                     kind: vscode.QuickPickItemKind.Separator
                 });
-                quickPickItems.push(...recentItems.map(toQuickPickItem));
+                sectionItems.push(...recentItems.map(toQuickPickItem));
             }
 
             if (otherItems.length > 0) {
-                quickPickItems.push({
+                sectionItems.push({
                     label: recentItems.length > 0 ? t('quickOpen.separator.all') : t('quickOpen.separator.grouped'),
                     kind: vscode.QuickPickItemKind.Separator
                 });
-                quickPickItems.push(...otherItems.map(toQuickPickItem));
+                sectionItems.push(...otherItems.map(toQuickPickItem));
             }
 
-            const selection = await vscode.window.showQuickPick(quickPickItems, {
-                placeHolder: t('quickOpen.placeholder'),
-                matchOnDescription: true,
-                matchOnDetail: true
+            // Results are scored here rather than by the quick pick, so they always show in ranked order
+            const allItems = [...recentItems, ...otherItems];
+            const quickPick = vscode.window.createQuickPick<GroupedFileQuickPickItem>();
+            quickPick.placeholder = t('quickOpen.placeholder');
+            quickPick.matchOnDescription = false;
+            quickPick.matchOnDetail = false;
+            quickPick.items = sectionItems;
+
+            const selection = await new Promise<GroupedFileQuickPickItem | undefined>((resolve) => {
+                quickPick.onDidChangeValue((value) => {
+                    const query = parseQuickOpenQuery(value);
+                    quickPick.items = isEmptyQuickOpenQuery(query)
+                        ? sectionItems
+                        : filterGroupedFileQuickOpenItems(allItems, query).map(item => ({ ...toQuickPickItem(item), alwaysShow: true }));
+                });
+                quickPick.onDidAccept(() => {
+                    resolve(quickPick.selectedItems[0]);
+                    quickPick.hide();
+                });
+                quickPick.onDidHide(() => {
+                    resolve(undefined);
+                    quickPick.dispose();
+                });
+                quickPick.show();
             });
 
             if (!selection?.groupId || !selection.filePath) {
@@ -1012,12 +2345,164 @@ function registerCommands(context: vscode.ExtensionContext) {
 
     // Open a grouped file and track it for quick access recents
     context.subscriptions.push(
-        vscode.commands.registerCommand('fileGroups.openGroupedFile', async (args?: { groupId?: string; filePath?: string }) => {
+        vscode.commands.registerCommand('fileGroups.openGroupedFile', async (args?: Partial<OpenGroupedFileCommandArgs>) => {
             if (!args?.groupId || !args.filePath) {
                 return;
             }
 
-            await openGroupedFile(context, args.groupId, args.filePath);
+            await openGroupedFile(context, args.groupId, args.filePath, undefined, args.anchorId);
+        })
+    );
+
+    // Bookmark the current editor selection (or line) inside a group
+    context.subscriptions.push(
+        vscode.commands.registerCommand('fileGroups.addSelectionToGroup', async () => {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor || editor.document.uri.scheme !== 'file') {
+                void vscode.window.showWarningMessage(t('anchor.add.noEditor'));
+                return;
+            }
+
+            if (storageService.getGroups().length === 0) {
+                const create = await vscode.window.showInformationMessage(
+                    t('explorer.add.noGroups'),
+                    t('action.createGroup')
+                );
+                if (create === t('action.createGroup')) {
+                    await vscode.commands.executeCommand('fileGroups.createGroup');
+                }
+                return;
+            }
+
+            const targetGroup = await pickQuickAddGroup(context, t('anchor.add.pick'));
+            if (!targetGroup) {
+                return;
+            }
+
+            const selection = editor.selection;
+            const selectedText = selection.isEmpty
+                ? editor.document.lineAt(selection.start.line).text
+                : editor.document.getText(selection).split(/\r?\n/)[0];
+            const anchor = createAnchorFromSelection({
+                startLine: selection.start.line,
+                startCharacter: selection.start.character,
+                endLine: selection.end.line,
+                endCharacter: selection.end.character
+            }, generateId, selectedText);
+
+            const filePath = editor.document.uri.fsPath;
+            await storageService.addAnchorToFile(targetGroup.id, createFileGroupEntry(filePath), anchor);
+            fileGroupsProvider.refresh();
+            fileDecorationProvider.refresh([editor.document.uri]);
+            void vscode.window.showInformationMessage(t('anchor.add.done', {
+                location: formatAnchorLocation(anchor),
+                name: getFileName(filePath),
+                group: targetGroup.name
+            }));
+        })
+    );
+
+    // Bookmark the symbol under the cursor so the bookmark follows it when code moves
+    context.subscriptions.push(
+        vscode.commands.registerCommand('fileGroups.addSymbolToGroup', async () => {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor || editor.document.uri.scheme !== 'file') {
+                void vscode.window.showWarningMessage(t('anchor.add.noEditor'));
+                return;
+            }
+
+            const position = editor.selection.active;
+            const chain = getSymbolChainAt(await getAnchorSymbols(editor.document.uri), position.line, position.character);
+            const anchor = createSymbolAnchor(chain, generateId);
+            if (!anchor) {
+                void vscode.window.showWarningMessage(t('anchor.symbol.none'));
+                return;
+            }
+
+            const targetGroup = await pickQuickAddGroup(context, t('anchor.add.pick'));
+            if (!targetGroup) {
+                return;
+            }
+
+            const filePath = editor.document.uri.fsPath;
+            await storageService.addAnchorToFile(targetGroup.id, createFileGroupEntry(filePath), anchor);
+            fileGroupsProvider.refresh();
+            fileDecorationProvider.refresh([editor.document.uri]);
+            void vscode.window.showInformationMessage(t('anchor.add.done', {
+                location: formatSymbolPath(anchor.symbol),
+                name: getFileName(filePath),
+                group: targetGroup.name
+            }));
+        })
+    );
+
+    // Point a symbol bookmark at a new symbol, suggesting the nearest matches first
+    context.subscriptions.push(
+        vscode.commands.registerCommand('fileGroups.reanchorSymbol', async (target?: FileGroupTreeItem | Partial<OpenGroupedFileCommandArgs>) => {
+            let groupId: string | undefined;
+            let filePath: string | undefined;
+            let anchor: GroupFileAnchor | undefined;
+
+            if (target instanceof FileGroupTreeItem) {
+                groupId = target.group?.id;
+                filePath = target.file?.path;
+                anchor = target.anchor;
+            } else if (target?.groupId && target.filePath) {
+                groupId = target.groupId;
+                filePath = target.filePath;
+                anchor = findAnchor(storageService.getGroup(groupId)?.files.find(file => file.path === filePath), target.anchorId);
+            } else {
+                const missing = storageService.getAllGroups().flatMap(group => group.files.flatMap(file =>
+                    (file.anchors ?? [])
+                        .filter(item => item.symbolMissing)
+                        .map(item => ({
+                            label: `$(warning) ${formatSymbolPath(item.symbol)}`,
+                            description: `${file.name} • ${group.name}`,
+                            groupId: group.id,
+                            filePath: file.path,
+                            anchor: item
+                        }))
+                ));
+                if (missing.length === 0) {
+                    void vscode.window.showInformationMessage(t('anchor.reanchor.noneMissing'));
+                    return;
+                }
+
+                const selected = await vscode.window.showQuickPick(missing, {
+                    placeHolder: t('anchor.reanchor.pickAnchor'),
+                    matchOnDescription: true
+                });
+                groupId = selected?.groupId;
+                filePath = selected?.filePath;
+                anchor = selected?.anchor;
+            }
+
+            if (!groupId || !filePath || !anchor) {
+                return;
+            }
+
+            const matches = rankSymbolMatches(anchor, await getAnchorSymbols(vscode.Uri.file(filePath)));
+            if (matches.length === 0) {
+                void vscode.window.showInformationMessage(t('anchor.reanchor.noMatches', { name: getFileName(filePath) }));
+                return;
+            }
+
+            const selected = await vscode.window.showQuickPick(matches.map(match => ({
+                label: formatSymbolPath(match.path),
+                description: `L${match.symbol.selectionRange.startLine + 1}`,
+                match
+            })), {
+                placeHolder: t('anchor.reanchor.pick', { symbol: formatSymbolPath(anchor.symbol) || formatAnchorLocation(anchor) }),
+                matchOnDescription: true
+            });
+            if (!selected) {
+                return;
+            }
+
+            const reanchored = reanchorToSymbol(anchor, selected.match);
+            await storageService.updateAnchor(groupId, filePath, reanchored);
+            fileGroupsProvider.refresh();
+            void vscode.window.showInformationMessage(t('anchor.reanchor.done', { symbol: formatSymbolPath(reanchored.symbol) }));
         })
     );
 
@@ -1123,6 +2608,83 @@ function registerCommands(context: vscode.ExtensionContext) {
         })
     );
 
+    // Edit the Markdown note attached to a single bookmark
+    context.subscriptions.push(
+        vscode.commands.registerCommand('fileGroups.editFileNote', async (item?: FileGroupTreeItem) => {
+            let targetGroup = item?.group ?? undefined;
+            let targetFile = item?.file;
+
+            if (!targetGroup || !targetFile) {
+                const candidates = storageService.getGroups().flatMap(group => group.files.map(file => ({
+                    label: file.name,
+                    description: group.name,
+                    detail: file.note,
+                    group,
+                    file
+                })));
+                const selected = await vscode.window.showQuickPick(candidates, {
+                    placeHolder: t('note.file.pick'),
+                    matchOnDescription: true,
+                    matchOnDetail: true
+                });
+                targetGroup = selected?.group;
+                targetFile = selected?.file;
+            }
+
+            if (!targetGroup || !targetFile) {
+                return;
+            }
+
+            const value = await vscode.window.showInputBox({
+                prompt: t('note.file.prompt', { name: targetFile.name }),
+                placeHolder: t('note.placeholder'),
+                value: targetFile.note ?? '',
+                ignoreFocusOut: true
+            });
+            if (value === undefined) {
+                return;
+            }
+
+            const trimmed = value.trim();
+            await storageService.updateFileInGroup(targetGroup.id, targetFile.path, {
+                note: trimmed.length > 0 ? trimmed : undefined
+            });
+            fileGroupsProvider.refresh();
+            void vscode.window.showInformationMessage(t('note.updated'));
+        })
+    );
+
+    // Bind a group to git branches so it only shows while one of them is checked out
+    context.subscriptions.push(
+        vscode.commands.registerCommand('fileGroups.setGroupBranches', async (item?: FileGroupTreeItem) => {
+            const targetGroup = await pickGroupForCommand(t('branches.pick'), item);
+            if (!targetGroup) {
+                return;
+            }
+
+            const currentBranch = fileGroupsProvider.getCurrentBranch(targetGroup);
+            const value = await vscode.window.showInputBox({
+                prompt: t('branches.prompt', { name: targetGroup.name }),
+                placeHolder: 'feature/checkout, release/*',
+                value: targetGroup.branches?.length ? formatBranchPatterns(targetGroup.branches) : currentBranch,
+                ignoreFocusOut: true
+            });
+            if (value === undefined) {
+                return;
+            }
+
+            const branches = parseBranchPatterns(value);
+            await storageService.updateGroup(targetGroup.id, { branches: branches.length > 0 ? branches : undefined });
+            fileGroupsProvider.refresh();
+
+            if (!isGroupOnBranch({ branches }, currentBranch)) {
+                void vscode.window.showInformationMessage(t('branches.hidden', { name: targetGroup.name, branch: currentBranch ?? '' }));
+            } else {
+                void vscode.window.showInformationMessage(t('branches.updated'));
+            }
+        })
+    );
+
     // Consolidated group actions hub to keep the context menu focused
     context.subscriptions.push(
         vscode.commands.registerCommand('fileGroups.groupActions', async (item?: FileGroupTreeItem) => {
@@ -1163,6 +2725,13 @@ function registerCommands(context: vscode.ExtensionContext) {
                     description: t('groupActions.duplicate.description'),
                     actionId: 'duplicate'
                 },
+                {
+                    label: t('groupActions.branches.label'),
+                    description: targetGroup.branches?.length
+                        ? formatBranchPatterns(targetGroup.branches)
+                        : t('groupActions.branches.description'),
+                    actionId: 'branches'
+                },
                 {
                     label: t('groupActions.copyPaths.label'),
                     description: t('groupActions.copyPaths.description'),
@@ -1173,6 +2742,21 @@ function registerCommands(context: vscode.ExtensionContext) {
                     description: t('groupActions.export.description'),
                     actionId: 'export'
                 },
+                {
+                    label: t('groupActions.layout.label'),
+                    description: targetGroup.layout ? t('groupActions.layout.saved') : t('groupActions.layout.description'),
+                    actionId: 'layout'
+                },
+                ...(targetGroup.layout ? [{
+                    label: t('groupActions.clearLayout.label'),
+                    description: t('groupActions.clearLayout.description'),
+                    actionId: 'clear-layout'
+                }] : []),
+                ...(!targetGroup.isGlobal ? [{
+                    label: targetGroup.isPrivate ? t('groupActions.shared.label') : t('groupActions.private.label'),
+                    description: targetGroup.isPrivate ? t('groupActions.shared.description') : t('groupActions.private.description'),
+                    actionId: targetGroup.isPrivate ? 'shared' : 'private'
+                }] : []),
                 ...(targetGroup.parentId ? [{
                     label: t('groupActions.moveRoot.label'),
                     description: t('groupActions.moveRoot.description'),
@@ -1211,12 +2795,27 @@ function registerCommands(context: vscode.ExtensionContext) {
                 case 'unpin':
                     await vscode.commands.executeCommand('fileGroups.unpinGroup', targetItem);
                     return;
+                case 'layout':
+                    await vscode.commands.executeCommand('fileGroups.updateGroupLayout', targetItem);
+                    return;
+                case 'clear-layout':
+                    await vscode.commands.executeCommand('fileGroups.clearGroupLayout', targetItem);
+                    return;
+                case 'private':
+                    await vscode.commands.executeCommand('fileGroups.makeGroupPrivate', targetItem);
+                    return;
+                case 'shared':
+                    await vscode.commands.executeCommand('fileGroups.makeGroupShared', targetItem);
+                    return;
                 case 'sort':
                     await vscode.commands.executeCommand('fileGroups.sortFiles', targetItem);
                     return;
                 case 'duplicate':
                     await vscode.commands.executeCommand('fileGroups.duplicateGroup', targetItem);
                     return;
+                case 'branches':
+                    await vscode.commands.executeCommand('fileGroups.setGroupBranches', targetItem);
+                    return;
                 case 'copy-paths':
                     await vscode.commands.executeCommand('fileGroups.copyFilePaths', targetItem);
                     return;
@@ -1236,6 +2835,39 @@ function registerCommands(context: vscode.ExtensionContext) {
         })
     );
 
+    // Undo and redo changes to local and global groups
+    const showUndoNotification = (message: string): void => {
+        void vscode.window.showInformationMessage(message, t('action.undo')).then((action) => {
+            if (action === t('action.undo')) {
+                void vscode.commands.executeCommand('fileGroups.undo');
+            }
+        });
+    };
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('fileGroups.undo', async () => {
+            if (!await storageService.undo()) {
+                void vscode.window.showInformationMessage(t('undo.nothing'));
+                return;
+            }
+
+            fileGroupsProvider.refresh();
+            fileDecorationProvider.refresh();
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('fileGroups.redo', async () => {
+            if (!await storageService.redo()) {
+                void vscode.window.showInformationMessage(t('redo.nothing'));
+                return;
+            }
+
+            fileGroupsProvider.refresh();
+            fileDecorationProvider.refresh();
+        })
+    );
+
     // Delete a group (with confirmation for children)
     context.subscriptions.push(
         vscode.commands.registerCommand('fileGroups.deleteGroup', async (item: FileGroupTreeItem) => {
@@ -1258,6 +2890,7 @@ function registerCommands(context: vscode.ExtensionContext) {
                     await storageService.deleteGroup(item.group.id);
                     fileGroupsProvider.refresh();
                     fileDecorationProvider.refresh(uris);
+                    showUndoNotification(t('undo.groupDeleted', { name: item.group.name }));
                 }
             }
         })
@@ -1296,6 +2929,7 @@ function registerCommands(context: vscode.ExtensionContext) {
                     await storageService.deleteGroup(selected.groupId);
                     fileGroupsProvider.refresh();
                     fileDecorationProvider.refresh(uris);
+                    showUndoNotification(t('undo.groupDeleted', { name: selected.groupName }));
                 }
             }
         })
@@ -1468,36 +3102,92 @@ function registerCommands(context: vscode.ExtensionContext) {
                 return;
             }
 
-            const trimmed = value.trim();
-            await storageService.updateGroup(targetGroup.id, {
-                details: trimmed.length > 0 ? trimmed : undefined
-            });
+            const trimmed = value.trim();
+            await storageService.updateGroup(targetGroup.id, {
+                details: trimmed.length > 0 ? trimmed : undefined
+            });
+            fileGroupsProvider.refresh();
+        })
+    );
+
+    // Pin group to top
+    context.subscriptions.push(
+        vscode.commands.registerCommand('fileGroups.pinGroup', async (item?: FileGroupTreeItem) => {
+            const targetGroup = await pickGroupForCommand(t('group.pin.pick'), item);
+            if (!targetGroup) {
+                return;
+            }
+
+            await storageService.updateGroup(targetGroup.id, { pinned: true });
+            fileGroupsProvider.refresh();
+        })
+    );
+
+    // Unpin group
+    context.subscriptions.push(
+        vscode.commands.registerCommand('fileGroups.unpinGroup', async (item?: FileGroupTreeItem) => {
+            const targetGroup = await pickGroupForCommand(t('group.unpin.pick'), item);
+            if (!targetGroup) {
+                return;
+            }
+
+            await storageService.updateGroup(targetGroup.id, { pinned: false });
+            fileGroupsProvider.refresh();
+        })
+    );
+
+    // Capture or forget the editor layout restored when a group is opened
+    context.subscriptions.push(
+        vscode.commands.registerCommand('fileGroups.updateGroupLayout', async (item?: FileGroupTreeItem) => {
+            const targetGroup = await pickGroupForCommand(t('layout.pick'), item);
+            if (!targetGroup) {
+                return;
+            }
+
+            const filePaths = collectGroupFilePaths(targetGroup.id, storageService.getGroups(), () => true, { includeSubgroups: true });
+            const layout = captureEditorLayout(new Set(filePaths));
+            if (!layout) {
+                vscode.window.showInformationMessage(t('layout.noEditors', { name: targetGroup.name }));
+                return;
+            }
+
+            await storageService.updateGroup(targetGroup.id, { layout });
+            fileGroupsProvider.refresh();
+            vscode.window.showInformationMessage(t('layout.saved', {
+                name: targetGroup.name,
+                count: layout.tabs.length,
+                columns: new Set(layout.tabs.map(tab => tab.column)).size
+            }));
+        }),
+        vscode.commands.registerCommand('fileGroups.clearGroupLayout', async (item?: FileGroupTreeItem) => {
+            const targetGroup = await pickGroupForCommand(t('layout.clear.pick'), item);
+            if (!targetGroup?.layout) {
+                return;
+            }
+
+            await storageService.updateGroup(targetGroup.id, { layout: undefined });
             fileGroupsProvider.refresh();
         })
     );
 
-    // Pin group to top
+    // Keep a group out of the team config, or move it back
     context.subscriptions.push(
-        vscode.commands.registerCommand('fileGroups.pinGroup', async (item?: FileGroupTreeItem) => {
-            const targetGroup = await pickGroupForCommand(t('group.pin.pick'), item);
-            if (!targetGroup) {
+        vscode.commands.registerCommand('fileGroups.makeGroupPrivate', async (item?: FileGroupTreeItem) => {
+            const targetGroup = await pickGroupForCommand(t('group.private.pick'), item);
+            if (!targetGroup || targetGroup.isGlobal) {
                 return;
             }
 
-            await storageService.updateGroup(targetGroup.id, { pinned: true });
+            await storageService.setGroupPrivate(targetGroup.id, true);
             fileGroupsProvider.refresh();
-        })
-    );
-
-    // Unpin group
-    context.subscriptions.push(
-        vscode.commands.registerCommand('fileGroups.unpinGroup', async (item?: FileGroupTreeItem) => {
-            const targetGroup = await pickGroupForCommand(t('group.unpin.pick'), item);
-            if (!targetGroup) {
+        }),
+        vscode.commands.registerCommand('fileGroups.makeGroupShared', async (item?: FileGroupTreeItem) => {
+            const targetGroup = await pickGroupForCommand(t('group.shared.pick'), item);
+            if (!targetGroup || targetGroup.isGlobal) {
                 return;
             }
 
-            await storageService.updateGroup(targetGroup.id, { pinned: false });
+            await storageService.setGroupPrivate(targetGroup.id, false);
             fileGroupsProvider.refresh();
         })
     );
@@ -1654,10 +3344,239 @@ function registerCommands(context: vscode.ExtensionContext) {
                 return;
             }
 
+            const currentGroup = getCurrentGroup(context);
+            if (currentGroup) {
+                if (await storageService.addFileToGroup(currentGroup.id, createFileGroupEntry(fileUri.fsPath))) {
+                    fileGroupsProvider.refresh();
+                    fileDecorationProvider.refresh([fileUri]);
+                    void vscode.window.showInformationMessage(t('statusBar.added', { name: getFileName(fileUri.fsPath), group: currentGroup.name }));
+                }
+                return;
+            }
+
             await vscode.commands.executeCommand('fileGroups.addFile', fileUri, [fileUri]);
         })
     );
 
+    // Status bar picker: jump to, add to or remove from the groups of the active file
+    context.subscriptions.push(
+        vscode.commands.registerCommand('fileGroups.showActiveFileGroups', async () => {
+            const fileUri = vscode.window.activeTextEditor?.document.uri;
+            if (!fileUri || fileUri.scheme !== 'file') {
+                vscode.window.showWarningMessage(t('editorTab.add.none'));
+                return;
+            }
+
+            const filePath = fileUri.fsPath;
+            // Groups hidden on the checked-out branch can't be revealed or added to
+            const groups = storageService.getGroups().filter(group => fileGroupsProvider.isGroupShownOnBranch(group));
+            const groupsById = new Map(groups.map(group => [group.id, group]));
+            const fileGroups = findGroupsContainingFile(groups, filePath);
+            const currentGroup = getCurrentGroup(context);
+            const toGroupItem = (group: FileGroup) => ({
+                label: `$(${group.icon || 'folder'}) ${buildGroupPath(group, groupsById)}`,
+                description: group.id === currentGroup?.id ? t('statusBar.current') : undefined,
+                group
+            });
+            const pickGroup = async (choices: FileGroup[], placeHolder: string) =>
+                (await vscode.window.showQuickPick(choices.map(toGroupItem), { placeHolder }))?.group;
+
+            type ActiveFileGroupsItem = vscode.QuickPickItem & { action?: 'reveal' | 'add' | 'remove' | 'set-current' | 'clear-current'; group?: FileGroup };
+            const items: ActiveFileGroupsItem[] = [];
+            if (fileGroups.length > 0) {
+                items.push({ label: t('statusBar.separator.groups'), kind: vscode.QuickPickItemKind.Separator });
+                items.push(...fileGroups.map(group => ({ ...toGroupItem(group), action: 'reveal' as const })));
+            }
+            items.push({ label: t('statusBar.separator.actions'), kind: vscode.QuickPickItemKind.Separator });
+            items.push({ label: `$(add) ${t('statusBar.action.add')}`, action: 'add' });
+            if (fileGroups.length > 0) {
+                items.push({ label: `$(remove) ${t('statusBar.action.remove')}`, action: 'remove' });
+            }
+            items.push({ label: `$(target) ${t('statusBar.action.setCurrent')}`, action: 'set-current' });
+            if (currentGroup) {
+                items.push({ label: `$(close) ${t('statusBar.action.clearCurrent', { name: currentGroup.name })}`, action: 'clear-current' });
+            }
+
+            const selected = await vscode.window.showQuickPick(items, { placeHolder: getFileName(filePath) });
+            switch (selected?.action) {
+                case 'reveal':
+                    await treeView.reveal(new FileGroupTreeItem('group', selected.group!), { focus: true, select: true, expand: true });
+                    return;
+                case 'add': {
+                    const fileGroupIds = new Set(fileGroups.map(group => group.id));
+                    const choices = groups.filter(group => !fileGroupIds.has(group.id));
+                    if (choices.length === 0) {
+                        vscode.window.showInformationMessage(t('group.select.none'));
+                        return;
+                    }
+
+                    const targetGroup = await pickGroup(choices, t('explorer.add.pick', { count: 1 }));
+                    if (targetGroup && await storageService.addFileToGroup(targetGroup.id, createFileGroupEntry(filePath))) {
+                        fileGroupsProvider.refresh();
+                        fileDecorationProvider.refresh([fileUri]);
+                    }
+                    return;
+                }
+                case 'remove': {
+                    // Removing from the only group holding the file needs no choice; adding always asks
+                    const targetGroup = fileGroups.length === 1 ? fileGroups[0] : await pickGroup(fileGroups, t('statusBar.remove.pick'));
+                    if (targetGroup) {
+                        // The stored path may differ in case or separators on Windows
+                        const storedPath = targetGroup.files.find(file => canonicalFilePath(file.path) === canonicalFilePath(filePath))?.path;
+                        await storageService.removeFileFromGroup(targetGroup.id, storedPath ?? filePath);
+                        fileGroupsProvider.refresh();
+                        fileDecorationProvider.refresh([fileUri]);
+                    }
+                    return;
+                }
+                case 'set-current': {
+                    const targetGroup = await pickGroupForCommand(t('statusBar.setCurrent.pick'));
+                    if (targetGroup) {
+                        await setCurrentGroup(context, targetGroup.id);
+                    }
+                    return;
+                }
+                case 'clear-current':
+                    await setCurrentGroup(context, undefined);
+                    return;
+            }
+        })
+    );
+
+    // Search only within a group's files and folders, including its subgroups
+    context.subscriptions.push(
+        vscode.commands.registerCommand('fileGroups.searchInGroup', async (item?: FileGroupTreeItem) => {
+            const targetGroup = await pickGroupForCommand(t('groupSearch.pick'), item);
+            if (!targetGroup) {
+                return;
+            }
+
+            const paths = collectGroupFilePaths(targetGroup.id, storageService.getGroups(), () => true, { includeSubgroups: true, includeDirectories: true });
+            if (paths.length === 0) {
+                vscode.window.showInformationMessage(t('groupSearch.noFiles', { name: targetGroup.name }));
+                return;
+            }
+
+            const isMultiRoot = (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+            const filesToInclude = buildSearchIncludePattern(paths, (filePath) => {
+                const relativePath = vscode.workspace.asRelativePath(filePath, isMultiRoot);
+                return path.isAbsolute(relativePath) ? undefined : relativePath;
+            });
+            await vscode.commands.executeCommand('workbench.action.findInFiles', { filesToInclude, triggerSearch: true });
+        }),
+        vscode.commands.registerCommand('fileGroups.findInGroupFiles', async (item?: FileGroupTreeItem) => {
+            const targetGroup = await pickGroupForCommand(t('groupSearch.pick'), item);
+            if (!targetGroup) {
+                return;
+            }
+
+            const filePaths = await collectSearchableGroupFiles(targetGroup);
+            if (filePaths.length === 0) {
+                vscode.window.showInformationMessage(t('groupSearch.noFiles', { name: targetGroup.name }));
+                return;
+            }
+
+            type MatchItem = vscode.QuickPickItem & { filePath?: string; match?: SearchLineMatch };
+            const quickPick = vscode.window.createQuickPick<MatchItem>();
+            const title = t('groupSearch.title', { name: targetGroup.name });
+            quickPick.title = title;
+            quickPick.placeholder = t('groupSearch.placeholder');
+            let searchTimer: ReturnType<typeof setTimeout> | undefined;
+            let generation = 0;
+
+            const runSearch = async (value: string) => {
+                const currentGeneration = ++generation;
+                const search = parseSearchQueryInput(value);
+                const matcher = createSearchMatcher(search);
+                const error = getSearchQueryError(search);
+                quickPick.title = error ? t('search.query.invalidRegex', { error }) : title;
+                if (!matcher) {
+                    quickPick.items = [];
+                    quickPick.busy = false;
+                    return;
+                }
+
+                quickPick.busy = true;
+                const items: MatchItem[] = [];
+                let matchCount = 0;
+                for (const filePath of filePaths) {
+                    if (currentGeneration !== generation || matchCount >= MAX_GROUP_CONTENT_SEARCH_RESULTS) {
+                        break;
+                    }
+
+                    const text = await readSearchableFile(vscode.Uri.file(filePath));
+                    const matches = text === undefined ? [] : findSearchMatchLines(text, matcher, MAX_GROUP_CONTENT_SEARCH_RESULTS - matchCount);
+                    if (matches.length === 0) {
+                        continue;
+                    }
+
+                    matchCount += matches.length;
+                    items.push({ label: vscode.workspace.asRelativePath(filePath), kind: vscode.QuickPickItemKind.Separator });
+                    // The picker filters on the typed text, which is a query here rather than a filter
+                    items.push(...matches.map(match => ({
+                        label: match.preview,
+                        description: `${getFileName(filePath)}:${match.line + 1}`,
+                        alwaysShow: true,
+                        filePath,
+                        match
+                    })));
+                }
+
+                if (currentGeneration !== generation) {
+                    return;
+                }
+                if (matchCount >= MAX_GROUP_CONTENT_SEARCH_RESULTS) {
+                    quickPick.title = t('groupSearch.truncated', { name: targetGroup.name, count: MAX_GROUP_CONTENT_SEARCH_RESULTS });
+                }
+                quickPick.items = items;
+                quickPick.busy = false;
+            };
+
+            quickPick.onDidChangeValue((value) => {
+                if (searchTimer) {
+                    clearTimeout(searchTimer);
+                }
+                searchTimer = setTimeout(() => void runSearch(value), 250);
+            });
+            quickPick.onDidAccept(async () => {
+                const selected = quickPick.selectedItems[0];
+                if (!selected?.filePath || !selected.match) {
+                    return;
+                }
+
+                quickPick.hide();
+                const { line, character, length } = selected.match;
+                await vscode.commands.executeCommand('vscode.open', vscode.Uri.file(selected.filePath), {
+                    selection: new vscode.Range(line, character, line, character + length)
+                });
+            });
+            quickPick.onDidHide(() => {
+                generation++;
+                if (searchTimer) {
+                    clearTimeout(searchTimer);
+                }
+                quickPick.dispose();
+            });
+
+            // Start from the selected text, like the Search view does
+            const editor = vscode.window.activeTextEditor;
+            const selectedText = editor && !editor.selection.isEmpty && editor.selection.isSingleLine
+                ? editor.document.getText(editor.selection)
+                : '';
+            quickPick.value = selectedText;
+            quickPick.show();
+            if (selectedText) {
+                void runSearch(selectedText);
+            }
+        })
+    );
+
+    // Step through the files and bookmarks of a group in tree order
+    context.subscriptions.push(
+        vscode.commands.registerCommand('fileGroups.nextFile', () => navigateGroupFiles(context, 1)),
+        vscode.commands.registerCommand('fileGroups.previousFile', () => navigateGroupFiles(context, -1))
+    );
+
     // Go to group - shows which groups contain the file and reveals it in the tree
     context.subscriptions.push(
         vscode.commands.registerCommand('fileGroups.goToGroup', async (uri: vscode.Uri, uris?: vscode.Uri[]) => {
@@ -1715,9 +3634,10 @@ function registerCommands(context: vscode.ExtensionContext) {
     context.subscriptions.push(
         vscode.commands.registerCommand('fileGroups.removeFile', async (item: FileGroupTreeItem, selectedItems?: FileGroupTreeItem[]) => {
             // Use selected items if available (multi-select), otherwise use single item
+            const isRemovable = (i?: FileGroupTreeItem) => (i?.itemType === 'file' || i?.itemType === 'anchor') && Boolean(i.file);
             const itemsToRemove = selectedItems && selectedItems.length > 0
-                ? selectedItems.filter(i => i.itemType === 'file' && i.file)
-                : (item?.itemType === 'file' && item.file ? [item] : []);
+                ? selectedItems.filter(i => isRemovable(i))
+                : (isRemovable(item) ? [item] : []);
 
             if (itemsToRemove.length === 0) {
                 return;
@@ -1725,18 +3645,24 @@ function registerCommands(context: vscode.ExtensionContext) {
 
             const urisToRefresh: vscode.Uri[] = [];
 
-            for (const fileItem of itemsToRemove) {
-                if (fileItem.file && fileItem.group) {
-                    urisToRefresh.push(vscode.Uri.file(fileItem.file.path));
-                    await storageService.removeFileFromGroup(fileItem.group.id, fileItem.file.path);
+            await storageService.batchChanges(async () => {
+                for (const fileItem of itemsToRemove) {
+                    if (fileItem.anchor && fileItem.file && fileItem.group) {
+                        // Removing an anchor keeps the file bookmark itself
+                        await storageService.removeAnchorFromFile(fileItem.group.id, fileItem.file.path, fileItem.anchor.id);
+                    } else if (fileItem.file && fileItem.group) {
+                        urisToRefresh.push(vscode.Uri.file(fileItem.file.path));
+                        await storageService.removeFileFromGroup(fileItem.group.id, fileItem.file.path);
+                    }
                 }
-            }
+            });
 
             fileGroupsProvider.refresh();
             // Refresh decorations for removed files
             if (urisToRefresh.length > 0) {
                 fileDecorationProvider.refresh(urisToRefresh);
             }
+            showUndoNotification(t('undo.itemsRemoved', { count: itemsToRemove.length }));
         })
     );
 
@@ -1772,15 +3698,12 @@ function registerCommands(context: vscode.ExtensionContext) {
                     for (const tabGroup of vscode.window.tabGroups.all) {
                         for (const tab of tabGroup.tabs) {
                             // Check if this tab is a file that belongs to our group
-                            const tabInput = tab.input;
-                            if (tabInput && typeof tabInput === 'object' && 'uri' in tabInput) {
-                                const tabUri = (tabInput as { uri: vscode.Uri }).uri;
-                                if (tabUri.scheme === 'file' && groupFilePaths.has(tabUri.fsPath)) {
-                                    try {
-                                        await vscode.window.tabGroups.close(tab);
-                                    } catch {
-                                        // Tab might already be closed
-                                    }
+                            const filePath = getTabFilePath(tab);
+                            if (filePath && groupFilePaths.has(filePath)) {
+                                try {
+                                    await vscode.window.tabGroups.close(tab);
+                                } catch {
+                                    // Tab might already be closed
                                 }
                             }
                         }
@@ -1790,6 +3713,48 @@ function registerCommands(context: vscode.ExtensionContext) {
         })
     );
 
+    // Focus mode: swap the open editors for a group's files, and back
+    context.subscriptions.push(
+        vscode.commands.registerCommand('fileGroups.switchToGroup', async (item?: FileGroupTreeItem) => {
+            const targetGroup = await pickGroupForCommand(t('focus.pick'), item);
+            if (!targetGroup) {
+                return;
+            }
+
+            const filePaths = collectGroupFilePaths(targetGroup.id, storageService.getGroups(), () => true, { includeSubgroups: true });
+            if (filePaths.length === 0) {
+                vscode.window.showInformationMessage(t('focus.empty', { name: targetGroup.name }));
+                return;
+            }
+
+            // Switching between groups keeps the working set from before the first switch
+            const previous = getFocusState(context)?.previous ?? captureEditorLayout();
+            const dirtyCount = await closeTabsExcept(new Set(filePaths));
+            await openGroupFiles(targetGroup.id, true);
+            await setFocusState(context, { groupId: targetGroup.id, previous });
+            if (dirtyCount > 0) {
+                vscode.window.showInformationMessage(t('focus.keptDirty', { count: dirtyCount }));
+            }
+        }),
+        vscode.commands.registerCommand('fileGroups.switchBack', async () => {
+            const focusState = getFocusState(context);
+            if (!focusState) {
+                vscode.window.showInformationMessage(t('focus.nothingToRestore'));
+                return;
+            }
+
+            const dirtyCount = await closeTabsExcept(new Set(focusState.previous?.tabs.map(tab => tab.path)));
+            if (focusState.previous) {
+                await restoreEditorLayout(focusState.previous);
+            }
+            await setFocusState(context, undefined);
+            if (dirtyCount > 0) {
+                vscode.window.showInformationMessage(t('focus.keptDirty', { count: dirtyCount }));
+            }
+        })
+    );
+    void vscode.commands.executeCommand('setContext', FOCUS_ACTIVE_CONTEXT_KEY, getFocusState(context) !== undefined);
+
     // Refresh the tree view
     context.subscriptions.push(
         vscode.commands.registerCommand('fileGroups.refresh', () => {
@@ -1801,27 +3766,365 @@ function registerCommands(context: vscode.ExtensionContext) {
     context.subscriptions.push(
         vscode.commands.registerCommand('fileGroups.cleanupMissingFiles', async () => {
             const groups = storageService.getAllGroups();
+            const fileExists = (file: GroupFile): boolean => {
+                try {
+                    return fs.existsSync(file.path);
+                } catch {
+                    return false;
+                }
+            };
+            const trashItems = createFileTrashItems(
+                groups,
+                (file, group) => !isDynamicGroup(group) && !fileExists(file),
+                'fileMissing',
+                generateId,
+                new Date().toISOString()
+            );
             let removedCount = 0;
             for (const group of groups) {
                 const originalLength = group.files.length;
-                group.files = group.files.filter(file => {
-                    try {
-                        return fs.existsSync(file.path);
-                    } catch {
-                        return false;
-                    }
-                });
+                group.files = group.files.filter(fileExists);
                 removedCount += originalLength - group.files.length;
             }
 
             if (removedCount > 0) {
                 await storageService.saveGroups(groups);
+                await storageService.addToTrash(trashItems);
                 fileGroupsProvider.refresh();
                 fileDecorationProvider.refresh();
+                showUndoNotification(t('undo.missingRemoved', { count: removedCount }));
             }
         })
     );
 
+    // Trash: restore or permanently remove deleted groups and auto-removed bookmarks
+    const pickTrashItem = async (item?: FileGroupTreeItem): Promise<TrashItem | undefined> => {
+        if (item?.trashItem) {
+            return item.trashItem;
+        }
+
+        const trash = storageService.getTrash();
+        if (trash.length === 0) {
+            void vscode.window.showInformationMessage(t('trash.empty'));
+            return undefined;
+        }
+
+        const picked = await vscode.window.showQuickPick(
+            trash.map(trashItem => {
+                const treeItem = new FileGroupTreeItem('trash', null, undefined, false, 0, 0, [], { trashItem });
+                return {
+                    label: `$(${trashItem.kind === 'group' ? 'folder' : 'file'}) ${String(treeItem.label)}`,
+                    description: typeof treeItem.description === 'string' ? treeItem.description : undefined,
+                    trashItem
+                };
+            }),
+            { placeHolder: t('trash.pick') }
+        );
+        return picked?.trashItem;
+    };
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('fileGroups.restoreFromTrash', async (item?: FileGroupTreeItem) => {
+            const trashItem = await pickTrashItem(item);
+            if (!trashItem) {
+                return;
+            }
+
+            let restored = await storageService.restoreFromTrash(trashItem.id);
+            if (!restored && trashItem.kind === 'file') {
+                // The bookmark's group is gone, so let the user choose another one
+                const targetGroup = await pickGroupForCommand(t('trash.restore.pickGroup', {
+                    name: trashItem.file.name,
+                    group: trashItem.groupName
+                }));
+                if (!targetGroup) {
+                    return;
+                }
+                restored = await storageService.restoreFromTrash(trashItem.id, targetGroup.id);
+            }
+
+            if (!restored) {
+                void vscode.window.showWarningMessage(t('trash.restore.failed'));
+                return;
+            }
+
+            fileGroupsProvider.refresh();
+            fileDecorationProvider.refresh();
+            void vscode.window.showInformationMessage(t('trash.restored', {
+                name: trashItem.kind === 'group' ? trashItem.groups[0]?.name ?? '' : trashItem.file.name
+            }));
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('fileGroups.purgeFromTrash', async (item?: FileGroupTreeItem, selectedItems?: FileGroupTreeItem[]) => {
+            const trashItems = selectedItems?.filter(selected => selected.trashItem).map(selected => selected.trashItem!) ?? [];
+            if (trashItems.length === 0) {
+                const trashItem = await pickTrashItem(item);
+                if (!trashItem) {
+                    return;
+                }
+                trashItems.push(trashItem);
+            }
+
+            const confirm = await vscode.window.showWarningMessage(
+                t('trash.purge.confirm', { count: trashItems.length }),
+                { modal: true },
+                t('action.delete')
+            );
+            if (confirm === t('action.delete')) {
+                await storageService.purgeTrash(trashItems.map(trashItem => trashItem.id));
+                fileGroupsProvider.refresh();
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('fileGroups.emptyTrash', async () => {
+            const count = storageService.getTrash().length;
+            if (count === 0) {
+                void vscode.window.showInformationMessage(t('trash.empty'));
+                return;
+            }
+
+            const confirm = await vscode.window.showWarningMessage(
+                t('trash.purge.confirm', { count }),
+                { modal: true },
+                t('action.delete')
+            );
+            if (confirm === t('action.delete')) {
+                await storageService.purgeTrash();
+                fileGroupsProvider.refresh();
+            }
+        })
+    );
+
+    // Problems section: diagnostics of one group and its subgroups
+    context.subscriptions.push(
+        vscode.commands.registerCommand('fileGroups.showGroupProblems', async (item?: FileGroupTreeItem) => {
+            const targetGroup = await pickGroupForCommand(t('problems.pick'), item);
+            if (!targetGroup) {
+                return;
+            }
+
+            await storageService.setProblemsGroupId(targetGroup.id);
+            fileGroupsProvider.refresh();
+            await treeView.reveal(
+                new FileGroupTreeItem('section', targetGroup, undefined, true, 0, 0, [], { sectionKind: 'problems' }),
+                { focus: true, expand: true }
+            );
+        }),
+        vscode.commands.registerCommand('fileGroups.hideGroupProblems', async () => {
+            await storageService.setProblemsGroupId(undefined);
+            fileGroupsProvider.refresh();
+        })
+    );
+
+    // Session activity: the files opened and edited recently, kept outside of groups
+    context.subscriptions.push(
+        vscode.commands.registerCommand('fileGroups.showSessionActivity', async () => {
+            await storageService.setSessionActivityVisible(true);
+            await vscode.commands.executeCommand('setContext', SESSION_VISIBLE_CONTEXT_KEY, true);
+        }),
+        vscode.commands.registerCommand('fileGroups.hideSessionActivity', async () => {
+            await storageService.setSessionActivityVisible(false);
+            await vscode.commands.executeCommand('setContext', SESSION_VISIBLE_CONTEXT_KEY, false);
+        }),
+        vscode.commands.registerCommand('fileGroups.promoteSession', async () => {
+            const session = storageService.getSessions()[0];
+            if (!session || session.files.length === 0) {
+                void vscode.window.showInformationMessage(t('session.empty'));
+                return;
+            }
+
+            await promoteSession(session);
+        }),
+        vscode.commands.registerCommand('fileGroups.pruneSessionActivity', async () => {
+            const hours = await vscode.window.showInputBox({
+                prompt: t('session.prune.prompt'),
+                value: '8',
+                validateInput: value => Number(value) > 0 ? undefined : t('session.prune.invalid')
+            });
+            if (hours === undefined) {
+                return;
+            }
+
+            const count = await storageService.pruneSessions(Number(hours) * 60 * 60 * 1000);
+            void vscode.window.showInformationMessage(t('session.pruned', { count }));
+        }),
+        vscode.commands.registerCommand('fileGroups.browseSessions', async () => {
+            const sessions = storageService.getSessions().filter(session => session.files.length > 0);
+            if (sessions.length === 0) {
+                void vscode.window.showInformationMessage(t('session.empty'));
+                return;
+            }
+
+            const pickedSession = await vscode.window.showQuickPick(
+                sessions.map(session => ({
+                    label: `$(history) ${new Date(session.startedAt).toLocaleString()}`,
+                    description: countLabel(session.files.length, 'noun.file.one', 'noun.file.other'),
+                    detail: session.files.slice(0, 5).map(file => getFileName(file.path)).join(', '),
+                    session
+                })),
+                { placeHolder: t('session.pick') }
+            );
+            if (!pickedSession) {
+                return;
+            }
+
+            const { session } = pickedSession;
+            const filePaths = getSessionFilePaths(session);
+            const action = await vscode.window.showQuickPick([
+                { label: `$(add) ${t('session.action.promote')}`, id: 'promote' },
+                { label: `$(files) ${t('session.action.openAll')}`, id: 'open-all' },
+                { label: '', kind: vscode.QuickPickItemKind.Separator },
+                ...filePaths.map(filePath => ({
+                    label: `$(file) ${getFileName(filePath)}`,
+                    description: vscode.workspace.asRelativePath(filePath),
+                    id: 'open',
+                    filePath
+                }))
+            ], { placeHolder: t('session.action.pick', { date: new Date(session.startedAt).toLocaleString() }) });
+
+            if (action?.id === 'promote') {
+                await promoteSession(session);
+            } else if (action?.id === 'open-all') {
+                await Promise.allSettled(filePaths.map(filePath =>
+                    vscode.commands.executeCommand('vscode.open', vscode.Uri.file(filePath), { preview: false, preserveFocus: true })
+                ));
+            } else if (action && 'filePath' in action) {
+                await vscode.commands.executeCommand('vscode.open', vscode.Uri.file(action.filePath));
+            }
+        })
+    );
+    void vscode.commands.executeCommand('setContext', SESSION_VISIBLE_CONTEXT_KEY, storageService.isSessionActivityVisible());
+
+    // Config snapshots: compare with or restore an earlier version of the local or global groups
+    context.subscriptions.push(
+        vscode.commands.registerCommand('fileGroups.browseSnapshots', async () => {
+            const snapshots = await storageService.getConfigSnapshots();
+            if (snapshots.length === 0) {
+                void vscode.window.showInformationMessage(t('snapshot.empty'));
+                return;
+            }
+
+            const pickedSnapshot = await vscode.window.showQuickPick(
+                snapshots.map(snapshot => ({
+                    label: `$(history) ${new Date(snapshot.createdAt).toLocaleString()}`,
+                    description: snapshot.scope === 'global'
+                        ? t('snapshot.scope.global')
+                        : [t('snapshot.scope.local'), snapshot.folder].filter(Boolean).join(' · '),
+                    snapshot
+                })),
+                { placeHolder: t('snapshot.pick') }
+            );
+            if (!pickedSnapshot) {
+                return;
+            }
+
+            const { snapshot } = pickedSnapshot;
+            const date = new Date(snapshot.createdAt).toLocaleString();
+            const action = await vscode.window.showQuickPick([
+                { label: `$(diff) ${t('snapshot.action.compare')}`, id: 'compare' },
+                { label: `$(discard) ${t('snapshot.action.restoreAll')}`, id: 'restore-all' },
+                { label: `$(folder) ${t('snapshot.action.restoreGroup')}`, id: 'restore-group' }
+            ], { placeHolder: t('snapshot.action.pick', { date }) });
+
+            switch (action?.id) {
+                case 'compare': {
+                    const snapshotUri = storageService.getConfigSnapshotUri(snapshot);
+                    // Groups stored one file per group are compared as a single document
+                    const splitConfigText = snapshot.scope === 'local' ? await storageService.getSplitConfigText(snapshot.folder) : undefined;
+                    const configUri = splitConfigText !== undefined
+                        ? (await vscode.workspace.openTextDocument({ language: 'jsonc', content: splitConfigText })).uri
+                        : storageService.getConfigFileUriForScope(snapshot.scope, snapshot.folder);
+                    if (snapshotUri && configUri) {
+                        await vscode.commands.executeCommand('vscode.diff', snapshotUri, configUri, t('snapshot.diff.title', { date }));
+                    }
+                    return;
+                }
+                case 'restore-all': {
+                    const confirm = await vscode.window.showWarningMessage(
+                        t('snapshot.restore.confirm', { date }),
+                        { modal: true },
+                        t('snapshot.action.restoreAll')
+                    );
+                    if (confirm !== t('snapshot.action.restoreAll')) {
+                        return;
+                    }
+
+                    if (!await storageService.restoreConfigSnapshot(snapshot)) {
+                        void vscode.window.showWarningMessage(t('snapshot.readFailed'));
+                        return;
+                    }
+
+                    fileGroupsProvider.refresh();
+                    fileDecorationProvider.refresh();
+                    showUndoNotification(t('snapshot.restored', { date }));
+                    return;
+                }
+                case 'restore-group': {
+                    const config = await storageService.readConfigSnapshot(snapshot);
+                    if (!config) {
+                        void vscode.window.showWarningMessage(t('snapshot.readFailed'));
+                        return;
+                    }
+
+                    const pickedGroup = await vscode.window.showQuickPick(
+                        config.groups.map(group => ({
+                            label: `$(${group.icon || 'folder'}) ${group.name}`,
+                            description: group.shortDescription,
+                            group
+                        })),
+                        { placeHolder: t('snapshot.group.pick') }
+                    );
+                    if (!pickedGroup || !await storageService.restoreGroupFromSnapshot(snapshot, pickedGroup.group.id)) {
+                        return;
+                    }
+
+                    fileGroupsProvider.refresh();
+                    fileDecorationProvider.refresh();
+                    showUndoNotification(t('snapshot.groupRestored', { name: pickedGroup.group.name, date }));
+                    return;
+                }
+            }
+        })
+    );
+
+    // Storage layout: one file for all groups, or one file per group to avoid merge conflicts
+    context.subscriptions.push(
+        vscode.commands.registerCommand('fileGroups.switchStorageLayout', async () => {
+            const currentLayout = await storageService.getConfigLayout();
+            const layouts: Array<{ layout: ConfigLayout; label: string; detail: string }> = [
+                { layout: 'single', label: t('storageLayout.single'), detail: t('storageLayout.single.detail') },
+                { layout: 'split', label: t('storageLayout.split'), detail: t('storageLayout.split.detail') }
+            ];
+            const picked = await vscode.window.showQuickPick(
+                layouts.map(item => ({
+                    ...item,
+                    description: item.layout === currentLayout ? t('storageLayout.current') : undefined
+                })),
+                { placeHolder: t('storageLayout.pick') }
+            );
+            if (!picked || picked.layout === currentLayout) {
+                return;
+            }
+
+            try {
+                await storageService.setConfigLayout(picked.layout);
+            } catch (error) {
+                void vscode.window.showErrorMessage(t('storageLayout.failed', {
+                    error: error instanceof Error ? error.message : String(error)
+                }));
+                return;
+            }
+
+            fileGroupsProvider.refresh();
+            fileDecorationProvider.refresh();
+            void vscode.window.showInformationMessage(t('storageLayout.switched', { layout: picked.label }));
+        })
+    );
+
     // Sort files in a group
     context.subscriptions.push(
         vscode.commands.registerCommand('fileGroups.sortFiles', async (item?: FileGroupTreeItem) => {
@@ -1867,8 +4170,10 @@ function registerCommands(context: vscode.ExtensionContext) {
                 );
 
                 if (confirm === t('action.global')) {
-                    await storageService.updateGroupRecursive(item.group.id, { isGlobal: true });
-                    await storageService.updateGroup(item.group.id, { parentId: undefined });
+                    await storageService.batchChanges(async () => {
+                        await storageService.updateGroupRecursive(item.group!.id, { isGlobal: true });
+                        await storageService.updateGroup(item.group!.id, { parentId: undefined });
+                    });
                     fileGroupsProvider.refresh();
                     void vscode.window.showInformationMessage(t('move.global.done', { name: item.group.name }));
                 }
@@ -1891,8 +4196,10 @@ function registerCommands(context: vscode.ExtensionContext) {
                 );
 
                 if (confirm === t('action.local')) {
-                    await storageService.updateGroupRecursive(item.group.id, { isGlobal: false });
-                    await storageService.updateGroup(item.group.id, { parentId: undefined });
+                    await storageService.batchChanges(async () => {
+                        await storageService.updateGroupRecursive(item.group!.id, { isGlobal: false });
+                        await storageService.updateGroup(item.group!.id, { parentId: undefined });
+                    });
                     fileGroupsProvider.refresh();
                     void vscode.window.showInformationMessage(t('move.local.done', { name: item.group.name }));
                 }
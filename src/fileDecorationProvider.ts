@@ -1,12 +1,7 @@
-import * as path from 'path';
 import * as vscode from 'vscode';
 import { StorageService } from './storageService';
-import { isHexColor, getThemeColorForHex, FileGroup } from './models';
-
-function canonicalFilePath(filePath: string): string {
-    const normalized = path.normalize(filePath);
-    return process.platform === 'win32' ? normalized.toLowerCase() : normalized;
-}
+import { isHexColor, getThemeColorForHex } from './models';
+import { buildGroupPath, canonicalFilePath } from './groupFilePaths';
 
 /**
  * Provides file decorations (colors) for files that belong to groups.
@@ -57,7 +52,7 @@ export class FileGroupDecorationProvider implements vscode.FileDecorationProvide
                 : undefined;
             const decoration = new vscode.FileDecoration(
                 badge,
-                `CodeGroup: ${this.buildGroupPath(group, groupsById)}`,
+                `CodeGroup: ${buildGroupPath(group, groupsById)}`,
                 themeColorId ? new vscode.ThemeColor(themeColorId) : undefined
             );
 
@@ -71,21 +66,4 @@ export class FileGroupDecorationProvider implements vscode.FileDecorationProvide
 
         this.decorations = nextDecorations;
     }
-
-    /**
-     * Build the full path from root to the given group (for example, "Backend\\API\\").
-     */
-    private buildGroupPath(group: FileGroup, groupsById: ReadonlyMap<string, FileGroup>): string {
-        const names: string[] = [];
-        const visitedIds = new Set<string>();
-        let current: FileGroup | undefined = group;
-
-        while (current && !visitedIds.has(current.id)) {
-            visitedIds.add(current.id);
-            names.unshift(current.name);
-            current = current.parentId ? groupsById.get(current.parentId) : undefined;
-        }
-
-        return `${names.join('\\')}\\`;
-    }
 }
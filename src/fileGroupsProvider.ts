@@ -2,8 +2,12 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { countLabel, t } from './i18n';
-import { FileGroup, FileGroupTreeItem, GroupFile, generateId } from './models';
+import { DiagnosticCounts, FileGroup, FileGroupTreeItem, GroupFile, TagQueryGroup, generateId } from './models';
 import { StorageService } from './storageService';
+import { sortAnchors } from './anchors';
+import { TagQueryResult, collectTagQueryMatches, parseTagQuery } from './tagQueries';
+import { isGroupOnBranch } from './branchGroups';
+import { FileDiagnostics, countDiagnostics, indexDiagnostics, listGroupProblems, selectBookmarkDiagnostics } from './groupDiagnostics';
 import { CURRENT_USERNAME } from './userInfo';
 
 /**
@@ -45,6 +49,12 @@ export class FileGroupsProvider implements vscode.TreeDataProvider<FileGroupTree
     private _onDidChangeTreeData = new vscode.EventEmitter<FileGroupTreeItem | undefined | null | void>();
     readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
+    /** Checked-out git branch of each workspace folder by path, used to hide branch-scoped groups */
+    private currentBranches = new Map<string, string | undefined>();
+
+    /** Diagnostics of workspace files by canonical path, read once per refresh */
+    private diagnostics: Map<string, FileDiagnostics> | undefined;
+
     constructor(private storageService: StorageService) {
         // Listen for storage changes (e.g., file changes)
         storageService.onDidChange(() => this.refresh());
@@ -54,9 +64,144 @@ export class FileGroupsProvider implements vscode.TreeDataProvider<FileGroupTree
      * Refresh the tree view
      */
     refresh(): void {
+        this.diagnostics = undefined;
         this._onDidChangeTreeData.fire();
     }
 
+    /**
+     * Update the checked-out branch of every workspace folder and refresh when one changed
+     */
+    setCurrentBranches(branches: ReadonlyMap<string, string | undefined>): void {
+        if (branches.size === this.currentBranches.size
+            && [...branches].every(([root, branch]) => this.currentBranches.has(root) && this.currentBranches.get(root) === branch)) {
+            return;
+        }
+
+        this.currentBranches = new Map(branches);
+        this.refresh();
+    }
+
+    /**
+     * Branch checked out in the workspace folder that stores a group.
+     * Global groups follow the first folder.
+     */
+    getCurrentBranch(group: FileGroup): string | undefined {
+        const folder = this.getGroupWorkspaceFolder(group);
+        return folder ? this.currentBranches.get(folder.uri.fsPath) : undefined;
+    }
+
+    private getDiagnostics(): Map<string, FileDiagnostics> {
+        this.diagnostics ??= indexDiagnostics(vscode.languages.getDiagnostics()
+            .filter(([uri, diagnostics]) => uri.scheme === 'file' && diagnostics.length > 0)
+            .map(([uri, diagnostics]) => [uri.fsPath, diagnostics.map(diagnostic => ({
+                severity: diagnostic.severity,
+                message: diagnostic.message,
+                line: diagnostic.range.start.line,
+                character: diagnostic.range.start.character,
+                endLine: diagnostic.range.end.line,
+                endCharacter: diagnostic.range.end.character,
+                source: diagnostic.source,
+                code: typeof diagnostic.code === 'object' ? String(diagnostic.code.value) : diagnostic.code?.toString()
+            }))]));
+        return this.diagnostics;
+    }
+
+    /**
+     * Errors and warnings in the given bookmarks, including files inside bookmarked folders
+     */
+    private getDiagnosticCounts(files: GroupFile[]): DiagnosticCounts {
+        return countDiagnostics(selectBookmarkDiagnostics(this.getDiagnostics(), files));
+    }
+
+    private getProblemsGroup(): FileGroup | undefined {
+        const groupId = this.storageService.getProblemsGroupId();
+        return groupId ? this.storageService.getGroup(groupId) : undefined;
+    }
+
+    private isGroupVisible(group: FileGroup): boolean {
+        return isGroupOnBranch(group, this.getCurrentBranch(group));
+    }
+
+    /**
+     * Whether a group shows in the tree on the checked-out branches: it and
+     * all of its ancestors are on the branch of their workspace folder
+     */
+    isGroupShownOnBranch(group: FileGroup): boolean {
+        const seen = new Set<string>();
+        let current: FileGroup | undefined = group;
+        while (current && !seen.has(current.id)) {
+            if (!this.isGroupVisible(current)) {
+                return false;
+            }
+            seen.add(current.id);
+            current = current.parentId ? this.storageService.getGroup(current.parentId) : undefined;
+        }
+        return true;
+    }
+
+    private getVisibleSubgroups(groupId: string): FileGroup[] {
+        return this.storageService.getSubgroups(groupId).filter(group => this.isGroupVisible(group));
+    }
+
+    /**
+     * Workspace folder whose config file stores a local group. Groups not
+     * assigned yet belong to the first folder.
+     */
+    private getGroupWorkspaceFolder(group: FileGroup): vscode.WorkspaceFolder | undefined {
+        const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+        return workspaceFolders.find(folder => folder.uri.fsPath === group.workspaceFolder) ?? workspaceFolders[0];
+    }
+
+    private createWorkspaceFolderSection(folder: vscode.WorkspaceFolder, groupCount = 0): FileGroupTreeItem {
+        return new FileGroupTreeItem(
+            'section', null, undefined, true, 0, groupCount, [], { sectionKind: 'workspaceFolder', workspaceFolder: folder }
+        );
+    }
+
+    /**
+     * Tree items for root groups, pinned groups first and then in manual order
+     */
+    private createRootGroupItems(groups: FileGroup[]): FileGroupTreeItem[] {
+        return groups
+            .sort((a, b) => {
+                // Pinned groups first
+                if (a.pinned && !b.pinned) { return -1; }
+                if (!a.pinned && b.pinned) { return 1; }
+                // Then by order
+                return a.order - b.order;
+            })
+            .map(group => {
+                const subgroups = this.getVisibleSubgroups(group.id);
+                const hasSubgroups = subgroups.length > 0;
+                const allFiles = this.storageService.getAllFilesInGroup(group.id);
+                return new FileGroupTreeItem(
+                    'group', group, undefined, hasSubgroups, subgroups.length, allFiles.length, allFiles,
+                    { diagnosticCounts: this.getDiagnosticCounts(allFiles) }
+                );
+            });
+    }
+
+    /**
+     * Files of a group in the order the tree shows them, optionally followed
+     * depth-first by the files of its visible subgroups
+     */
+    async getFilesInTreeOrder(group: FileGroup, includeSubgroups: boolean): Promise<Array<{ groupId: string; files: GroupFile[] }>> {
+        const sections = [{ groupId: group.id, files: await this.sortFiles(group.files, group.sortOrder) }];
+        if (!includeSubgroups) {
+            return sections;
+        }
+
+        const childGroups = this.getVisibleSubgroups(group.id).sort((a, b) => {
+            if (a.pinned && !b.pinned) { return -1; }
+            if (!a.pinned && b.pinned) { return 1; }
+            return a.order - b.order;
+        });
+        for (const childGroup of childGroups) {
+            sections.push(...await this.getFilesInTreeOrder(childGroup, true));
+        }
+        return sections;
+    }
+
     /**
      * Sort files based on the sort order
      */
@@ -105,13 +250,23 @@ export class FileGroupsProvider implements vscode.TreeDataProvider<FileGroupTree
         return sorted;
     }
 
+    /**
+     * Evaluate a tag query against every local and global group
+     */
+    getTagQueryResult(tagQuery: TagQueryGroup): TagQueryResult {
+        const parsed = parseTagQuery(tagQuery.expression);
+        return parsed.node
+            ? collectTagQueryMatches(this.storageService.getAllGroups(), parsed.node)
+            : { groups: [], files: [] };
+    }
+
     getTreeItem(element: FileGroupTreeItem): vscode.TreeItem {
         return element;
     }
 
     private getQuickActionItems(): FileGroupTreeItem[] {
         return [
-            new FileGroupTreeItem('action', null, undefined, false, 0, 0, [], undefined, {
+            new FileGroupTreeItem('action', null, undefined, false, 0, 0, [], { actionDefinition: {
                 id: 'getting-started',
                 label: t('tree.action.gettingStarted.label'),
                 description: t('tree.action.gettingStarted.description'),
@@ -121,8 +276,8 @@ export class FileGroupsProvider implements vscode.TreeDataProvider<FileGroupTree
                     command: 'fileGroups.openGettingStarted',
                     title: t('tree.action.gettingStarted.label')
                 }
-            }),
-            new FileGroupTreeItem('action', null, undefined, false, 0, 0, [], undefined, {
+            } }),
+            new FileGroupTreeItem('action', null, undefined, false, 0, 0, [], { actionDefinition: {
                 id: 'create-group',
                 label: t('tree.action.createGroup.label'),
                 description: t('tree.action.createGroup.description'),
@@ -132,8 +287,8 @@ export class FileGroupsProvider implements vscode.TreeDataProvider<FileGroupTree
                     command: 'fileGroups.createGroup',
                     title: t('tree.action.createGroup.label')
                 }
-            }),
-            new FileGroupTreeItem('action', null, undefined, false, 0, 0, [], undefined, {
+            } }),
+            new FileGroupTreeItem('action', null, undefined, false, 0, 0, [], { actionDefinition: {
                 id: 'quick-open',
                 label: t('tree.action.quickOpen.label'),
                 description: t('tree.action.quickOpen.description'),
@@ -143,8 +298,8 @@ export class FileGroupsProvider implements vscode.TreeDataProvider<FileGroupTree
                     command: 'fileGroups.quickOpen',
                     title: t('tree.action.quickOpen.label')
                 }
-            }),
-            new FileGroupTreeItem('action', null, undefined, false, 0, 0, [], undefined, {
+            } }),
+            new FileGroupTreeItem('action', null, undefined, false, 0, 0, [], { actionDefinition: {
                 id: 'smart-groups',
                 label: t('tree.action.smartGroups.label'),
                 description: t('tree.action.smartGroups.description'),
@@ -154,8 +309,8 @@ export class FileGroupsProvider implements vscode.TreeDataProvider<FileGroupTree
                     command: 'fileGroups.createSmartGroups',
                     title: t('tree.action.smartGroups.label')
                 }
-            }),
-            new FileGroupTreeItem('action', null, undefined, false, 0, 0, [], undefined, {
+            } }),
+            new FileGroupTreeItem('action', null, undefined, false, 0, 0, [], { actionDefinition: {
                 id: 'open-editors',
                 label: t('tree.action.openEditors.label'),
                 description: t('tree.action.openEditors.description'),
@@ -165,8 +320,8 @@ export class FileGroupsProvider implements vscode.TreeDataProvider<FileGroupTree
                     command: 'fileGroups.createGroupFromOpenEditors',
                     title: t('tree.action.openEditors.label')
                 }
-            }),
-            new FileGroupTreeItem('action', null, undefined, false, 0, 0, [], undefined, {
+            } }),
+            new FileGroupTreeItem('action', null, undefined, false, 0, 0, [], { actionDefinition: {
                 id: 'git-changes',
                 label: t('tree.action.gitChanges.label'),
                 description: t('tree.action.gitChanges.description'),
@@ -176,8 +331,8 @@ export class FileGroupsProvider implements vscode.TreeDataProvider<FileGroupTree
                     command: 'fileGroups.createGroupFromGitChanges',
                     title: t('tree.action.gitChanges.label')
                 }
-            }),
-            new FileGroupTreeItem('action', null, undefined, false, 0, 0, [], undefined, {
+            } }),
+            new FileGroupTreeItem('action', null, undefined, false, 0, 0, [], { actionDefinition: {
                 id: 'import-shared',
                 label: t('tree.action.importShared.label'),
                 description: t('tree.action.importShared.description'),
@@ -187,8 +342,8 @@ export class FileGroupsProvider implements vscode.TreeDataProvider<FileGroupTree
                     command: 'fileGroups.importSharedGroup',
                     title: t('tree.action.importShared.label')
                 }
-            }),
-            new FileGroupTreeItem('action', null, undefined, false, 0, 0, [], undefined, {
+            } }),
+            new FileGroupTreeItem('action', null, undefined, false, 0, 0, [], { actionDefinition: {
                 id: 'change-language',
                 label: t('tree.action.changeLanguage.label'),
                 description: t('tree.action.changeLanguage.description'),
@@ -198,7 +353,7 @@ export class FileGroupsProvider implements vscode.TreeDataProvider<FileGroupTree
                     command: 'fileGroups.changeLanguage',
                     title: t('tree.action.changeLanguage.label')
                 }
-            })
+            } })
         ];
     }
 
@@ -208,32 +363,55 @@ export class FileGroupsProvider implements vscode.TreeDataProvider<FileGroupTree
             const items: FileGroupTreeItem[] = [];
 
             // Get local root groups (not global, no parent)
-            const localGroups = this.storageService.getRootGroups().filter(g => !g.isGlobal);
-
-            // Add local groups
-            items.push(...localGroups
-                .sort((a, b) => {
-                    // Pinned groups first
-                    if (a.pinned && !b.pinned) { return -1; }
-                    if (!a.pinned && b.pinned) { return 1; }
-                    // Then by order
-                    return a.order - b.order;
-                })
-                .map(group => {
-                    const subgroups = this.storageService.getSubgroups(group.id);
-                    const hasSubgroups = subgroups.length > 0;
-                    const allFiles = this.storageService.getAllFilesInGroup(group.id);
-                    return new FileGroupTreeItem('group', group, undefined, hasSubgroups, subgroups.length, allFiles.length, allFiles);
-                })
-            );
+            const localGroups = this.storageService.getRootGroups().filter(g => !g.isGlobal && this.isGroupVisible(g));
+
+            // Add local groups, under a section per workspace folder in multi-root workspaces
+            const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+            if (workspaceFolders.length > 1) {
+                for (const folder of workspaceFolders) {
+                    const folderGroups = localGroups.filter(g => this.getGroupWorkspaceFolder(g) === folder);
+                    if (folderGroups.length > 0) {
+                        items.push(this.createWorkspaceFolderSection(folder, folderGroups.length));
+                    }
+                }
+            } else {
+                items.push(...this.createRootGroupItems(localGroups));
+            }
 
             // Add Global Groups section only when global groups are visible in this workspace.
-            const globalGroups = this.storageService.getGroups().filter(g => g.isGlobal && !g.parentId);
+            const globalGroups = this.storageService.getGroups().filter(g => g.isGlobal && !g.parentId && this.isGroupVisible(g));
             if (globalGroups.length > 0) {
-                items.push(new FileGroupTreeItem('section', null, undefined, true, 0, globalGroups.length, [], 'global'));
+                items.push(new FileGroupTreeItem('section', null, undefined, true, 0, globalGroups.length, [], { sectionKind: 'global' }));
+            }
+
+            // Add Tag Queries section only when virtual groups are defined
+            if (this.storageService.getTagQueries().length > 0) {
+                items.push(new FileGroupTreeItem('section', null, undefined, true, 0, 0, [], { sectionKind: 'tagQueries' }));
+            }
+
+            // Add Trash section only when it holds deleted groups or bookmarks
+            const trashCount = this.storageService.getTrash().length;
+            if (trashCount > 0) {
+                items.push(new FileGroupTreeItem('section', null, undefined, true, 0, trashCount, [], { sectionKind: 'trash' }));
             }
 
-            items.push(new FileGroupTreeItem('section', null, undefined, true, 0, 0, [], 'actions'));
+            // Add Session Activity section only after the user asked to see it
+            if (this.storageService.isSessionActivityVisible()) {
+                const sessionFileCount = this.storageService.getSessions()[0]?.files.length ?? 0;
+                items.push(new FileGroupTreeItem('section', null, undefined, true, 0, sessionFileCount, [], { sectionKind: 'session' }));
+            }
+
+            // Add Problems section while a group is selected for it
+            const problemsGroup = this.getProblemsGroup();
+            if (problemsGroup) {
+                const problemFiles = this.storageService.getAllFilesInGroup(problemsGroup.id);
+                items.push(new FileGroupTreeItem(
+                    'section', problemsGroup, undefined, true, 0, 0, [],
+                    { sectionKind: 'problems', diagnosticCounts: this.getDiagnosticCounts(problemFiles) }
+                ));
+            }
+
+            items.push(new FileGroupTreeItem('section', null, undefined, true, 0, 0, [], { sectionKind: 'actions' }));
 
             return items;
         } else if (element.itemType === 'section') {
@@ -241,36 +419,83 @@ export class FileGroupsProvider implements vscode.TreeDataProvider<FileGroupTree
                 return this.getQuickActionItems();
             }
 
-            // Global Groups section - return visible global root groups.
-            const globalGroups = this.storageService.getGroups().filter(g => g.isGlobal && !g.parentId);
-            return globalGroups
-                .sort((a, b) => {
-                    if (a.pinned && !b.pinned) { return -1; }
-                    if (!a.pinned && b.pinned) { return 1; }
-                    return a.order - b.order;
-                })
-                .map(group => {
-                    const subgroups = this.storageService.getSubgroups(group.id);
-                    const hasSubgroups = subgroups.length > 0;
-                    const allFiles = this.storageService.getAllFilesInGroup(group.id);
-                    return new FileGroupTreeItem('group', group, undefined, hasSubgroups, subgroups.length, allFiles.length, allFiles);
+            if (element.sectionKind === 'trash') {
+                return this.storageService.getTrash().map(trashItem =>
+                    new FileGroupTreeItem('trash', null, undefined, false, 0, 0, [], { trashItem })
+                );
+            }
+
+            if (element.sectionKind === 'session') {
+                // Files of the latest session, most recently active first
+                return (this.storageService.getSessions()[0]?.files ?? []).map(sessionFile =>
+                    new FileGroupTreeItem(
+                        'session', null, undefined, false, 0, 0, [], { sessionFile }
+                    )
+                );
+            }
+
+            if (element.sectionKind === 'problems') {
+                // Diagnostics of the selected group and its subgroups, errors first
+                const problemsGroup = this.getProblemsGroup();
+                const problemFiles = problemsGroup ? this.storageService.getAllFilesInGroup(problemsGroup.id) : [];
+                return listGroupProblems(selectBookmarkDiagnostics(this.getDiagnostics(), problemFiles)).map(problem =>
+                    new FileGroupTreeItem(
+                        'problem', null, undefined, false, 0, 0, [], { problem }
+                    )
+                );
+            }
+
+            if (element.sectionKind === 'tagQueries') {
+                return this.storageService.getTagQueries().map(tagQuery => {
+                    const result = this.getTagQueryResult(tagQuery);
+                    return new FileGroupTreeItem(
+                        'tagQuery', null, undefined, true, 0, result.groups.length + result.files.length,
+                        [], { tagQuery }
+                    );
                 });
+            }
+
+            if (element.sectionKind === 'workspaceFolder' && element.workspaceFolder) {
+                const folder = element.workspaceFolder;
+                return this.createRootGroupItems(this.storageService.getRootGroups().filter(g =>
+                    !g.isGlobal && this.isGroupVisible(g) && this.getGroupWorkspaceFolder(g)?.uri.toString() === folder.uri.toString()
+                ));
+            }
+
+            // Global Groups section - return visible global root groups.
+            const globalGroups = this.storageService.getGroups().filter(g => g.isGlobal && !g.parentId && this.isGroupVisible(g));
+            return this.createRootGroupItems(globalGroups);
+        } else if (element.itemType === 'tagQuery' && element.tagQuery) {
+            // Read-only results: matching groups first, then matching bookmarks
+            const tagQuery = element.tagQuery;
+            const result = this.getTagQueryResult(tagQuery);
+            return [
+                ...result.groups.map(group =>
+                    new FileGroupTreeItem('group', group, undefined, false, 0, 0, [], { tagQuery })
+                ),
+                ...result.files.map(({ group, file }) =>
+                    new FileGroupTreeItem('file', group, file, false, 0, 0, [], { tagQuery })
+                )
+            ];
         } else if (element.itemType === 'group' && element.group) {
             // Group level - return child groups first, then files
             const items: FileGroupTreeItem[] = [];
 
             // Add child groups
-            const childGroups = this.storageService.getSubgroups(element.group.id);
+            const childGroups = this.getVisibleSubgroups(element.group.id);
             childGroups.sort((a, b) => {
                 // Pinned groups first
                 if (a.pinned && !b.pinned) { return -1; }
                 if (!a.pinned && b.pinned) { return 1; }
                 return a.order - b.order;
             }).forEach(childGroup => {
-                const childSubgroups = this.storageService.getSubgroups(childGroup.id);
+                const childSubgroups = this.getVisibleSubgroups(childGroup.id);
                 const hasChildren = childSubgroups.length > 0;
                 const allFiles = this.storageService.getAllFilesInGroup(childGroup.id);
-                items.push(new FileGroupTreeItem('group', childGroup, undefined, hasChildren, childSubgroups.length, allFiles.length, allFiles));
+                items.push(new FileGroupTreeItem(
+                    'group', childGroup, undefined, hasChildren, childSubgroups.length, allFiles.length, allFiles,
+                    { diagnosticCounts: this.getDiagnosticCounts(allFiles) }
+                ));
             });
 
             // Add files
@@ -280,6 +505,12 @@ export class FileGroupsProvider implements vscode.TreeDataProvider<FileGroupTree
             });
 
             return items;
+        } else if (element.itemType === 'file' && element.group && element.file) {
+            // File level - return bookmarked lines and ranges in document order
+            const file = element.file;
+            return sortAnchors(file.anchors ?? []).map(anchor =>
+                new FileGroupTreeItem('anchor', element.group, file, false, 0, 0, [], { anchor })
+            );
         }
         return [];
     }
@@ -289,7 +520,25 @@ export class FileGroupsProvider implements vscode.TreeDataProvider<FileGroupTree
             return undefined;
         }
         if (element.itemType === 'action') {
-            return new FileGroupTreeItem('section', null, undefined, true, 0, 0, [], 'actions');
+            return new FileGroupTreeItem('section', null, undefined, true, 0, 0, [], { sectionKind: 'actions' });
+        }
+        if (element.itemType === 'tagQuery') {
+            return new FileGroupTreeItem('section', null, undefined, true, 0, 0, [], { sectionKind: 'tagQueries' });
+        }
+        if (element.itemType === 'trash') {
+            return new FileGroupTreeItem('section', null, undefined, true, 0, 0, [], { sectionKind: 'trash' });
+        }
+        if (element.itemType === 'session') {
+            return new FileGroupTreeItem('section', null, undefined, true, 0, 0, [], { sectionKind: 'session' });
+        }
+        if (element.itemType === 'problem') {
+            return new FileGroupTreeItem('section', this.getProblemsGroup() ?? null, undefined, true, 0, 0, [], { sectionKind: 'problems' });
+        }
+        if (element.tagQuery) {
+            return new FileGroupTreeItem('tagQuery', null, undefined, true, 0, 0, [], { tagQuery: element.tagQuery });
+        }
+        if (element.itemType === 'anchor' && element.group && element.file) {
+            return new FileGroupTreeItem('file', element.group, element.file);
         }
         if (element.itemType === 'file' && element.group) {
             return new FileGroupTreeItem('group', element.group);
@@ -297,7 +546,12 @@ export class FileGroupsProvider implements vscode.TreeDataProvider<FileGroupTree
         if (element.itemType === 'group' && element.group) {
             // If this is a global group at root level, parent is the section
             if (element.group.isGlobal && !element.group.parentId) {
-                return new FileGroupTreeItem('section', null, undefined, true, 0, 0, [], 'global');
+                return new FileGroupTreeItem('section', null, undefined, true, 0, 0, [], { sectionKind: 'global' });
+            }
+            // Local root groups sit under their folder's section in multi-root workspaces
+            const folder = this.getGroupWorkspaceFolder(element.group);
+            if (!element.group.parentId && folder && (vscode.workspace.workspaceFolders?.length ?? 0) > 1) {
+                return this.createWorkspaceFolderSection(folder);
             }
             // Otherwise check for parent group
             if (element.group.parentId) {
@@ -365,6 +619,8 @@ export class FileGroupsDragDropController implements vscode.TreeDragAndDropContr
                 } else {
                     addFile(item.file.path);
                 }
+            } else if (item.itemType === 'session' && item.sessionFile) {
+                addFile(item.sessionFile.path);
             } else if (item.itemType === 'group' && item.group) {
                 const allFiles = this.storageService.getAllFilesInGroup(item.group.id);
                 for (const file of allFiles) {
@@ -409,18 +665,37 @@ export class FileGroupsDragDropController implements vscode.TreeDragAndDropContr
     }
 
     /**
-     * Handle drop - add files to groups, move groups, or reorder
+     * Handle drop - add files to groups, move groups, or reorder. A drop is a single undo step.
      */
     async handleDrop(
         target: FileGroupTreeItem | undefined,
         dataTransfer: vscode.DataTransfer,
         _token: vscode.CancellationToken
     ): Promise<void> {
+        await this.storageService.batchChanges(() => this.applyDrop(target, dataTransfer));
+    }
+
+    private async applyDrop(target: FileGroupTreeItem | undefined, dataTransfer: vscode.DataTransfer): Promise<void> {
         // Determine target group and file (works for both group and subgroup)
         let targetGroup: FileGroup | undefined;
         let targetFile: GroupFile | undefined;
         let isGlobalSection = false;
 
+        // Tag query results, the trash, session activity and problems are read-only
+        if (
+            target?.tagQuery || target?.sectionKind === 'tagQueries' || target?.sectionKind === 'trash' || target?.itemType === 'trash'
+            || target?.sectionKind === 'session' || target?.itemType === 'session'
+            || target?.sectionKind === 'problems' || target?.itemType === 'problem'
+        ) {
+            return;
+        }
+
+        // A workspace folder section stands for the local root; the folder
+        // storing a group still follows its files
+        if (target?.sectionKind === 'workspaceFolder') {
+            target = undefined;
+        }
+
         if (target) {
             if (target.itemType === 'section' && target.sectionKind === 'global') {
                 // Dropping on Global Groups section - files/groups should become global
@@ -436,7 +711,8 @@ export class FileGroupsDragDropController implements vscode.TreeDragAndDropContr
         // Handle internal drag first (groups, subgroups, files within the tree)
         const internalData = dataTransfer.get('application/vnd.code.tree.filegroupsview');
         if (internalData) {
-            const items = internalData.value as FileGroupTreeItem[];
+            // Tag query results are copies, so they fall through to the uri-list drop below
+            const items = (internalData.value as FileGroupTreeItem[]).filter(item => !item.tagQuery);
 
             // Check if we're dragging groups
             const draggedGroups = items.filter(item => item.itemType === 'group');
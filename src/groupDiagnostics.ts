@@ -0,0 +1,97 @@
+import * as path from 'path';
+import { canonicalFilePath } from './groupFilePaths';
+import type { DiagnosticCounts, FileDiagnostic, GroupFile, GroupProblem } from './models';
+
+export const MAX_GROUP_PROBLEMS = 500;
+
+const ERROR_SEVERITY = 0;
+const WARNING_SEVERITY = 1;
+
+/** Diagnostics of one file, as returned by `vscode.languages.getDiagnostics()` */
+export type FileDiagnostics = [filePath: string, diagnostics: readonly FileDiagnostic[]];
+
+type Bookmark = Pick<GroupFile, 'path' | 'isDirectory'>;
+
+function isInsideFolder(fileKey: string, folderKey: string): boolean {
+  return fileKey.startsWith(folderKey.endsWith(path.sep) ? folderKey : folderKey + path.sep);
+}
+
+/**
+ * Whether a file is bookmarked itself or sits inside a bookmarked folder
+ */
+export function isCoveredByBookmarks(filePath: string, bookmarks: readonly Bookmark[]): boolean {
+  const fileKey = canonicalFilePath(filePath);
+  return bookmarks.some(bookmark => bookmark.isDirectory
+    ? isInsideFolder(fileKey, canonicalFilePath(bookmark.path))
+    : canonicalFilePath(bookmark.path) === fileKey);
+}
+
+/**
+ * Key diagnostics by canonical file path, once for any number of lookups
+ */
+export function indexDiagnostics(entries: readonly FileDiagnostics[]): Map<string, FileDiagnostics> {
+  return new Map(entries.map(entry => [canonicalFilePath(entry[0]), entry]));
+}
+
+/**
+ * Diagnostics of the bookmarked files and of everything inside bookmarked
+ * folders, in bookmark order and without duplicates
+ */
+export function selectBookmarkDiagnostics(
+  entriesByKey: ReadonlyMap<string, FileDiagnostics>,
+  bookmarks: readonly Bookmark[]
+): FileDiagnostics[] {
+  const selected = new Map<string, FileDiagnostics>();
+
+  for (const bookmark of bookmarks) {
+    const bookmarkKey = canonicalFilePath(bookmark.path);
+    if (!bookmark.isDirectory) {
+      const entry = entriesByKey.get(bookmarkKey);
+      if (entry && !selected.has(bookmarkKey)) {
+        selected.set(bookmarkKey, entry);
+      }
+      continue;
+    }
+
+    for (const [fileKey, entry] of entriesByKey) {
+      if (!selected.has(fileKey) && isInsideFolder(fileKey, bookmarkKey)) {
+        selected.set(fileKey, entry);
+      }
+    }
+  }
+
+  return [...selected.values()];
+}
+
+export function countDiagnostics(entries: readonly FileDiagnostics[]): DiagnosticCounts {
+  const counts: DiagnosticCounts = { errors: 0, warnings: 0 };
+  for (const [, diagnostics] of entries) {
+    for (const diagnostic of diagnostics) {
+      if (diagnostic.severity === ERROR_SEVERITY) {
+        counts.errors++;
+      } else if (diagnostic.severity === WARNING_SEVERITY) {
+        counts.warnings++;
+      }
+    }
+  }
+  return counts;
+}
+
+/**
+ * Flatten diagnostics into a list ordered by severity, then by file in the
+ * given order, then by position, keeping at most `limit` problems
+ */
+export function listGroupProblems(entries: readonly FileDiagnostics[], limit = MAX_GROUP_PROBLEMS): GroupProblem[] {
+  const problems = entries.flatMap(([filePath, diagnostics], fileIndex) => diagnostics.map((diagnostic, index) => ({
+    problem: { ...diagnostic, id: `${filePath}:${index}`, filePath },
+    fileIndex
+  })));
+
+  return problems
+    .sort((left, right) => left.problem.severity - right.problem.severity
+      || left.fileIndex - right.fileIndex
+      || left.problem.line - right.problem.line
+      || left.problem.character - right.problem.character)
+    .slice(0, limit)
+    .map(({ problem }) => problem);
+}
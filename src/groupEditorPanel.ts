@@ -4,6 +4,7 @@ import * as path from 'path';
 import * as vscode from 'vscode';
 import { countLabel, getConfiguredLanguage, getLocalizedTemplateText, t } from './i18n';
 import { FileGroup, GroupFile, GROUP_COLORS, GROUP_ICONS, isHexColor } from './models';
+import { createGroupFilePatterns, formatGlobPatterns } from './dynamicGroups';
 import { FileGroupDecorationProvider } from './fileDecorationProvider';
 import { FileGroupsProvider } from './fileGroupsProvider';
 import { GROUP_EDITOR_TEMPLATES } from './smartGroups';
@@ -22,6 +23,8 @@ type SavePayload = {
   shortDescription: string;
   tags: string;
   details: string;
+  includePatterns: string;
+  excludePatterns: string;
   icon: string;
   colorId: string;
   customColor: string;
@@ -39,6 +42,7 @@ type GroupEditorMessage =
   | { type: 'pick-files' }
   | { type: 'remove-file'; path: string }
   | { type: 'open-file'; path: string }
+  | { type: 'save-file-note'; path: string; note: string }
   | { type: 'remove-missing-files' };
 
 const VIEW_TYPE = 'fileGroups.groupEditor';
@@ -95,7 +99,7 @@ function parseMessage(value: unknown): GroupEditorMessage | undefined {
     }
 
     const payload = message.payload as Record<string, unknown>;
-    const stringFields = ['name', 'shortDescription', 'tags', 'details', 'icon', 'colorId', 'customColor', 'badgeText', 'sortOrder'] as const;
+    const stringFields = ['name', 'shortDescription', 'tags', 'details', 'includePatterns', 'excludePatterns', 'icon', 'colorId', 'customColor', 'badgeText', 'sortOrder'] as const;
     if (stringFields.some(field => typeof payload[field] !== 'string')
       || typeof payload.pinned !== 'boolean'
       || (payload.scope !== 'local' && payload.scope !== 'global')) {
@@ -111,6 +115,12 @@ function parseMessage(value: unknown): GroupEditorMessage | undefined {
       : undefined;
   }
 
+  if (message.type === 'save-file-note') {
+    return typeof message.path === 'string' && typeof message.note === 'string'
+      ? { type: 'save-file-note', path: message.path, note: message.note }
+      : undefined;
+  }
+
   if (message.type === 'change-language'
     || message.type === 'add-active-file'
     || message.type === 'add-open-editors'
@@ -296,6 +306,9 @@ export class GroupEditorPanel {
       case 'open-file':
         await this.openFile(message.path);
         break;
+      case 'save-file-note':
+        await this.saveFileNote(message.path, message.note);
+        break;
       case 'remove-missing-files':
         await this.removeMissingFiles();
         break;
@@ -331,30 +344,40 @@ export class GroupEditorPanel {
     const targetIsGlobal = payload.scope === 'global';
     const scopeChanged = targetIsGlobal !== Boolean(group.isGlobal);
 
-    if (scopeChanged) {
-      await this.storageService.updateGroupRecursive(group.id, { isGlobal: targetIsGlobal });
-
-      if (group.parentId) {
-        await this.storageService.updateGroup(group.id, { parentId: undefined });
-      }
-    }
-
     const sortOrder = SORT_OPTIONS.some((option) => option.value === payload.sortOrder)
       ? payload.sortOrder
       : 'manual';
 
-    await this.storageService.updateGroup(group.id, {
-      name,
-      shortDescription: normalizeText(payload.shortDescription),
-      tags: parseTags(payload.tags),
-      details: normalizeText(payload.details),
-      icon: GROUP_ICONS.some(icon => icon.id === payload.icon) ? payload.icon : 'folder',
-      color: resolvedColor,
-      badgeText: badgeText.length > 0 ? badgeText : undefined,
-      sortOrder,
-      pinned: payload.pinned
+    const patterns = createGroupFilePatterns(payload.includePatterns, payload.excludePatterns);
+
+    // One undo step for the whole save
+    await this.storageService.batchChanges(async () => {
+      if (scopeChanged) {
+        await this.storageService.updateGroupRecursive(group.id, { isGlobal: targetIsGlobal });
+
+        if (group.parentId) {
+          await this.storageService.updateGroup(group.id, { parentId: undefined });
+        }
+      }
+
+      await this.storageService.updateGroup(group.id, {
+        name,
+        shortDescription: normalizeText(payload.shortDescription),
+        tags: parseTags(payload.tags),
+        details: normalizeText(payload.details),
+        patterns,
+        icon: GROUP_ICONS.some(icon => icon.id === payload.icon) ? payload.icon : 'folder',
+        color: resolvedColor,
+        badgeText: badgeText.length > 0 ? badgeText : undefined,
+        sortOrder,
+        pinned: payload.pinned
+      });
     });
 
+    if (patterns || group.patterns) {
+      await vscode.commands.executeCommand('fileGroups.refreshDynamicGroups');
+    }
+
     this.provider.refresh();
     this.decorationProvider.refresh(fileUris);
 
@@ -452,6 +475,27 @@ export class GroupEditorPanel {
     await this.render();
   }
 
+  private async saveFileNote(filePath: string, note: string): Promise<void> {
+    const group = this.storageService.getGroup(this.groupId);
+    if (!group) {
+      this.notify('error', t('editor.status.groupMissing'));
+      return;
+    }
+
+    const storedFile = group.files.find(file => canonicalFilePath(file.path) === canonicalFilePath(filePath));
+    if (!storedFile) {
+      return;
+    }
+
+    await this.storageService.updateFileInGroup(group.id, storedFile.path, { note: normalizeText(note) });
+    this.provider.refresh();
+    this.lastStatus = {
+      level: 'info',
+      text: t('editor.status.noteSaved', { name: getFileName(storedFile.path) })
+    };
+    await this.render();
+  }
+
   private async removeMissingFiles(): Promise<void> {
     const group = this.storageService.getGroup(this.groupId);
     if (!group) {
@@ -916,6 +960,12 @@ export class GroupEditorPanel {
 
         .file-main {
             min-width: 0;
+            flex: 1;
+        }
+
+        .file-note {
+            margin-top: 8px;
+            min-height: 0;
         }
 
         .file-name {
@@ -1065,6 +1115,20 @@ export class GroupEditorPanel {
                         <textarea id="details" name="details" placeholder="${escapeHtml(t('editor.details.placeholder'))}">${escapeHtml(group.details)}</textarea>
                         </div>
 
+                        <div class="field">
+                        <label for="includePatterns">${escapeHtml(t('editor.patterns.include.label'))}</label>
+                        <textarea id="includePatterns" name="includePatterns" rows="3" placeholder="src/**/auth/**" spellcheck="false" aria-describedby="patterns-hint">${escapeHtml(formatGlobPatterns(group.patterns?.include))}</textarea>
+                        </div>
+
+                        <div class="field">
+                        <label for="excludePatterns">${escapeHtml(t('editor.patterns.exclude.label'))}</label>
+                        <textarea id="excludePatterns" name="excludePatterns" rows="3" placeholder="*.test.ts" spellcheck="false" aria-describedby="patterns-hint">${escapeHtml(formatGlobPatterns(group.patterns?.exclude))}</textarea>
+                        </div>
+
+                        <div class="field full">
+                        <div id="patterns-hint" class="hint">${escapeHtml(t('editor.patterns.hint'))}</div>
+                        </div>
+
                         <div class="field">
                         <label for="scope">${escapeHtml(t('editor.scope.label'))}</label>
                             <select id="scope" name="scope">
@@ -1144,9 +1208,11 @@ export class GroupEditorPanel {
                                 <div class="file-name">${escapeHtml(file.name)}</div>
                                 <div class="file-path">${escapeHtml(parentDirectory)}</div>
                                 <div class="file-badges">${badges.join('')}</div>
+                                <textarea class="file-note" rows="2" data-path="${escapeHtml(file.path)}" aria-label="${escapeHtml(t('editor.fileNote.accessible', { path: file.path }))}" placeholder="${escapeHtml(t('editor.fileNote.placeholder'))}">${escapeHtml(file.note)}</textarea>
                             </div>
                             <div class="file-actions">
                               <button class="ghost" type="button" data-action="open-file" data-path="${escapeHtml(file.path)}" data-directory="${file.isDirectory ? 'true' : 'false'}" aria-label="${escapeHtml(t('editor.actions.openFileAccessible', { path: file.path }))}" ${exists ? '' : 'disabled'}>${escapeHtml(t('action.open'))}</button>
+                              <button class="secondary" type="button" data-action="save-file-note" data-path="${escapeHtml(file.path)}" aria-label="${escapeHtml(t('editor.actions.saveNoteAccessible', { path: file.path }))}">${escapeHtml(t('editor.actions.saveNote'))}</button>
                               <button class="danger" type="button" data-action="remove-file" data-path="${escapeHtml(file.path)}" aria-label="${escapeHtml(t('editor.actions.removeFileAccessible', { path: file.path }))}">${escapeHtml(t('action.remove'))}</button>
                             </div>
                         </div>`;
@@ -1226,6 +1292,8 @@ export class GroupEditorPanel {
                     shortDescription: String(formData.get('shortDescription') || ''),
                     tags: String(formData.get('tags') || ''),
                     details: String(formData.get('details') || ''),
+                    includePatterns: String(formData.get('includePatterns') || ''),
+                    excludePatterns: String(formData.get('excludePatterns') || ''),
                     icon: String(formData.get('icon') || 'folder'),
                     colorId: String(formData.get('colorId') || ''),
                     customColor: String(formData.get('customColor') || ''),
@@ -1304,6 +1372,15 @@ export class GroupEditorPanel {
                         path: button.dataset.path || ''
                     });
                     return;
+                case 'save-file-note':
+                    const row = button.closest('.file-row');
+                    const noteField = row ? row.querySelector('textarea.file-note') : null;
+                    vscode.postMessage({
+                        type: 'save-file-note',
+                        path: button.dataset.path || '',
+                        note: noteField instanceof HTMLTextAreaElement ? noteField.value : ''
+                    });
+                    return;
             }
         });
 
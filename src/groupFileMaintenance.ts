@@ -1,5 +1,6 @@
 import * as path from 'path';
 import type { FileGroup } from './models';
+import { removeEditorLayoutPath, renameEditorLayoutPath } from './editorLayouts';
 
 /** Remove only entries whose full path matches the deleted resource. */
 export function removeGroupedFilePath(groups: FileGroup[], deletedPath: string): number {
@@ -9,6 +10,9 @@ export function removeGroupedFilePath(groups: FileGroup[], deletedPath: string):
         const originalLength = group.files.length;
         group.files = group.files.filter((file) => file.path !== deletedPath);
         removedCount += originalLength - group.files.length;
+        if (group.layout) {
+            group.layout = removeEditorLayoutPath(group.layout, deletedPath);
+        }
     }
 
     return removedCount;
@@ -19,6 +23,9 @@ export function renameGroupedFilePath(groups: FileGroup[], oldPath: string, newP
     let renamedCount = 0;
 
     for (const group of groups) {
+        if (group.layout) {
+            group.layout = renameEditorLayoutPath(group.layout, oldPath, newPath);
+        }
         group.files = group.files.map((file) => {
             if (file.path !== oldPath) {
                 return file;
@@ -11,14 +11,15 @@ function compareGroups(left: FileGroup, right: FileGroup): number {
 
 /**
  * Collect file paths from a group and all of its descendants in stable,
- * depth-first group order. Directory entries, missing files, and duplicates
- * are omitted so the result can be pasted directly into external tools.
+ * depth-first group order. Directory entries (unless `includeDirectories` is
+ * set), missing files, and duplicates are omitted so the result can be pasted
+ * directly into external tools.
  */
 export function collectGroupFilePaths(
     rootGroupId: string,
     groups: readonly FileGroup[],
     pathExists: PathExists,
-    options: { includeSubgroups?: boolean } = {}
+    options: { includeSubgroups?: boolean; includeDirectories?: boolean } = {}
 ): string[] {
     const groupsById = new Map(groups.map((group) => [group.id, group]));
     if (!groupsById.has(rootGroupId)) {
@@ -55,7 +56,7 @@ export function collectGroupFilePaths(
         }
 
         for (const file of group.files) {
-            if (file.isDirectory || !pathExists(file.path)) {
+            if ((file.isDirectory && !options.includeDirectories) || !pathExists(file.path)) {
                 continue;
             }
 
@@ -86,3 +87,58 @@ export function buildGroupFilePathsText(
 ): string {
     return collectGroupFilePaths(rootGroupId, groups, pathExists).join('\n');
 }
+
+/**
+ * Build the "files to include" value of the Search view for the given paths.
+ * Workspace paths become `./`-relative and other paths stay absolute; glob
+ * characters are escaped so each entry matches only itself, or everything
+ * inside it for a folder.
+ */
+export function buildSearchIncludePattern(
+    filePaths: readonly string[],
+    toRelativePath: (filePath: string) => string | undefined
+): string {
+    const escapeGlob = (value: string) => value.split(path.sep).join('/').replace(/[*?[{},]/g, character => `[${character}]`);
+
+    return filePaths
+        .map((filePath) => {
+            const relativePath = toRelativePath(filePath);
+            return relativePath === undefined ? escapeGlob(filePath) : `./${escapeGlob(relativePath)}`;
+        })
+        .join(', ');
+}
+
+/**
+ * Compare key for file paths; Windows paths are case-insensitive
+ */
+export function canonicalFilePath(filePath: string): string {
+    const normalized = path.normalize(filePath);
+    return process.platform === 'win32' ? normalized.toLowerCase() : normalized;
+}
+
+/**
+ * Build the full path from root to the given group (for example, "Backend\\API\\").
+ */
+export function buildGroupPath(group: FileGroup, groupsById: ReadonlyMap<string, FileGroup>): string {
+    const names: string[] = [];
+    const visitedIds = new Set<string>();
+    let current: FileGroup | undefined = group;
+
+    while (current && !visitedIds.has(current.id)) {
+        visitedIds.add(current.id);
+        names.unshift(current.name);
+        current = current.parentId ? groupsById.get(current.parentId) : undefined;
+    }
+
+    return `${names.join('\\')}\\`;
+}
+
+/**
+ * Groups that bookmark a file directly, in group order
+ */
+export function findGroupsContainingFile(groups: readonly FileGroup[], filePath: string): FileGroup[] {
+    const fileKey = canonicalFilePath(filePath);
+    return groups
+        .filter(group => group.files.some(file => !file.isDirectory && canonicalFilePath(file.path) === fileKey))
+        .sort(compareGroups);
+}
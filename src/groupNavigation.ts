@@ -0,0 +1,103 @@
+import { sortAnchors } from './anchors';
+import type { GroupFile } from './models';
+
+/**
+ * One step of a walk through a group: a file, or a bookmarked line in it
+ */
+export interface GroupNavigationStop {
+  groupId: string;
+  filePath: string;
+  anchorId?: string;
+  /** Start line of the anchor */
+  line?: number;
+}
+
+/**
+ * Where the user is: the active file and the line of the cursor
+ */
+export interface GroupNavigationPosition {
+  filePath: string;
+  line: number;
+  /** The stop last stepped to, used while the active file is still that stop's file */
+  stopIndex?: number;
+}
+
+/**
+ * Turn groups with their files in display order into navigation stops.
+ * Folders are skipped, and a file with anchors is visited anchor by anchor
+ * in document order instead of as a whole.
+ */
+export function buildGroupNavigationStops(sections: ReadonlyArray<{ groupId: string; files: readonly GroupFile[] }>): GroupNavigationStop[] {
+  const stops: GroupNavigationStop[] = [];
+
+  for (const { groupId, files } of sections) {
+    for (const file of files) {
+      if (file.isDirectory) {
+        continue;
+      }
+
+      const anchors = sortAnchors(file.anchors ?? []);
+      if (anchors.length === 0) {
+        stops.push({ groupId, filePath: file.path });
+        continue;
+      }
+      stops.push(...anchors.map(anchor => ({ groupId, filePath: file.path, anchorId: anchor.id, line: anchor.line })));
+    }
+  }
+
+  return stops;
+}
+
+/**
+ * Index of the stop after or before the current position, wrapping around.
+ * Inside a file with anchors the cursor line decides which anchor is next,
+ * so stepping works after moving the cursor by hand. A file listed more than
+ * once continues from the stop last stepped to, or else its first listing.
+ * Outside the stops, navigation starts at the first or the last stop.
+ */
+export function getAdjacentNavigationStop(
+  stops: readonly GroupNavigationStop[],
+  position: GroupNavigationPosition | undefined,
+  direction: 1 | -1,
+  isSamePath: (left: string, right: string) => boolean = (left, right) => left === right
+): number | undefined {
+  if (stops.length === 0) {
+    return undefined;
+  }
+
+  const isAtFile = (index: number) => position !== undefined && isSamePath(stops[index].filePath, position.filePath);
+  const lastStop = position?.stopIndex;
+  const current = lastStop !== undefined && lastStop >= 0 && lastStop < stops.length && isAtFile(lastStop)
+    ? lastStop
+    : stops.findIndex((_stop, index) => isAtFile(index));
+  if (current < 0 || !position) {
+    return direction === 1 ? 0 : stops.length - 1;
+  }
+
+  // The run of stops in the current file; the same file may come back later in another subgroup
+  let first = current;
+  while (first > 0 && isAtFile(first - 1)) {
+    first--;
+  }
+  let last = current;
+  while (last + 1 < stops.length && isAtFile(last + 1)) {
+    last++;
+  }
+
+  let target = direction === 1 ? last + 1 : first - 1;
+  for (let index = first; index <= last; index++) {
+    const line = stops[index].line;
+    if (line === undefined) {
+      continue;
+    }
+    if (direction === 1 && line > position.line) {
+      target = index;
+      break;
+    }
+    if (direction === -1 && line < position.line) {
+      target = index;
+    }
+  }
+
+  return (target + stops.length) % stops.length;
+}
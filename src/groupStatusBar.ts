@@ -0,0 +1,71 @@
+import * as vscode from 'vscode';
+import { FileGroup } from './models';
+import { StorageService } from './storageService';
+import { FileGroupDecorationProvider } from './fileDecorationProvider';
+import { buildGroupPath, findGroupsContainingFile } from './groupFilePaths';
+import { t } from './i18n';
+
+/**
+ * Status bar entry showing the groups of the file in the active editor.
+ * Clicking it runs `fileGroups.showActiveFileGroups`.
+ */
+export class GroupStatusBar implements vscode.Disposable {
+    private readonly item = vscode.window.createStatusBarItem('fileGroups.activeGroup', vscode.StatusBarAlignment.Left, 100);
+    private readonly subscriptions: vscode.Disposable[];
+
+    constructor(
+        private storageService: StorageService,
+        fileDecorationProvider: FileGroupDecorationProvider,
+        /** Id of the group quick-add commands add to without asking */
+        private getCurrentGroupId: () => string | undefined,
+        /** Whether a group shows in the tree on the checked-out branch */
+        private isGroupShown: (group: FileGroup) => boolean
+    ) {
+        this.item.command = 'fileGroups.showActiveFileGroups';
+        this.subscriptions = [
+            storageService.onDidChange(() => this.refresh()),
+            // Commands that add or remove files refresh decorations rather than firing a storage change
+            fileDecorationProvider.onDidChangeFileDecorations(() => this.refresh()),
+            vscode.window.onDidChangeActiveTextEditor(() => this.refresh())
+        ];
+        this.refresh();
+    }
+
+    dispose(): void {
+        this.subscriptions.forEach(subscription => subscription.dispose());
+        this.item.dispose();
+    }
+
+    refresh(): void {
+        const uri = vscode.window.activeTextEditor?.document.uri;
+        if (!uri || uri.scheme !== 'file') {
+            this.item.hide();
+            return;
+        }
+
+        const groups = this.storageService.getGroups();
+        const groupsById = new Map(groups.map(group => [group.id, group]));
+        const fileGroups = findGroupsContainingFile(groups, uri.fsPath).filter(group => this.isGroupShown(group));
+        const currentGroup = groupsById.get(this.getCurrentGroupId() ?? '');
+        const groupPaths = fileGroups.map(group => buildGroupPath(group, groupsById));
+
+        this.item.name = t('statusBar.name');
+        if (fileGroups.length === 0) {
+            this.item.text = `$(folder) ${t('statusBar.none')}`;
+        } else if (fileGroups.length === 1) {
+            this.item.text = `$(${fileGroups[0].icon || 'folder'}) ${groupPaths[0]}`;
+        } else {
+            this.item.text = `$(folder-library) ${t('statusBar.multiple', { path: groupPaths[0], count: fileGroups.length - 1 })}`;
+        }
+        this.item.tooltip = [
+            fileGroups.length > 0 ? groupPaths.join('\n') : t('statusBar.none.tooltip'),
+            currentGroup ? t('statusBar.currentGroup', { path: buildGroupPath(currentGroup, groupsById) }) : undefined
+        ].filter(Boolean).join('\n\n');
+        this.item.accessibilityInformation = {
+            label: fileGroups.length > 0
+                ? t('statusBar.accessibility', { count: fileGroups.length, paths: groupPaths.join(', ') })
+                : t('statusBar.none.tooltip')
+        };
+        this.item.show();
+    }
+}
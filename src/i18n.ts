@@ -97,7 +97,7 @@ const EN_TRANSLATIONS = {
   'quickOpen.separator.recent': 'Recently Opened',
   'quickOpen.separator.all': 'All Grouped Files',
   'quickOpen.separator.grouped': 'Grouped Files',
-  'quickOpen.placeholder': 'Search grouped files by name, group, note, or path',
+  'quickOpen.placeholder': 'Search grouped files by name, group, tag, or path; narrow with #tag or group:name',
   'groupedFile.missing.prompt': 'This grouped file no longer exists. Would you like to clean up missing files from your groups?',
   'missingFiles.startup.prompt': 'Found {count} missing file(s) in your groups. Would you like to clean them up?',
   'group.select.none': 'No groups available',
@@ -335,7 +335,190 @@ const EN_TRANSLATIONS = {
   'tags.placeholder': 'Comma-separated, for example: frontend, urgent, review',
   'tags.updated': 'Tags updated.',
   'editor.tags.label': 'Tags',
-  'editor.tags.hint': 'Comma-separated labels are searchable in Quick Open.'
+  'editor.tags.hint': 'Comma-separated labels are searchable in Quick Open.',
+  'noun.anchor.one': 'bookmarked line',
+  'noun.anchor.other': 'bookmarked lines',
+  'tree.command.openAnchor': 'Open Bookmarked Line',
+  'anchor.add.noEditor': 'Open a file in the editor to bookmark a line or selection.',
+  'anchor.add.pick': 'Select a group for this bookmark',
+  'anchor.add.done': 'Bookmarked {location} of {name} in "{group}".',
+  'anchor.symbol.missing': 'symbol not found',
+  'anchor.symbol.none': 'No symbol found at the cursor. Place the cursor inside a class, function, or method.',
+  'anchor.symbol.missing.prompt': '"{symbol}" can no longer be found in {name}. Opened its last known location.',
+  'action.reanchor': 'Re-anchor',
+  'missingSymbols.startup.prompt': '{count} symbol bookmark(s) no longer match a symbol. Would you like to re-anchor them?',
+  'anchor.reanchor.pickAnchor': 'Select a bookmark whose symbol is missing',
+  'anchor.reanchor.noneMissing': 'Every symbol bookmark still points to its symbol.',
+  'anchor.reanchor.pick': 'Select the symbol "{symbol}" should point to',
+  'anchor.reanchor.noMatches': 'No similar symbols found in {name}.',
+  'anchor.reanchor.done': 'Bookmark now points to "{symbol}".',
+  'note.file.pick': 'Select a bookmark to add a note to',
+  'note.file.prompt': 'Markdown note for bookmark "{name}"',
+  'note.placeholder': 'Why this file matters, for example: entry point for the **billing** migration',
+  'note.updated': 'Bookmark note updated.',
+  'editor.fileNote.accessible': 'Note for {path}',
+  'editor.fileNote.placeholder': 'Markdown note: why this file matters',
+  'editor.actions.saveNote': 'Save Note',
+  'editor.actions.saveNoteAccessible': 'Save note for {path}',
+  'editor.status.noteSaved': 'Saved the note for {name}.',
+  'dynamic.name.placeholder': 'e.g., Auth sources',
+  'dynamic.include.prompt': 'Include glob patterns, separated by semicolons',
+  'dynamic.exclude.prompt': 'Exclude glob patterns, separated by semicolons (optional)',
+  'group.dynamic.description': 'dynamic',
+  'group.tooltip.patterns': 'Glob patterns',
+  'group.tooltip.excluded': 'excluding',
+  'editor.patterns.include.label': 'Include Patterns',
+  'editor.patterns.exclude.label': 'Exclude Patterns',
+  'editor.patterns.hint': 'One glob per line. Include patterns turn this into a dynamic group whose files update automatically; patterns without a slash match at any depth.',
+  'noun.match.one': 'match',
+  'noun.match.other': 'matches',
+  'group.tooltip.search': 'Saved search',
+  'search.mode.pick': 'How should the query match?',
+  'search.mode.text': 'Text',
+  'search.mode.matchCase': 'Text (match case)',
+  'search.mode.regex': 'Regular expression',
+  'search.query.prompt': 'Files containing this text are added to the group',
+  'search.query.required': 'Enter a search query',
+  'search.query.invalidRegex': 'Invalid regular expression: {error}',
+  'search.include.prompt': 'Only search files matching these globs (optional, separate with ; or new lines)',
+  'tree.section.tagQueries': 'Tag Queries',
+  'tree.section.tagQueries.description': 'read-only',
+  'tagQuery.accessibility': 'Tag query',
+  'tagQuery.expression.prompt': 'Tag expression, e.g. #api AND (#auth OR #billing) AND NOT #legacy',
+  'tagQuery.pick': 'Select a tag query',
+  'tagQuery.delete.confirm': 'Delete tag query "{name}"? Groups and bookmarks are not affected.',
+  'tagQuery.materialize.empty': 'Tag query "{name}" has no matching files.',
+  'tagQuery.error.empty': 'Enter at least one tag',
+  'tagQuery.error.unexpected': 'Unexpected "{token}" at position {position}',
+  'tagQuery.error.end': 'The expression ends unexpectedly',
+  'group.tooltip.branches': 'Branches:',
+  'branches.pick': 'Select group to bind to branches',
+  'branches.prompt': 'Branches that show "{name}", e.g. feature/checkout, release/* (leave empty for all branches)',
+  'branches.updated': 'Group branches updated.',
+  'branches.hidden': '"{name}" is hidden while {branch} is checked out.',
+  'groupActions.branches.label': '$(git-branch) Bind to Branches',
+  'groupActions.branches.description': 'Show this group only on matching git branches',
+  'tree.section.trash': 'Trash',
+  'trash.reason.groupDeleted': 'Deleted',
+  'trash.reason.fileDeleted': 'File deleted',
+  'trash.reason.fileMissing': 'Missing file removed',
+  'trash.empty': 'The trash is empty.',
+  'trash.pick': 'Select a trashed group or bookmark',
+  'trash.restore.pickGroup': 'Group "{group}" no longer exists. Select a group for {name}',
+  'trash.restore.failed': 'This item could not be restored because it already exists.',
+  'trash.restored': 'Restored "{name}".',
+  'trash.purge.confirm': 'Permanently delete {count} item(s) from the trash? This cannot be undone.',
+  'action.undo': 'Undo',
+  'undo.nothing': 'Nothing to undo.',
+  'redo.nothing': 'Nothing to redo.',
+  'undo.groupDeleted': 'Deleted group "{name}".',
+  'undo.itemsRemoved': 'Removed {count} item(s) from groups.',
+  'undo.missingRemoved': 'Removed {count} missing file(s) from groups.',
+  'snapshot.empty': 'No snapshots yet. A snapshot is taken every time the groups are saved.',
+  'snapshot.pick': 'Select a snapshot',
+  'snapshot.scope.local': 'Workspace groups',
+  'snapshot.scope.global': 'Global groups',
+  'snapshot.action.pick': 'Snapshot from {date}',
+  'snapshot.action.compare': 'Compare with Current',
+  'snapshot.action.restoreAll': 'Restore All Groups',
+  'snapshot.action.restoreGroup': 'Restore a Single Group...',
+  'snapshot.diff.title': 'Snapshot {date} ↔ Current',
+  'snapshot.restore.confirm': 'Replace the current groups with the snapshot from {date}?',
+  'snapshot.readFailed': 'The snapshot could not be read.',
+  'snapshot.restored': 'Restored the groups from {date}.',
+  'snapshot.group.pick': 'Select the group to restore',
+  'snapshot.groupRestored': 'Restored "{name}" from {date}.',
+  'config.newerVersion': '{file} was written by a newer version of CodeGroup (config version {version}). Your changes are kept in this workspace but are not saved to the file until you update the extension.',
+  'config.unsupportedVersion': '{file} was written by a newer version of CodeGroup (config version {version}) and cannot be read. Update the extension; the file was left untouched.',
+  'config.unknownFields': '{file} contains fields this version of CodeGroup does not recognize: {fields}. They are kept in the file but have no effect.',
+  'configIssue.duplicateId': 'Another group already uses the id "{value}".',
+  'configIssue.danglingParent': 'No group has the id "{value}", so this group cannot be nested under it.',
+  'configIssue.parentCycle': 'Parent "{value}" makes this group its own ancestor.',
+  'configIssue.missingPath': '"{value}" does not exist.',
+  'tree.section.workspaceFolder': 'Workspace folder',
+  'storageLayout.pick': 'Choose how workspace groups are stored',
+  'storageLayout.single': 'Single File',
+  'storageLayout.single.detail': 'All groups in .vscode/file-groups.json',
+  'storageLayout.split': 'One File per Group',
+  'storageLayout.split.detail': 'Each group in .vscode/codegroup/<group-id>.json with an index for the order, so parallel edits rarely conflict',
+  'storageLayout.current': 'Current',
+  'storageLayout.switched': 'Workspace groups are now stored as: {layout}.',
+  'storageLayout.failed': 'The storage layout could not be changed: {error}',
+  'merge.conflicts': '{file} changed on disk while your groups also changed. {count} change(s) conflict; everything else was merged. Undo restores your groups as they were.',
+  'merge.resolve': 'Resolve Each…',
+  'merge.keepMine': 'Keep Mine',
+  'merge.takeTheirs': 'Take Theirs',
+  'merge.pick': 'Conflict in "{item}": which version do you want to keep?',
+  'merge.deleted': 'Deleted',
+  'merge.changed': 'Changed',
+  'merge.merged': 'Merged the changes to {file} with your local group changes.',
+  'merge.unreadable': '{file} contains git conflict markers that could not be merged. Resolve the conflict in the file to load its groups.',
+  'group.accessibility.private': 'Private',
+  'group.private.pick': 'Select group to keep private',
+  'group.shared.pick': 'Select group to share with the team',
+  'groupActions.private.label': '$(lock) Make Group Private',
+  'groupActions.private.description': 'Keep this group and its subgroups out of the team config file',
+  'groupActions.shared.label': '$(unlock) Make Group Shared',
+  'groupActions.shared.description': 'Save this group to the team config file again',
+  'layout.pick': 'Select group to capture the current editor layout for',
+  'layout.clear.pick': 'Select group to clear the saved layout of',
+  'layout.noEditors': 'No open editors show files of "{name}". Open its files where you want them, then run this command again.',
+  'layout.saved': 'Saved the layout of "{name}": {count} tab(s) in {columns} column(s). Opening the group restores it.',
+  'groupActions.layout.label': '$(layout) Update Layout from Current Editors',
+  'groupActions.layout.description': 'Remember columns, pinned tabs and cursor positions for opening this group',
+  'groupActions.layout.saved': 'Replace the saved layout with the current editors',
+  'groupActions.clearLayout.label': '$(close) Clear Saved Layout',
+  'groupActions.clearLayout.description': 'Open this group\'s files without restoring a layout',
+  'focus.pick': 'Select group to switch to',
+  'focus.empty': '"{name}" has no files to switch to.',
+  'focus.keptDirty': '{count} tab(s) with unsaved changes were left open.',
+  'focus.nothingToRestore': 'There is no previous working set to switch back to.',
+  'tree.section.session': 'Session Activity',
+  'noun.edit.one': 'edit',
+  'noun.edit.other': 'edits',
+  'session.tooltip': 'Opened {opened}× • Edited {edited}× • Last active {time}',
+  'session.empty': 'No files have been opened or edited in this session yet.',
+  'session.promote.name': 'Session {date}',
+  'session.promote.prompt': 'Name for the group created from this session',
+  'session.promote.summary': 'Files from a work session',
+  'session.prune.prompt': 'Forget files not opened or edited in the last N hours',
+  'session.prune.invalid': 'Enter a number of hours greater than 0.',
+  'session.pruned': 'Removed {count} file(s) from session activity.',
+  'session.pick': 'Select a session',
+  'session.action.pick': 'Session started {date}',
+  'session.action.promote': 'Save as Group',
+  'session.action.openAll': 'Open All Files',
+  'statusBar.name': 'CodeGroup Active Group',
+  'statusBar.none': 'No group',
+  'statusBar.none.tooltip': 'The active file is not in any CodeGroup group. Click to add it.',
+  'statusBar.multiple': '{path} +{count}',
+  'statusBar.currentGroup': 'Quick-add target: {path}',
+  'statusBar.accessibility': 'In {count} CodeGroup group(s): {paths}',
+  'statusBar.current': 'quick-add target',
+  'statusBar.separator.groups': 'Groups of This File',
+  'statusBar.separator.actions': 'Actions',
+  'statusBar.action.add': 'Add to Group…',
+  'statusBar.action.remove': 'Remove from Group…',
+  'statusBar.action.setCurrent': 'Set Quick-Add Target…',
+  'statusBar.action.clearCurrent': 'Stop Adding to "{name}" Automatically',
+  'statusBar.remove.pick': 'Select group to remove this file from',
+  'statusBar.setCurrent.pick': 'Select group that quick-add commands add to without asking',
+  'statusBar.added': 'Added {name} to "{group}".',
+  'navigation.pick': 'Select a group to step through',
+  'navigation.empty': '"{name}" has no files to step through.',
+  'groupSearch.pick': 'Select group to search in',
+  'groupSearch.noFiles': '"{name}" has no files to search.',
+  'groupSearch.title': 'Find in "{name}"',
+  'groupSearch.placeholder': 'Type text to find in the group\'s files, or /regex/ and /regex/i',
+  'groupSearch.truncated': 'Find in "{name}" (first {count} matching lines)',
+  'tree.section.problems': 'Problems',
+  'problems.none': 'No problems',
+  'problems.pick': 'Select group to list problems for',
+  'group.tooltip.problems': 'Problems',
+  'noun.error.one': 'error',
+  'noun.error.other': 'errors',
+  'noun.warning.one': 'warning',
+  'noun.warning.other': 'warnings'
 } as const;
 
 type TranslationDictionary = Partial<Record<keyof typeof EN_TRANSLATIONS, string>>;
@@ -430,7 +613,7 @@ const FR_TRANSLATIONS: TranslationDictionary = {
   'quickOpen.separator.recent': 'Ouverts récemment',
   'quickOpen.separator.all': 'Tous les fichiers groupés',
   'quickOpen.separator.grouped': 'Fichiers groupés',
-  'quickOpen.placeholder': 'Rechercher des fichiers groupés par nom, groupe, note ou chemin',
+  'quickOpen.placeholder': 'Rechercher des fichiers groupés par nom, groupe, tag ou chemin ; affiner avec #tag ou group:nom',
   'groupedFile.missing.prompt': 'Ce fichier groupé n’existe plus. Voulez-vous nettoyer les fichiers manquants dans vos groupes ?',
   'missingFiles.startup.prompt': '{count} fichier(s) manquant(s) ont été trouvés dans vos groupes. Voulez-vous les nettoyer ?',
   'group.select.none': 'Aucun groupe disponible',
@@ -671,7 +854,190 @@ const FR_TRANSLATIONS: TranslationDictionary = {
   'tags.placeholder': 'Séparées par des virgules, par exemple : frontend, urgent, revue',
   'tags.updated': 'Étiquettes mises à jour.',
   'editor.tags.label': 'Étiquettes',
-  'editor.tags.hint': 'Les étiquettes séparées par des virgules sont recherchables dans l’ouverture rapide.'
+  'editor.tags.hint': 'Les étiquettes séparées par des virgules sont recherchables dans l’ouverture rapide.',
+  'noun.anchor.one': 'ligne marquée',
+  'noun.anchor.other': 'lignes marquées',
+  'tree.command.openAnchor': 'Ouvrir la ligne marquée',
+  'anchor.add.noEditor': 'Ouvrez un fichier dans l’éditeur pour marquer une ligne ou une sélection.',
+  'anchor.add.pick': 'Sélectionnez un groupe pour ce signet',
+  'anchor.add.done': '{location} de {name} ajouté à « {group} ».',
+  'anchor.symbol.missing': 'symbole introuvable',
+  'anchor.symbol.none': 'Aucun symbole sous le curseur. Placez le curseur dans une classe, une fonction ou une méthode.',
+  'anchor.symbol.missing.prompt': '« {symbol} » est introuvable dans {name}. Dernier emplacement connu ouvert.',
+  'action.reanchor': 'Réancrer',
+  'missingSymbols.startup.prompt': '{count} signet(s) de symbole ne correspondent plus à aucun symbole. Voulez-vous les réancrer ?',
+  'anchor.reanchor.pickAnchor': 'Sélectionnez un signet dont le symbole est introuvable',
+  'anchor.reanchor.noneMissing': 'Tous les signets de symbole pointent encore vers leur symbole.',
+  'anchor.reanchor.pick': 'Sélectionnez le symbole vers lequel « {symbol} » doit pointer',
+  'anchor.reanchor.noMatches': 'Aucun symbole similaire trouvé dans {name}.',
+  'anchor.reanchor.done': 'Le signet pointe maintenant vers « {symbol} ».',
+  'note.file.pick': 'Sélectionnez un signet à annoter',
+  'note.file.prompt': 'Note Markdown pour le signet « {name} »',
+  'note.placeholder': 'Pourquoi ce fichier compte, par exemple : point d’entrée de la migration **facturation**',
+  'note.updated': 'Note du signet mise à jour.',
+  'editor.fileNote.accessible': 'Note pour {path}',
+  'editor.fileNote.placeholder': 'Note Markdown : pourquoi ce fichier compte',
+  'editor.actions.saveNote': 'Enregistrer la note',
+  'editor.actions.saveNoteAccessible': 'Enregistrer la note pour {path}',
+  'editor.status.noteSaved': 'Note enregistrée pour {name}.',
+  'dynamic.name.placeholder': 'ex. : Sources d’authentification',
+  'dynamic.include.prompt': 'Motifs glob à inclure, séparés par des points-virgules',
+  'dynamic.exclude.prompt': 'Motifs glob à exclure, séparés par des points-virgules (facultatif)',
+  'group.dynamic.description': 'dynamique',
+  'group.tooltip.patterns': 'Motifs glob',
+  'group.tooltip.excluded': 'sauf',
+  'editor.patterns.include.label': 'Motifs inclus',
+  'editor.patterns.exclude.label': 'Motifs exclus',
+  'editor.patterns.hint': 'Un glob par ligne. Les motifs inclus transforment ce groupe en groupe dynamique mis à jour automatiquement ; les motifs sans barre oblique s’appliquent à toute profondeur.',
+  'noun.match.one': 'occurrence',
+  'noun.match.other': 'occurrences',
+  'group.tooltip.search': 'Recherche enregistrée',
+  'search.mode.pick': 'Comment la requête doit-elle correspondre ?',
+  'search.mode.text': 'Texte',
+  'search.mode.matchCase': 'Texte (respecter la casse)',
+  'search.mode.regex': 'Expression régulière',
+  'search.query.prompt': 'Les fichiers contenant ce texte sont ajoutés au groupe',
+  'search.query.required': 'Saisissez une requête de recherche',
+  'search.query.invalidRegex': 'Expression régulière invalide : {error}',
+  'search.include.prompt': 'Rechercher uniquement dans les fichiers correspondant à ces globs (facultatif, séparés par ; ou des retours à la ligne)',
+  'tree.section.tagQueries': 'Requêtes de tags',
+  'tree.section.tagQueries.description': 'lecture seule',
+  'tagQuery.accessibility': 'Requête de tags',
+  'tagQuery.expression.prompt': 'Expression de tags, par ex. #api AND (#auth OR #billing) AND NOT #legacy',
+  'tagQuery.pick': 'Sélectionnez une requête de tags',
+  'tagQuery.delete.confirm': 'Supprimer la requête de tags "{name}" ? Les groupes et favoris ne sont pas modifiés.',
+  'tagQuery.materialize.empty': 'La requête de tags "{name}" ne correspond à aucun fichier.',
+  'tagQuery.error.empty': 'Saisissez au moins un tag',
+  'tagQuery.error.unexpected': '"{token}" inattendu à la position {position}',
+  'tagQuery.error.end': 'L\'expression se termine de façon inattendue',
+  'group.tooltip.branches': 'Branches :',
+  'branches.pick': 'Sélectionnez le groupe à lier à des branches',
+  'branches.prompt': 'Branches qui affichent "{name}", par ex. feature/checkout, release/* (laisser vide pour toutes les branches)',
+  'branches.updated': 'Branches du groupe mises à jour.',
+  'branches.hidden': '"{name}" est masqué tant que {branch} est extraite.',
+  'groupActions.branches.label': '$(git-branch) Lier à des branches',
+  'groupActions.branches.description': 'Afficher ce groupe uniquement sur les branches git correspondantes',
+  'tree.section.trash': 'Corbeille',
+  'trash.reason.groupDeleted': 'Supprimé',
+  'trash.reason.fileDeleted': 'Fichier supprimé',
+  'trash.reason.fileMissing': 'Fichier manquant retiré',
+  'trash.empty': 'La corbeille est vide.',
+  'trash.pick': 'Sélectionnez un groupe ou favori de la corbeille',
+  'trash.restore.pickGroup': 'Le groupe "{group}" n\'existe plus. Sélectionnez un groupe pour {name}',
+  'trash.restore.failed': 'Cet élément n\'a pas pu être restauré car il existe déjà.',
+  'trash.restored': '"{name}" restauré.',
+  'trash.purge.confirm': 'Supprimer définitivement {count} élément(s) de la corbeille ? Cette action est irréversible.',
+  'action.undo': 'Annuler',
+  'undo.nothing': 'Rien à annuler.',
+  'redo.nothing': 'Rien à rétablir.',
+  'undo.groupDeleted': 'Groupe "{name}" supprimé.',
+  'undo.itemsRemoved': '{count} élément(s) retiré(s) des groupes.',
+  'undo.missingRemoved': '{count} fichier(s) manquant(s) retiré(s) des groupes.',
+  'snapshot.empty': 'Aucun instantané pour l\'instant. Un instantané est créé à chaque enregistrement des groupes.',
+  'snapshot.pick': 'Sélectionnez un instantané',
+  'snapshot.scope.local': 'Groupes de l\'espace de travail',
+  'snapshot.scope.global': 'Groupes globaux',
+  'snapshot.action.pick': 'Instantané du {date}',
+  'snapshot.action.compare': 'Comparer avec l\'état actuel',
+  'snapshot.action.restoreAll': 'Restaurer tous les groupes',
+  'snapshot.action.restoreGroup': 'Restaurer un seul groupe...',
+  'snapshot.diff.title': 'Instantané {date} ↔ Actuel',
+  'snapshot.restore.confirm': 'Remplacer les groupes actuels par l\'instantané du {date} ?',
+  'snapshot.readFailed': 'Impossible de lire l\'instantané.',
+  'snapshot.restored': 'Groupes du {date} restaurés.',
+  'snapshot.group.pick': 'Sélectionnez le groupe à restaurer',
+  'snapshot.groupRestored': '"{name}" restauré depuis le {date}.',
+  'config.newerVersion': '{file} a été écrit par une version plus récente de CodeGroup (version de configuration {version}). Vos modifications sont conservées dans cet espace de travail mais ne sont pas enregistrées dans le fichier tant que l\'extension n\'est pas mise à jour.',
+  'config.unsupportedVersion': '{file} a été écrit par une version plus récente de CodeGroup (version de configuration {version}) et ne peut pas être lu. Mettez à jour l\'extension ; le fichier n\'a pas été modifié.',
+  'config.unknownFields': '{file} contient des champs que cette version de CodeGroup ne reconnaît pas : {fields}. Ils sont conservés dans le fichier mais n\'ont aucun effet.',
+  'configIssue.duplicateId': 'Un autre groupe utilise déjà l\'identifiant "{value}".',
+  'configIssue.danglingParent': 'Aucun groupe n\'a l\'identifiant "{value}" : ce groupe ne peut pas y être imbriqué.',
+  'configIssue.parentCycle': 'Le parent "{value}" fait de ce groupe son propre ancêtre.',
+  'configIssue.missingPath': '"{value}" n\'existe pas.',
+  'tree.section.workspaceFolder': 'Dossier de l\'espace de travail',
+  'storageLayout.pick': 'Choisissez comment les groupes de l\'espace de travail sont enregistrés',
+  'storageLayout.single': 'Fichier unique',
+  'storageLayout.single.detail': 'Tous les groupes dans .vscode/file-groups.json',
+  'storageLayout.split': 'Un fichier par groupe',
+  'storageLayout.split.detail': 'Chaque groupe dans .vscode/codegroup/<group-id>.json avec un index pour l\'ordre, pour limiter les conflits lors de modifications parallèles',
+  'storageLayout.current': 'Actuel',
+  'storageLayout.switched': 'Les groupes de l\'espace de travail sont désormais enregistrés en : {layout}.',
+  'storageLayout.failed': 'Impossible de changer le mode d\'enregistrement : {error}',
+  'merge.conflicts': '{file} a été modifié sur le disque alors que vos groupes ont aussi changé. {count} modification(s) sont en conflit ; tout le reste a été fusionné. Annuler restaure vos groupes tels qu\'ils étaient.',
+  'merge.resolve': 'Résoudre un par un…',
+  'merge.keepMine': 'Garder les miennes',
+  'merge.takeTheirs': 'Prendre les leurs',
+  'merge.pick': 'Conflit dans « {item} » : quelle version voulez-vous garder ?',
+  'merge.deleted': 'Supprimé',
+  'merge.changed': 'Modifié',
+  'merge.merged': 'Les modifications de {file} ont été fusionnées avec vos modifications locales des groupes.',
+  'merge.unreadable': '{file} contient des marqueurs de conflit git qui n\'ont pas pu être fusionnés. Résolvez le conflit dans le fichier pour charger ses groupes.',
+  'group.accessibility.private': 'Privé',
+  'group.private.pick': 'Sélectionnez le groupe à garder privé',
+  'group.shared.pick': 'Sélectionnez le groupe à partager avec l\'équipe',
+  'groupActions.private.label': '$(lock) Rendre le groupe privé',
+  'groupActions.private.description': 'Garder ce groupe et ses sous-groupes hors du fichier de configuration de l\'équipe',
+  'groupActions.shared.label': '$(unlock) Partager le groupe',
+  'groupActions.shared.description': 'Enregistrer à nouveau ce groupe dans le fichier de configuration de l\'équipe',
+  'layout.pick': 'Sélectionnez le groupe pour lequel enregistrer la disposition actuelle des éditeurs',
+  'layout.clear.pick': 'Sélectionnez le groupe dont effacer la disposition enregistrée',
+  'layout.noEditors': 'Aucun éditeur ouvert n\'affiche de fichier de « {name} ». Ouvrez ses fichiers là où vous les voulez, puis relancez cette commande.',
+  'layout.saved': 'Disposition de « {name} » enregistrée : {count} onglet(s) dans {columns} colonne(s). Ouvrir le groupe la restaure.',
+  'groupActions.layout.label': '$(layout) Mettre à jour la disposition depuis les éditeurs',
+  'groupActions.layout.description': 'Mémoriser les colonnes, les onglets épinglés et les positions du curseur à l\'ouverture de ce groupe',
+  'groupActions.layout.saved': 'Remplacer la disposition enregistrée par les éditeurs actuels',
+  'groupActions.clearLayout.label': '$(close) Effacer la disposition enregistrée',
+  'groupActions.clearLayout.description': 'Ouvrir les fichiers de ce groupe sans restaurer de disposition',
+  'focus.pick': 'Sélectionnez le groupe vers lequel basculer',
+  'focus.empty': '« {name} » ne contient aucun fichier vers lequel basculer.',
+  'focus.keptDirty': '{count} onglet(s) avec des modifications non enregistrées sont restés ouverts.',
+  'focus.nothingToRestore': 'Aucun ensemble de travail précédent à restaurer.',
+  'tree.section.session': 'Activité de la session',
+  'noun.edit.one': 'modification',
+  'noun.edit.other': 'modifications',
+  'session.tooltip': 'Ouvert {opened}× • Modifié {edited}× • Dernière activité {time}',
+  'session.empty': 'Aucun fichier n\'a encore été ouvert ou modifié dans cette session.',
+  'session.promote.name': 'Session {date}',
+  'session.promote.prompt': 'Nom du groupe créé à partir de cette session',
+  'session.promote.summary': 'Fichiers d\'une session de travail',
+  'session.prune.prompt': 'Oublier les fichiers non ouverts ni modifiés depuis N heures',
+  'session.prune.invalid': 'Saisissez un nombre d\'heures supérieur à 0.',
+  'session.pruned': '{count} fichier(s) retiré(s) de l\'activité de la session.',
+  'session.pick': 'Sélectionnez une session',
+  'session.action.pick': 'Session commencée le {date}',
+  'session.action.promote': 'Enregistrer comme groupe',
+  'session.action.openAll': 'Ouvrir tous les fichiers',
+  'statusBar.name': 'Groupe actif CodeGroup',
+  'statusBar.none': 'Aucun groupe',
+  'statusBar.none.tooltip': 'Le fichier actif n\'appartient à aucun groupe CodeGroup. Cliquez pour l\'ajouter.',
+  'statusBar.multiple': '{path} +{count}',
+  'statusBar.currentGroup': 'Cible d\'ajout rapide : {path}',
+  'statusBar.accessibility': 'Dans {count} groupe(s) CodeGroup : {paths}',
+  'statusBar.current': 'cible d\'ajout rapide',
+  'statusBar.separator.groups': 'Groupes de ce fichier',
+  'statusBar.separator.actions': 'Actions',
+  'statusBar.action.add': 'Ajouter au groupe…',
+  'statusBar.action.remove': 'Retirer du groupe…',
+  'statusBar.action.setCurrent': 'Définir la cible d\'ajout rapide…',
+  'statusBar.action.clearCurrent': 'Ne plus ajouter automatiquement à « {name} »',
+  'statusBar.remove.pick': 'Sélectionnez le groupe dont retirer ce fichier',
+  'statusBar.setCurrent.pick': 'Sélectionnez le groupe où les commandes d\'ajout rapide ajoutent sans demander',
+  'statusBar.added': '{name} ajouté à « {group} ».',
+  'navigation.pick': 'Sélectionnez un groupe à parcourir',
+  'navigation.empty': '« {name} » ne contient aucun fichier à parcourir.',
+  'groupSearch.pick': 'Sélectionnez le groupe dans lequel rechercher',
+  'groupSearch.noFiles': '« {name} » ne contient aucun fichier à rechercher.',
+  'groupSearch.title': 'Rechercher dans « {name} »',
+  'groupSearch.placeholder': 'Saisissez le texte à rechercher dans les fichiers du groupe, ou /regex/ et /regex/i',
+  'groupSearch.truncated': 'Rechercher dans « {name} » ({count} premières lignes correspondantes)',
+  'tree.section.problems': 'Problèmes',
+  'problems.none': 'Aucun problème',
+  'problems.pick': 'Sélectionnez le groupe dont afficher les problèmes',
+  'group.tooltip.problems': 'Problèmes',
+  'noun.error.one': 'erreur',
+  'noun.error.other': 'erreurs',
+  'noun.warning.one': 'avertissement',
+  'noun.warning.other': 'avertissements'
 };
 
 const DE_TRANSLATIONS: TranslationDictionary = {
@@ -763,7 +1129,7 @@ const DE_TRANSLATIONS: TranslationDictionary = {
   'quickOpen.separator.recent': 'Zuletzt geöffnet',
   'quickOpen.separator.all': 'Alle gruppierten Dateien',
   'quickOpen.separator.grouped': 'Gruppierte Dateien',
-  'quickOpen.placeholder': 'Suche gruppierte Dateien nach Name, Gruppe, Notiz oder Pfad',
+  'quickOpen.placeholder': 'Suche gruppierte Dateien nach Name, Gruppe, Tag oder Pfad; eingrenzen mit #tag oder group:name',
   'groupedFile.missing.prompt': 'Diese gruppierte Datei existiert nicht mehr. Möchtest du fehlende Dateien in deinen Gruppen bereinigen?',
   'missingFiles.startup.prompt': 'Es wurden {count} fehlende Datei(en) in deinen Gruppen gefunden. Möchtest du sie bereinigen?',
   'group.select.none': 'Keine Gruppen verfügbar',
@@ -1004,7 +1370,190 @@ const DE_TRANSLATIONS: TranslationDictionary = {
   'tags.placeholder': 'Kommagetrennt, zum Beispiel: frontend, dringend, review',
   'tags.updated': 'Tags aktualisiert.',
   'editor.tags.label': 'Tags',
-  'editor.tags.hint': 'Kommagetrennte Tags sind in Schnell öffnen durchsuchbar.'
+  'editor.tags.hint': 'Kommagetrennte Tags sind in Schnell öffnen durchsuchbar.',
+  'noun.anchor.one': 'markierte Zeile',
+  'noun.anchor.other': 'markierte Zeilen',
+  'tree.command.openAnchor': 'Markierte Zeile öffnen',
+  'anchor.add.noEditor': 'Öffnen Sie eine Datei im Editor, um eine Zeile oder Auswahl zu markieren.',
+  'anchor.add.pick': 'Gruppe für dieses Lesezeichen auswählen',
+  'anchor.add.done': '{location} von {name} in „{group}“ markiert.',
+  'anchor.symbol.missing': 'Symbol nicht gefunden',
+  'anchor.symbol.none': 'Am Cursor wurde kein Symbol gefunden. Setzen Sie den Cursor in eine Klasse, Funktion oder Methode.',
+  'anchor.symbol.missing.prompt': '„{symbol}“ wurde in {name} nicht mehr gefunden. Die letzte bekannte Position wurde geöffnet.',
+  'action.reanchor': 'Neu verankern',
+  'missingSymbols.startup.prompt': '{count} Symbol-Lesezeichen passen zu keinem Symbol mehr. Möchten Sie sie neu verankern?',
+  'anchor.reanchor.pickAnchor': 'Lesezeichen mit fehlendem Symbol auswählen',
+  'anchor.reanchor.noneMissing': 'Alle Symbol-Lesezeichen zeigen noch auf ihr Symbol.',
+  'anchor.reanchor.pick': 'Symbol auswählen, auf das „{symbol}“ zeigen soll',
+  'anchor.reanchor.noMatches': 'Keine ähnlichen Symbole in {name} gefunden.',
+  'anchor.reanchor.done': 'Lesezeichen zeigt jetzt auf „{symbol}“.',
+  'note.file.pick': 'Lesezeichen für eine Notiz auswählen',
+  'note.file.prompt': 'Markdown-Notiz für Lesezeichen „{name}“',
+  'note.placeholder': 'Warum diese Datei wichtig ist, zum Beispiel: Einstieg für die **Billing**-Migration',
+  'note.updated': 'Lesezeichen-Notiz aktualisiert.',
+  'editor.fileNote.accessible': 'Notiz für {path}',
+  'editor.fileNote.placeholder': 'Markdown-Notiz: warum diese Datei wichtig ist',
+  'editor.actions.saveNote': 'Notiz speichern',
+  'editor.actions.saveNoteAccessible': 'Notiz für {path} speichern',
+  'editor.status.noteSaved': 'Notiz für {name} gespeichert.',
+  'dynamic.name.placeholder': 'z. B. Auth-Quellen',
+  'dynamic.include.prompt': 'Einzuschließende Glob-Muster, durch Semikolons getrennt',
+  'dynamic.exclude.prompt': 'Auszuschließende Glob-Muster, durch Semikolons getrennt (optional)',
+  'group.dynamic.description': 'dynamisch',
+  'group.tooltip.patterns': 'Glob-Muster',
+  'group.tooltip.excluded': 'außer',
+  'editor.patterns.include.label': 'Einschlussmuster',
+  'editor.patterns.exclude.label': 'Ausschlussmuster',
+  'editor.patterns.hint': 'Ein Glob pro Zeile. Einschlussmuster machen daraus eine dynamische Gruppe, deren Dateien automatisch aktualisiert werden; Muster ohne Schrägstrich gelten in jeder Tiefe.',
+  'noun.match.one': 'Treffer',
+  'noun.match.other': 'Treffer',
+  'group.tooltip.search': 'Gespeicherte Suche',
+  'search.mode.pick': 'Wie soll die Suche übereinstimmen?',
+  'search.mode.text': 'Text',
+  'search.mode.matchCase': 'Text (Groß-/Kleinschreibung beachten)',
+  'search.mode.regex': 'Regulärer Ausdruck',
+  'search.query.prompt': 'Dateien, die diesen Text enthalten, werden der Gruppe hinzugefügt',
+  'search.query.required': 'Suchbegriff eingeben',
+  'search.query.invalidRegex': 'Ungültiger regulärer Ausdruck: {error}',
+  'search.include.prompt': 'Nur Dateien durchsuchen, die diesen Globs entsprechen (optional, getrennt durch ; oder Zeilenumbrüche)',
+  'tree.section.tagQueries': 'Tag-Abfragen',
+  'tree.section.tagQueries.description': 'schreibgeschützt',
+  'tagQuery.accessibility': 'Tag-Abfrage',
+  'tagQuery.expression.prompt': 'Tag-Ausdruck, z. B. #api AND (#auth OR #billing) AND NOT #legacy',
+  'tagQuery.pick': 'Tag-Abfrage auswählen',
+  'tagQuery.delete.confirm': 'Tag-Abfrage "{name}" löschen? Gruppen und Lesezeichen bleiben unverändert.',
+  'tagQuery.materialize.empty': 'Die Tag-Abfrage "{name}" hat keine passenden Dateien.',
+  'tagQuery.error.empty': 'Mindestens ein Tag eingeben',
+  'tagQuery.error.unexpected': 'Unerwartetes "{token}" an Position {position}',
+  'tagQuery.error.end': 'Der Ausdruck endet unerwartet',
+  'group.tooltip.branches': 'Branches:',
+  'branches.pick': 'Gruppe zum Binden an Branches auswählen',
+  'branches.prompt': 'Branches, auf denen "{name}" angezeigt wird, z. B. feature/checkout, release/* (leer lassen für alle Branches)',
+  'branches.updated': 'Branches der Gruppe aktualisiert.',
+  'branches.hidden': '"{name}" ist ausgeblendet, solange {branch} ausgecheckt ist.',
+  'groupActions.branches.label': '$(git-branch) An Branches binden',
+  'groupActions.branches.description': 'Diese Gruppe nur auf passenden Git-Branches anzeigen',
+  'tree.section.trash': 'Papierkorb',
+  'trash.reason.groupDeleted': 'Gelöscht',
+  'trash.reason.fileDeleted': 'Datei gelöscht',
+  'trash.reason.fileMissing': 'Fehlende Datei entfernt',
+  'trash.empty': 'Der Papierkorb ist leer.',
+  'trash.pick': 'Gruppe oder Lesezeichen aus dem Papierkorb auswählen',
+  'trash.restore.pickGroup': 'Die Gruppe "{group}" existiert nicht mehr. Gruppe für {name} auswählen',
+  'trash.restore.failed': 'Dieses Element konnte nicht wiederhergestellt werden, da es bereits existiert.',
+  'trash.restored': '"{name}" wiederhergestellt.',
+  'trash.purge.confirm': '{count} Element(e) endgültig aus dem Papierkorb löschen? Dies kann nicht rückgängig gemacht werden.',
+  'action.undo': 'Rückgängig',
+  'undo.nothing': 'Nichts zum Rückgängigmachen.',
+  'redo.nothing': 'Nichts zum Wiederholen.',
+  'undo.groupDeleted': 'Gruppe "{name}" gelöscht.',
+  'undo.itemsRemoved': '{count} Element(e) aus Gruppen entfernt.',
+  'undo.missingRemoved': '{count} fehlende Datei(en) aus Gruppen entfernt.',
+  'snapshot.empty': 'Noch keine Snapshots. Bei jedem Speichern der Gruppen wird ein Snapshot erstellt.',
+  'snapshot.pick': 'Snapshot auswählen',
+  'snapshot.scope.local': 'Arbeitsbereichsgruppen',
+  'snapshot.scope.global': 'Globale Gruppen',
+  'snapshot.action.pick': 'Snapshot vom {date}',
+  'snapshot.action.compare': 'Mit aktuellem Stand vergleichen',
+  'snapshot.action.restoreAll': 'Alle Gruppen wiederherstellen',
+  'snapshot.action.restoreGroup': 'Einzelne Gruppe wiederherstellen...',
+  'snapshot.diff.title': 'Snapshot {date} ↔ Aktuell',
+  'snapshot.restore.confirm': 'Aktuelle Gruppen durch den Snapshot vom {date} ersetzen?',
+  'snapshot.readFailed': 'Der Snapshot konnte nicht gelesen werden.',
+  'snapshot.restored': 'Gruppen vom {date} wiederhergestellt.',
+  'snapshot.group.pick': 'Wiederherzustellende Gruppe auswählen',
+  'snapshot.groupRestored': '"{name}" vom {date} wiederhergestellt.',
+  'config.newerVersion': '{file} wurde von einer neueren CodeGroup-Version geschrieben (Konfigurationsversion {version}). Ihre Änderungen bleiben in diesem Arbeitsbereich erhalten, werden aber erst nach einem Update der Erweiterung in die Datei gespeichert.',
+  'config.unsupportedVersion': '{file} wurde von einer neueren CodeGroup-Version geschrieben (Konfigurationsversion {version}) und kann nicht gelesen werden. Aktualisieren Sie die Erweiterung; die Datei wurde nicht verändert.',
+  'config.unknownFields': '{file} enthält Felder, die diese CodeGroup-Version nicht kennt: {fields}. Sie bleiben in der Datei erhalten, haben aber keine Wirkung.',
+  'configIssue.duplicateId': 'Eine andere Gruppe verwendet bereits die ID "{value}".',
+  'configIssue.danglingParent': 'Keine Gruppe hat die ID "{value}", daher kann diese Gruppe nicht darunter verschachtelt werden.',
+  'configIssue.parentCycle': 'Das übergeordnete Element "{value}" macht diese Gruppe zu ihrem eigenen Vorfahren.',
+  'configIssue.missingPath': '"{value}" existiert nicht.',
+  'tree.section.workspaceFolder': 'Arbeitsbereichsordner',
+  'storageLayout.pick': 'Wählen Sie, wie Arbeitsbereichsgruppen gespeichert werden',
+  'storageLayout.single': 'Eine Datei',
+  'storageLayout.single.detail': 'Alle Gruppen in .vscode/file-groups.json',
+  'storageLayout.split': 'Eine Datei pro Gruppe',
+  'storageLayout.split.detail': 'Jede Gruppe in .vscode/codegroup/<group-id>.json mit einem Index für die Reihenfolge, damit parallele Änderungen selten kollidieren',
+  'storageLayout.current': 'Aktuell',
+  'storageLayout.switched': 'Arbeitsbereichsgruppen werden jetzt gespeichert als: {layout}.',
+  'storageLayout.failed': 'Die Speicherart konnte nicht geändert werden: {error}',
+  'merge.conflicts': '{file} wurde auf dem Datenträger geändert, während sich auch Ihre Gruppen geändert haben. {count} Änderung(en) stehen in Konflikt; alles andere wurde zusammengeführt. Rückgängig stellt Ihre Gruppen wieder her.',
+  'merge.resolve': 'Einzeln auflösen…',
+  'merge.keepMine': 'Meine behalten',
+  'merge.takeTheirs': 'Ihre übernehmen',
+  'merge.pick': 'Konflikt in „{item}“: Welche Version möchten Sie behalten?',
+  'merge.deleted': 'Gelöscht',
+  'merge.changed': 'Geändert',
+  'merge.merged': 'Die Änderungen an {file} wurden mit Ihren lokalen Gruppenänderungen zusammengeführt.',
+  'merge.unreadable': '{file} enthält Git-Konfliktmarkierungen, die nicht zusammengeführt werden konnten. Lösen Sie den Konflikt in der Datei, um ihre Gruppen zu laden.',
+  'group.accessibility.private': 'Privat',
+  'group.private.pick': 'Gruppe auswählen, die privat bleiben soll',
+  'group.shared.pick': 'Gruppe auswählen, die mit dem Team geteilt werden soll',
+  'groupActions.private.label': '$(lock) Gruppe privat machen',
+  'groupActions.private.description': 'Diese Gruppe und ihre Untergruppen aus der Team-Konfigurationsdatei heraushalten',
+  'groupActions.shared.label': '$(unlock) Gruppe teilen',
+  'groupActions.shared.description': 'Diese Gruppe wieder in der Team-Konfigurationsdatei speichern',
+  'layout.pick': 'Gruppe auswählen, für die das aktuelle Editor-Layout gespeichert werden soll',
+  'layout.clear.pick': 'Gruppe auswählen, deren gespeichertes Layout gelöscht werden soll',
+  'layout.noEditors': 'Keine geöffneten Editoren zeigen Dateien aus „{name}“. Öffnen Sie die Dateien dort, wo Sie sie haben möchten, und führen Sie den Befehl erneut aus.',
+  'layout.saved': 'Layout von „{name}“ gespeichert: {count} Tab(s) in {columns} Spalte(n). Beim Öffnen der Gruppe wird es wiederhergestellt.',
+  'groupActions.layout.label': '$(layout) Layout aus aktuellen Editoren übernehmen',
+  'groupActions.layout.description': 'Spalten, angeheftete Tabs und Cursorpositionen für das Öffnen dieser Gruppe merken',
+  'groupActions.layout.saved': 'Gespeichertes Layout durch die aktuellen Editoren ersetzen',
+  'groupActions.clearLayout.label': '$(close) Gespeichertes Layout löschen',
+  'groupActions.clearLayout.description': 'Dateien dieser Gruppe ohne Layout öffnen',
+  'focus.pick': 'Gruppe auswählen, zu der gewechselt werden soll',
+  'focus.empty': '„{name}“ enthält keine Dateien zum Wechseln.',
+  'focus.keptDirty': '{count} Tab(s) mit ungespeicherten Änderungen wurden offen gelassen.',
+  'focus.nothingToRestore': 'Es gibt kein vorheriges Arbeitsset, zu dem zurückgewechselt werden kann.',
+  'tree.section.session': 'Sitzungsaktivität',
+  'noun.edit.one': 'Bearbeitung',
+  'noun.edit.other': 'Bearbeitungen',
+  'session.tooltip': '{opened}× geöffnet • {edited}× bearbeitet • Zuletzt aktiv {time}',
+  'session.empty': 'In dieser Sitzung wurden noch keine Dateien geöffnet oder bearbeitet.',
+  'session.promote.name': 'Sitzung {date}',
+  'session.promote.prompt': 'Name der aus dieser Sitzung erstellten Gruppe',
+  'session.promote.summary': 'Dateien aus einer Arbeitssitzung',
+  'session.prune.prompt': 'Dateien vergessen, die in den letzten N Stunden nicht geöffnet oder bearbeitet wurden',
+  'session.prune.invalid': 'Geben Sie eine Stundenzahl größer als 0 ein.',
+  'session.pruned': '{count} Datei(en) aus der Sitzungsaktivität entfernt.',
+  'session.pick': 'Sitzung auswählen',
+  'session.action.pick': 'Sitzung gestartet am {date}',
+  'session.action.promote': 'Als Gruppe speichern',
+  'session.action.openAll': 'Alle Dateien öffnen',
+  'statusBar.name': 'CodeGroup aktive Gruppe',
+  'statusBar.none': 'Keine Gruppe',
+  'statusBar.none.tooltip': 'Die aktive Datei gehört zu keiner CodeGroup-Gruppe. Klicken, um sie hinzuzufügen.',
+  'statusBar.multiple': '{path} +{count}',
+  'statusBar.currentGroup': 'Ziel für Schnellhinzufügen: {path}',
+  'statusBar.accessibility': 'In {count} CodeGroup-Gruppe(n): {paths}',
+  'statusBar.current': 'Ziel für Schnellhinzufügen',
+  'statusBar.separator.groups': 'Gruppen dieser Datei',
+  'statusBar.separator.actions': 'Aktionen',
+  'statusBar.action.add': 'Zu Gruppe hinzufügen…',
+  'statusBar.action.remove': 'Aus Gruppe entfernen…',
+  'statusBar.action.setCurrent': 'Ziel für Schnellhinzufügen festlegen…',
+  'statusBar.action.clearCurrent': 'Nicht mehr automatisch zu "{name}" hinzufügen',
+  'statusBar.remove.pick': 'Gruppe auswählen, aus der diese Datei entfernt wird',
+  'statusBar.setCurrent.pick': 'Gruppe auswählen, zu der Schnellbefehle ohne Nachfrage hinzufügen',
+  'statusBar.added': '{name} zu "{group}" hinzugefügt.',
+  'navigation.pick': 'Gruppe zum Durchgehen auswählen',
+  'navigation.empty': '"{name}" enthält keine Dateien zum Durchgehen.',
+  'groupSearch.pick': 'Gruppe zum Durchsuchen auswählen',
+  'groupSearch.noFiles': '"{name}" enthält keine Dateien zum Durchsuchen.',
+  'groupSearch.title': 'In "{name}" suchen',
+  'groupSearch.placeholder': 'Text zum Suchen in den Dateien der Gruppe eingeben, oder /regex/ und /regex/i',
+  'groupSearch.truncated': 'In "{name}" suchen (erste {count} passende Zeilen)',
+  'tree.section.problems': 'Probleme',
+  'problems.none': 'Keine Probleme',
+  'problems.pick': 'Gruppe auswählen, deren Probleme angezeigt werden',
+  'group.tooltip.problems': 'Probleme',
+  'noun.error.one': 'Fehler',
+  'noun.error.other': 'Fehler',
+  'noun.warning.one': 'Warnung',
+  'noun.warning.other': 'Warnungen'
 };
 
 const HU_TRANSLATIONS: TranslationDictionary = {
@@ -1096,7 +1645,7 @@ const HU_TRANSLATIONS: TranslationDictionary = {
   'quickOpen.separator.recent': 'Nemrég megnyitva',
   'quickOpen.separator.all': 'Összes csoportosított fájl',
   'quickOpen.separator.grouped': 'Csoportosított fájlok',
-  'quickOpen.placeholder': 'Keresés név, csoport, jegyzet vagy útvonal alapján',
+  'quickOpen.placeholder': 'Keresés név, csoport, címke vagy útvonal alapján; szűkítés: #címke vagy group:név',
   'groupedFile.missing.prompt': 'Ez a csoportosított fájl már nem létezik. Szeretnéd kitakarítani a hiányzó fájlokat a csoportjaidból?',
   'missingFiles.startup.prompt': '{count} hiányzó fájl található a csoportjaidban. Szeretnéd kitakarítani őket?',
   'group.select.none': 'Nincs elérhető csoport',
@@ -1337,7 +1886,190 @@ const HU_TRANSLATIONS: TranslationDictionary = {
   'tags.placeholder': 'Vesszővel elválasztva, például: frontend, sürgős, ellenőrzés',
   'tags.updated': 'Címkék frissítve.',
   'editor.tags.label': 'Címkék',
-  'editor.tags.hint': 'A vesszővel elválasztott címkék kereshetők a gyors megnyitásban.'
+  'editor.tags.hint': 'A vesszővel elválasztott címkék kereshetők a gyors megnyitásban.',
+  'noun.anchor.one': 'megjelölt sor',
+  'noun.anchor.other': 'megjelölt sor',
+  'tree.command.openAnchor': 'Megjelölt sor megnyitása',
+  'anchor.add.noEditor': 'Nyiss meg egy fájlt a szerkesztőben egy sor vagy kijelölés megjelöléséhez.',
+  'anchor.add.pick': 'Válassz csoportot ehhez a könyvjelzőhöz',
+  'anchor.add.done': '{name} {location} megjelölve a(z) „{group}” csoportban.',
+  'anchor.symbol.missing': 'a szimbólum nem található',
+  'anchor.symbol.none': 'A kurzornál nincs szimbólum. Helyezd a kurzort egy osztályba, függvénybe vagy metódusba.',
+  'anchor.symbol.missing.prompt': '„{symbol}” már nem található itt: {name}. A legutóbbi ismert hely megnyílt.',
+  'action.reanchor': 'Újrahorgonyzás',
+  'missingSymbols.startup.prompt': '{count} szimbólum-könyvjelző már nem egyezik egyetlen szimbólummal sem. Szeretnéd újrahorgonyozni őket?',
+  'anchor.reanchor.pickAnchor': 'Válassz egy könyvjelzőt, amelynek hiányzik a szimbóluma',
+  'anchor.reanchor.noneMissing': 'Minden szimbólum-könyvjelző továbbra is a saját szimbólumára mutat.',
+  'anchor.reanchor.pick': 'Válaszd ki, melyik szimbólumra mutasson: „{symbol}”',
+  'anchor.reanchor.noMatches': 'Nem található hasonló szimbólum itt: {name}.',
+  'anchor.reanchor.done': 'A könyvjelző mostantól erre mutat: „{symbol}”.',
+  'note.file.pick': 'Válassz könyvjelzőt a jegyzethez',
+  'note.file.prompt': 'Markdown-jegyzet a(z) „{name}” könyvjelzőhöz',
+  'note.placeholder': 'Miért fontos ez a fájl, például: a **számlázási** migráció belépési pontja',
+  'note.updated': 'A könyvjelző jegyzete frissült.',
+  'editor.fileNote.accessible': 'Jegyzet ehhez: {path}',
+  'editor.fileNote.placeholder': 'Markdown-jegyzet: miért fontos ez a fájl',
+  'editor.actions.saveNote': 'Jegyzet mentése',
+  'editor.actions.saveNoteAccessible': 'Jegyzet mentése ehhez: {path}',
+  'editor.status.noteSaved': 'A jegyzet mentve ehhez: {name}.',
+  'dynamic.name.placeholder': 'pl. Hitelesítési források',
+  'dynamic.include.prompt': 'Belefoglalandó glob minták, pontosvesszővel elválasztva',
+  'dynamic.exclude.prompt': 'Kizárandó glob minták, pontosvesszővel elválasztva (nem kötelező)',
+  'group.dynamic.description': 'dinamikus',
+  'group.tooltip.patterns': 'Glob minták',
+  'group.tooltip.excluded': 'kivéve',
+  'editor.patterns.include.label': 'Belefoglaló minták',
+  'editor.patterns.exclude.label': 'Kizáró minták',
+  'editor.patterns.hint': 'Soronként egy glob. A belefoglaló minták dinamikus csoporttá alakítják, amelynek fájljai automatikusan frissülnek; a perjel nélküli minták bármilyen mélységben illeszkednek.',
+  'noun.match.one': 'találat',
+  'noun.match.other': 'találat',
+  'group.tooltip.search': 'Mentett keresés',
+  'search.mode.pick': 'Hogyan illeszkedjen a keresés?',
+  'search.mode.text': 'Szöveg',
+  'search.mode.matchCase': 'Szöveg (kis- és nagybetű számít)',
+  'search.mode.regex': 'Reguláris kifejezés',
+  'search.query.prompt': 'Az ezt a szöveget tartalmazó fájlok bekerülnek a csoportba',
+  'search.query.required': 'Adj meg egy keresőkifejezést',
+  'search.query.invalidRegex': 'Érvénytelen reguláris kifejezés: {error}',
+  'search.include.prompt': 'Csak az ezeknek a globoknak megfelelő fájlokban keressen (opcionális, ; vagy új sor választja el)',
+  'tree.section.tagQueries': 'Címke-lekérdezések',
+  'tree.section.tagQueries.description': 'csak olvasható',
+  'tagQuery.accessibility': 'Címke-lekérdezés',
+  'tagQuery.expression.prompt': 'Címkekifejezés, pl. #api AND (#auth OR #billing) AND NOT #legacy',
+  'tagQuery.pick': 'Válassz címke-lekérdezést',
+  'tagQuery.delete.confirm': 'Törlöd a(z) "{name}" címke-lekérdezést? A csoportok és könyvjelzők nem változnak.',
+  'tagQuery.materialize.empty': 'A(z) "{name}" címke-lekérdezésnek nincs találata.',
+  'tagQuery.error.empty': 'Adj meg legalább egy címkét',
+  'tagQuery.error.unexpected': 'Váratlan "{token}" a(z) {position}. pozíción',
+  'tagQuery.error.end': 'A kifejezés váratlanul véget ér',
+  'group.tooltip.branches': 'Ágak:',
+  'branches.pick': 'Válaszd ki az ágakhoz kötendő csoportot',
+  'branches.prompt': 'Ágak, amelyeken a(z) "{name}" látszik, pl. feature/checkout, release/* (üresen hagyva minden ágon)',
+  'branches.updated': 'A csoport ágai frissültek.',
+  'branches.hidden': 'A(z) "{name}" rejtve van, amíg a(z) {branch} ág van kivéve.',
+  'groupActions.branches.label': '$(git-branch) Ágakhoz kötés',
+  'groupActions.branches.description': 'A csoport csak a megfelelő git ágakon látszik',
+  'tree.section.trash': 'Kuka',
+  'trash.reason.groupDeleted': 'Törölve',
+  'trash.reason.fileDeleted': 'Fájl törölve',
+  'trash.reason.fileMissing': 'Hiányzó fájl eltávolítva',
+  'trash.empty': 'A kuka üres.',
+  'trash.pick': 'Válassz csoportot vagy könyvjelzőt a kukából',
+  'trash.restore.pickGroup': 'A(z) "{group}" csoport már nem létezik. Válassz csoportot ehhez: {name}',
+  'trash.restore.failed': 'Az elem nem állítható vissza, mert már létezik.',
+  'trash.restored': '"{name}" visszaállítva.',
+  'trash.purge.confirm': 'Véglegesen törlöd a kukából ezt a(z) {count} elemet? Ez nem vonható vissza.',
+  'action.undo': 'Visszavonás',
+  'undo.nothing': 'Nincs mit visszavonni.',
+  'redo.nothing': 'Nincs mit újra végrehajtani.',
+  'undo.groupDeleted': 'A(z) "{name}" csoport törölve.',
+  'undo.itemsRemoved': '{count} elem eltávolítva a csoportokból.',
+  'undo.missingRemoved': '{count} hiányzó fájl eltávolítva a csoportokból.',
+  'snapshot.empty': 'Még nincs pillanatkép. A csoportok minden mentésekor készül egy.',
+  'snapshot.pick': 'Válassz pillanatképet',
+  'snapshot.scope.local': 'Munkaterület csoportjai',
+  'snapshot.scope.global': 'Globális csoportok',
+  'snapshot.action.pick': 'Pillanatkép: {date}',
+  'snapshot.action.compare': 'Összehasonlítás a jelenlegivel',
+  'snapshot.action.restoreAll': 'Összes csoport visszaállítása',
+  'snapshot.action.restoreGroup': 'Egyetlen csoport visszaállítása...',
+  'snapshot.diff.title': 'Pillanatkép {date} ↔ Jelenlegi',
+  'snapshot.restore.confirm': 'Lecseréled a jelenlegi csoportokat a(z) {date} pillanatképre?',
+  'snapshot.readFailed': 'A pillanatkép nem olvasható.',
+  'snapshot.restored': 'A(z) {date} csoportjai visszaállítva.',
+  'snapshot.group.pick': 'Válaszd ki a visszaállítandó csoportot',
+  'snapshot.groupRestored': '"{name}" visszaállítva ({date}).',
+  'config.newerVersion': 'A(z) {file} fájlt a CodeGroup egy újabb verziója írta (konfigurációs verzió: {version}). A módosításaid megmaradnak ebben a munkaterületben, de a bővítmény frissítéséig nem kerülnek a fájlba.',
+  'config.unsupportedVersion': 'A(z) {file} fájlt a CodeGroup egy újabb verziója írta (konfigurációs verzió: {version}), ezért nem olvasható. Frissítsd a bővítményt; a fájl változatlan maradt.',
+  'config.unknownFields': 'A(z) {file} olyan mezőket tartalmaz, amelyeket a CodeGroup ezen verziója nem ismer: {fields}. A fájlban megmaradnak, de nincs hatásuk.',
+  'configIssue.duplicateId': 'Egy másik csoport már használja a(z) "{value}" azonosítót.',
+  'configIssue.danglingParent': 'Nincs "{value}" azonosítójú csoport, így ez a csoport nem ágyazható alá.',
+  'configIssue.parentCycle': 'A(z) "{value}" szülő miatt ez a csoport a saját őse lenne.',
+  'configIssue.missingPath': '"{value}" nem létezik.',
+  'tree.section.workspaceFolder': 'Munkaterület mappája',
+  'storageLayout.pick': 'Válassza ki, hogyan legyenek tárolva a munkaterület csoportjai',
+  'storageLayout.single': 'Egyetlen fájl',
+  'storageLayout.single.detail': 'Minden csoport a .vscode/file-groups.json fájlban',
+  'storageLayout.split': 'Csoportonként egy fájl',
+  'storageLayout.split.detail': 'Minden csoport a .vscode/codegroup/<group-id>.json fájlban, a sorrendet egy index tárolja, így a párhuzamos módosítások ritkán ütköznek',
+  'storageLayout.current': 'Jelenlegi',
+  'storageLayout.switched': 'A munkaterület csoportjainak tárolása mostantól: {layout}.',
+  'storageLayout.failed': 'A tárolási mód nem módosítható: {error}',
+  'merge.conflicts': 'A(z) {file} megváltozott a lemezen, miközben a csoportjai is változtak. {count} módosítás ütközik; minden más egyesítve lett. A Visszavonás visszaállítja a csoportjait.',
+  'merge.resolve': 'Egyenkénti feloldás…',
+  'merge.keepMine': 'Saját megtartása',
+  'merge.takeTheirs': 'Az övék átvétele',
+  'merge.pick': 'Ütközés itt: „{item}”. Melyik verziót szeretné megtartani?',
+  'merge.deleted': 'Törölve',
+  'merge.changed': 'Módosítva',
+  'merge.merged': 'A(z) {file} módosításai egyesítve lettek a helyi csoportmódosításaival.',
+  'merge.unreadable': 'A(z) {file} olyan git ütközésjelölőket tartalmaz, amelyeket nem sikerült egyesíteni. Oldja fel az ütközést a fájlban a csoportok betöltéséhez.',
+  'group.accessibility.private': 'Privát',
+  'group.private.pick': 'Válassza ki a privátként megtartandó csoportot',
+  'group.shared.pick': 'Válassza ki a csapattal megosztandó csoportot',
+  'groupActions.private.label': '$(lock) Csoport priváttá tétele',
+  'groupActions.private.description': 'A csoport és alcsoportjai ne kerüljenek a csapat konfigurációs fájljába',
+  'groupActions.shared.label': '$(unlock) Csoport megosztása',
+  'groupActions.shared.description': 'A csoport mentése ismét a csapat konfigurációs fájljába',
+  'layout.pick': 'Válassza ki a csoportot, amelyhez a jelenlegi szerkesztőelrendezést menti',
+  'layout.clear.pick': 'Válassza ki a csoportot, amelynek mentett elrendezését törli',
+  'layout.noEditors': 'Egyik megnyitott szerkesztő sem mutatja a(z) „{name}” fájljait. Nyissa meg a fájlokat a kívánt helyen, majd futtassa újra a parancsot.',
+  'layout.saved': 'A(z) „{name}” elrendezése mentve: {count} lap {columns} oszlopban. A csoport megnyitása visszaállítja.',
+  'groupActions.layout.label': '$(layout) Elrendezés frissítése a jelenlegi szerkesztőkből',
+  'groupActions.layout.description': 'Oszlopok, rögzített lapok és kurzorpozíciók megjegyzése a csoport megnyitásához',
+  'groupActions.layout.saved': 'A mentett elrendezés cseréje a jelenlegi szerkesztőkre',
+  'groupActions.clearLayout.label': '$(close) Mentett elrendezés törlése',
+  'groupActions.clearLayout.description': 'A csoport fájljainak megnyitása elrendezés visszaállítása nélkül',
+  'focus.pick': 'Válassza ki a csoportot, amelyre vált',
+  'focus.empty': 'A(z) „{name}” csoportban nincs fájl, amelyre váltani lehetne.',
+  'focus.keptDirty': '{count} nem mentett módosításokat tartalmazó lap nyitva maradt.',
+  'focus.nothingToRestore': 'Nincs korábbi munkakészlet, amelyre vissza lehetne váltani.',
+  'tree.section.session': 'Munkamenet-tevékenység',
+  'noun.edit.one': 'szerkesztés',
+  'noun.edit.other': 'szerkesztés',
+  'session.tooltip': 'Megnyitva {opened}× • Szerkesztve {edited}× • Utoljára aktív {time}',
+  'session.empty': 'Ebben a munkamenetben még nem nyitottál meg vagy szerkesztettél fájlt.',
+  'session.promote.name': 'Munkamenet {date}',
+  'session.promote.prompt': 'A munkamenetből létrehozott csoport neve',
+  'session.promote.summary': 'Egy munkamenet fájljai',
+  'session.prune.prompt': 'Az utolsó N órában meg nem nyitott vagy nem szerkesztett fájlok elfelejtése',
+  'session.prune.invalid': 'Adj meg 0-nál nagyobb óraszámot.',
+  'session.pruned': '{count} fájl eltávolítva a munkamenet-tevékenységből.',
+  'session.pick': 'Válassz munkamenetet',
+  'session.action.pick': 'Munkamenet kezdete: {date}',
+  'session.action.promote': 'Mentés csoportként',
+  'session.action.openAll': 'Összes fájl megnyitása',
+  'statusBar.name': 'CodeGroup aktív csoport',
+  'statusBar.none': 'Nincs csoport',
+  'statusBar.none.tooltip': 'Az aktív fájl egyik CodeGroup csoportban sincs benne. Kattints a hozzáadáshoz.',
+  'statusBar.multiple': '{path} +{count}',
+  'statusBar.currentGroup': 'Gyors hozzáadás célja: {path}',
+  'statusBar.accessibility': '{count} CodeGroup csoportban: {paths}',
+  'statusBar.current': 'gyors hozzáadás célja',
+  'statusBar.separator.groups': 'A fájl csoportjai',
+  'statusBar.separator.actions': 'Műveletek',
+  'statusBar.action.add': 'Hozzáadás csoporthoz…',
+  'statusBar.action.remove': 'Eltávolítás csoportból…',
+  'statusBar.action.setCurrent': 'Gyors hozzáadás céljának beállítása…',
+  'statusBar.action.clearCurrent': 'Automatikus hozzáadás leállítása ide: "{name}"',
+  'statusBar.remove.pick': 'Válaszd ki a csoportot, amelyből a fájlt eltávolítod',
+  'statusBar.setCurrent.pick': 'Válaszd ki a csoportot, amelyhez a gyors parancsok kérdés nélkül adnak hozzá',
+  'statusBar.added': '{name} hozzáadva ehhez: "{group}".',
+  'navigation.pick': 'Válassz csoportot a végiglépkedéshez',
+  'navigation.empty': 'A(z) "{name}" csoportban nincs végiglépkedhető fájl.',
+  'groupSearch.pick': 'Válaszd ki a csoportot, amelyben keresel',
+  'groupSearch.noFiles': 'A(z) "{name}" csoportban nincs kereshető fájl.',
+  'groupSearch.title': 'Keresés itt: "{name}"',
+  'groupSearch.placeholder': 'Írd be a csoport fájljaiban keresendő szöveget, vagy /regex/ és /regex/i',
+  'groupSearch.truncated': 'Keresés itt: "{name}" (az első {count} egyező sor)',
+  'tree.section.problems': 'Problémák',
+  'problems.none': 'Nincs probléma',
+  'problems.pick': 'Válaszd ki a csoportot, amelynek a problémáit listázod',
+  'group.tooltip.problems': 'Problémák',
+  'noun.error.one': 'hiba',
+  'noun.error.other': 'hiba',
+  'noun.warning.one': 'figyelmeztetés',
+  'noun.warning.other': 'figyelmeztetés'
 };
 
 const ES_TRANSLATIONS: TranslationDictionary = {
@@ -1388,7 +2120,190 @@ const ES_TRANSLATIONS: TranslationDictionary = {
   'tags.placeholder': 'Separadas por comas, por ejemplo: frontend, urgente, revisión',
   'tags.updated': 'Etiquetas actualizadas.',
   'editor.tags.label': 'Etiquetas',
-  'editor.tags.hint': 'Las etiquetas separadas por comas se pueden buscar en Apertura rápida.'
+  'editor.tags.hint': 'Las etiquetas separadas por comas se pueden buscar en Apertura rápida.',
+  'noun.anchor.one': 'línea marcada',
+  'noun.anchor.other': 'líneas marcadas',
+  'tree.command.openAnchor': 'Abrir línea marcada',
+  'anchor.add.noEditor': 'Abre un archivo en el editor para marcar una línea o selección.',
+  'anchor.add.pick': 'Selecciona un grupo para este marcador',
+  'anchor.add.done': '{location} de {name} marcado en "{group}".',
+  'anchor.symbol.missing': 'símbolo no encontrado',
+  'anchor.symbol.none': 'No hay ningún símbolo en el cursor. Coloca el cursor dentro de una clase, función o método.',
+  'anchor.symbol.missing.prompt': '"{symbol}" ya no se encuentra en {name}. Se abrió su última ubicación conocida.',
+  'action.reanchor': 'Volver a anclar',
+  'missingSymbols.startup.prompt': '{count} marcador(es) de símbolo ya no coinciden con ningún símbolo. ¿Quieres volver a anclarlos?',
+  'anchor.reanchor.pickAnchor': 'Selecciona un marcador cuyo símbolo falta',
+  'anchor.reanchor.noneMissing': 'Todos los marcadores de símbolo siguen apuntando a su símbolo.',
+  'anchor.reanchor.pick': 'Selecciona el símbolo al que debe apuntar "{symbol}"',
+  'anchor.reanchor.noMatches': 'No se encontraron símbolos similares en {name}.',
+  'anchor.reanchor.done': 'El marcador ahora apunta a "{symbol}".',
+  'note.file.pick': 'Selecciona un marcador para añadir una nota',
+  'note.file.prompt': 'Nota Markdown para el marcador "{name}"',
+  'note.placeholder': 'Por qué importa este archivo, por ejemplo: punto de entrada de la migración de **facturación**',
+  'note.updated': 'Nota del marcador actualizada.',
+  'editor.fileNote.accessible': 'Nota para {path}',
+  'editor.fileNote.placeholder': 'Nota Markdown: por qué importa este archivo',
+  'editor.actions.saveNote': 'Guardar nota',
+  'editor.actions.saveNoteAccessible': 'Guardar nota para {path}',
+  'editor.status.noteSaved': 'Nota guardada para {name}.',
+  'dynamic.name.placeholder': 'p. ej., Fuentes de autenticación',
+  'dynamic.include.prompt': 'Patrones glob para incluir, separados por punto y coma',
+  'dynamic.exclude.prompt': 'Patrones glob para excluir, separados por punto y coma (opcional)',
+  'group.dynamic.description': 'dinámico',
+  'group.tooltip.patterns': 'Patrones glob',
+  'group.tooltip.excluded': 'excepto',
+  'editor.patterns.include.label': 'Patrones de inclusión',
+  'editor.patterns.exclude.label': 'Patrones de exclusión',
+  'editor.patterns.hint': 'Un glob por línea. Los patrones de inclusión convierten esto en un grupo dinámico cuyos archivos se actualizan automáticamente; los patrones sin barra coinciden a cualquier profundidad.',
+  'noun.match.one': 'coincidencia',
+  'noun.match.other': 'coincidencias',
+  'group.tooltip.search': 'Búsqueda guardada',
+  'search.mode.pick': '¿Cómo debe coincidir la consulta?',
+  'search.mode.text': 'Texto',
+  'search.mode.matchCase': 'Texto (distinguir mayúsculas)',
+  'search.mode.regex': 'Expresión regular',
+  'search.query.prompt': 'Los archivos que contienen este texto se añaden al grupo',
+  'search.query.required': 'Introduce una consulta de búsqueda',
+  'search.query.invalidRegex': 'Expresión regular no válida: {error}',
+  'search.include.prompt': 'Buscar solo en archivos que coincidan con estos globs (opcional, separados por ; o saltos de línea)',
+  'tree.section.tagQueries': 'Consultas de etiquetas',
+  'tree.section.tagQueries.description': 'solo lectura',
+  'tagQuery.accessibility': 'Consulta de etiquetas',
+  'tagQuery.expression.prompt': 'Expresión de etiquetas, p. ej. #api AND (#auth OR #billing) AND NOT #legacy',
+  'tagQuery.pick': 'Selecciona una consulta de etiquetas',
+  'tagQuery.delete.confirm': '¿Eliminar la consulta de etiquetas "{name}"? Los grupos y marcadores no cambian.',
+  'tagQuery.materialize.empty': 'La consulta de etiquetas "{name}" no tiene archivos coincidentes.',
+  'tagQuery.error.empty': 'Introduce al menos una etiqueta',
+  'tagQuery.error.unexpected': '"{token}" inesperado en la posición {position}',
+  'tagQuery.error.end': 'La expresión termina de forma inesperada',
+  'group.tooltip.branches': 'Ramas:',
+  'branches.pick': 'Selecciona el grupo que quieres vincular a ramas',
+  'branches.prompt': 'Ramas que muestran "{name}", p. ej. feature/checkout, release/* (vacío para todas las ramas)',
+  'branches.updated': 'Ramas del grupo actualizadas.',
+  'branches.hidden': '"{name}" está oculto mientras {branch} está activa.',
+  'groupActions.branches.label': '$(git-branch) Vincular a ramas',
+  'groupActions.branches.description': 'Mostrar este grupo solo en las ramas de git que coincidan',
+  'tree.section.trash': 'Papelera',
+  'trash.reason.groupDeleted': 'Eliminado',
+  'trash.reason.fileDeleted': 'Archivo eliminado',
+  'trash.reason.fileMissing': 'Archivo ausente quitado',
+  'trash.empty': 'La papelera está vacía.',
+  'trash.pick': 'Selecciona un grupo o marcador de la papelera',
+  'trash.restore.pickGroup': 'El grupo "{group}" ya no existe. Selecciona un grupo para {name}',
+  'trash.restore.failed': 'No se pudo restaurar este elemento porque ya existe.',
+  'trash.restored': '"{name}" restaurado.',
+  'trash.purge.confirm': '¿Eliminar definitivamente {count} elemento(s) de la papelera? No se puede deshacer.',
+  'action.undo': 'Deshacer',
+  'undo.nothing': 'No hay nada que deshacer.',
+  'redo.nothing': 'No hay nada que rehacer.',
+  'undo.groupDeleted': 'Grupo "{name}" eliminado.',
+  'undo.itemsRemoved': 'Se quitaron {count} elemento(s) de los grupos.',
+  'undo.missingRemoved': 'Se quitaron {count} archivo(s) ausente(s) de los grupos.',
+  'snapshot.empty': 'Aún no hay instantáneas. Se crea una cada vez que se guardan los grupos.',
+  'snapshot.pick': 'Selecciona una instantánea',
+  'snapshot.scope.local': 'Grupos del área de trabajo',
+  'snapshot.scope.global': 'Grupos globales',
+  'snapshot.action.pick': 'Instantánea del {date}',
+  'snapshot.action.compare': 'Comparar con el estado actual',
+  'snapshot.action.restoreAll': 'Restaurar todos los grupos',
+  'snapshot.action.restoreGroup': 'Restaurar un solo grupo...',
+  'snapshot.diff.title': 'Instantánea {date} ↔ Actual',
+  'snapshot.restore.confirm': '¿Reemplazar los grupos actuales por la instantánea del {date}?',
+  'snapshot.readFailed': 'No se pudo leer la instantánea.',
+  'snapshot.restored': 'Grupos del {date} restaurados.',
+  'snapshot.group.pick': 'Selecciona el grupo que quieres restaurar',
+  'snapshot.groupRestored': '"{name}" restaurado desde el {date}.',
+  'config.newerVersion': '{file} fue escrito por una versión más reciente de CodeGroup (versión de configuración {version}). Tus cambios se conservan en esta área de trabajo, pero no se guardan en el archivo hasta que actualices la extensión.',
+  'config.unsupportedVersion': '{file} fue escrito por una versión más reciente de CodeGroup (versión de configuración {version}) y no se puede leer. Actualiza la extensión; el archivo no se modificó.',
+  'config.unknownFields': '{file} contiene campos que esta versión de CodeGroup no reconoce: {fields}. Se conservan en el archivo, pero no tienen efecto.',
+  'configIssue.duplicateId': 'Otro grupo ya usa el id "{value}".',
+  'configIssue.danglingParent': 'Ningún grupo tiene el id "{value}", así que este grupo no se puede anidar en él.',
+  'configIssue.parentCycle': 'El padre "{value}" convierte a este grupo en su propio antecesor.',
+  'configIssue.missingPath': '"{value}" no existe.',
+  'tree.section.workspaceFolder': 'Carpeta del área de trabajo',
+  'storageLayout.pick': 'Elija cómo se guardan los grupos del área de trabajo',
+  'storageLayout.single': 'Un solo archivo',
+  'storageLayout.single.detail': 'Todos los grupos en .vscode/file-groups.json',
+  'storageLayout.split': 'Un archivo por grupo',
+  'storageLayout.split.detail': 'Cada grupo en .vscode/codegroup/<group-id>.json con un índice para el orden, para que las ediciones en paralelo rara vez entren en conflicto',
+  'storageLayout.current': 'Actual',
+  'storageLayout.switched': 'Los grupos del área de trabajo ahora se guardan como: {layout}.',
+  'storageLayout.failed': 'No se pudo cambiar el modo de almacenamiento: {error}',
+  'merge.conflicts': '{file} cambió en el disco mientras sus grupos también cambiaban. {count} cambio(s) están en conflicto; todo lo demás se fusionó. Deshacer restaura sus grupos como estaban.',
+  'merge.resolve': 'Resolver uno por uno…',
+  'merge.keepMine': 'Conservar los míos',
+  'merge.takeTheirs': 'Usar los suyos',
+  'merge.pick': 'Conflicto en "{item}": ¿qué versión desea conservar?',
+  'merge.deleted': 'Eliminado',
+  'merge.changed': 'Modificado',
+  'merge.merged': 'Los cambios de {file} se fusionaron con sus cambios locales en los grupos.',
+  'merge.unreadable': '{file} contiene marcadores de conflicto de git que no se pudieron fusionar. Resuelva el conflicto en el archivo para cargar sus grupos.',
+  'group.accessibility.private': 'Privado',
+  'group.private.pick': 'Seleccione el grupo que desea mantener privado',
+  'group.shared.pick': 'Seleccione el grupo que desea compartir con el equipo',
+  'groupActions.private.label': '$(lock) Hacer privado el grupo',
+  'groupActions.private.description': 'Mantener este grupo y sus subgrupos fuera del archivo de configuración del equipo',
+  'groupActions.shared.label': '$(unlock) Compartir el grupo',
+  'groupActions.shared.description': 'Volver a guardar este grupo en el archivo de configuración del equipo',
+  'layout.pick': 'Seleccione el grupo para el que guardar la distribución actual de editores',
+  'layout.clear.pick': 'Seleccione el grupo cuya distribución guardada desea borrar',
+  'layout.noEditors': 'Ningún editor abierto muestra archivos de "{name}". Abra sus archivos donde los quiera y vuelva a ejecutar este comando.',
+  'layout.saved': 'Se guardó la distribución de "{name}": {count} pestaña(s) en {columns} columna(s). Abrir el grupo la restaura.',
+  'groupActions.layout.label': '$(layout) Actualizar distribución desde los editores actuales',
+  'groupActions.layout.description': 'Recordar columnas, pestañas fijadas y posiciones del cursor al abrir este grupo',
+  'groupActions.layout.saved': 'Reemplazar la distribución guardada por los editores actuales',
+  'groupActions.clearLayout.label': '$(close) Borrar distribución guardada',
+  'groupActions.clearLayout.description': 'Abrir los archivos de este grupo sin restaurar una distribución',
+  'focus.pick': 'Seleccione el grupo al que cambiar',
+  'focus.empty': '"{name}" no tiene archivos a los que cambiar.',
+  'focus.keptDirty': 'Se dejaron abiertas {count} pestaña(s) con cambios sin guardar.',
+  'focus.nothingToRestore': 'No hay un conjunto de trabajo anterior al que volver.',
+  'tree.section.session': 'Actividad de la sesión',
+  'noun.edit.one': 'edición',
+  'noun.edit.other': 'ediciones',
+  'session.tooltip': 'Abierto {opened}× • Editado {edited}× • Última actividad {time}',
+  'session.empty': 'Todavía no se ha abierto ni editado ningún archivo en esta sesión.',
+  'session.promote.name': 'Sesión {date}',
+  'session.promote.prompt': 'Nombre del grupo creado a partir de esta sesión',
+  'session.promote.summary': 'Archivos de una sesión de trabajo',
+  'session.prune.prompt': 'Olvidar los archivos no abiertos ni editados en las últimas N horas',
+  'session.prune.invalid': 'Introduce un número de horas mayor que 0.',
+  'session.pruned': 'Se quitaron {count} archivo(s) de la actividad de la sesión.',
+  'session.pick': 'Selecciona una sesión',
+  'session.action.pick': 'Sesión iniciada el {date}',
+  'session.action.promote': 'Guardar como grupo',
+  'session.action.openAll': 'Abrir todos los archivos',
+  'statusBar.name': 'Grupo activo de CodeGroup',
+  'statusBar.none': 'Sin grupo',
+  'statusBar.none.tooltip': 'El archivo activo no está en ningún grupo de CodeGroup. Haz clic para añadirlo.',
+  'statusBar.multiple': '{path} +{count}',
+  'statusBar.currentGroup': 'Destino de adición rápida: {path}',
+  'statusBar.accessibility': 'En {count} grupo(s) de CodeGroup: {paths}',
+  'statusBar.current': 'destino de adición rápida',
+  'statusBar.separator.groups': 'Grupos de este archivo',
+  'statusBar.separator.actions': 'Acciones',
+  'statusBar.action.add': 'Añadir al grupo…',
+  'statusBar.action.remove': 'Quitar del grupo…',
+  'statusBar.action.setCurrent': 'Establecer destino de adición rápida…',
+  'statusBar.action.clearCurrent': 'Dejar de añadir a "{name}" automáticamente',
+  'statusBar.remove.pick': 'Selecciona el grupo del que quitar este archivo',
+  'statusBar.setCurrent.pick': 'Selecciona el grupo al que los comandos de adición rápida añaden sin preguntar',
+  'statusBar.added': '{name} añadido a "{group}".',
+  'navigation.pick': 'Selecciona un grupo para recorrer',
+  'navigation.empty': '"{name}" no tiene archivos para recorrer.',
+  'groupSearch.pick': 'Selecciona el grupo en el que buscar',
+  'groupSearch.noFiles': '"{name}" no tiene archivos en los que buscar.',
+  'groupSearch.title': 'Buscar en "{name}"',
+  'groupSearch.placeholder': 'Escribe el texto que buscar en los archivos del grupo, o /regex/ y /regex/i',
+  'groupSearch.truncated': 'Buscar en "{name}" (primeras {count} líneas coincidentes)',
+  'tree.section.problems': 'Problemas',
+  'problems.none': 'Sin problemas',
+  'problems.pick': 'Selecciona el grupo cuyos problemas quieres ver',
+  'group.tooltip.problems': 'Problemas',
+  'noun.error.one': 'error',
+  'noun.error.other': 'errores',
+  'noun.warning.one': 'advertencia',
+  'noun.warning.other': 'advertencias'
 };
 
 const IT_TRANSLATIONS: TranslationDictionary = {
@@ -1439,7 +2354,190 @@ const IT_TRANSLATIONS: TranslationDictionary = {
   'tags.placeholder': 'Separati da virgole, ad esempio: frontend, urgente, revisione',
   'tags.updated': 'Tag aggiornati.',
   'editor.tags.label': 'Tag',
-  'editor.tags.hint': 'I tag separati da virgole sono ricercabili in Apertura rapida.'
+  'editor.tags.hint': 'I tag separati da virgole sono ricercabili in Apertura rapida.',
+  'noun.anchor.one': 'riga contrassegnata',
+  'noun.anchor.other': 'righe contrassegnate',
+  'tree.command.openAnchor': 'Apri riga contrassegnata',
+  'anchor.add.noEditor': 'Apri un file nell\'editor per contrassegnare una riga o una selezione.',
+  'anchor.add.pick': 'Seleziona un gruppo per questo segnalibro',
+  'anchor.add.done': '{location} di {name} contrassegnato in "{group}".',
+  'anchor.symbol.missing': 'simbolo non trovato',
+  'anchor.symbol.none': 'Nessun simbolo sotto il cursore. Posiziona il cursore in una classe, funzione o metodo.',
+  'anchor.symbol.missing.prompt': '"{symbol}" non si trova più in {name}. È stata aperta l\'ultima posizione nota.',
+  'action.reanchor': 'Riancora',
+  'missingSymbols.startup.prompt': '{count} segnalibri di simbolo non corrispondono più ad alcun simbolo. Vuoi riancorarli?',
+  'anchor.reanchor.pickAnchor': 'Seleziona un segnalibro con simbolo mancante',
+  'anchor.reanchor.noneMissing': 'Tutti i segnalibri di simbolo puntano ancora al loro simbolo.',
+  'anchor.reanchor.pick': 'Seleziona il simbolo a cui deve puntare "{symbol}"',
+  'anchor.reanchor.noMatches': 'Nessun simbolo simile trovato in {name}.',
+  'anchor.reanchor.done': 'Il segnalibro ora punta a "{symbol}".',
+  'note.file.pick': 'Seleziona un segnalibro a cui aggiungere una nota',
+  'note.file.prompt': 'Nota Markdown per il segnalibro "{name}"',
+  'note.placeholder': 'Perché questo file è importante, ad esempio: punto di ingresso della migrazione **fatturazione**',
+  'note.updated': 'Nota del segnalibro aggiornata.',
+  'editor.fileNote.accessible': 'Nota per {path}',
+  'editor.fileNote.placeholder': 'Nota Markdown: perché questo file è importante',
+  'editor.actions.saveNote': 'Salva nota',
+  'editor.actions.saveNoteAccessible': 'Salva nota per {path}',
+  'editor.status.noteSaved': 'Nota salvata per {name}.',
+  'dynamic.name.placeholder': 'es. Sorgenti di autenticazione',
+  'dynamic.include.prompt': 'Pattern glob da includere, separati da punto e virgola',
+  'dynamic.exclude.prompt': 'Pattern glob da escludere, separati da punto e virgola (facoltativo)',
+  'group.dynamic.description': 'dinamico',
+  'group.tooltip.patterns': 'Pattern glob',
+  'group.tooltip.excluded': 'escluso',
+  'editor.patterns.include.label': 'Pattern di inclusione',
+  'editor.patterns.exclude.label': 'Pattern di esclusione',
+  'editor.patterns.hint': 'Un glob per riga. I pattern di inclusione trasformano questo gruppo in un gruppo dinamico aggiornato automaticamente; i pattern senza barra corrispondono a qualsiasi profondità.',
+  'noun.match.one': 'corrispondenza',
+  'noun.match.other': 'corrispondenze',
+  'group.tooltip.search': 'Ricerca salvata',
+  'search.mode.pick': 'Come deve corrispondere la query?',
+  'search.mode.text': 'Testo',
+  'search.mode.matchCase': 'Testo (maiuscole/minuscole)',
+  'search.mode.regex': 'Espressione regolare',
+  'search.query.prompt': 'I file che contengono questo testo vengono aggiunti al gruppo',
+  'search.query.required': 'Inserisci una query di ricerca',
+  'search.query.invalidRegex': 'Espressione regolare non valida: {error}',
+  'search.include.prompt': 'Cerca solo nei file che corrispondono a questi glob (facoltativo, separati da ; o a capo)',
+  'tree.section.tagQueries': 'Query di tag',
+  'tree.section.tagQueries.description': 'sola lettura',
+  'tagQuery.accessibility': 'Query di tag',
+  'tagQuery.expression.prompt': 'Espressione di tag, ad es. #api AND (#auth OR #billing) AND NOT #legacy',
+  'tagQuery.pick': 'Seleziona una query di tag',
+  'tagQuery.delete.confirm': 'Eliminare la query di tag "{name}"? Gruppi e segnalibri non vengono modificati.',
+  'tagQuery.materialize.empty': 'La query di tag "{name}" non ha file corrispondenti.',
+  'tagQuery.error.empty': 'Inserisci almeno un tag',
+  'tagQuery.error.unexpected': '"{token}" inatteso alla posizione {position}',
+  'tagQuery.error.end': 'L\'espressione termina in modo inatteso',
+  'group.tooltip.branches': 'Branch:',
+  'branches.pick': 'Seleziona il gruppo da associare ai branch',
+  'branches.prompt': 'Branch che mostrano "{name}", ad es. feature/checkout, release/* (vuoto per tutti i branch)',
+  'branches.updated': 'Branch del gruppo aggiornati.',
+  'branches.hidden': '"{name}" è nascosto finché {branch} è attivo.',
+  'groupActions.branches.label': '$(git-branch) Associa ai branch',
+  'groupActions.branches.description': 'Mostra questo gruppo solo sui branch git corrispondenti',
+  'tree.section.trash': 'Cestino',
+  'trash.reason.groupDeleted': 'Eliminato',
+  'trash.reason.fileDeleted': 'File eliminato',
+  'trash.reason.fileMissing': 'File mancante rimosso',
+  'trash.empty': 'Il cestino è vuoto.',
+  'trash.pick': 'Seleziona un gruppo o segnalibro dal cestino',
+  'trash.restore.pickGroup': 'Il gruppo "{group}" non esiste più. Seleziona un gruppo per {name}',
+  'trash.restore.failed': 'Impossibile ripristinare l\'elemento perché esiste già.',
+  'trash.restored': '"{name}" ripristinato.',
+  'trash.purge.confirm': 'Eliminare definitivamente {count} elemento/i dal cestino? L\'operazione non può essere annullata.',
+  'action.undo': 'Annulla',
+  'undo.nothing': 'Niente da annullare.',
+  'redo.nothing': 'Niente da ripetere.',
+  'undo.groupDeleted': 'Gruppo "{name}" eliminato.',
+  'undo.itemsRemoved': '{count} elemento/i rimosso/i dai gruppi.',
+  'undo.missingRemoved': '{count} file mancante/i rimosso/i dai gruppi.',
+  'snapshot.empty': 'Ancora nessuno snapshot. Ne viene creato uno a ogni salvataggio dei gruppi.',
+  'snapshot.pick': 'Seleziona uno snapshot',
+  'snapshot.scope.local': 'Gruppi dell\'area di lavoro',
+  'snapshot.scope.global': 'Gruppi globali',
+  'snapshot.action.pick': 'Snapshot del {date}',
+  'snapshot.action.compare': 'Confronta con lo stato attuale',
+  'snapshot.action.restoreAll': 'Ripristina tutti i gruppi',
+  'snapshot.action.restoreGroup': 'Ripristina un singolo gruppo...',
+  'snapshot.diff.title': 'Snapshot {date} ↔ Attuale',
+  'snapshot.restore.confirm': 'Sostituire i gruppi attuali con lo snapshot del {date}?',
+  'snapshot.readFailed': 'Impossibile leggere lo snapshot.',
+  'snapshot.restored': 'Gruppi del {date} ripristinati.',
+  'snapshot.group.pick': 'Seleziona il gruppo da ripristinare',
+  'snapshot.groupRestored': '"{name}" ripristinato dal {date}.',
+  'config.newerVersion': '{file} è stato scritto da una versione più recente di CodeGroup (versione di configurazione {version}). Le modifiche restano in quest\'area di lavoro ma non vengono salvate nel file finché non aggiorni l\'estensione.',
+  'config.unsupportedVersion': '{file} è stato scritto da una versione più recente di CodeGroup (versione di configurazione {version}) e non può essere letto. Aggiorna l\'estensione; il file non è stato modificato.',
+  'config.unknownFields': '{file} contiene campi che questa versione di CodeGroup non riconosce: {fields}. Vengono mantenuti nel file ma non hanno effetto.',
+  'configIssue.duplicateId': 'Un altro gruppo usa già l\'id "{value}".',
+  'configIssue.danglingParent': 'Nessun gruppo ha l\'id "{value}", quindi questo gruppo non può esservi annidato.',
+  'configIssue.parentCycle': 'Il padre "{value}" rende questo gruppo antenato di se stesso.',
+  'configIssue.missingPath': '"{value}" non esiste.',
+  'tree.section.workspaceFolder': 'Cartella dell\'area di lavoro',
+  'storageLayout.pick': 'Scegli come vengono salvati i gruppi dell\'area di lavoro',
+  'storageLayout.single': 'File unico',
+  'storageLayout.single.detail': 'Tutti i gruppi in .vscode/file-groups.json',
+  'storageLayout.split': 'Un file per gruppo',
+  'storageLayout.split.detail': 'Ogni gruppo in .vscode/codegroup/<group-id>.json con un indice per l\'ordine, così le modifiche in parallelo entrano raramente in conflitto',
+  'storageLayout.current': 'Attuale',
+  'storageLayout.switched': 'I gruppi dell\'area di lavoro ora sono salvati come: {layout}.',
+  'storageLayout.failed': 'Impossibile cambiare la modalità di salvataggio: {error}',
+  'merge.conflicts': '{file} è cambiato sul disco mentre anche i tuoi gruppi cambiavano. {count} modifiche sono in conflitto; tutto il resto è stato unito. Annulla ripristina i gruppi com\'erano.',
+  'merge.resolve': 'Risolvi uno alla volta…',
+  'merge.keepMine': 'Mantieni le mie',
+  'merge.takeTheirs': 'Usa le loro',
+  'merge.pick': 'Conflitto in "{item}": quale versione vuoi mantenere?',
+  'merge.deleted': 'Eliminato',
+  'merge.changed': 'Modificato',
+  'merge.merged': 'Le modifiche a {file} sono state unite alle tue modifiche locali ai gruppi.',
+  'merge.unreadable': '{file} contiene marcatori di conflitto git che non è stato possibile unire. Risolvi il conflitto nel file per caricarne i gruppi.',
+  'group.accessibility.private': 'Privato',
+  'group.private.pick': 'Seleziona il gruppo da mantenere privato',
+  'group.shared.pick': 'Seleziona il gruppo da condividere con il team',
+  'groupActions.private.label': '$(lock) Rendi privato il gruppo',
+  'groupActions.private.description': 'Tieni questo gruppo e i suoi sottogruppi fuori dal file di configurazione del team',
+  'groupActions.shared.label': '$(unlock) Condividi il gruppo',
+  'groupActions.shared.description': 'Salva di nuovo questo gruppo nel file di configurazione del team',
+  'layout.pick': 'Seleziona il gruppo per cui salvare il layout attuale degli editor',
+  'layout.clear.pick': 'Seleziona il gruppo di cui cancellare il layout salvato',
+  'layout.noEditors': 'Nessun editor aperto mostra file di "{name}". Apri i suoi file dove li vuoi, poi esegui di nuovo questo comando.',
+  'layout.saved': 'Layout di "{name}" salvato: {count} schede in {columns} colonne. Aprire il gruppo lo ripristina.',
+  'groupActions.layout.label': '$(layout) Aggiorna layout dagli editor attuali',
+  'groupActions.layout.description': 'Ricorda colonne, schede bloccate e posizioni del cursore per l\'apertura di questo gruppo',
+  'groupActions.layout.saved': 'Sostituisci il layout salvato con gli editor attuali',
+  'groupActions.clearLayout.label': '$(close) Cancella layout salvato',
+  'groupActions.clearLayout.description': 'Apri i file di questo gruppo senza ripristinare un layout',
+  'focus.pick': 'Seleziona il gruppo a cui passare',
+  'focus.empty': '"{name}" non ha file a cui passare.',
+  'focus.keptDirty': '{count} schede con modifiche non salvate sono rimaste aperte.',
+  'focus.nothingToRestore': 'Non c\'è un insieme di lavoro precedente a cui tornare.',
+  'tree.section.session': 'Attività della sessione',
+  'noun.edit.one': 'modifica',
+  'noun.edit.other': 'modifiche',
+  'session.tooltip': 'Aperto {opened}× • Modificato {edited}× • Ultima attività {time}',
+  'session.empty': 'Nessun file è stato ancora aperto o modificato in questa sessione.',
+  'session.promote.name': 'Sessione {date}',
+  'session.promote.prompt': 'Nome del gruppo creato da questa sessione',
+  'session.promote.summary': 'File di una sessione di lavoro',
+  'session.prune.prompt': 'Dimentica i file non aperti né modificati nelle ultime N ore',
+  'session.prune.invalid': 'Inserisci un numero di ore maggiore di 0.',
+  'session.pruned': '{count} file rimossi dall\'attività della sessione.',
+  'session.pick': 'Seleziona una sessione',
+  'session.action.pick': 'Sessione iniziata il {date}',
+  'session.action.promote': 'Salva come gruppo',
+  'session.action.openAll': 'Apri tutti i file',
+  'statusBar.name': 'Gruppo attivo CodeGroup',
+  'statusBar.none': 'Nessun gruppo',
+  'statusBar.none.tooltip': 'Il file attivo non è in nessun gruppo CodeGroup. Fai clic per aggiungerlo.',
+  'statusBar.multiple': '{path} +{count}',
+  'statusBar.currentGroup': 'Destinazione aggiunta rapida: {path}',
+  'statusBar.accessibility': 'In {count} gruppo/i CodeGroup: {paths}',
+  'statusBar.current': 'destinazione aggiunta rapida',
+  'statusBar.separator.groups': 'Gruppi di questo file',
+  'statusBar.separator.actions': 'Azioni',
+  'statusBar.action.add': 'Aggiungi al gruppo…',
+  'statusBar.action.remove': 'Rimuovi dal gruppo…',
+  'statusBar.action.setCurrent': 'Imposta destinazione aggiunta rapida…',
+  'statusBar.action.clearCurrent': 'Smetti di aggiungere automaticamente a "{name}"',
+  'statusBar.remove.pick': 'Seleziona il gruppo da cui rimuovere questo file',
+  'statusBar.setCurrent.pick': 'Seleziona il gruppo a cui i comandi di aggiunta rapida aggiungono senza chiedere',
+  'statusBar.added': '{name} aggiunto a "{group}".',
+  'navigation.pick': 'Seleziona un gruppo da scorrere',
+  'navigation.empty': '"{name}" non contiene file da scorrere.',
+  'groupSearch.pick': 'Seleziona il gruppo in cui cercare',
+  'groupSearch.noFiles': '"{name}" non contiene file in cui cercare.',
+  'groupSearch.title': 'Trova in "{name}"',
+  'groupSearch.placeholder': 'Digita il testo da cercare nei file del gruppo, oppure /regex/ e /regex/i',
+  'groupSearch.truncated': 'Trova in "{name}" (prime {count} righe corrispondenti)',
+  'tree.section.problems': 'Problemi',
+  'problems.none': 'Nessun problema',
+  'problems.pick': 'Seleziona il gruppo di cui elencare i problemi',
+  'group.tooltip.problems': 'Problemi',
+  'noun.error.one': 'errore',
+  'noun.error.other': 'errori',
+  'noun.warning.one': 'avviso',
+  'noun.warning.other': 'avvisi'
 };
 
 const PT_BR_TRANSLATIONS: TranslationDictionary = {
@@ -1490,7 +2588,190 @@ const PT_BR_TRANSLATIONS: TranslationDictionary = {
   'tags.placeholder': 'Separadas por vírgulas, por exemplo: frontend, urgente, revisão',
   'tags.updated': 'Tags atualizadas.',
   'editor.tags.label': 'Tags',
-  'editor.tags.hint': 'Tags separadas por vírgulas podem ser pesquisadas na Abertura rápida.'
+  'editor.tags.hint': 'Tags separadas por vírgulas podem ser pesquisadas na Abertura rápida.',
+  'noun.anchor.one': 'linha marcada',
+  'noun.anchor.other': 'linhas marcadas',
+  'tree.command.openAnchor': 'Abrir linha marcada',
+  'anchor.add.noEditor': 'Abra um arquivo no editor para marcar uma linha ou seleção.',
+  'anchor.add.pick': 'Selecione um grupo para este marcador',
+  'anchor.add.done': '{location} de {name} marcado em "{group}".',
+  'anchor.symbol.missing': 'símbolo não encontrado',
+  'anchor.symbol.none': 'Nenhum símbolo no cursor. Coloque o cursor dentro de uma classe, função ou método.',
+  'anchor.symbol.missing.prompt': '"{symbol}" não foi mais encontrado em {name}. A última localização conhecida foi aberta.',
+  'action.reanchor': 'Reancorar',
+  'missingSymbols.startup.prompt': '{count} marcador(es) de símbolo não correspondem mais a nenhum símbolo. Deseja reancorá-los?',
+  'anchor.reanchor.pickAnchor': 'Selecione um marcador cujo símbolo está ausente',
+  'anchor.reanchor.noneMissing': 'Todos os marcadores de símbolo ainda apontam para seu símbolo.',
+  'anchor.reanchor.pick': 'Selecione o símbolo para o qual "{symbol}" deve apontar',
+  'anchor.reanchor.noMatches': 'Nenhum símbolo semelhante encontrado em {name}.',
+  'anchor.reanchor.done': 'O marcador agora aponta para "{symbol}".',
+  'note.file.pick': 'Selecione um marcador para adicionar uma nota',
+  'note.file.prompt': 'Nota Markdown para o marcador "{name}"',
+  'note.placeholder': 'Por que este arquivo importa, por exemplo: ponto de entrada da migração de **faturamento**',
+  'note.updated': 'Nota do marcador atualizada.',
+  'editor.fileNote.accessible': 'Nota para {path}',
+  'editor.fileNote.placeholder': 'Nota Markdown: por que este arquivo importa',
+  'editor.actions.saveNote': 'Salvar nota',
+  'editor.actions.saveNoteAccessible': 'Salvar nota para {path}',
+  'editor.status.noteSaved': 'Nota salva para {name}.',
+  'dynamic.name.placeholder': 'ex.: Fontes de autenticação',
+  'dynamic.include.prompt': 'Padrões glob para incluir, separados por ponto e vírgula',
+  'dynamic.exclude.prompt': 'Padrões glob para excluir, separados por ponto e vírgula (opcional)',
+  'group.dynamic.description': 'dinâmico',
+  'group.tooltip.patterns': 'Padrões glob',
+  'group.tooltip.excluded': 'exceto',
+  'editor.patterns.include.label': 'Padrões de inclusão',
+  'editor.patterns.exclude.label': 'Padrões de exclusão',
+  'editor.patterns.hint': 'Um glob por linha. Padrões de inclusão transformam isto em um grupo dinâmico cujos arquivos são atualizados automaticamente; padrões sem barra correspondem em qualquer profundidade.',
+  'noun.match.one': 'ocorrência',
+  'noun.match.other': 'ocorrências',
+  'group.tooltip.search': 'Pesquisa salva',
+  'search.mode.pick': 'Como a consulta deve corresponder?',
+  'search.mode.text': 'Texto',
+  'search.mode.matchCase': 'Texto (diferenciar maiúsculas)',
+  'search.mode.regex': 'Expressão regular',
+  'search.query.prompt': 'Arquivos que contêm este texto são adicionados ao grupo',
+  'search.query.required': 'Digite uma consulta de pesquisa',
+  'search.query.invalidRegex': 'Expressão regular inválida: {error}',
+  'search.include.prompt': 'Pesquisar apenas arquivos que correspondam a estes globs (opcional, separados por ; ou quebras de linha)',
+  'tree.section.tagQueries': 'Consultas de tags',
+  'tree.section.tagQueries.description': 'somente leitura',
+  'tagQuery.accessibility': 'Consulta de tags',
+  'tagQuery.expression.prompt': 'Expressão de tags, ex. #api AND (#auth OR #billing) AND NOT #legacy',
+  'tagQuery.pick': 'Selecione uma consulta de tags',
+  'tagQuery.delete.confirm': 'Excluir a consulta de tags "{name}"? Grupos e favoritos não são alterados.',
+  'tagQuery.materialize.empty': 'A consulta de tags "{name}" não tem arquivos correspondentes.',
+  'tagQuery.error.empty': 'Digite pelo menos uma tag',
+  'tagQuery.error.unexpected': '"{token}" inesperado na posição {position}',
+  'tagQuery.error.end': 'A expressão termina inesperadamente',
+  'group.tooltip.branches': 'Branches:',
+  'branches.pick': 'Selecione o grupo a vincular a branches',
+  'branches.prompt': 'Branches que mostram "{name}", ex. feature/checkout, release/* (vazio para todos os branches)',
+  'branches.updated': 'Branches do grupo atualizados.',
+  'branches.hidden': '"{name}" fica oculto enquanto {branch} estiver em checkout.',
+  'groupActions.branches.label': '$(git-branch) Vincular a branches',
+  'groupActions.branches.description': 'Mostrar este grupo apenas nos branches git correspondentes',
+  'tree.section.trash': 'Lixeira',
+  'trash.reason.groupDeleted': 'Excluído',
+  'trash.reason.fileDeleted': 'Arquivo excluído',
+  'trash.reason.fileMissing': 'Arquivo ausente removido',
+  'trash.empty': 'A lixeira está vazia.',
+  'trash.pick': 'Selecione um grupo ou favorito da lixeira',
+  'trash.restore.pickGroup': 'O grupo "{group}" não existe mais. Selecione um grupo para {name}',
+  'trash.restore.failed': 'Não foi possível restaurar este item porque ele já existe.',
+  'trash.restored': '"{name}" restaurado.',
+  'trash.purge.confirm': 'Excluir permanentemente {count} item(ns) da lixeira? Isso não pode ser desfeito.',
+  'action.undo': 'Desfazer',
+  'undo.nothing': 'Nada para desfazer.',
+  'redo.nothing': 'Nada para refazer.',
+  'undo.groupDeleted': 'Grupo "{name}" excluído.',
+  'undo.itemsRemoved': '{count} item(ns) removido(s) dos grupos.',
+  'undo.missingRemoved': '{count} arquivo(s) ausente(s) removido(s) dos grupos.',
+  'snapshot.empty': 'Ainda não há snapshots. Um snapshot é criado sempre que os grupos são salvos.',
+  'snapshot.pick': 'Selecione um snapshot',
+  'snapshot.scope.local': 'Grupos do workspace',
+  'snapshot.scope.global': 'Grupos globais',
+  'snapshot.action.pick': 'Snapshot de {date}',
+  'snapshot.action.compare': 'Comparar com o estado atual',
+  'snapshot.action.restoreAll': 'Restaurar todos os grupos',
+  'snapshot.action.restoreGroup': 'Restaurar um único grupo...',
+  'snapshot.diff.title': 'Snapshot {date} ↔ Atual',
+  'snapshot.restore.confirm': 'Substituir os grupos atuais pelo snapshot de {date}?',
+  'snapshot.readFailed': 'Não foi possível ler o snapshot.',
+  'snapshot.restored': 'Grupos de {date} restaurados.',
+  'snapshot.group.pick': 'Selecione o grupo a restaurar',
+  'snapshot.groupRestored': '"{name}" restaurado de {date}.',
+  'config.newerVersion': '{file} foi gravado por uma versão mais recente do CodeGroup (versão de configuração {version}). Suas alterações ficam neste workspace, mas não são salvas no arquivo até você atualizar a extensão.',
+  'config.unsupportedVersion': '{file} foi gravado por uma versão mais recente do CodeGroup (versão de configuração {version}) e não pode ser lido. Atualize a extensão; o arquivo não foi alterado.',
+  'config.unknownFields': '{file} contém campos que esta versão do CodeGroup não reconhece: {fields}. Eles são mantidos no arquivo, mas não têm efeito.',
+  'configIssue.duplicateId': 'Outro grupo já usa o id "{value}".',
+  'configIssue.danglingParent': 'Nenhum grupo tem o id "{value}", então este grupo não pode ser aninhado nele.',
+  'configIssue.parentCycle': 'O pai "{value}" torna este grupo seu próprio ancestral.',
+  'configIssue.missingPath': '"{value}" não existe.',
+  'tree.section.workspaceFolder': 'Pasta do espaço de trabalho',
+  'storageLayout.pick': 'Escolha como os grupos do espaço de trabalho são salvos',
+  'storageLayout.single': 'Arquivo único',
+  'storageLayout.single.detail': 'Todos os grupos em .vscode/file-groups.json',
+  'storageLayout.split': 'Um arquivo por grupo',
+  'storageLayout.split.detail': 'Cada grupo em .vscode/codegroup/<group-id>.json com um índice para a ordem, para que edições em paralelo raramente entrem em conflito',
+  'storageLayout.current': 'Atual',
+  'storageLayout.switched': 'Os grupos do espaço de trabalho agora são salvos como: {layout}.',
+  'storageLayout.failed': 'Não foi possível alterar o modo de armazenamento: {error}',
+  'merge.conflicts': '{file} mudou no disco enquanto seus grupos também mudavam. {count} alteração(ões) estão em conflito; todo o resto foi mesclado. Desfazer restaura seus grupos como estavam.',
+  'merge.resolve': 'Resolver um por um…',
+  'merge.keepMine': 'Manter as minhas',
+  'merge.takeTheirs': 'Usar as deles',
+  'merge.pick': 'Conflito em "{item}": qual versão você quer manter?',
+  'merge.deleted': 'Excluído',
+  'merge.changed': 'Alterado',
+  'merge.merged': 'As alterações em {file} foram mescladas com suas alterações locais nos grupos.',
+  'merge.unreadable': '{file} contém marcadores de conflito do git que não puderam ser mesclados. Resolva o conflito no arquivo para carregar seus grupos.',
+  'group.accessibility.private': 'Privado',
+  'group.private.pick': 'Selecione o grupo a manter privado',
+  'group.shared.pick': 'Selecione o grupo a compartilhar com a equipe',
+  'groupActions.private.label': '$(lock) Tornar grupo privado',
+  'groupActions.private.description': 'Manter este grupo e seus subgrupos fora do arquivo de configuração da equipe',
+  'groupActions.shared.label': '$(unlock) Compartilhar grupo',
+  'groupActions.shared.description': 'Salvar este grupo novamente no arquivo de configuração da equipe',
+  'layout.pick': 'Selecione o grupo para salvar o layout atual dos editores',
+  'layout.clear.pick': 'Selecione o grupo cujo layout salvo será limpo',
+  'layout.noEditors': 'Nenhum editor aberto mostra arquivos de "{name}". Abra os arquivos onde quiser e execute este comando novamente.',
+  'layout.saved': 'Layout de "{name}" salvo: {count} aba(s) em {columns} coluna(s). Abrir o grupo o restaura.',
+  'groupActions.layout.label': '$(layout) Atualizar layout a partir dos editores atuais',
+  'groupActions.layout.description': 'Lembrar colunas, abas fixadas e posições do cursor ao abrir este grupo',
+  'groupActions.layout.saved': 'Substituir o layout salvo pelos editores atuais',
+  'groupActions.clearLayout.label': '$(close) Limpar layout salvo',
+  'groupActions.clearLayout.description': 'Abrir os arquivos deste grupo sem restaurar um layout',
+  'focus.pick': 'Selecione o grupo para o qual alternar',
+  'focus.empty': '"{name}" não tem arquivos para alternar.',
+  'focus.keptDirty': '{count} aba(s) com alterações não salvas ficaram abertas.',
+  'focus.nothingToRestore': 'Não há um conjunto de trabalho anterior para voltar.',
+  'tree.section.session': 'Atividade da sessão',
+  'noun.edit.one': 'edição',
+  'noun.edit.other': 'edições',
+  'session.tooltip': 'Aberto {opened}× • Editado {edited}× • Última atividade {time}',
+  'session.empty': 'Nenhum arquivo foi aberto ou editado nesta sessão ainda.',
+  'session.promote.name': 'Sessão {date}',
+  'session.promote.prompt': 'Nome do grupo criado a partir desta sessão',
+  'session.promote.summary': 'Arquivos de uma sessão de trabalho',
+  'session.prune.prompt': 'Esquecer arquivos não abertos nem editados nas últimas N horas',
+  'session.prune.invalid': 'Digite um número de horas maior que 0.',
+  'session.pruned': '{count} arquivo(s) removido(s) da atividade da sessão.',
+  'session.pick': 'Selecione uma sessão',
+  'session.action.pick': 'Sessão iniciada em {date}',
+  'session.action.promote': 'Salvar como grupo',
+  'session.action.openAll': 'Abrir todos os arquivos',
+  'statusBar.name': 'Grupo ativo do CodeGroup',
+  'statusBar.none': 'Nenhum grupo',
+  'statusBar.none.tooltip': 'O arquivo ativo não está em nenhum grupo do CodeGroup. Clique para adicioná-lo.',
+  'statusBar.multiple': '{path} +{count}',
+  'statusBar.currentGroup': 'Destino da adição rápida: {path}',
+  'statusBar.accessibility': 'Em {count} grupo(s) do CodeGroup: {paths}',
+  'statusBar.current': 'destino da adição rápida',
+  'statusBar.separator.groups': 'Grupos deste arquivo',
+  'statusBar.separator.actions': 'Ações',
+  'statusBar.action.add': 'Adicionar ao grupo…',
+  'statusBar.action.remove': 'Remover do grupo…',
+  'statusBar.action.setCurrent': 'Definir destino da adição rápida…',
+  'statusBar.action.clearCurrent': 'Parar de adicionar a "{name}" automaticamente',
+  'statusBar.remove.pick': 'Selecione o grupo do qual remover este arquivo',
+  'statusBar.setCurrent.pick': 'Selecione o grupo ao qual os comandos de adição rápida adicionam sem perguntar',
+  'statusBar.added': '{name} adicionado a "{group}".',
+  'navigation.pick': 'Selecione um grupo para percorrer',
+  'navigation.empty': '"{name}" não tem arquivos para percorrer.',
+  'groupSearch.pick': 'Selecione o grupo onde pesquisar',
+  'groupSearch.noFiles': '"{name}" não tem arquivos para pesquisar.',
+  'groupSearch.title': 'Localizar em "{name}"',
+  'groupSearch.placeholder': 'Digite o texto a localizar nos arquivos do grupo, ou /regex/ e /regex/i',
+  'groupSearch.truncated': 'Localizar em "{name}" (primeiras {count} linhas correspondentes)',
+  'tree.section.problems': 'Problemas',
+  'problems.none': 'Nenhum problema',
+  'problems.pick': 'Selecione o grupo cujos problemas deseja listar',
+  'group.tooltip.problems': 'Problemas',
+  'noun.error.one': 'erro',
+  'noun.error.other': 'erros',
+  'noun.warning.one': 'aviso',
+  'noun.warning.other': 'avisos'
 };
 
 const JA_TRANSLATIONS: TranslationDictionary = {
@@ -1541,7 +2822,190 @@ const JA_TRANSLATIONS: TranslationDictionary = {
   'tags.placeholder': 'カンマ区切り。例: frontend, urgent, review',
   'tags.updated': 'タグを更新しました。',
   'editor.tags.label': 'タグ',
-  'editor.tags.hint': 'カンマ区切りのタグはクイックオープンで検索できます。'
+  'editor.tags.hint': 'カンマ区切りのタグはクイックオープンで検索できます。',
+  'noun.anchor.one': 'ブックマーク行',
+  'noun.anchor.other': 'ブックマーク行',
+  'tree.command.openAnchor': 'ブックマーク行を開く',
+  'anchor.add.noEditor': '行または選択範囲をブックマークするには、エディターでファイルを開いてください。',
+  'anchor.add.pick': 'このブックマークのグループを選択',
+  'anchor.add.done': '{name} の {location} を「{group}」にブックマークしました。',
+  'anchor.symbol.missing': 'シンボルが見つかりません',
+  'anchor.symbol.none': 'カーソル位置にシンボルがありません。クラス、関数、またはメソッドの中にカーソルを置いてください。',
+  'anchor.symbol.missing.prompt': '{name} で「{symbol}」が見つからなくなりました。最後に確認された位置を開きました。',
+  'action.reanchor': '再アンカー',
+  'missingSymbols.startup.prompt': '{count} 件のシンボルブックマークがどのシンボルとも一致しなくなりました。再アンカーしますか?',
+  'anchor.reanchor.pickAnchor': 'シンボルが見つからないブックマークを選択',
+  'anchor.reanchor.noneMissing': 'すべてのシンボルブックマークは引き続き対象のシンボルを指しています。',
+  'anchor.reanchor.pick': '「{symbol}」が指すシンボルを選択',
+  'anchor.reanchor.noMatches': '{name} に類似するシンボルが見つかりません。',
+  'anchor.reanchor.done': 'ブックマークは「{symbol}」を指すようになりました。',
+  'note.file.pick': 'メモを追加するブックマークを選択',
+  'note.file.prompt': 'ブックマーク「{name}」の Markdown メモ',
+  'note.placeholder': 'このファイルが重要な理由 (例: **請求**移行のエントリーポイント)',
+  'note.updated': 'ブックマークのメモを更新しました。',
+  'editor.fileNote.accessible': '{path} のメモ',
+  'editor.fileNote.placeholder': 'Markdown メモ: このファイルが重要な理由',
+  'editor.actions.saveNote': 'メモを保存',
+  'editor.actions.saveNoteAccessible': '{path} のメモを保存',
+  'editor.status.noteSaved': '{name} のメモを保存しました。',
+  'dynamic.name.placeholder': '例: 認証ソース',
+  'dynamic.include.prompt': '含める glob パターン (セミコロン区切り)',
+  'dynamic.exclude.prompt': '除外する glob パターン (セミコロン区切り、省略可)',
+  'group.dynamic.description': '動的',
+  'group.tooltip.patterns': 'glob パターン',
+  'group.tooltip.excluded': '除外',
+  'editor.patterns.include.label': '含めるパターン',
+  'editor.patterns.exclude.label': '除外パターン',
+  'editor.patterns.hint': '1 行に 1 つの glob。含めるパターンを指定すると、ファイルが自動更新される動的グループになります。スラッシュのないパターンは任意の階層に一致します。',
+  'noun.match.one': '件の一致',
+  'noun.match.other': '件の一致',
+  'group.tooltip.search': '保存された検索',
+  'search.mode.pick': 'クエリの一致方法を選択してください',
+  'search.mode.text': 'テキスト',
+  'search.mode.matchCase': 'テキスト (大文字と小文字を区別)',
+  'search.mode.regex': '正規表現',
+  'search.query.prompt': 'このテキストを含むファイルがグループに追加されます',
+  'search.query.required': '検索クエリを入力してください',
+  'search.query.invalidRegex': '無効な正規表現: {error}',
+  'search.include.prompt': 'これらの glob に一致するファイルのみを検索 (省略可、; または改行で区切る)',
+  'tree.section.tagQueries': 'タグクエリ',
+  'tree.section.tagQueries.description': '読み取り専用',
+  'tagQuery.accessibility': 'タグクエリ',
+  'tagQuery.expression.prompt': 'タグ式 (例: #api AND (#auth OR #billing) AND NOT #legacy)',
+  'tagQuery.pick': 'タグクエリを選択',
+  'tagQuery.delete.confirm': 'タグクエリ "{name}" を削除しますか? グループとブックマークは変更されません。',
+  'tagQuery.materialize.empty': 'タグクエリ "{name}" に一致するファイルはありません。',
+  'tagQuery.error.empty': 'タグを 1 つ以上入力してください',
+  'tagQuery.error.unexpected': '位置 {position} に予期しない "{token}" があります',
+  'tagQuery.error.end': '式が途中で終わっています',
+  'group.tooltip.branches': 'ブランチ:',
+  'branches.pick': 'ブランチに関連付けるグループを選択',
+  'branches.prompt': '"{name}" を表示するブランチ (例: feature/checkout, release/*、空欄ですべてのブランチ)',
+  'branches.updated': 'グループのブランチを更新しました。',
+  'branches.hidden': '{branch} をチェックアウトしている間、"{name}" は非表示になります。',
+  'groupActions.branches.label': '$(git-branch) ブランチに関連付け',
+  'groupActions.branches.description': '一致する git ブランチでのみこのグループを表示',
+  'tree.section.trash': 'ごみ箱',
+  'trash.reason.groupDeleted': '削除済み',
+  'trash.reason.fileDeleted': 'ファイル削除',
+  'trash.reason.fileMissing': '見つからないファイルを削除',
+  'trash.empty': 'ごみ箱は空です。',
+  'trash.pick': 'ごみ箱のグループまたはブックマークを選択',
+  'trash.restore.pickGroup': 'グループ "{group}" は存在しません。{name} の復元先グループを選択してください',
+  'trash.restore.failed': 'この項目は既に存在するため復元できませんでした。',
+  'trash.restored': '"{name}" を復元しました。',
+  'trash.purge.confirm': 'ごみ箱から {count} 個の項目を完全に削除しますか? この操作は元に戻せません。',
+  'action.undo': '元に戻す',
+  'undo.nothing': '元に戻す操作はありません。',
+  'redo.nothing': 'やり直す操作はありません。',
+  'undo.groupDeleted': 'グループ "{name}" を削除しました。',
+  'undo.itemsRemoved': 'グループから {count} 個の項目を削除しました。',
+  'undo.missingRemoved': 'グループから見つからないファイルを {count} 個削除しました。',
+  'snapshot.empty': 'スナップショットはまだありません。グループを保存するたびに作成されます。',
+  'snapshot.pick': 'スナップショットを選択',
+  'snapshot.scope.local': 'ワークスペースのグループ',
+  'snapshot.scope.global': 'グローバルグループ',
+  'snapshot.action.pick': '{date} のスナップショット',
+  'snapshot.action.compare': '現在の状態と比較',
+  'snapshot.action.restoreAll': 'すべてのグループを復元',
+  'snapshot.action.restoreGroup': '1 つのグループを復元...',
+  'snapshot.diff.title': 'スナップショット {date} ↔ 現在',
+  'snapshot.restore.confirm': '現在のグループを {date} のスナップショットで置き換えますか?',
+  'snapshot.readFailed': 'スナップショットを読み込めませんでした。',
+  'snapshot.restored': '{date} のグループを復元しました。',
+  'snapshot.group.pick': '復元するグループを選択',
+  'snapshot.groupRestored': '{date} の "{name}" を復元しました。',
+  'config.newerVersion': '{file} は新しいバージョンの CodeGroup (構成バージョン {version}) で書き込まれています。変更はこのワークスペースに保持されますが、拡張機能を更新するまでファイルには保存されません。',
+  'config.unsupportedVersion': '{file} は新しいバージョンの CodeGroup (構成バージョン {version}) で書き込まれているため読み込めません。拡張機能を更新してください。ファイルは変更されていません。',
+  'config.unknownFields': '{file} には、このバージョンの CodeGroup が認識しないフィールドがあります: {fields}。ファイルには保持されますが、効果はありません。',
+  'configIssue.duplicateId': 'ID "{value}" は別のグループで既に使用されています。',
+  'configIssue.danglingParent': 'ID "{value}" のグループが存在しないため、このグループを入れ子にできません。',
+  'configIssue.parentCycle': '親 "{value}" により、このグループが自身の祖先になります。',
+  'configIssue.missingPath': '"{value}" は存在しません。',
+  'tree.section.workspaceFolder': 'ワークスペース フォルダー',
+  'storageLayout.pick': 'ワークスペース グループの保存方法を選択',
+  'storageLayout.single': '単一ファイル',
+  'storageLayout.single.detail': 'すべてのグループを .vscode/file-groups.json に保存',
+  'storageLayout.split': 'グループごとに 1 ファイル',
+  'storageLayout.split.detail': '各グループを .vscode/codegroup/<group-id>.json に保存し、順序はインデックスで管理するため、並行編集でも競合しにくくなります',
+  'storageLayout.current': '現在',
+  'storageLayout.switched': 'ワークスペース グループの保存方法: {layout}',
+  'storageLayout.failed': '保存方法を変更できませんでした: {error}',
+  'merge.conflicts': 'グループの変更中に {file} がディスク上で変更されました。{count} 件の変更が競合しています。それ以外はマージされました。元に戻すと以前のグループに戻ります。',
+  'merge.resolve': '個別に解決…',
+  'merge.keepMine': '自分の変更を保持',
+  'merge.takeTheirs': '相手の変更を使用',
+  'merge.pick': '「{item}」で競合しています。どちらのバージョンを保持しますか?',
+  'merge.deleted': '削除済み',
+  'merge.changed': '変更済み',
+  'merge.merged': '{file} の変更をローカルのグループの変更とマージしました。',
+  'merge.unreadable': '{file} にマージできない git の競合マーカーがあります。グループを読み込むには、ファイル内の競合を解決してください。',
+  'group.accessibility.private': '非公開',
+  'group.private.pick': '非公開にするグループを選択',
+  'group.shared.pick': 'チームと共有するグループを選択',
+  'groupActions.private.label': '$(lock) グループを非公開にする',
+  'groupActions.private.description': 'このグループとサブグループをチームの設定ファイルに含めない',
+  'groupActions.shared.label': '$(unlock) グループを共有する',
+  'groupActions.shared.description': 'このグループを再びチームの設定ファイルに保存する',
+  'layout.pick': '現在のエディターレイアウトを保存するグループを選択',
+  'layout.clear.pick': '保存したレイアウトを消去するグループを選択',
+  'layout.noEditors': '「{name}」のファイルを表示している開いたエディターがありません。ファイルを配置したい場所で開いてから、もう一度このコマンドを実行してください。',
+  'layout.saved': '「{name}」のレイアウトを保存しました: {columns} 列に {count} 個のタブ。グループを開くと復元されます。',
+  'groupActions.layout.label': '$(layout) 現在のエディターからレイアウトを更新',
+  'groupActions.layout.description': 'このグループを開くときの列、ピン留めタブ、カーソル位置を記憶',
+  'groupActions.layout.saved': '保存したレイアウトを現在のエディターで置き換える',
+  'groupActions.clearLayout.label': '$(close) 保存したレイアウトを消去',
+  'groupActions.clearLayout.description': 'レイアウトを復元せずにこのグループのファイルを開く',
+  'focus.pick': '切り替えるグループを選択',
+  'focus.empty': '「{name}」には切り替え先のファイルがありません。',
+  'focus.keptDirty': '未保存の変更がある {count} 個のタブは開いたままにしました。',
+  'focus.nothingToRestore': '戻る先の以前の作業セットがありません。',
+  'tree.section.session': 'セッションのアクティビティ',
+  'noun.edit.one': '回編集',
+  'noun.edit.other': '回編集',
+  'session.tooltip': '{opened} 回開く • {edited} 回編集 • 最終アクティブ {time}',
+  'session.empty': 'このセッションではまだファイルを開いたり編集したりしていません。',
+  'session.promote.name': 'セッション {date}',
+  'session.promote.prompt': 'このセッションから作成するグループの名前',
+  'session.promote.summary': '作業セッションのファイル',
+  'session.prune.prompt': '過去 N 時間に開いたり編集したりしていないファイルを削除',
+  'session.prune.invalid': '0 より大きい時間数を入力してください。',
+  'session.pruned': 'セッションのアクティビティから {count} 件のファイルを削除しました。',
+  'session.pick': 'セッションを選択',
+  'session.action.pick': '{date} に開始したセッション',
+  'session.action.promote': 'グループとして保存',
+  'session.action.openAll': 'すべてのファイルを開く',
+  'statusBar.name': 'CodeGroup のアクティブなグループ',
+  'statusBar.none': 'グループなし',
+  'statusBar.none.tooltip': 'アクティブなファイルはどの CodeGroup グループにも含まれていません。クリックして追加します。',
+  'statusBar.multiple': '{path} +{count}',
+  'statusBar.currentGroup': 'クイック追加の対象: {path}',
+  'statusBar.accessibility': '{count} 個の CodeGroup グループに含まれています: {paths}',
+  'statusBar.current': 'クイック追加の対象',
+  'statusBar.separator.groups': 'このファイルのグループ',
+  'statusBar.separator.actions': 'アクション',
+  'statusBar.action.add': 'グループに追加…',
+  'statusBar.action.remove': 'グループから削除…',
+  'statusBar.action.setCurrent': 'クイック追加の対象を設定…',
+  'statusBar.action.clearCurrent': '「{name}」への自動追加をやめる',
+  'statusBar.remove.pick': 'このファイルを削除するグループを選択',
+  'statusBar.setCurrent.pick': 'クイック追加コマンドが確認なしで追加するグループを選択',
+  'statusBar.added': '{name} を「{group}」に追加しました。',
+  'navigation.pick': '順に移動するグループを選択',
+  'navigation.empty': '「{name}」には移動できるファイルがありません。',
+  'groupSearch.pick': '検索するグループを選択',
+  'groupSearch.noFiles': '「{name}」には検索できるファイルがありません。',
+  'groupSearch.title': '「{name}」内を検索',
+  'groupSearch.placeholder': 'グループのファイル内で検索するテキスト、または /regex/ や /regex/i を入力',
+  'groupSearch.truncated': '「{name}」内を検索 (最初の {count} 行)',
+  'tree.section.problems': '問題',
+  'problems.none': '問題はありません',
+  'problems.pick': '問題を一覧表示するグループを選択',
+  'group.tooltip.problems': '問題',
+  'noun.error.one': '件のエラー',
+  'noun.error.other': '件のエラー',
+  'noun.warning.one': '件の警告',
+  'noun.warning.other': '件の警告'
 };
 
 const ZH_CN_TRANSLATIONS: TranslationDictionary = {
@@ -1592,7 +3056,190 @@ const ZH_CN_TRANSLATIONS: TranslationDictionary = {
   'tags.placeholder': '用逗号分隔，例如：frontend, urgent, review',
   'tags.updated': '标签已更新。',
   'editor.tags.label': '标签',
-  'editor.tags.hint': '逗号分隔的标签可在快速打开中搜索。'
+  'editor.tags.hint': '逗号分隔的标签可在快速打开中搜索。',
+  'noun.anchor.one': '书签行',
+  'noun.anchor.other': '书签行',
+  'tree.command.openAnchor': '打开书签行',
+  'anchor.add.noEditor': '请在编辑器中打开文件以为行或所选内容添加书签。',
+  'anchor.add.pick': '为此书签选择组',
+  'anchor.add.done': '已将 {name} 的 {location} 添加到“{group}”。',
+  'anchor.symbol.missing': '找不到符号',
+  'anchor.symbol.none': '光标处没有符号。请将光标放在类、函数或方法内。',
+  'anchor.symbol.missing.prompt': '在 {name} 中找不到“{symbol}”。已打开其最后已知位置。',
+  'action.reanchor': '重新锚定',
+  'missingSymbols.startup.prompt': '{count} 个符号书签已不再匹配任何符号。是否重新锚定?',
+  'anchor.reanchor.pickAnchor': '选择符号缺失的书签',
+  'anchor.reanchor.noneMissing': '所有符号书签仍指向其符号。',
+  'anchor.reanchor.pick': '选择“{symbol}”应指向的符号',
+  'anchor.reanchor.noMatches': '在 {name} 中找不到类似的符号。',
+  'anchor.reanchor.done': '书签现在指向“{symbol}”。',
+  'note.file.pick': '选择要添加备注的书签',
+  'note.file.prompt': '书签“{name}”的 Markdown 备注',
+  'note.placeholder': '此文件为何重要,例如:**计费**迁移的入口',
+  'note.updated': '书签备注已更新。',
+  'editor.fileNote.accessible': '{path} 的备注',
+  'editor.fileNote.placeholder': 'Markdown 备注:此文件为何重要',
+  'editor.actions.saveNote': '保存备注',
+  'editor.actions.saveNoteAccessible': '保存 {path} 的备注',
+  'editor.status.noteSaved': '已保存 {name} 的备注。',
+  'dynamic.name.placeholder': '例如:认证源码',
+  'dynamic.include.prompt': '要包含的 glob 模式,以分号分隔',
+  'dynamic.exclude.prompt': '要排除的 glob 模式,以分号分隔(可选)',
+  'group.dynamic.description': '动态',
+  'group.tooltip.patterns': 'Glob 模式',
+  'group.tooltip.excluded': '排除',
+  'editor.patterns.include.label': '包含模式',
+  'editor.patterns.exclude.label': '排除模式',
+  'editor.patterns.hint': '每行一个 glob。包含模式会将其变为文件自动更新的动态组;不含斜杠的模式匹配任意层级。',
+  'noun.match.one': '个匹配',
+  'noun.match.other': '个匹配',
+  'group.tooltip.search': '已保存的搜索',
+  'search.mode.pick': '查询应如何匹配？',
+  'search.mode.text': '文本',
+  'search.mode.matchCase': '文本 (区分大小写)',
+  'search.mode.regex': '正则表达式',
+  'search.query.prompt': '包含此文本的文件将添加到组中',
+  'search.query.required': '请输入搜索查询',
+  'search.query.invalidRegex': '无效的正则表达式: {error}',
+  'search.include.prompt': '仅搜索匹配这些 glob 的文件 (可选，用 ; 或换行分隔)',
+  'tree.section.tagQueries': '标签查询',
+  'tree.section.tagQueries.description': '只读',
+  'tagQuery.accessibility': '标签查询',
+  'tagQuery.expression.prompt': '标签表达式，例如 #api AND (#auth OR #billing) AND NOT #legacy',
+  'tagQuery.pick': '选择标签查询',
+  'tagQuery.delete.confirm': '删除标签查询“{name}”？组和书签不受影响。',
+  'tagQuery.materialize.empty': '标签查询“{name}”没有匹配的文件。',
+  'tagQuery.error.empty': '请至少输入一个标签',
+  'tagQuery.error.unexpected': '位置 {position} 处出现意外的“{token}”',
+  'tagQuery.error.end': '表达式意外结束',
+  'group.tooltip.branches': '分支:',
+  'branches.pick': '选择要绑定到分支的组',
+  'branches.prompt': '显示“{name}”的分支，例如 feature/checkout, release/*（留空表示所有分支）',
+  'branches.updated': '组的分支已更新。',
+  'branches.hidden': '检出 {branch} 时“{name}”将被隐藏。',
+  'groupActions.branches.label': '$(git-branch) 绑定到分支',
+  'groupActions.branches.description': '仅在匹配的 git 分支上显示此组',
+  'tree.section.trash': '回收站',
+  'trash.reason.groupDeleted': '已删除',
+  'trash.reason.fileDeleted': '文件已删除',
+  'trash.reason.fileMissing': '已移除缺失文件',
+  'trash.empty': '回收站为空。',
+  'trash.pick': '选择回收站中的组或书签',
+  'trash.restore.pickGroup': '组“{group}”已不存在。请为 {name} 选择一个组',
+  'trash.restore.failed': '该项目已存在，无法还原。',
+  'trash.restored': '已还原“{name}”。',
+  'trash.purge.confirm': '要从回收站中永久删除 {count} 个项目吗？此操作无法撤销。',
+  'action.undo': '撤销',
+  'undo.nothing': '没有可撤销的操作。',
+  'redo.nothing': '没有可重做的操作。',
+  'undo.groupDeleted': '已删除组“{name}”。',
+  'undo.itemsRemoved': '已从组中移除 {count} 个项目。',
+  'undo.missingRemoved': '已从组中移除 {count} 个缺失文件。',
+  'snapshot.empty': '还没有快照。每次保存组时都会创建快照。',
+  'snapshot.pick': '选择快照',
+  'snapshot.scope.local': '工作区组',
+  'snapshot.scope.global': '全局组',
+  'snapshot.action.pick': '{date} 的快照',
+  'snapshot.action.compare': '与当前状态比较',
+  'snapshot.action.restoreAll': '还原所有组',
+  'snapshot.action.restoreGroup': '还原单个组...',
+  'snapshot.diff.title': '快照 {date} ↔ 当前',
+  'snapshot.restore.confirm': '要用 {date} 的快照替换当前组吗？',
+  'snapshot.readFailed': '无法读取快照。',
+  'snapshot.restored': '已还原 {date} 的组。',
+  'snapshot.group.pick': '选择要还原的组',
+  'snapshot.groupRestored': '已从 {date} 还原“{name}”。',
+  'config.newerVersion': '{file} 由更新版本的 CodeGroup 写入（配置版本 {version}）。你的更改会保留在此工作区中，但在更新扩展之前不会保存到文件。',
+  'config.unsupportedVersion': '{file} 由更新版本的 CodeGroup 写入（配置版本 {version}），无法读取。请更新扩展；文件未被修改。',
+  'config.unknownFields': '{file} 包含此版本 CodeGroup 无法识别的字段：{fields}。这些字段会保留在文件中，但不起作用。',
+  'configIssue.duplicateId': '另一个组已使用 ID“{value}”。',
+  'configIssue.danglingParent': '没有 ID 为“{value}”的组，因此无法将此组嵌套在其下。',
+  'configIssue.parentCycle': '父级“{value}”使此组成为其自身的祖先。',
+  'configIssue.missingPath': '“{value}”不存在。',
+  'tree.section.workspaceFolder': '工作区文件夹',
+  'storageLayout.pick': '选择工作区组的存储方式',
+  'storageLayout.single': '单个文件',
+  'storageLayout.single.detail': '所有组保存在 .vscode/file-groups.json',
+  'storageLayout.split': '每个组一个文件',
+  'storageLayout.split.detail': '每个组保存在 .vscode/codegroup/<group-id>.json，并用索引记录顺序，并行编辑很少冲突',
+  'storageLayout.current': '当前',
+  'storageLayout.switched': '工作区组现在的存储方式：{layout}。',
+  'storageLayout.failed': '无法更改存储方式：{error}',
+  'merge.conflicts': '在你的分组发生更改时，{file} 也在磁盘上被更改。{count} 处更改存在冲突；其余内容已合并。撤销可恢复原来的分组。',
+  'merge.resolve': '逐个解决…',
+  'merge.keepMine': '保留我的',
+  'merge.takeTheirs': '采用对方的',
+  'merge.pick': '“{item}”存在冲突：要保留哪个版本？',
+  'merge.deleted': '已删除',
+  'merge.changed': '已更改',
+  'merge.merged': '已将 {file} 的更改与你本地的分组更改合并。',
+  'merge.unreadable': '{file} 包含无法合并的 git 冲突标记。请先解决文件中的冲突以加载其分组。',
+  'group.accessibility.private': '私有',
+  'group.private.pick': '选择要设为私有的分组',
+  'group.shared.pick': '选择要与团队共享的分组',
+  'groupActions.private.label': '$(lock) 设为私有分组',
+  'groupActions.private.description': '不将此分组及其子分组写入团队配置文件',
+  'groupActions.shared.label': '$(unlock) 共享分组',
+  'groupActions.shared.description': '重新将此分组保存到团队配置文件',
+  'layout.pick': '选择要保存当前编辑器布局的分组',
+  'layout.clear.pick': '选择要清除已保存布局的分组',
+  'layout.noEditors': '没有打开的编辑器显示“{name}”中的文件。请在需要的位置打开其文件，然后再次运行此命令。',
+  'layout.saved': '已保存“{name}”的布局：{columns} 列中的 {count} 个标签页。打开分组时会恢复该布局。',
+  'groupActions.layout.label': '$(layout) 从当前编辑器更新布局',
+  'groupActions.layout.description': '记住打开此分组时的列、固定标签页和光标位置',
+  'groupActions.layout.saved': '用当前编辑器替换已保存的布局',
+  'groupActions.clearLayout.label': '$(close) 清除已保存的布局',
+  'groupActions.clearLayout.description': '打开此分组的文件时不恢复布局',
+  'focus.pick': '选择要切换到的分组',
+  'focus.empty': '“{name}”中没有可切换的文件。',
+  'focus.keptDirty': '有 {count} 个包含未保存更改的标签页保持打开。',
+  'focus.nothingToRestore': '没有可切换回的上一个工作集。',
+  'tree.section.session': '会话活动',
+  'noun.edit.one': '次编辑',
+  'noun.edit.other': '次编辑',
+  'session.tooltip': '打开 {opened} 次 • 编辑 {edited} 次 • 最近活动 {time}',
+  'session.empty': '本次会话中尚未打开或编辑任何文件。',
+  'session.promote.name': '会话 {date}',
+  'session.promote.prompt': '从此会话创建的分组名称',
+  'session.promote.summary': '一次工作会话中的文件',
+  'session.prune.prompt': '移除最近 N 小时内未打开或编辑的文件',
+  'session.prune.invalid': '请输入大于 0 的小时数。',
+  'session.pruned': '已从会话活动中移除 {count} 个文件。',
+  'session.pick': '选择会话',
+  'session.action.pick': '开始于 {date} 的会话',
+  'session.action.promote': '保存为分组',
+  'session.action.openAll': '打开所有文件',
+  'statusBar.name': 'CodeGroup 当前分组',
+  'statusBar.none': '无分组',
+  'statusBar.none.tooltip': '当前文件不在任何 CodeGroup 分组中。点击以添加。',
+  'statusBar.multiple': '{path} +{count}',
+  'statusBar.currentGroup': '快速添加目标：{path}',
+  'statusBar.accessibility': '位于 {count} 个 CodeGroup 分组中：{paths}',
+  'statusBar.current': '快速添加目标',
+  'statusBar.separator.groups': '此文件所在的分组',
+  'statusBar.separator.actions': '操作',
+  'statusBar.action.add': '添加到分组…',
+  'statusBar.action.remove': '从分组中移除…',
+  'statusBar.action.setCurrent': '设置快速添加目标…',
+  'statusBar.action.clearCurrent': '停止自动添加到“{name}”',
+  'statusBar.remove.pick': '选择要从中移除此文件的分组',
+  'statusBar.setCurrent.pick': '选择快速添加命令无需询问即可添加到的分组',
+  'statusBar.added': '已将 {name} 添加到“{group}”。',
+  'navigation.pick': '选择要逐个浏览的分组',
+  'navigation.empty': '“{name}”中没有可浏览的文件。',
+  'groupSearch.pick': '选择要在其中搜索的分组',
+  'groupSearch.noFiles': '“{name}”中没有可搜索的文件。',
+  'groupSearch.title': '在“{name}”中查找',
+  'groupSearch.placeholder': '输入要在分组文件中查找的文本，或 /regex/ 和 /regex/i',
+  'groupSearch.truncated': '在“{name}”中查找（前 {count} 个匹配行）',
+  'tree.section.problems': '问题',
+  'problems.none': '没有问题',
+  'problems.pick': '选择要列出问题的分组',
+  'group.tooltip.problems': '问题',
+  'noun.error.one': '个错误',
+  'noun.error.other': '个错误',
+  'noun.warning.one': '个警告',
+  'noun.warning.other': '个警告'
 };
 
 const TRANSLATIONS: Record<CodeGroupLanguage, TranslationDictionary> = {
@@ -1,9 +1,12 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { countLabel, t } from './i18n';
+import { TranslationKey, countLabel, t } from './i18n';
 import { NORMALIZED_CURRENT_USERNAME, normalizeUsername } from './userInfo';
 import { buildActionAccessibilityLabel, joinAccessibilityLabel } from './accessibility';
 import { formatTags } from './tags';
+import { formatSearchQuery } from './searchGroups';
+import { formatBranchPatterns } from './branchGroups';
+import { formatAnchorLocation, formatSymbolPath, getAnchorLabel } from './anchors';
 
 
 
@@ -22,6 +25,80 @@ function getParentFoldersSuffix(filePath: string, maxFolders: number = 2): strin
     return parentFolders.length > 0 ? parentFolders.join('/') : undefined;
 }
 
+/**
+ * Codicons for `vscode.SymbolKind` values, indexed by kind
+ */
+const SYMBOL_KIND_ICONS = [
+    'symbol-file', 'symbol-module', 'symbol-namespace', 'symbol-package', 'symbol-class',
+    'symbol-method', 'symbol-property', 'symbol-field', 'symbol-constructor', 'symbol-enum',
+    'symbol-interface', 'symbol-function', 'symbol-variable', 'symbol-constant', 'symbol-string',
+    'symbol-number', 'symbol-boolean', 'symbol-array', 'symbol-object', 'symbol-key',
+    'symbol-null', 'symbol-enum-member', 'symbol-struct', 'symbol-event', 'symbol-operator',
+    'symbol-type-parameter'
+];
+
+function getAnchorIcon(anchor: GroupFileAnchor): vscode.ThemeIcon {
+    if (anchor.symbolMissing) {
+        return new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground'));
+    }
+    if (anchor.symbol?.length) {
+        return new vscode.ThemeIcon(SYMBOL_KIND_ICONS[anchor.symbolKind ?? -1] ?? 'symbol-misc');
+    }
+    return new vscode.ThemeIcon(anchor.endLine !== undefined && anchor.endLine !== anchor.line ? 'list-selection' : 'bookmark');
+}
+
+/**
+ * A bookmarked location inside a grouped file. Lines and characters are zero-based.
+ */
+export interface GroupFileAnchor {
+    /** Unique identifier for the anchor within its file */
+    id: string;
+    /** Start line of the bookmarked selection */
+    line: number;
+    /** Start character (omit for a whole-line anchor) */
+    character?: number;
+    /** End line of a range anchor (defaults to `line`) */
+    endLine?: number;
+    /** End character of a range anchor */
+    endCharacter?: number;
+    /** Optional display label (defaults to the symbol path or location) */
+    label?: string;
+    /** Names from the outermost container down to a bookmarked symbol, e.g. `['UserService', 'login']` */
+    symbol?: string[];
+    /** `vscode.SymbolKind` of the bookmarked symbol */
+    symbolKind?: number;
+    /** Set when the document no longer contains the bookmarked symbol */
+    symbolMissing?: boolean;
+}
+
+/**
+ * One editor tab of a saved group layout
+ */
+export interface EditorLayoutTab {
+    /** Full absolute path to the file (relative in the config file, like group files) */
+    path: string;
+    /** Editor column of the tab, 1 for the first */
+    column: number;
+    /** Whether the tab is pinned */
+    pinned?: boolean;
+    /** Whether this is the active tab of its column */
+    active?: boolean;
+    /** Cursor position or selection */
+    selection?: { line: number; character: number; endLine: number; endCharacter: number };
+    /** First visible line */
+    scrollLine?: number;
+}
+
+/**
+ * Which files sit in which editor column, captured from the open editors
+ */
+export interface EditorLayout {
+    /** Tabs by column, in tab order within each column */
+    tabs: EditorLayoutTab[];
+    /** Column that had focus */
+    activeColumn?: number;
+}
+
 /**
  * Represents a file or folder within a group
  */
@@ -34,6 +111,47 @@ export interface GroupFile {
     isDirectory?: boolean;
     /** Searchable labels attached to this bookmark */
     tags?: string[];
+    /** Markdown note explaining why this bookmark matters */
+    note?: string;
+    /** Line or range bookmarks inside this file */
+    anchors?: GroupFileAnchor[];
+    /** Match count and first match of a search group's query (computed, not shared) */
+    searchMatch?: GroupFileSearchMatch;
+}
+
+/**
+ * Matches of a search group's query inside one file. Lines and characters are zero-based.
+ */
+export interface GroupFileSearchMatch {
+    count: number;
+    line: number;
+    character: number;
+}
+
+/**
+ * Saved text or regex query that defines a search group's files
+ */
+export interface GroupSearchQuery {
+    /** Text or regular expression to look for */
+    query: string;
+    /** Treat `query` as a regular expression */
+    isRegex?: boolean;
+    /** Match letter case exactly */
+    matchCase?: boolean;
+    /** Globs limiting which files are searched (defaults to the whole workspace) */
+    include?: string[];
+    /** Globs skipped while searching */
+    exclude?: string[];
+}
+
+/**
+ * Glob patterns that define a dynamic group's membership
+ */
+export interface GroupFilePatterns {
+    /** Workspace-relative globs whose matches belong to the group */
+    include: string[];
+    /** Globs removed from the include matches */
+    exclude?: string[];
 }
 
 /**
@@ -64,19 +182,141 @@ export interface FileGroup {
     badgeText?: string;
     /** Files in this group */
     files: GroupFile[];
+    /** Include/exclude globs for a dynamic group; `files` is recomputed from them */
+    patterns?: GroupFilePatterns;
+    /** Saved query for a search group; `files` holds the files that currently match */
+    search?: GroupSearchQuery;
+    /** Git branch names or patterns (e.g. `feature/*`); the group is shown only on matching branches */
+    branches?: string[];
     /** Sort order for files: 'name-asc', 'name-desc', 'date-asc', 'date-desc', 'type', or 'manual' (default) */
     sortOrder?: string;
+    /** Editor columns and tabs restored when the group is opened */
+    layout?: EditorLayout;
     /** Order index for sorting */
     order: number;
     /** Parent group ID (null/undefined for root groups) */
     parentId?: string;
     /** Whether this is a global group (available in all projects) */
     isGlobal?: boolean;
+    /** Whether this local group and its subgroups stay out of the team config, in the personal overlay */
+    isPrivate?: boolean;
+    /** Path of the workspace folder whose config file stores this local group (kept in workspace state only) */
+    workspaceFolder?: string;
+}
+
+/**
+ * Virtual group listing every bookmark and group whose tags match an expression
+ */
+export interface TagQueryGroup {
+    /** Unique identifier for the tag query */
+    id: string;
+    /** Display name of the virtual group */
+    name: string;
+    /** Tag expression, e.g. `#api AND (#auth OR #billing) AND NOT #legacy` */
+    expression: string;
+}
+
+/**
+ * Why an item ended up in the trash
+ */
+export type TrashReason = 'groupDeleted' | 'fileDeleted' | 'fileMissing';
+
+/**
+ * A deleted group together with its full subtree, root group first
+ */
+export interface TrashedGroup {
+    kind: 'group';
+    /** Unique identifier for the trash entry */
+    id: string;
+    /** ISO timestamp of the deletion */
+    deletedAt: string;
+    reason: TrashReason;
+    groups: FileGroup[];
+}
+
+/**
+ * A bookmark removed automatically, with the group and position it came from
+ */
+export interface TrashedFile {
+    kind: 'file';
+    /** Unique identifier for the trash entry */
+    id: string;
+    /** ISO timestamp of the removal */
+    deletedAt: string;
+    reason: TrashReason;
+    groupId: string;
+    groupName: string;
+    /** Position of the bookmark inside its group's file list */
+    index: number;
+    file: GroupFile;
+}
+
+export type TrashItem = TrashedGroup | TrashedFile;
+
+export type SessionActivityKind = 'open' | 'edit';
+
+/**
+ * A file the user worked on during a session
+ */
+export interface SessionFileActivity {
+    path: string;
+    /** ISO timestamp of the last time the file was opened or edited */
+    lastActiveAt: string;
+    /** ISO timestamp of the last recorded edit */
+    lastEditedAt?: string;
+    openCount: number;
+    editCount: number;
+}
+
+/**
+ * Files opened and edited without a long break, most recently active first
+ */
+export interface ActivitySession {
+    /** Unique identifier for the session */
+    id: string;
+    /** ISO timestamp of the first recorded activity */
+    startedAt: string;
+    /** ISO timestamp of the latest recorded activity */
+    lastActiveAt: string;
+    files: SessionFileActivity[];
+}
+
+/**
+ * A diagnostic reported for a file, reduced to plain data. `severity` mirrors
+ * `vscode.DiagnosticSeverity` (0 error, 1 warning, 2 information, 3 hint).
+ */
+export interface FileDiagnostic {
+    severity: number;
+    message: string;
+    line: number;
+    character: number;
+    endLine: number;
+    endCharacter: number;
+    source?: string;
+    code?: string;
+}
+
+/**
+ * A diagnostic listed in the Problems section for the selected group
+ */
+export interface GroupProblem extends FileDiagnostic {
+    /** Unique within the list: the file path and the diagnostic's index in that file */
+    id: string;
+    filePath: string;
+}
+
+/**
+ * Errors and warnings in the files of a group and its subgroups
+ */
+export interface DiagnosticCounts {
+    errors: number;
+    warnings: number;
 }
 
 export type OpenGroupedFileCommandArgs = {
     groupId: string;
     filePath: string;
+    anchorId?: string;
 };
 
 /**
@@ -84,9 +324,41 @@ export type OpenGroupedFileCommandArgs = {
  */
 export interface FileGroupsConfig {
     version: number;
+    /** Oldest config version able to read this file, set by newer extensions that stay backward compatible */
+    compatibleVersion?: number;
     groups: FileGroup[];
     /** Hide global groups in this project */
     hideGlobalGroups?: boolean;
+    /** Tag-query virtual groups shown in their own read-only section */
+    tagQueries?: TagQueryGroup[];
+}
+
+/**
+ * How a workspace folder stores its groups: `single` keeps them all in
+ * `.vscode/file-groups.json`, `split` keeps one file per group in `.vscode/codegroup`
+ */
+export type ConfigLayout = 'single' | 'split';
+
+/**
+ * `.vscode/codegroup/index.json` of the split layout: the config settings and the group order
+ */
+export interface SplitConfigIndex extends Omit<FileGroupsConfig, 'groups'> {
+    /** Group ids in display order */
+    order: string[];
+}
+
+export type ConfigSnapshotScope = 'local' | 'global';
+
+/**
+ * A timestamped copy of the local or global config, written whenever the config file is saved
+ */
+export interface ConfigSnapshot {
+    scope: ConfigSnapshotScope;
+    /** Name of the workspace folder a local snapshot belongs to */
+    folder?: string;
+    fileName: string;
+    /** ISO timestamp */
+    createdAt: string;
 }
 
 /**
@@ -281,9 +553,63 @@ export function getThemeColorForHex(hexColor: string): string {
 /**
  * Tree item types for context value
  */
-export type TreeItemType = 'group' | 'file' | 'section' | 'action';
+export type TreeItemType = 'group' | 'file' | 'anchor' | 'section' | 'action' | 'tagQuery' | 'trash' | 'session' | 'problem';
+
+export type TreeSectionKind = 'global' | 'actions' | 'tagQueries' | 'trash' | 'session' | 'problems' | 'workspaceFolder';
+
+/**
+ * Id, context value, icon and label of each tree section header
+ */
+const TREE_SECTIONS: Record<TreeSectionKind, { id: string; contextValue: string; iconId: string; labelKey: TranslationKey }> = {
+    global: { id: 'global-groups-section', contextValue: 'globalSection', iconId: 'globe', labelKey: 'tree.section.globalGroups' },
+    actions: { id: 'quick-actions-section', contextValue: 'quickActionsSection', iconId: 'sparkle', labelKey: 'tree.section.quickActions' },
+    tagQueries: { id: 'tag-queries-section', contextValue: 'tagQueriesSection', iconId: 'tag', labelKey: 'tree.section.tagQueries' },
+    trash: { id: 'trash-section', contextValue: 'trashSection', iconId: 'trash', labelKey: 'tree.section.trash' },
+    session: { id: 'session-activity-section', contextValue: 'sessionSection', iconId: 'history', labelKey: 'tree.section.session' },
+    problems: { id: 'group-problems-section', contextValue: 'problemsSection', iconId: 'warning', labelKey: 'tree.section.problems' },
+    workspaceFolder: { id: 'workspace-folder-section', contextValue: 'workspaceFolderSection', iconId: 'root-folder', labelKey: 'tree.section.workspaceFolder' }
+};
 
-export type TreeSectionKind = 'global' | 'actions';
+function getSectionLabel(sectionKind: TreeSectionKind | undefined, workspaceFolder?: vscode.WorkspaceFolder): string {
+    return workspaceFolder?.name ?? t(TREE_SECTIONS[sectionKind ?? 'global'].labelKey);
+}
+
+const TRASH_REASON_KEYS: Record<TrashReason, TranslationKey> = {
+    groupDeleted: 'trash.reason.groupDeleted',
+    fileDeleted: 'trash.reason.fileDeleted',
+    fileMissing: 'trash.reason.fileMissing'
+};
+
+const PROBLEM_ICONS: Array<{ iconId: string; colorId: string }> = [
+    { iconId: 'error', colorId: 'problemsErrorIcon.foreground' },
+    { iconId: 'warning', colorId: 'problemsWarningIcon.foreground' },
+    { iconId: 'info', colorId: 'problemsInfoIcon.foreground' },
+    { iconId: 'info', colorId: 'problemsInfoIcon.foreground' }
+];
+
+/**
+ * Error and warning badge shown in group descriptions, empty when both are zero
+ */
+function formatDiagnosticCounts(counts: DiagnosticCounts | undefined): string {
+    return [
+        counts?.errors ? `⛔ ${counts.errors}` : undefined,
+        counts?.warnings ? `⚠️ ${counts.warnings}` : undefined
+    ].filter(Boolean).join(' ');
+}
+
+function getDiagnosticCountsLabel(counts: DiagnosticCounts | undefined): string | undefined {
+    if (!counts?.errors && !counts?.warnings) {
+        return undefined;
+    }
+    return [
+        counts.errors ? countLabel(counts.errors, 'noun.error.one', 'noun.error.other') : undefined,
+        counts.warnings ? countLabel(counts.warnings, 'noun.warning.one', 'noun.warning.other') : undefined
+    ].filter(Boolean).join(', ');
+}
+
+function getTrashItemLabel(trashItem: TrashItem): string {
+    return trashItem.kind === 'group' ? trashItem.groups[0]?.name ?? '' : trashItem.file.name;
+}
 
 export type ActionTreeItemDefinition = {
     id: string;
@@ -294,10 +620,40 @@ export type ActionTreeItemDefinition = {
     command: vscode.Command;
 };
 
+/**
+ * What a tree item shows besides its group and file, each used by some item types only
+ */
+export interface FileGroupTreeItemOptions {
+    sectionKind?: TreeSectionKind;
+    actionDefinition?: ActionTreeItemDefinition;
+    anchor?: GroupFileAnchor;
+    /** Tag query shown by a `tagQuery` item, or the read-only query a result belongs to */
+    tagQuery?: TagQueryGroup;
+    trashItem?: TrashItem;
+    /** Workspace folder of a `workspaceFolder` section in multi-root workspaces */
+    workspaceFolder?: vscode.WorkspaceFolder;
+    /** File worked on during the session shown by a `session` item */
+    sessionFile?: SessionFileActivity;
+    /** Errors and warnings in the files of a group item or the problems section */
+    diagnosticCounts?: DiagnosticCounts;
+    /** Diagnostic shown by a `problem` item */
+    problem?: GroupProblem;
+}
+
 /**
  * Tree item representing either a group, file, or section header
  */
 export class FileGroupTreeItem extends vscode.TreeItem {
+    public readonly sectionKind?: TreeSectionKind;
+    public readonly actionDefinition?: ActionTreeItemDefinition;
+    public readonly anchor?: GroupFileAnchor;
+    public readonly tagQuery?: TagQueryGroup;
+    public readonly trashItem?: TrashItem;
+    public readonly workspaceFolder?: vscode.WorkspaceFolder;
+    public readonly sessionFile?: SessionFileActivity;
+    public readonly diagnosticCounts?: DiagnosticCounts;
+    public readonly problem?: GroupProblem;
+
     constructor(
         public readonly itemType: TreeItemType,
         public readonly group: FileGroup | null,
@@ -306,38 +662,151 @@ export class FileGroupTreeItem extends vscode.TreeItem {
         public readonly childCount: number = 0,
         public readonly totalItemCount: number = 0,
         public readonly allFiles: GroupFile[] = [],
-        public readonly sectionKind?: TreeSectionKind,
-        public readonly actionDefinition?: ActionTreeItemDefinition
+        options: FileGroupTreeItemOptions = {}
     ) {
+        const { sectionKind, actionDefinition, anchor, tagQuery, trashItem, workspaceFolder, sessionFile, diagnosticCounts, problem } = options;
         super(
             itemType === 'section'
-                ? (sectionKind === 'actions' ? t('tree.section.quickActions') : t('tree.section.globalGroups'))
+                ? getSectionLabel(sectionKind, workspaceFolder)
                 : (itemType === 'action'
                     ? actionDefinition?.label ?? t('tree.action.default')
-                    : (file ? file.name : group!.name)),
-            itemType === 'section'
-                ? vscode.TreeItemCollapsibleState.Expanded
-                : ((file || itemType === 'action')
-                    ? vscode.TreeItemCollapsibleState.None
+                    : (itemType === 'tagQuery'
+                        ? tagQuery!.name
+                        : (itemType === 'trash'
+                            ? getTrashItemLabel(trashItem!)
+                            : (itemType === 'session'
+                                ? path.basename(sessionFile!.path)
+                                : (itemType === 'problem'
+                                    ? problem!.message.split(/\r?\n/)[0]
+                                    : (anchor ? getAnchorLabel(anchor) : (file ? file.name : group!.name))))))),
+            itemType === 'section' || itemType === 'tagQuery'
+                ? (itemType === 'section' ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed)
+                : ((file || itemType === 'action' || itemType === 'trash' || itemType === 'session' || itemType === 'problem' || tagQuery)
+                    ? (itemType === 'file' && !tagQuery && (file?.anchors?.length ?? 0) > 0
+                        ? vscode.TreeItemCollapsibleState.Collapsed
+                        : vscode.TreeItemCollapsibleState.None)
                     : (group!.collapsed
                         ? vscode.TreeItemCollapsibleState.Collapsed
                         : vscode.TreeItemCollapsibleState.Expanded))
         );
+        this.sectionKind = sectionKind;
+        this.actionDefinition = actionDefinition;
+        this.anchor = anchor;
+        this.tagQuery = tagQuery;
+        this.trashItem = trashItem;
+        this.workspaceFolder = workspaceFolder;
+        this.sessionFile = sessionFile;
+        this.diagnosticCounts = diagnosticCounts;
+        this.problem = problem;
 
         // Set unique ID for state preservation during refresh
         if (itemType === 'section') {
-            this.id = sectionKind === 'actions' ? 'quick-actions-section' : 'global-groups-section';
-            this.contextValue = sectionKind === 'actions' ? 'quickActionsSection' : 'globalSection';
-            this.iconPath = new vscode.ThemeIcon(sectionKind === 'actions' ? 'sparkle' : 'globe');
-            this.description = sectionKind === 'actions'
-                ? t('tree.section.quickActions.description')
-                : (hasChildren ? countLabel(totalItemCount, 'noun.group.one', 'noun.group.other') : undefined);
+            const section = TREE_SECTIONS[sectionKind ?? 'global'];
+            this.id = workspaceFolder ? `${section.id}:${workspaceFolder.uri.toString()}` : section.id;
+            this.contextValue = section.contextValue;
+            this.iconPath = new vscode.ThemeIcon(section.iconId);
+            if (workspaceFolder) {
+                this.tooltip = workspaceFolder.uri.fsPath;
+            }
+            if (sectionKind === 'actions') {
+                this.description = t('tree.section.quickActions.description');
+            } else if (sectionKind === 'tagQueries') {
+                this.description = t('tree.section.tagQueries.description');
+            } else if (sectionKind === 'trash') {
+                this.description = countLabel(totalItemCount, 'noun.item.one', 'noun.item.other');
+            } else if (sectionKind === 'session') {
+                this.description = countLabel(totalItemCount, 'noun.file.one', 'noun.file.other');
+            } else if (sectionKind === 'problems') {
+                this.description = [group?.name, formatDiagnosticCounts(diagnosticCounts) || t('problems.none')].filter(Boolean).join(' • ');
+            } else {
+                this.description = hasChildren ? countLabel(totalItemCount, 'noun.group.one', 'noun.group.other') : undefined;
+            }
             this.accessibilityInformation = {
                 label: joinAccessibilityLabel([
-                    sectionKind === 'actions' ? t('tree.section.quickActions') : t('tree.section.globalGroups'),
+                    getSectionLabel(sectionKind, workspaceFolder),
+                    workspaceFolder ? t('tree.section.workspaceFolder') : undefined,
                     typeof this.description === 'string' ? this.description : undefined
                 ])
             };
+        } else if (itemType === 'tagQuery' && tagQuery) {
+            // Virtual group defined by a tag expression
+            this.id = `tagQuery:${tagQuery.id}`;
+            this.contextValue = 'tagQuery';
+            this.iconPath = new vscode.ThemeIcon('tag');
+            this.description = [tagQuery.expression, countLabel(totalItemCount, 'noun.match.one', 'noun.match.other')].join(' • ');
+            this.tooltip = `${tagQuery.name}\n${tagQuery.expression}`;
+            this.accessibilityInformation = {
+                label: joinAccessibilityLabel([tagQuery.name, t('tagQuery.accessibility'), tagQuery.expression, this.description])
+            };
+        } else if (itemType === 'trash' && trashItem) {
+            // Deleted group or auto-removed bookmark waiting to be restored or purged
+            const reasonLabel = t(TRASH_REASON_KEYS[trashItem.reason]);
+            const deletedAt = new Date(trashItem.deletedAt).toLocaleString();
+            const subgroupCount = trashItem.kind === 'group' ? trashItem.groups.length - 1 : 0;
+            this.id = `trash:${trashItem.id}`;
+            this.contextValue = 'trashItem';
+            if (trashItem.kind === 'group') {
+                this.iconPath = new vscode.ThemeIcon(trashItem.groups[0]?.icon || 'folder');
+            } else {
+                this.resourceUri = vscode.Uri.file(trashItem.file.path);
+            }
+            this.description = [
+                trashItem.kind === 'file' ? trashItem.groupName : undefined,
+                subgroupCount > 0 ? countLabel(subgroupCount, 'noun.child.one', 'noun.child.other') : undefined,
+                reasonLabel,
+                deletedAt
+            ].filter(Boolean).join(' • ');
+            this.tooltip = [
+                trashItem.kind === 'file' ? trashItem.file.path : getTrashItemLabel(trashItem),
+                `${reasonLabel} • ${deletedAt}`
+            ].join('\n');
+            this.accessibilityInformation = {
+                label: joinAccessibilityLabel([getTrashItemLabel(trashItem), t('tree.section.trash'), this.description])
+            };
+        } else if (itemType === 'session' && sessionFile) {
+            // File opened or edited during the current session
+            const lastActive = new Date(sessionFile.lastActiveAt).toLocaleTimeString();
+            this.id = `session:${sessionFile.path}`;
+            this.contextValue = 'sessionFile';
+            this.resourceUri = vscode.Uri.file(sessionFile.path);
+            this.description = [
+                getParentFoldersSuffix(sessionFile.path, 2),
+                sessionFile.editCount > 0 ? countLabel(sessionFile.editCount, 'noun.edit.one', 'noun.edit.other') : undefined,
+                lastActive
+            ].filter(Boolean).join(' • ');
+            this.tooltip = [
+                sessionFile.path,
+                t('session.tooltip', { opened: sessionFile.openCount, edited: sessionFile.editCount, time: lastActive })
+            ].join('\n');
+            this.accessibilityInformation = {
+                label: joinAccessibilityLabel([path.basename(sessionFile.path), t('tree.section.session'), this.description])
+            };
+            this.command = {
+                command: 'vscode.open',
+                title: t('tree.command.open'),
+                arguments: [this.resourceUri]
+            };
+        } else if (itemType === 'problem' && problem) {
+            // Diagnostic in a file of the group shown in the Problems section
+            const location = `${problem.line + 1}:${problem.character + 1}`;
+            const icon = PROBLEM_ICONS[problem.severity] ?? PROBLEM_ICONS[2];
+            const source = problem.source ? `${problem.source}${problem.code ? `(${problem.code})` : ''}` : problem.code;
+            this.id = `problem:${problem.id}`;
+            this.contextValue = 'problem';
+            this.iconPath = new vscode.ThemeIcon(icon.iconId, new vscode.ThemeColor(icon.colorId));
+            this.description = [`${path.basename(problem.filePath)}:${problem.line + 1}`, source].filter(Boolean).join(' • ');
+            this.tooltip = [`${problem.filePath}:${location}`, problem.message, source].filter(Boolean).join('\n');
+            this.accessibilityInformation = {
+                label: joinAccessibilityLabel([problem.message, path.basename(problem.filePath), location, source])
+            };
+            this.command = {
+                command: 'vscode.open',
+                title: t('tree.command.open'),
+                arguments: [
+                    vscode.Uri.file(problem.filePath),
+                    { selection: new vscode.Range(problem.line, problem.character, problem.endLine, problem.endCharacter) }
+                ]
+            };
         } else if (itemType === 'action') {
             this.id = `action:${actionDefinition?.id ?? 'unknown'}`;
             this.contextValue = 'action';
@@ -351,34 +820,82 @@ export class FileGroupTreeItem extends vscode.TreeItem {
                     actionDefinition?.description
                 )
             };
+        } else if (anchor && file) {
+            this.id = `${group!.id}:file:${file.path}:anchor:${anchor.id}`;
         } else if (file) {
             this.id = `${group!.id}:file:${file.path}`;
         } else {
             this.id = `${group!.id}`;
         }
 
+        // Tag query results repeat real items, so they need their own ids
+        if (tagQuery && itemType !== 'tagQuery') {
+            this.id = `tagQuery:${tagQuery.id}:${this.id}`;
+        }
+
         // Set context value for menus
         // Use pinned/unpinned suffix to show correct pin/unpin menu item
         // Use global prefix for global groups
         if (itemType === 'section') {
             // Already set above
-        } else if (itemType === 'action') {
+        } else if (itemType === 'action' || itemType === 'tagQuery' || itemType === 'trash' || itemType === 'session' || itemType === 'problem') {
             // Already set above
+        } else if (tagQuery) {
+            // Read-only tag query results
+            this.contextValue = file ? 'tagQueryResultFile' : 'tagQueryResultGroup';
+        } else if (anchor) {
+            this.contextValue = anchor.symbolMissing ? 'anchor_missingSymbol' : 'anchor';
         } else if (file) {
             this.contextValue = 'file';
         } else if (group!.isGlobal) {
             // Global groups
             this.contextValue = group!.pinned ? 'global_group_pinned' : 'global_group_unpinned';
         } else {
-            // Local groups
-            this.contextValue = group!.pinned ? 'group_pinned' : 'group_unpinned';
+            // Local groups, with a private infix for groups kept out of the team config
+            this.contextValue = `group_${group!.isPrivate ? 'private_' : ''}${group!.pinned ? 'pinned' : 'unpinned'}`;
         }
 
-        if (file && group) {
+        if (anchor && file && group) {
+            // Bookmarked line or range inside a grouped file
+            const location = formatAnchorLocation(anchor);
+            const missingLabel = anchor.symbolMissing ? t('anchor.symbol.missing') : undefined;
+            this.iconPath = getAnchorIcon(anchor);
+            this.description = [
+                anchor.label || anchor.symbol?.length ? location : undefined,
+                missingLabel
+            ].filter(Boolean).join(' • ') || undefined;
+            this.tooltip = [`${file.path}:${location}`, missingLabel].filter(Boolean).join('\n');
+            this.accessibilityInformation = {
+                label: joinAccessibilityLabel([getAnchorLabel(anchor), t('noun.anchor.one'), file.name, location, missingLabel])
+            };
+            this.command = {
+                command: 'fileGroups.openGroupedFile',
+                title: t('tree.command.openAnchor'),
+                arguments: [{
+                    groupId: group.id,
+                    filePath: file.path,
+                    anchorId: anchor.id
+                }]
+            };
+        } else if (file && group) {
             // File or folder item
+            const anchors = file.anchors ?? [];
             this.resourceUri = vscode.Uri.file(file.path);
-            this.tooltip = file.path;
-            this.description = [getParentFoldersSuffix(file.path, 2), formatTags(file.tags)].filter(Boolean).join(' • ');
+            if (file.note) {
+                const tooltipMarkdown = new vscode.MarkdownString().appendText(file.path).appendMarkdown(`\n\n---\n\n${file.note}`);
+                tooltipMarkdown.isTrusted = false;
+                this.tooltip = tooltipMarkdown;
+            } else {
+                this.tooltip = file.path;
+            }
+            this.description = [
+                getParentFoldersSuffix(file.path, 2),
+                anchors.length === 1 ? formatSymbolPath(anchors[0].symbol) || formatAnchorLocation(anchors[0]) : undefined,
+                anchors.length > 1 ? countLabel(anchors.length, 'noun.anchor.one', 'noun.anchor.other') : undefined,
+                anchors.some(anchor => anchor.symbolMissing) ? t('anchor.symbol.missing') : undefined,
+                file.searchMatch ? countLabel(file.searchMatch.count, 'noun.match.one', 'noun.match.other') : undefined,
+                formatTags(file.tags)
+            ].filter(Boolean).join(' • ');
             this.accessibilityInformation = {
                 label: joinAccessibilityLabel([
                     file.name,
@@ -403,11 +920,12 @@ export class FileGroupTreeItem extends vscode.TreeItem {
                     title: t('tree.command.open'),
                     arguments: [{
                         groupId: group.id,
-                        filePath: file.path
+                        filePath: file.path,
+                        anchorId: anchors.length === 1 ? anchors[0].id : undefined
                     }]
                 };
             }
-        } else if (group && itemType !== 'section') {
+        } else if (group && itemType === 'group') {
             // Group item - build description with file count and child groups
             const fileCount = group.files.filter(f => !f.isDirectory).length;
             const folderCount = group.files.filter(f => f.isDirectory).length;
@@ -436,10 +954,31 @@ export class FileGroupTreeItem extends vscode.TreeItem {
 
             const hasDetails = Boolean(group.details && group.details.trim().length > 0);
 
+            const diagnosticsDescription = formatDiagnosticCounts(diagnosticCounts);
+            if (diagnosticsDescription) {
+                descriptionParts.push(diagnosticsDescription);
+            }
+
             if (group.pinned) {
                 descriptionParts.push('📌');
             }
 
+            if (group.isPrivate) {
+                descriptionParts.push('🔒');
+            }
+
+            if (group.patterns) {
+                descriptionParts.push(t('group.dynamic.description'));
+            }
+
+            if (group.search) {
+                descriptionParts.push(formatSearchQuery(group.search));
+            }
+
+            if (group.branches?.length) {
+                descriptionParts.push(`⎇ ${formatBranchPatterns(group.branches)}`);
+            }
+
             if (hasDetails) {
                 descriptionParts.push('📝');
             }
@@ -467,9 +1006,11 @@ export class FileGroupTreeItem extends vscode.TreeItem {
                     group.name,
                     group.isGlobal ? t('group.accessibility.global') : t('group.accessibility.local'),
                     group.pinned ? t('group.accessibility.pinned') : undefined,
+                    group.isPrivate ? t('group.accessibility.private') : undefined,
                     hasDetails ? t('group.accessibility.hasDetails') : undefined,
                     group.shortDescription,
-                    statsDescription
+                    statsDescription,
+                    getDiagnosticCountsLabel(diagnosticCounts)
                 ])
             };
 
@@ -479,6 +1020,20 @@ export class FileGroupTreeItem extends vscode.TreeItem {
                 tooltipLines.push('', `🌐 _${t('group.tooltip.global')}_`);
             }
 
+            if (group.search) {
+                tooltipLines.push('', `**${t('group.tooltip.search')}** \`${formatSearchQuery(group.search)}\``);
+            }
+
+            if (group.branches?.length) {
+                tooltipLines.push('', `**${t('group.tooltip.branches')}** ${group.branches.map(branch => `\`${branch}\``).join(', ')}`);
+            }
+
+            if (group.patterns) {
+                tooltipLines.push('', `**${t('group.tooltip.patterns')}**`);
+                tooltipLines.push(...group.patterns.include.map(pattern => `- \`${pattern}\``));
+                tooltipLines.push(...(group.patterns.exclude ?? []).map(pattern => `- ${t('group.tooltip.excluded')} \`${pattern}\``));
+            }
+
             if (group.shortDescription) {
                 tooltipLines.push('', `_${group.shortDescription}_`);
             }
@@ -498,6 +1053,11 @@ export class FileGroupTreeItem extends vscode.TreeItem {
                 }
             }
 
+            const diagnosticsLabel = getDiagnosticCountsLabel(diagnosticCounts);
+            if (diagnosticsLabel) {
+                tooltipLines.push(`- ${t('group.tooltip.problems')}: ${diagnosticsLabel}`);
+            }
+
             if (group.details) {
                 tooltipLines.push('', '---', group.details);
             }
@@ -514,6 +1074,9 @@ export class FileGroupTreeItem extends vscode.TreeItem {
             tooltipMarkdown.isTrusted = false;
             this.tooltip = tooltipMarkdown;
 
+            // Dynamic and search groups show fixed icons so they stand apart from static lists
+            const groupIcon = group.search ? 'search' : (group.patterns ? 'filter' : (group.icon || 'folder'));
+
             // Set icon with optional color
             if (group.color) {
                 // For hex colors, map to closest theme color for icon display
@@ -521,11 +1084,11 @@ export class FileGroupTreeItem extends vscode.TreeItem {
                     ? getThemeColorForHex(group.color)
                     : group.color;
                 this.iconPath = new vscode.ThemeIcon(
-                    group.icon || 'folder',
+                    groupIcon,
                     new vscode.ThemeColor(themeColorId)
                 );
             } else {
-                this.iconPath = new vscode.ThemeIcon(group.icon || 'folder');
+                this.iconPath = new vscode.ThemeIcon(groupIcon);
             }
         }
     }
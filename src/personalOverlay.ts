@@ -0,0 +1,120 @@
+import type { FileGroup } from './models';
+
+/** How one user views a group; never written to the team config */
+export type GroupViewState = Partial<Pick<FileGroup, 'collapsed' | 'pinned' | 'sortOrder'>>;
+
+/**
+ * Per-user layer over the team config, kept in workspace state
+ */
+export interface PersonalOverlay {
+  /** View state by group id, only the fields that differ from the team config */
+  viewState: Record<string, GroupViewState>;
+  /** Groups kept out of the team config, with absolute paths */
+  privateGroups: FileGroup[];
+}
+
+export const VIEW_STATE_FIELDS = ['collapsed', 'pinned', 'sortOrder'] as const;
+
+export function createPersonalOverlay(): PersonalOverlay {
+  return { viewState: {}, privateGroups: [] };
+}
+
+/**
+ * Read view state, treating missing fields as their defaults so
+ * `pinned: false` and no `pinned` compare equal
+ */
+function getViewValue(state: GroupViewState, field: typeof VIEW_STATE_FIELDS[number]): boolean | string {
+  if (field === 'sortOrder') {
+    return state.sortOrder || 'manual';
+  }
+
+  return state[field] ?? false;
+}
+
+export function getViewState(group: GroupViewState): GroupViewState {
+  const state: GroupViewState = {};
+  for (const field of VIEW_STATE_FIELDS) {
+    if (group[field] !== undefined) {
+      Object.assign(state, { [field]: group[field] });
+    }
+  }
+
+  return state;
+}
+
+/**
+ * Replace the view state of a group, dropping fields the state leaves unset
+ */
+export function withViewState(group: FileGroup, state: GroupViewState): FileGroup {
+  const result: FileGroup = { ...group };
+  for (const field of VIEW_STATE_FIELDS) {
+    delete result[field];
+  }
+
+  return { ...result, ...getViewState(state) };
+}
+
+/**
+ * A group is private when it or one of its ancestors is marked private, so
+ * a shared group never points to a parent missing from the team config
+ */
+export function isPrivateGroup(group: FileGroup, groupsById: ReadonlyMap<string, FileGroup>): boolean {
+  const visited = new Set<string>();
+  let current: FileGroup | undefined = group;
+  while (current && !visited.has(current.id)) {
+    if (current.isPrivate) {
+      return true;
+    }
+    visited.add(current.id);
+    current = current.parentId ? groupsById.get(current.parentId) : undefined;
+  }
+
+  return false;
+}
+
+/**
+ * Split local groups into those written to the team config, which keep the
+ * team's view state, and the overlay holding private groups and the user's
+ * own view state
+ */
+export function splitPersonalOverlay(
+  groups: readonly FileGroup[],
+  teamViewState: ReadonlyMap<string, GroupViewState>
+): { sharedGroups: FileGroup[]; overlay: PersonalOverlay } {
+  const groupsById = new Map(groups.map(group => [group.id, group]));
+  const overlay = createPersonalOverlay();
+  const sharedGroups: FileGroup[] = [];
+
+  for (const group of groups) {
+    if (isPrivateGroup(group, groupsById)) {
+      overlay.privateGroups.push(group);
+      continue;
+    }
+
+    const teamState = teamViewState.get(group.id) ?? {};
+    const personalState: GroupViewState = {};
+    for (const field of VIEW_STATE_FIELDS) {
+      if (getViewValue(group, field) !== getViewValue(teamState, field)) {
+        Object.assign(personalState, { [field]: group[field] });
+      }
+    }
+    if (Object.keys(personalState).length > 0) {
+      overlay.viewState[group.id] = personalState;
+    }
+    sharedGroups.push(withViewState(group, teamState));
+  }
+
+  return { sharedGroups, overlay };
+}
+
+/**
+ * Lay the overlay over groups loaded from the team config: the user's view
+ * state wins, and private groups follow the shared ones
+ */
+export function applyPersonalOverlay(teamGroups: readonly FileGroup[], overlay: PersonalOverlay): FileGroup[] {
+  const teamIds = new Set(teamGroups.map(group => group.id));
+  return [
+    ...teamGroups.map(group => ({ ...group, ...overlay.viewState[group.id] })),
+    ...overlay.privateGroups.filter(group => !teamIds.has(group.id))
+  ];
+}
@@ -4,6 +4,45 @@ import { FileGroup } from './models';
 import { formatTags, normalizeTags } from './tags';
 
 export const MAX_RECENT_GROUP_FILES = 20;
+export const MAX_FRECENCY_ENTRIES = 500;
+/** Rank added for files of pinned groups, about half of one visit this week */
+export const PINNED_GROUP_FRECENCY_BONUS = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Weight of one visit by its age: visits this week count most, and visits
+ * older than three months still count a little
+ */
+const FRECENCY_AGE_WEIGHTS: ReadonlyArray<[maxAgeMs: number, weight: number]> = [
+  [4 * DAY_MS, 100],
+  [14 * DAY_MS, 70],
+  [31 * DAY_MS, 50],
+  [90 * DAY_MS, 30]
+];
+const OLD_VISIT_WEIGHT = 10;
+
+/**
+ * How often and how lately a grouped file was opened from CodeGroup
+ */
+export interface FrecencyEntry {
+  count: number;
+  /** ISO timestamp of the latest visit */
+  lastOpenedAt: string;
+}
+
+/** Frecency entries by recent group file key */
+export type FrecencyStore = Record<string, FrecencyEntry>;
+
+/**
+ * Parsed quick open input: `#tag` and `group:name` narrow the results, the
+ * remaining words are matched fuzzily
+ */
+export interface QuickOpenQuery {
+  terms: string[];
+  tags: string[];
+  groups: string[];
+}
 
 export interface GroupedFileQuickOpenItem {
   key: string;
@@ -16,7 +55,9 @@ export interface GroupedFileQuickOpenItem {
   fileName: string;
   filePath: string;
   detail: string;
-  recentIndex?: number;
+  tags: string[];
+  /** Frecency of the file, plus a bonus for pinned groups */
+  rank: number;
 }
 
 export interface GroupedFileQuickOpenSections {
@@ -75,6 +116,52 @@ export function normalizeRecentGroupFileKeys(keys: readonly string[], limit: num
   return dedupedKeys;
 }
 
+export function getFrecencyScore(entry: FrecencyEntry | undefined, now: Date): number {
+  if (!entry) {
+    return 0;
+  }
+
+  const age = now.getTime() - Date.parse(entry.lastOpenedAt);
+  const weight = FRECENCY_AGE_WEIGHTS.find(([maxAge]) => age < maxAge)?.[1] ?? OLD_VISIT_WEIGHT;
+  return entry.count * weight;
+}
+
+/**
+ * Count a visit to a grouped file. The lowest scoring entries are dropped
+ * beyond the limit.
+ */
+export function recordFrecencyVisit(
+  store: FrecencyStore,
+  key: string,
+  now: Date,
+  limit: number = MAX_FRECENCY_ENTRIES
+): FrecencyStore {
+  const next: FrecencyStore = {
+    ...store,
+    [key]: { count: (store[key]?.count ?? 0) + 1, lastOpenedAt: now.toISOString() }
+  };
+  const keys = Object.keys(next);
+  if (keys.length <= limit) {
+    return next;
+  }
+
+  const keptKeys = keys
+    .sort((left, right) => getFrecencyScore(next[right], now) - getFrecencyScore(next[left], now) || (left === key ? -1 : right === key ? 1 : 0))
+    .slice(0, limit);
+  return Object.fromEntries(keptKeys.map(keptKey => [keptKey, next[keptKey]]));
+}
+
+/**
+ * Seed frecency from the recent list kept by earlier versions, one visit
+ * each, a minute apart in list order
+ */
+export function migrateRecentGroupFileKeys(keys: readonly string[], now: Date): FrecencyStore {
+  return Object.fromEntries(normalizeRecentGroupFileKeys(keys).map((key, index) => [
+    key,
+    { count: 1, lastOpenedAt: new Date(now.getTime() - index * 60 * 1000).toISOString() }
+  ]));
+}
+
 export function buildGroupTrail(group: FileGroup, groupsById: ReadonlyMap<string, FileGroup>): string {
   const visitedGroupIds = new Set<string>([group.id]);
   const names = [group.name];
@@ -94,14 +181,17 @@ export function buildGroupTrail(group: FileGroup, groupsById: ReadonlyMap<string
   return names.join(' / ');
 }
 
+/**
+ * Split quick open items into the most frequently and recently opened files,
+ * best first, and all other files by pinned state, group trail and name
+ */
 export function buildGroupedFileQuickOpenSections(
   groups: readonly FileGroup[],
-  recentKeys: readonly string[],
-  workspaceRoot?: string
+  frecency: FrecencyStore,
+  workspaceRoot?: string,
+  now: Date = new Date()
 ): GroupedFileQuickOpenSections {
   const groupsById = new Map(groups.map(group => [group.id, group]));
-  const normalizedRecentKeys = normalizeRecentGroupFileKeys(recentKeys);
-  const recentIndexByKey = new Map(normalizedRecentKeys.map((key, index) => [key, index]));
   const allItems: GroupedFileQuickOpenItem[] = [];
 
   for (const group of groups) {
@@ -124,6 +214,11 @@ export function buildGroupedFileQuickOpenSections(
         detailParts.push(formatTags(searchableTags));
       }
 
+      const note = file.note?.trim().replace(/\s+/g, ' ');
+      if (note) {
+        detailParts.push(note);
+      }
+
       if (group.isGlobal) {
         detailParts.push(t('quickOpen.detail.globalGroup'));
       }
@@ -139,29 +234,156 @@ export function buildGroupedFileQuickOpenSections(
         fileName: file.name || path.basename(file.path),
         filePath: file.path,
         detail: detailParts.join(' • '),
-        recentIndex: recentIndexByKey.get(key)
+        tags: searchableTags,
+        rank: getFrecencyScore(frecency[key], now) + (group.pinned ? PINNED_GROUP_FRECENCY_BONUS : 0)
       });
     }
   }
 
   const recentItems = allItems
-    .filter(item => item.recentIndex !== undefined)
-    .sort((left, right) => (left.recentIndex ?? 0) - (right.recentIndex ?? 0));
+    .filter(item => frecency[item.key])
+    .sort((left, right) => right.rank - left.rank || compareItems(left, right))
+    .slice(0, MAX_RECENT_GROUP_FILES);
+  const recentKeys = new Set(recentItems.map(item => item.key));
 
   const otherItems = allItems
-    .filter(item => item.recentIndex === undefined)
-    .sort((left, right) => {
-      if (left.groupPinned !== right.groupPinned) {
-        return left.groupPinned ? -1 : 1;
-      }
-
-      return compareText(left.groupTrail, right.groupTrail)
-        || compareText(left.fileName, right.fileName)
-        || compareText(left.filePath, right.filePath);
-    });
+    .filter(item => !recentKeys.has(item.key))
+    .sort(compareItems);
 
   return {
     recentItems,
     otherItems
   };
 }
+
+function compareItems(left: GroupedFileQuickOpenItem, right: GroupedFileQuickOpenItem): number {
+  if (left.groupPinned !== right.groupPinned) {
+    return left.groupPinned ? -1 : 1;
+  }
+
+  return compareText(left.groupTrail, right.groupTrail)
+    || compareText(left.fileName, right.fileName)
+    || compareText(left.filePath, right.filePath);
+}
+
+/**
+ * Split input into fuzzy terms, `#tag` filters and `group:name` filters.
+ * Group names with spaces can be quoted: `group:"Billing API"`.
+ */
+export function parseQuickOpenQuery(value: string): QuickOpenQuery {
+  const query: QuickOpenQuery = { terms: [], tags: [], groups: [] };
+
+  for (const match of value.matchAll(/(group:)?(?:"([^"]*)"?|(\S+))/gi)) {
+    const text = (match[2] ?? match[3] ?? '').trim();
+    if (match[1]) {
+      if (text) {
+        query.groups.push(text);
+      }
+    } else if (text.startsWith('#')) {
+      query.tags.push(...normalizeTags([text]));
+    } else if (text) {
+      query.terms.push(text);
+    }
+  }
+
+  return query;
+}
+
+export function isEmptyQuickOpenQuery(query: QuickOpenQuery): boolean {
+  return query.terms.length === 0 && query.tags.length === 0 && query.groups.length === 0;
+}
+
+function isWordStart(text: string, index: number): boolean {
+  if (index === 0) {
+    return true;
+  }
+
+  const previous = text[index - 1];
+  return /[\s/\\._\-#]/.test(previous) || (previous === previous.toLowerCase() && text[index] !== text[index].toLowerCase());
+}
+
+/**
+ * Score how well `query` matches `target`, ignoring case. Substrings score
+ * highest, then characters found in order, with bonuses for consecutive
+ * characters and word starts. Undefined when the characters are not all found.
+ */
+export function scoreFuzzyMatch(query: string, target: string): number | undefined {
+  const needle = query.toLowerCase();
+  const haystack = target.toLowerCase();
+  if (!needle) {
+    return 0;
+  }
+
+  const substringIndex = haystack.indexOf(needle);
+  if (substringIndex >= 0) {
+    return 100 + needle.length * 10 + (isWordStart(target, substringIndex) ? 50 : 0) - Math.min(substringIndex, 50);
+  }
+
+  let score = 0;
+  let previousIndex = -2;
+  for (const character of needle) {
+    const index = haystack.indexOf(character, previousIndex + 1);
+    if (index < 0) {
+      return undefined;
+    }
+
+    score += 1 + (index === previousIndex + 1 ? 5 : 0) + (isWordStart(target, index) ? 8 : 0);
+    previousIndex = index;
+  }
+
+  return score;
+}
+
+/**
+ * Best score of one term across an item's fields; the file name weighs most,
+ * and the detail line matches paths and notes
+ */
+function scoreQuickOpenTerm(term: string, item: GroupedFileQuickOpenItem): number | undefined {
+  const scores = [
+    (scoreFuzzyMatch(term, item.fileName) ?? -1) * 3,
+    (scoreFuzzyMatch(term, item.groupTrail) ?? -1) * 2,
+    ...item.tags.map(tag => (scoreFuzzyMatch(term, tag) ?? -1) * 2),
+    scoreFuzzyMatch(term, item.detail) ?? -1
+  ];
+  const best = Math.max(...scores);
+  return best >= 0 ? best : undefined;
+}
+
+/**
+ * Keep the items matching every term and filter, best match first. Frecency
+ * nudges matches of similar quality; it never outweighs a clearly better match.
+ */
+export function filterGroupedFileQuickOpenItems(
+  items: readonly GroupedFileQuickOpenItem[],
+  query: QuickOpenQuery
+): GroupedFileQuickOpenItem[] {
+  const scored: Array<{ item: GroupedFileQuickOpenItem; score: number }> = [];
+
+  for (const item of items) {
+    if (!query.tags.every(tag => item.tags.some(itemTag => itemTag.startsWith(tag)))) {
+      continue;
+    }
+    // Group filters name a group, so they match as plain text rather than fuzzily
+    const groupTrail = item.groupTrail.toLowerCase();
+    if (!query.groups.every(group => groupTrail.includes(group.toLowerCase()))) {
+      continue;
+    }
+
+    let score = Math.log2(1 + item.rank) * 10;
+    for (const term of query.terms) {
+      const termScore = scoreQuickOpenTerm(term, item);
+      if (termScore === undefined) {
+        score = -1;
+        break;
+      }
+      score += termScore;
+    }
+    if (score >= 0) {
+      scored.push({ item, score });
+    }
+  }
+
+  return scored
+    .sort((left, right) => right.score - left.score || compareItems(left.item, right.item))
+    .map(({ item }) => item);
+}
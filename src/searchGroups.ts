@@ -0,0 +1,199 @@
+import { DynamicGroupFileMerge, MAX_DYNAMIC_GROUP_FILES, mergeDynamicGroupFiles } from './dynamicGroups';
+import type { GroupFile, GroupFileSearchMatch, GroupSearchQuery } from './models';
+
+export const MAX_SEARCH_GROUP_SCANNED_FILES = 5000;
+export const MAX_SEARCH_FILE_BYTES = 1024 * 1024;
+export const MAX_GROUP_CONTENT_SEARCH_RESULTS = 500;
+const MAX_SEARCH_PREVIEW_LENGTH = 200;
+
+/**
+ * A matching line found by a content search within a group's files
+ */
+export interface SearchLineMatch {
+  /** Zero-based line of the first match on the line */
+  line: number;
+  character: number;
+  length: number;
+  /** The line's text, trimmed for display */
+  preview: string;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Build the matcher for a saved query. Returns undefined for an empty query
+ * or an invalid regular expression.
+ */
+export function createSearchMatcher(search: GroupSearchQuery): RegExp | undefined {
+  if (search.query.length === 0) {
+    return undefined;
+  }
+
+  const flags = search.matchCase ? 'gm' : 'gim';
+  try {
+    return new RegExp(search.isRegex ? search.query : escapeRegExp(search.query), flags);
+  } catch {
+    return undefined;
+  }
+}
+
+export function getSearchQueryError(search: GroupSearchQuery): string | undefined {
+  if (!search.isRegex) {
+    return undefined;
+  }
+
+  try {
+    new RegExp(search.query);
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Count the matches in a document and locate the first one (zero-based).
+ */
+export function findSearchMatches(text: string, matcher: RegExp): GroupFileSearchMatch | undefined {
+  const pattern = new RegExp(matcher.source, matcher.flags.includes('g') ? matcher.flags : `${matcher.flags}g`);
+  let count = 0;
+  let firstIndex = -1;
+
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    if (firstIndex < 0) {
+      firstIndex = match.index;
+    }
+    count += 1;
+    if (match[0].length === 0) {
+      pattern.lastIndex += 1;
+    }
+  }
+
+  if (count === 0) {
+    return undefined;
+  }
+
+  const before = text.slice(0, firstIndex);
+  const line = before.split('\n').length - 1;
+  return {
+    count,
+    line,
+    character: firstIndex - (before.lastIndexOf('\n') + 1)
+  };
+}
+
+/**
+ * List the lines with a match, up to `limit` lines. Matches are found line by
+ * line, so a regular expression cannot span lines.
+ */
+export function findSearchMatchLines(text: string, matcher: RegExp, limit = MAX_GROUP_CONTENT_SEARCH_RESULTS): SearchLineMatch[] {
+  const pattern = new RegExp(matcher.source, matcher.flags.replace('g', ''));
+  const lines = text.split(/\r?\n/);
+  const results: SearchLineMatch[] = [];
+
+  for (let line = 0; line < lines.length && results.length < limit; line++) {
+    const match = pattern.exec(lines[line]);
+    if (!match) {
+      continue;
+    }
+
+    results.push({
+      line,
+      character: match.index,
+      length: match[0].length,
+      preview: lines[line].trim().slice(0, MAX_SEARCH_PREVIEW_LENGTH)
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Read a query typed into a search box: `/pattern/` or `/pattern/i` is a
+ * regular expression, written the way formatSearchQuery shows one, and
+ * anything else is case-insensitive text.
+ */
+export function parseSearchQueryInput(value: string): GroupSearchQuery {
+  const regex = /^\/(.+)\/(i?)$/.exec(value);
+  if (regex) {
+    return { query: regex[1], isRegex: true, matchCase: regex[2] !== 'i' };
+  }
+  return { query: value };
+}
+
+/**
+ * Patterns a search group skips: its own excludes, or else the enabled entries
+ * of the `search.exclude` setting, so dependencies and build output are not read
+ */
+export function getSearchGroupExcludePatterns(
+  search: Pick<GroupSearchQuery, 'exclude'>,
+  searchExcludeSetting: Readonly<Record<string, unknown>> | undefined
+): string[] {
+  if (search.exclude?.length) {
+    return [...search.exclude];
+  }
+
+  // Entries with a `when` clause depend on sibling files, which a plain glob cannot express
+  return Object.entries(searchExcludeSetting ?? {})
+    .filter(([, enabled]) => enabled === true)
+    .map(([pattern]) => pattern);
+}
+
+export function isSameSearchMatch(left: GroupFileSearchMatch | undefined, right: GroupFileSearchMatch | undefined): boolean {
+  return left?.count === right?.count && left?.line === right?.line && left?.character === right?.character;
+}
+
+export function formatSearchQuery(search: GroupSearchQuery): string {
+  return search.isRegex ? `/${search.query}/${search.matchCase ? '' : 'i'}` : `"${search.query}"`;
+}
+
+/**
+ * Replace a search group's files with the current matches, keeping bookmark
+ * metadata and refreshing each file's match count.
+ */
+export function mergeSearchGroupFiles(
+  existingFiles: readonly GroupFile[],
+  matches: ReadonlyMap<string, GroupFileSearchMatch>,
+  createEntry: (filePath: string) => GroupFile
+): DynamicGroupFileMerge {
+  const merge = mergeDynamicGroupFiles(existingFiles, [...matches.keys()], createEntry);
+  let changed = merge.changed;
+
+  const files = merge.files.map((file) => {
+    const match = matches.get(file.path);
+    if (isSameSearchMatch(file.searchMatch, match)) {
+      return file;
+    }
+
+    changed = true;
+    return { ...file, searchMatch: match };
+  });
+
+  return { files, changed };
+}
+
+/**
+ * Update one file's membership in a search group after it was saved: add or
+ * refresh it while it matches and drop it once it no longer does. Returns the
+ * new files, or undefined when nothing changed.
+ */
+export function updateSearchGroupFile(
+  existingFiles: readonly GroupFile[],
+  filePath: string,
+  match: GroupFileSearchMatch | undefined,
+  createEntry: (filePath: string) => GroupFile
+): GroupFile[] | undefined {
+  const index = existingFiles.findIndex(file => file.path === filePath);
+  if (!match) {
+    return index < 0 ? undefined : existingFiles.filter((_file, fileIndex) => fileIndex !== index);
+  }
+  if (index < 0) {
+    return existingFiles.length >= MAX_DYNAMIC_GROUP_FILES ? undefined : [...existingFiles, { ...createEntry(filePath), searchMatch: match }];
+  }
+  if (isSameSearchMatch(existingFiles[index].searchMatch, match)) {
+    return undefined;
+  }
+
+  return existingFiles.map((file, fileIndex) => fileIndex === index ? { ...file, searchMatch: match } : file);
+}
@@ -0,0 +1,89 @@
+import type { ActivitySession, SessionActivityKind, SessionFileActivity } from './models';
+
+/** A break longer than this starts a new session */
+export const SESSION_IDLE_GAP_MS = 2 * 60 * 60 * 1000;
+/** Edits to a file closer together than this count once */
+export const SESSION_EDIT_BURST_MS = 60 * 1000;
+export const MAX_ACTIVITY_SESSIONS = 30;
+export const MAX_SESSION_FILES = 200;
+
+export function isSessionIdle(session: ActivitySession, now: Date): boolean {
+  return now.getTime() - Date.parse(session.lastActiveAt) >= SESSION_IDLE_GAP_MS;
+}
+
+/**
+ * Record that a file was opened or edited. Sessions are kept newest first;
+ * activity after a long break starts a new one and the oldest sessions are
+ * dropped beyond the limit. Returns the same array when nothing changed, so
+ * callers can skip saving.
+ */
+export function recordSessionActivity(
+  sessions: readonly ActivitySession[],
+  filePath: string,
+  kind: SessionActivityKind,
+  now: Date,
+  createId: () => string,
+  limit: number = MAX_ACTIVITY_SESSIONS
+): readonly ActivitySession[] {
+  const timestamp = now.toISOString();
+  const current: ActivitySession = sessions[0] && !isSessionIdle(sessions[0], now)
+    ? sessions[0]
+    : { id: createId(), startedAt: timestamp, lastActiveAt: timestamp, files: [] };
+  const existing = current.files.find(file => file.path === filePath);
+
+  if (kind === 'edit' && existing?.lastEditedAt && now.getTime() - Date.parse(existing.lastEditedAt) < SESSION_EDIT_BURST_MS) {
+    return sessions;
+  }
+
+  const file: SessionFileActivity = existing
+    ? { ...existing, lastActiveAt: timestamp }
+    : { path: filePath, lastActiveAt: timestamp, openCount: 0, editCount: 0 };
+  if (kind === 'edit') {
+    file.editCount += 1;
+    file.lastEditedAt = timestamp;
+  } else {
+    file.openCount += 1;
+  }
+
+  const session: ActivitySession = {
+    ...current,
+    lastActiveAt: timestamp,
+    files: [file, ...current.files.filter(entry => entry.path !== filePath)].slice(0, MAX_SESSION_FILES)
+  };
+
+  return [session, ...sessions.filter(entry => entry.id !== current.id)].slice(0, limit);
+}
+
+/**
+ * Drop files not active within the last `maxAgeMs`, and sessions left empty
+ */
+export function pruneSessionActivity(
+  sessions: readonly ActivitySession[],
+  maxAgeMs: number,
+  now: Date
+): { sessions: ActivitySession[]; removedCount: number } {
+  const cutoff = now.getTime() - maxAgeMs;
+  let removedCount = 0;
+  const result: ActivitySession[] = [];
+
+  for (const session of sessions) {
+    const files = session.files.filter(file => Date.parse(file.lastActiveAt) >= cutoff);
+    removedCount += session.files.length - files.length;
+    if (files.length > 0) {
+      result.push({ ...session, files });
+    }
+  }
+
+  return { sessions: result, removedCount };
+}
+
+/**
+ * Files of a session worth keeping as a group: edited files first, then the
+ * ones only opened, each by most recent activity
+ */
+export function getSessionFilePaths(session: ActivitySession): string[] {
+  return [
+    ...session.files.filter(file => file.editCount > 0),
+    ...session.files.filter(file => file.editCount === 0)
+  ].map(file => file.path);
+}
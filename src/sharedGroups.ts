@@ -1,5 +1,5 @@
 import * as path from 'path';
-import { FileGroup, GroupFile } from './models';
+import { FileGroup, GroupFile, GroupFileAnchor } from './models';
 import { resolveWorkspacePath, toWorkspaceRelativePath } from './pathUtils';
 import { normalizeTags } from './tags';
 
@@ -46,6 +46,24 @@ function fromPortablePath(filePath: string, workspaceRoot?: string): string {
   return resolveWorkspacePath(filePath, workspaceRoot);
 }
 
+function isSharedAnchor(candidate: unknown): boolean {
+  if (!candidate || typeof candidate !== 'object' || Array.isArray(candidate)) {
+    return false;
+  }
+
+  const anchor = candidate as Partial<GroupFileAnchor>;
+  const optionalNumbers = [anchor.character, anchor.endLine, anchor.endCharacter];
+  return typeof anchor.id === 'string'
+    && anchor.id.length > 0
+    && Number.isInteger(anchor.line)
+    && (anchor.line ?? -1) >= 0
+    && optionalNumbers.every(value => value === undefined || (Number.isInteger(value) && value >= 0))
+    && (anchor.label === undefined || typeof anchor.label === 'string')
+    && (anchor.symbol === undefined || (Array.isArray(anchor.symbol) && anchor.symbol.every(name => typeof name === 'string')))
+    && (anchor.symbolKind === undefined || Number.isInteger(anchor.symbolKind))
+    && (anchor.symbolMissing === undefined || typeof anchor.symbolMissing === 'boolean');
+}
+
 function getDescendantGroupIds(rootGroupId: string, groups: readonly FileGroup[]): Set<string> {
   const childrenByParent = new Map<string, FileGroup[]>();
   for (const group of groups) {
@@ -125,7 +143,9 @@ export function isSharedGroupPayload(value: unknown): value is SharedGroupPayloa
         || file.path.length === 0
         || typeof file.name !== 'string'
         || (file.isDirectory !== undefined && typeof file.isDirectory !== 'boolean')
-        || (file.tags !== undefined && (!Array.isArray(file.tags) || file.tags.some(tag => typeof tag !== 'string')))) {
+        || (file.note !== undefined && typeof file.note !== 'string')
+        || (file.tags !== undefined && (!Array.isArray(file.tags) || file.tags.some(tag => typeof tag !== 'string')))
+        || (file.anchors !== undefined && (!Array.isArray(file.anchors) || !file.anchors.every(isSharedAnchor)))) {
         return false;
       }
     }
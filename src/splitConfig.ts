@@ -0,0 +1,54 @@
+import type { FileGroup, FileGroupsConfig, SplitConfigIndex } from './models';
+
+export const SPLIT_CONFIG_INDEX_FILE_NAME = 'index.json';
+
+export interface SplitConfigGroupFile {
+  fileName: string;
+  group: unknown;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function getGroupFileName(groupId: string): string {
+  return `${groupId.replace(/[^\w.-]/g, '_')}.json`;
+}
+
+export function isGroupFileName(fileName: string): boolean {
+  return fileName.endsWith('.json') && fileName !== SPLIT_CONFIG_INDEX_FILE_NAME;
+}
+
+/**
+ * Split a config into its index and one entry per group file. The order
+ * lives in the index only, so reordering groups leaves their files alone.
+ */
+export function splitConfig(config: FileGroupsConfig): {
+  index: SplitConfigIndex;
+  groupFiles: Array<{ fileName: string; group: Omit<FileGroup, 'order'> }>;
+} {
+  const { groups, ...settings } = config;
+  return {
+    index: { ...settings, order: [...groups].sort((left, right) => left.order - right.order).map(group => group.id) },
+    groupFiles: groups.map(({ order: _order, ...group }) => ({ fileName: getGroupFileName(group.id), group }))
+  };
+}
+
+/**
+ * Rebuild a config from the index and the group files. Groups follow the
+ * index order; files missing from the index, such as a group a teammate
+ * added on another branch, come after in file name order.
+ */
+export function joinSplitConfig(index: Partial<SplitConfigIndex>, groupFiles: readonly SplitConfigGroupFile[]): FileGroupsConfig {
+  const { order = [], ...settings } = index;
+  const positions = new Map((Array.isArray(order) ? order : []).map((id, position) => [id, position]));
+  const getPosition = (group: Record<string, unknown>): number => positions.get(group.id as string) ?? Number.MAX_SAFE_INTEGER;
+
+  const groups = groupFiles
+    .filter((groupFile): groupFile is { fileName: string; group: Record<string, unknown> } =>
+      isRecord(groupFile.group) && typeof groupFile.group.id === 'string')
+    .sort((left, right) => getPosition(left.group) - getPosition(right.group) || left.fileName.localeCompare(right.fileName))
+    .map(({ group }, position) => ({ ...group, order: position }) as unknown as FileGroup);
+
+  return { ...settings, groups } as FileGroupsConfig;
+}
@@ -1,12 +1,51 @@
 import * as vscode from 'vscode';
-import { FileGroup, GroupFile, FileGroupsConfig } from './models';
+import { ActivitySession, ConfigLayout, ConfigSnapshot, ConfigSnapshotScope, FileGroup, GroupFile, GroupFileAnchor, FileGroupsConfig, SessionActivityKind, SplitConfigIndex, TagQueryGroup, TrashItem, generateId } from './models';
 import { resolveWorkspacePath, toWorkspaceRelativePath } from './pathUtils';
 import { normalizeTags } from './tags';
+import { getPersistedDynamicFiles, isDynamicGroup, restoreDynamicGroupFiles } from './dynamicGroups';
+import { addTrashItems, createGroupTrashItem, pruneRestoredTrashItems, restoreTrashItem } from './trash';
+import { UndoHistory } from './undoHistory';
+import { createConfigSnapshotFileName, getConfigSnapshotsToPrune, listConfigSnapshots, restoreSnapshotGroup } from './configSnapshots';
+import { CURRENT_CONFIG_VERSION, isNewerConfigVersion, migrateConfig } from './configMigrations';
+import { parseConfigText, replaceConfigText, updateConfigText } from './configText';
+import { ConflictSide, GroupMergeConflict, GroupMergeResult, applyMergeChoices, getConflictSide, hasConflictMarkers, isSameMergeValue, mergeGroups } from './configMerge';
+import { SPLIT_CONFIG_INDEX_FILE_NAME, isGroupFileName, joinSplitConfig, splitConfig } from './splitConfig';
+import { assignGroupFolders } from './workspaceFolders';
+import { mapEditorLayoutPaths } from './editorLayouts';
+import { GroupViewState, PersonalOverlay, applyPersonalOverlay, createPersonalOverlay, getViewState, isPrivateGroup, splitPersonalOverlay } from './personalOverlay';
+import { pruneSessionActivity, recordSessionActivity } from './sessionActivity';
+import { t } from './i18n';
 
 const STORAGE_KEY = 'fileGroups';
 const CONFIG_FILE_NAME = '.vscode/file-groups.json';
+const SPLIT_CONFIG_DIR_NAME = '.vscode/codegroup';
 const GLOBAL_STORAGE_KEY = 'globalFileGroups';
 const GLOBAL_CONFIG_FILE_NAME = 'file-groups-global.json';
+const TAG_QUERIES_KEY = 'fileGroupTagQueries';
+const TRASH_KEY = 'fileGroupsTrash';
+const OVERLAY_KEY = 'fileGroupsOverlay';
+const SESSIONS_KEY = 'fileGroupsSessions';
+const SESSION_VISIBLE_KEY = 'fileGroupsSessionVisible';
+const PROBLEMS_GROUP_KEY = 'fileGroupsProblemsGroup';
+const SNAPSHOTS_DIR_NAME = 'config-snapshots';
+
+export interface SaveGroupsOptions {
+    /** Set to false for derived updates (dynamic files, anchors, collapse state) that should not be undoable or snapshotted. */
+    recordHistory?: boolean;
+}
+
+/** A config file: the global one, or the local one of a workspace folder (the first when unnamed) */
+type ConfigLocation = Pick<ConfigSnapshot, 'scope' | 'folder'>;
+
+/** The files of a folder using the split layout, as read from disk */
+interface SplitConfigContents {
+    indexContent: string;
+    /** Group file contents by file name */
+    groupContents: Map<string, string>;
+    config: FileGroupsConfig;
+    /** Whether any of the files has git conflict markers */
+    hasConflicts: boolean;
+}
 
 /**
  * Service for persisting file groups to workspace state and file
@@ -14,11 +53,27 @@ const GLOBAL_CONFIG_FILE_NAME = 'file-groups-global.json';
 export class StorageService {
     private _onDidChange = new vscode.EventEmitter<void>();
     readonly onDidChange = this._onDidChange.event;
+    private history = new UndoHistory<FileGroup[]>();
+    private batchDepth = 0;
+    private batchSnapshot: FileGroup[] | undefined;
+    private lastConfigSnapshotContent = new Map<string, string>();
+    private shownConfigWarnings = new Set<string>();
+    private folderWatchers = new Map<string, vscode.Disposable>();
+    /** Groups of each workspace folder as last read from or written to its config, the base for merging external changes */
+    private mergeBases = new Map<string, FileGroup[]>();
+    private loadQueue: Promise<unknown> = Promise.resolve();
+    /** View state of each shared group as the team config has it, by group id */
+    private teamViewState = new Map<string, GroupViewState>();
+    /** Content this extension last wrote to each config file by uri, undefined once it deleted the file */
+    private writtenConfigFiles = new Map<string, string | undefined>();
 
     constructor(private context: vscode.ExtensionContext) {
         // Watch for file changes if workspace is open
         this.setupFileWatcher();
         this.setupGlobalFileWatcher();
+        context.subscriptions.push(
+            vscode.workspace.onDidChangeWorkspaceFolders(() => void this.handleWorkspaceFoldersChanged())
+        );
     }
 
     private getStoredLocalGroups(): FileGroup[] {
@@ -39,23 +94,62 @@ export class StorageService {
         }));
     }
 
+    private getPersonalOverlay(): PersonalOverlay {
+        return { ...createPersonalOverlay(), ...this.context.workspaceState.get<PersonalOverlay>(OVERLAY_KEY) };
+    }
+
+    /**
+     * Watch the config file of every workspace folder, dropping the watchers
+     * of folders that were removed from the workspace
+     */
     private setupFileWatcher(): void {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (workspaceFolders && workspaceFolders.length > 0) {
-            const pattern = new vscode.RelativePattern(workspaceFolders[0], CONFIG_FILE_NAME);
-            const watcher = vscode.workspace.createFileSystemWatcher(pattern);
-            const reload = async (): Promise<void> => {
-                if (await this.loadFromFile()) {
-                    this._onDidChange.fire();
-                }
-            };
+        const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+        const folderKeys = new Set(workspaceFolders.map(folder => folder.uri.toString()));
+        for (const [key, watcher] of this.folderWatchers) {
+            if (!folderKeys.has(key)) {
+                watcher.dispose();
+                this.folderWatchers.delete(key);
+            }
+        }
+
+        // Undo steps predate the outside change, so undoing could revert a teammate's edits
+        const reload = async (uri: vscode.Uri): Promise<void> => {
+            if (!await this.isOwnConfigWrite(uri) && await this.loadFromFile()) {
+                this.history.clear();
+                this._onDidChange.fire();
+            }
+        };
+        const notifyDelete = async (uri: vscode.Uri): Promise<void> => {
+            if (!await this.isOwnConfigWrite(uri)) {
+                this._onDidChange.fire();
+            }
+        };
+
+        for (const folder of workspaceFolders) {
+            const key = folder.uri.toString();
+            if (this.folderWatchers.has(key)) {
+                continue;
+            }
 
-            watcher.onDidChange(() => void reload());
-            watcher.onDidCreate(() => void reload());
-            watcher.onDidDelete(() => this._onDidChange.fire());
+            const watcher = vscode.workspace.createFileSystemWatcher(
+                new vscode.RelativePattern(folder, `{${CONFIG_FILE_NAME},${SPLIT_CONFIG_DIR_NAME}/*.json}`)
+            );
+            watcher.onDidChange(uri => void reload(uri));
+            watcher.onDidCreate(uri => void reload(uri));
+            watcher.onDidDelete(uri => void notifyDelete(uri));
+            this.folderWatchers.set(key, watcher);
         }
     }
 
+    /**
+     * Load the groups of added folders and drop those of removed ones
+     */
+    private async handleWorkspaceFoldersChanged(): Promise<void> {
+        this.setupFileWatcher();
+        await this.loadFromFile();
+        this._onDidChange.fire();
+    }
+
     /**
      * Setup watcher for global groups file in appdata
      */
@@ -67,18 +161,60 @@ export class StorageService {
                 GLOBAL_CONFIG_FILE_NAME
             );
             const watcher = vscode.workspace.createFileSystemWatcher(pattern);
-            const reload = async (): Promise<void> => {
-                if (await this.loadFromGlobalFile()) {
+            const reload = async (uri: vscode.Uri): Promise<void> => {
+                if (!await this.isOwnConfigWrite(uri) && await this.loadFromGlobalFile()) {
+                    this.history.clear();
+                    this._onDidChange.fire();
+                }
+            };
+            const notifyDelete = async (uri: vscode.Uri): Promise<void> => {
+                if (!await this.isOwnConfigWrite(uri)) {
                     this._onDidChange.fire();
                 }
             };
 
-            watcher.onDidChange(() => void reload());
-            watcher.onDidCreate(() => void reload());
-            watcher.onDidDelete(() => this._onDidChange.fire());
+            watcher.onDidChange(uri => void reload(uri));
+            watcher.onDidCreate(uri => void reload(uri));
+            watcher.onDidDelete(uri => void notifyDelete(uri));
         }
     }
 
+    /**
+     * Write a config file, remembering the content so the watcher event it
+     * causes is not mistaken for an outside change
+     */
+    private async writeConfigFile(uri: vscode.Uri, content: string): Promise<void> {
+        this.writtenConfigFiles.set(uri.toString(), content);
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf-8'));
+    }
+
+    /**
+     * Delete a config file, remembering that the extension removed it
+     */
+    private async deleteConfigFile(uri: vscode.Uri): Promise<void> {
+        this.writtenConfigFiles.set(uri.toString(), undefined);
+        await vscode.workspace.fs.delete(uri);
+    }
+
+    /**
+     * Whether a config file still holds what this extension last wrote to it,
+     * or is still gone after the extension deleted it
+     */
+    private async isOwnConfigWrite(uri: vscode.Uri): Promise<boolean> {
+        const key = uri.toString();
+        if (!this.writtenConfigFiles.has(key)) {
+            return false;
+        }
+
+        let content: string | undefined;
+        try {
+            content = (await vscode.workspace.fs.readFile(uri)).toString();
+        } catch {
+            // The file is gone
+        }
+        return content === this.writtenConfigFiles.get(key);
+    }
+
     /**
      * Get the global config file URI (in extension global storage)
      */
@@ -91,14 +227,31 @@ export class StorageService {
     }
 
     /**
-     * Get the config file URI
+     * Get the config file URI of a workspace folder, the first one by default
+     */
+    private getConfigFileUri(folder = vscode.workspace.workspaceFolders?.[0]): vscode.Uri | undefined {
+        return folder ? vscode.Uri.joinPath(folder.uri, CONFIG_FILE_NAME) : undefined;
+    }
+
+    /**
+     * Find a workspace folder by name, or the first one when no name is given
+     */
+    private getWorkspaceFolder(name?: string): vscode.WorkspaceFolder | undefined {
+        const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+        return name === undefined ? workspaceFolders[0] : workspaceFolders.find(folder => folder.name === name);
+    }
+
+    /**
+     * Name a config file in messages, including its folder in multi-root workspaces
      */
-    private getConfigFileUri(): vscode.Uri | undefined {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (workspaceFolders && workspaceFolders.length > 0) {
-            return vscode.Uri.joinPath(workspaceFolders[0].uri, CONFIG_FILE_NAME);
+    private getConfigFileLabel(location: ConfigLocation): string {
+        if (location.scope === 'global') {
+            return GLOBAL_CONFIG_FILE_NAME;
         }
-        return undefined;
+
+        return (vscode.workspace.workspaceFolders?.length ?? 0) > 1 && location.folder
+            ? `${location.folder}/${CONFIG_FILE_NAME}`
+            : CONFIG_FILE_NAME;
     }
 
     /**
@@ -129,57 +282,89 @@ export class StorageService {
 
         // Update local config
         const config = this.context.workspaceState.get<FileGroupsConfig>('fileGroupsConfig') || {
-            version: 2,
+            version: CURRENT_CONFIG_VERSION,
             groups: []
         };
         config.hideGlobalGroups = hide;
         await this.context.workspaceState.update('fileGroupsConfig', config);
 
-        // Save to file
-        await this.saveConfigToFile(config);
+        // Save to the first folder's file, leaving the groups of every folder as they are
+        await this.saveConfigToFile({ hideGlobalGroups: hide });
         this._onDidChange.fire();
     }
 
     /**
-     * Save config to file
+     * Get the tag-query virtual groups of this workspace
      */
-    private async saveConfigToFile(config: Partial<FileGroupsConfig>): Promise<void> {
-        const configUri = this.getConfigFileUri();
-        if (!configUri) {
+    getTagQueries(): TagQueryGroup[] {
+        return this.context.workspaceState.get<TagQueryGroup[]>(TAG_QUERIES_KEY, []);
+    }
+
+    /**
+     * Save tag-query virtual groups to workspace storage and file
+     */
+    async saveTagQueries(tagQueries: TagQueryGroup[]): Promise<void> {
+        await this.context.workspaceState.update(TAG_QUERIES_KEY, tagQueries);
+        await this.saveConfigToFile({ tagQueries: tagQueries.length > 0 ? tagQueries : undefined });
+        this._onDidChange.fire();
+    }
+
+    /**
+     * Save config to the file of a workspace folder, the first one by default
+     */
+    private async saveConfigToFile(
+        config: Partial<FileGroupsConfig>,
+        folder = vscode.workspace.workspaceFolders?.[0],
+        options: SaveGroupsOptions = {}
+    ): Promise<void> {
+        const configUri = this.getConfigFileUri(folder);
+        if (!folder || !configUri) {
             return;
         }
-
-        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-        if (!workspaceRoot) {
+        if (await this.getConfigLayout(folder) === 'split') {
+            if (await this.writeSplitConfig(folder, config, options) && config.groups) {
+                this.mergeBases.set(folder.uri.fsPath, this.toMergeGroups(config.groups));
+            }
             return;
         }
+        const location: ConfigLocation = { scope: 'local', folder: folder.name };
 
         try {
             // Load existing config if any
-            let existingConfig: FileGroupsConfig = { version: 2, groups: [] };
+            let existingConfig: FileGroupsConfig = { version: CURRENT_CONFIG_VERSION, groups: [] };
+            let existingContent = '';
             try {
-                const content = await vscode.workspace.fs.readFile(configUri);
-                existingConfig = JSON.parse(content.toString());
+                const content = (await vscode.workspace.fs.readFile(configUri)).toString();
+                existingConfig = parseConfigText(content) as FileGroupsConfig;
+                existingContent = content;
             } catch {
                 // File doesn't exist yet
             }
 
-            // Merge configs
-            const mergedConfig = {
-                ...existingConfig,
-                ...config
-            };
+            if (isNewerConfigVersion(existingConfig.version)) {
+                this.showConfigWarning(t('config.newerVersion', { file: this.getConfigFileLabel(location), version: existingConfig.version }));
+                return;
+            }
 
             // Ensure .vscode directory exists
-            const vscodeDirUri = vscode.Uri.joinPath(vscode.workspace.workspaceFolders![0].uri, '.vscode');
+            const vscodeDirUri = vscode.Uri.joinPath(folder.uri, '.vscode');
             try {
                 await vscode.workspace.fs.createDirectory(vscodeDirUri);
             } catch {
                 // Directory might already exist
             }
 
-            const contentStr = Buffer.from(JSON.stringify(mergedConfig, null, 2), 'utf-8');
-            await vscode.workspace.fs.writeFile(configUri, contentStr);
+            // Edit only the changed values, keeping comments and formatting of the existing file
+            const json = updateConfigText(existingContent || JSON.stringify(existingConfig, null, 2), config);
+            if (json !== existingContent) {
+                await this.writeConfigFile(configUri, json);
+            }
+            if (config.groups) {
+                this.mergeBases.set(folder.uri.fsPath, this.toMergeGroups(config.groups));
+            }
+            if (options.recordHistory !== false) {
+                await this.writeConfigSnapshot(location, json);
+            }
         } catch (error) {
             console.error('Failed to save config:', error);
         }
@@ -230,75 +415,309 @@ export class StorageService {
     }
 
     /**
-     * Load groups from config file
+     * Load groups from the config file of every workspace folder. Folders
+     * without a readable file keep their groups from workspace state, and
+     * groups of folders no longer in the workspace are dropped. Loads run one
+     * at a time, so a reload never merges against a half-applied one.
      */
     async loadFromFile(): Promise<boolean> {
-        const configUri = this.getConfigFileUri();
-        if (!configUri) {
+        const load = this.loadQueue.then(() => this.loadWorkspaceFolders());
+        this.loadQueue = load.catch(() => undefined);
+        return load;
+    }
+
+    private async loadWorkspaceFolders(): Promise<boolean> {
+        const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+        if (workspaceFolders.length === 0) {
             return false;
         }
 
+        const previousGroups = this.getStoredLocalGroups();
+        const previousGroupsById = new Map(previousGroups.map(group => [group.id, group]));
+        const sharedPreviousGroups = previousGroups.filter(group => !isPrivateGroup(group, previousGroupsById));
+        const getPreviousFolder = (group: FileGroup): string => group.workspaceFolder ?? workspaceFolders[0].uri.fsPath;
+        const groups: FileGroup[] = [];
+        const loadedFolders: string[] = [];
+
+        for (const [index, folder] of workspaceFolders.entries()) {
+            const config = await this.loadFolderConfig(folder, previousGroupsById);
+            if (!config) {
+                groups.push(...sharedPreviousGroups.filter(group => getPreviousFolder(group) === folder.uri.fsPath));
+                continue;
+            }
+
+            loadedFolders.push(folder.uri.fsPath);
+            groups.push(...config.groups);
+            if (index > 0) {
+                continue;
+            }
+
+            // Workspace-wide settings come from the first folder
+            await this.context.workspaceState.update(
+                TAG_QUERIES_KEY,
+                (Array.isArray(config.tagQueries) ? config.tagQueries : []).filter(query =>
+                    typeof query?.id === 'string' && typeof query.name === 'string' && typeof query.expression === 'string'
+                )
+            );
+
+            // Also load hideGlobalGroups setting
+            if (config.hideGlobalGroups !== undefined) {
+                const configWithSetting: FileGroupsConfig = {
+                    version: config.version,
+                    groups: config.groups,
+                    hideGlobalGroups: config.hideGlobalGroups
+                };
+                await this.context.workspaceState.update('fileGroupsConfig', configWithSetting);
+            }
+        }
+
+        const folderPaths = new Set(workspaceFolders.map(folder => folder.uri.fsPath));
+        if (loadedFolders.length > 0 || sharedPreviousGroups.some(group => !folderPaths.has(getPreviousFolder(group)))) {
+            await this.context.workspaceState.update(STORAGE_KEY, applyPersonalOverlay(groups, this.getPersonalOverlay()));
+        }
+
+        return loadedFolders.length > 0;
+    }
+
+    /**
+     * Read the config file of one workspace folder, resolving its relative
+     * paths against that folder. Changes made on disk while local groups
+     * also changed are merged instead of replacing them. The groups are
+     * returned as the team config has them, without the personal overlay.
+     */
+    private async loadFolderConfig(
+        folder: vscode.WorkspaceFolder,
+        previousGroups: ReadonlyMap<string, FileGroup>
+    ): Promise<FileGroupsConfig | undefined> {
+        if (!this.getConfigFileUri(folder)) {
+            return undefined;
+        }
+
         try {
-            const content = await vscode.workspace.fs.readFile(configUri);
-            const config: FileGroupsConfig = JSON.parse(content.toString());
-
-            if (config.version && config.groups) {
-                // Convert relative paths to absolute paths and detect directories
-                const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-                if (workspaceRoot) {
-                    for (const group of config.groups) {
-                        const updatedFiles = [];
-                        for (const file of group.files) {
-                            const absolutePath = resolveWorkspacePath(file.path, workspaceRoot);
-                            let isDirectory = file.isDirectory;
-
-                            // If isDirectory is not set, check the filesystem
-                            if (isDirectory === undefined) {
-                                try {
-                                    const uri = vscode.Uri.file(absolutePath);
-                                    const stat = await vscode.workspace.fs.stat(uri);
-                                    isDirectory = (stat.type & vscode.FileType.Directory) !== 0;
-                                } catch {
-                                    isDirectory = false;
-                                }
-                            }
-
-                            updatedFiles.push({
-                                ...file,
-                                path: absolutePath,
-                                isDirectory
-                            });
-                        }
-                        group.files = updatedFiles;
-                        group.shortDescription = group.shortDescription ?? undefined;
-                        group.details = group.details ?? undefined;
-                        group.tags = normalizeTags(group.tags ?? []);
-                        group.files = group.files.map(file => ({ ...file, tags: normalizeTags(file.tags ?? []) }));
-                        group.createdBy = group.createdBy ?? undefined;
-                        group.collapsed = group.collapsed ?? false;
-                        group.pinned = group.pinned ?? false;
-                        group.badgeText = group.badgeText ?? undefined;
-                    }
-                }
+            const { text, hasConflicts } = await this.readFolderConfigText(folder);
+            const config = hasConflicts
+                ? await this.mergeConflictedConfig(folder)
+                : await this.migrateLoadedConfig({ scope: 'local', folder: folder.name }, text!);
+            if (!config) {
+                return undefined;
+            }
+
+            const workspaceRoot = folder.uri.fsPath;
+            config.groups = await this.resolveFolderGroups(config.groups, workspaceRoot, previousGroups);
+            const mergedGroups = hasConflicts ? undefined : await this.mergeExternalChanges(folder, config.groups);
+            if (mergedGroups) {
+                config.groups = await this.resolveFolderGroups(mergedGroups, workspaceRoot, previousGroups);
+            }
+
+            this.mergeBases.set(workspaceRoot, this.toMergeGroups(this.toPortableGroups(config.groups, workspaceRoot)));
+            for (const group of config.groups) {
+                this.teamViewState.set(group.id, getViewState(group));
+            }
 
-                await this.context.workspaceState.update(STORAGE_KEY, config.groups);
+            return config;
+        } catch {
+            // File doesn't exist or is invalid
+            return undefined;
+        }
+    }
 
-                // Also load hideGlobalGroups setting
-                if (config.hideGlobalGroups !== undefined) {
-                    const configWithSetting: FileGroupsConfig = {
-                        version: config.version,
-                        groups: config.groups,
-                        hideGlobalGroups: config.hideGlobalGroups
-                    };
-                    await this.context.workspaceState.update('fileGroupsConfig', configWithSetting);
+    /**
+     * Convert relative paths to absolute paths and detect directories
+     */
+    private async resolveFolderGroups(
+        groups: FileGroup[],
+        workspaceRoot: string,
+        previousGroups: ReadonlyMap<string, FileGroup>
+    ): Promise<FileGroup[]> {
+        const resolvedGroups: FileGroup[] = [];
+        for (const group of groups) {
+            const updatedFiles = [];
+            for (const file of group.files) {
+                const absolutePath = resolveWorkspacePath(file.path, workspaceRoot);
+                let isDirectory = file.isDirectory;
+
+                // If isDirectory is not set, check the filesystem
+                if (isDirectory === undefined) {
+                    try {
+                        const uri = vscode.Uri.file(absolutePath);
+                        const stat = await vscode.workspace.fs.stat(uri);
+                        isDirectory = (stat.type & vscode.FileType.Directory) !== 0;
+                    } catch {
+                        isDirectory = false;
+                    }
                 }
 
-                return true;
+                updatedFiles.push({
+                    ...file,
+                    path: absolutePath,
+                    isDirectory
+                });
             }
+            const files = isDynamicGroup(group)
+                ? restoreDynamicGroupFiles(updatedFiles, previousGroups.get(group.id)?.files ?? [])
+                : updatedFiles;
+            resolvedGroups.push({
+                ...group,
+                shortDescription: group.shortDescription ?? undefined,
+                details: group.details ?? undefined,
+                tags: normalizeTags(group.tags ?? []),
+                files: files.map(file => ({ ...file, tags: normalizeTags(file.tags ?? []) })),
+                layout: group.layout && mapEditorLayoutPaths(group.layout, filePath => resolveWorkspacePath(filePath, workspaceRoot)),
+                createdBy: group.createdBy ?? undefined,
+                collapsed: group.collapsed ?? false,
+                pinned: group.pinned ?? false,
+                badgeText: group.badgeText ?? undefined,
+                workspaceFolder: workspaceRoot
+            });
+        }
+
+        return resolvedGroups;
+    }
+
+    /**
+     * Read the config of a workspace folder as one text. Git conflict regions
+     * keep the given side; the text is undefined when that side is missing.
+     */
+    private async readFolderConfigText(
+        folder: vscode.WorkspaceFolder,
+        side: ConflictSide = 'ours'
+    ): Promise<{ text: string | undefined; hasConflicts: boolean }> {
+        if (await this.getConfigLayout(folder) === 'split') {
+            const { config, hasConflicts } = await this.readSplitConfig(folder, side);
+            return { text: JSON.stringify(config, null, 2), hasConflicts };
+        }
+
+        const content = (await vscode.workspace.fs.readFile(this.getConfigFileUri(folder)!)).toString();
+        return { text: getConflictSide(content, side), hasConflicts: hasConflictMarkers(content) };
+    }
+
+    /**
+     * Read one side of a config with git conflict markers, upgraded to the
+     * current version
+     */
+    private async readConfigSide(folder: vscode.WorkspaceFolder, side: ConflictSide): Promise<FileGroupsConfig | undefined> {
+        try {
+            const { text } = await this.readFolderConfigText(folder, side);
+            const migration = text === undefined ? undefined : migrateConfig(parseConfigText(text));
+            return migration && 'config' in migration ? migration.config : undefined;
         } catch {
-            // File doesn't exist or is invalid
+            return undefined;
         }
-        return false;
+    }
+
+    /**
+     * Merge both sides of a config left with git conflict markers, asking
+     * about conflicting changes, and write the result back without markers.
+     * Without a diff3 base, the groups last loaded from the file are used.
+     */
+    private async mergeConflictedConfig(folder: vscode.WorkspaceFolder): Promise<FileGroupsConfig | undefined> {
+        const location: ConfigLocation = { scope: 'local', folder: folder.name };
+        const ours = await this.readConfigSide(folder, 'ours');
+        const theirs = await this.readConfigSide(folder, 'theirs');
+        if (!ours || !theirs) {
+            this.showConfigWarning(t('merge.unreadable', { file: this.getConfigFileLabel(location) }));
+            return undefined;
+        }
+
+        const base = (await this.readConfigSide(folder, 'base'))?.groups ?? this.mergeBases.get(folder.uri.fsPath) ?? [];
+        this.recordHistory();
+        const groups = await this.resolveMergeConflicts(location, mergeGroups(base, ours.groups, theirs.groups));
+        const config: FileGroupsConfig = { ...ours, ...theirs, version: CURRENT_CONFIG_VERSION, groups };
+        await this.saveConfigToFile(config, folder);
+        return config;
+    }
+
+    /**
+     * Three-way merge of a folder's changed config with local groups that
+     * changed since the file was last read or written. Returns the merged
+     * groups, already saved, or undefined when the file can be taken as is.
+     */
+    private async mergeExternalChanges(folder: vscode.WorkspaceFolder, loadedGroups: FileGroup[]): Promise<FileGroup[] | undefined> {
+        const workspaceRoot = folder.uri.fsPath;
+        const base = this.mergeBases.get(workspaceRoot);
+        if (!base) {
+            return undefined;
+        }
+
+        const firstRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        const ours = this.getMergeGroups(
+            this.getStoredLocalGroups().filter(group => (group.workspaceFolder ?? firstRoot) === workspaceRoot),
+            workspaceRoot
+        );
+        const theirs = this.toMergeGroups(this.toPortableGroups(loadedGroups, workspaceRoot));
+        if (isSameMergeValue(ours, base) || isSameMergeValue(ours, theirs)) {
+            return undefined;
+        }
+
+        const location: ConfigLocation = { scope: 'local', folder: folder.name };
+        this.recordHistory();
+        const result = mergeGroups(base, ours, theirs);
+        const groups = await this.resolveMergeConflicts(location, result);
+        await this.saveConfigToFile({ groups }, folder);
+        if (result.conflicts.length === 0) {
+            void vscode.window.showInformationMessage(t('merge.merged', { file: this.getConfigFileLabel(location) }));
+        }
+
+        return groups;
+    }
+
+    /**
+     * Let the user settle merge conflicts: keep every local change, take every
+     * change from the file, or pick per conflict. Dismissing takes the file's side.
+     */
+    private async resolveMergeConflicts(location: ConfigLocation, result: GroupMergeResult): Promise<FileGroup[]> {
+        const { groups, conflicts } = result;
+        if (conflicts.length === 0) {
+            return groups;
+        }
+
+        const resolve = t('merge.resolve');
+        const keepMine = t('merge.keepMine');
+        const takeTheirs = t('merge.takeTheirs');
+        const choice = await vscode.window.showWarningMessage(
+            t('merge.conflicts', { file: this.getConfigFileLabel(location), count: conflicts.length }),
+            { modal: true },
+            resolve,
+            keepMine,
+            takeTheirs
+        );
+        if (choice === keepMine) {
+            return applyMergeChoices(groups, conflicts, new Set(conflicts));
+        }
+        if (choice !== resolve) {
+            return groups;
+        }
+
+        const keepOurs = new Set<GroupMergeConflict>();
+        for (const conflict of conflicts) {
+            const picked = await vscode.window.showQuickPick([
+                { label: keepMine, description: this.describeMergeSide(conflict, 'ours'), keepOurs: true },
+                { label: takeTheirs, description: this.describeMergeSide(conflict, 'theirs'), keepOurs: false }
+            ], {
+                placeHolder: t('merge.pick', {
+                    item: conflict.kind === 'group' ? conflict.name : `${conflict.groupName}: ${conflict.path}`
+                }),
+                ignoreFocusOut: true
+            });
+            if (picked?.keepOurs) {
+                keepOurs.add(conflict);
+            }
+        }
+
+        return applyMergeChoices(groups, conflicts, keepOurs);
+    }
+
+    private describeMergeSide(conflict: GroupMergeConflict, side: 'ours' | 'theirs'): string {
+        const value = conflict[side];
+        if (!value) {
+            return t('merge.deleted');
+        }
+        if (conflict.kind === 'group' && conflict.fields.length > 0) {
+            const group = value as FileGroup;
+            return conflict.fields.map(field => `${field}: ${JSON.stringify(group[field as keyof FileGroup]) ?? '-'}`).join(', ');
+        }
+
+        return t('merge.changed');
     }
 
     /**
@@ -312,11 +731,15 @@ export class StorageService {
 
         try {
             const content = await vscode.workspace.fs.readFile(configUri);
-            const config: FileGroupsConfig = JSON.parse(content.toString());
+            const config = await this.migrateLoadedConfig({ scope: 'global' }, content.toString());
 
-            if (config.version && config.groups) {
+            if (config) {
                 // Global groups store absolute paths, no conversion needed
+                const previousGroups = new Map(this.getGlobalGroups().map(group => [group.id, group]));
                 for (const group of config.groups) {
+                    if (isDynamicGroup(group)) {
+                        group.files = restoreDynamicGroupFiles(group.files, previousGroups.get(group.id)?.files ?? []);
+                    }
                     group.shortDescription = group.shortDescription ?? undefined;
                     group.details = group.details ?? undefined;
                     group.tags = normalizeTags(group.tags ?? []);
@@ -337,121 +760,898 @@ export class StorageService {
         return false;
     }
 
+    /**
+     * Upgrade a loaded config to the current version and write the upgrade
+     * back. Returns undefined for an invalid file or one written by a newer,
+     * incompatible extension, which is left untouched.
+     */
+    private async migrateLoadedConfig(location: ConfigLocation, content: string): Promise<FileGroupsConfig | undefined> {
+        const file = this.getConfigFileLabel(location);
+        const migration = migrateConfig(parseConfigText(content));
+        if (migration.status === 'invalid') {
+            return undefined;
+        }
+        if (migration.status === 'unsupported') {
+            this.showConfigWarning(t('config.unsupportedVersion', { file, version: migration.fromVersion }));
+            return undefined;
+        }
+
+        if (migration.status === 'newer') {
+            this.showConfigWarning(t('config.newerVersion', { file, version: migration.fromVersion }));
+        }
+        if (migration.unknownFields.length > 0) {
+            const fields = migration.unknownFields.slice(0, 5).join(', ');
+            this.showConfigWarning(t('config.unknownFields', {
+                file,
+                fields: migration.unknownFields.length > 5 ? `${fields}, …` : fields
+            }));
+        }
+        if (migration.status === 'migrated') {
+            await this.writeMigratedConfig(location, content, migration.config);
+        }
+
+        return migration.config;
+    }
+
+    /**
+     * Write an upgraded config, keeping a snapshot of the file as it was before
+     */
+    private async writeMigratedConfig(location: ConfigLocation, originalContent: string, config: FileGroupsConfig): Promise<void> {
+        const configUri = this.getConfigFileUriForScope(location.scope, location.folder);
+        if (!configUri) {
+            return;
+        }
+
+        try {
+            await this.writeConfigSnapshot(location, originalContent);
+            const folder = location.scope === 'local' ? this.getWorkspaceFolder(location.folder) : undefined;
+            if (folder && await this.getConfigLayout(folder) === 'split') {
+                await this.writeSplitConfig(folder, config);
+                return;
+            }
+
+            const json = updateConfigText(originalContent, { ...config });
+            await this.writeConfigFile(configUri, json);
+            await this.writeConfigSnapshot(location, json);
+        } catch (error) {
+            console.error('Failed to write migrated config:', error);
+        }
+    }
+
+    /**
+     * Show a config problem once per session instead of on every reload or save
+     */
+    private showConfigWarning(message: string): void {
+        if (this.shownConfigWarnings.has(message)) {
+            return;
+        }
+
+        this.shownConfigWarnings.add(message);
+        void vscode.window.showWarningMessage(message);
+    }
+
     /**
      * Save all groups to workspace storage and file
      */
-    async saveGroups(groups: FileGroup[]): Promise<void> {
+    async saveGroups(groups: FileGroup[], options: SaveGroupsOptions = {}): Promise<void> {
+        if (options.recordHistory !== false) {
+            this.recordHistory();
+        }
+
         // Separate global and local groups
-        const localGroups = groups.filter(g => !g.isGlobal);
+        const localGroups = this.assignWorkspaceFolders(groups.filter(g => !g.isGlobal));
         const globalGroups = groups.filter(g => g.isGlobal);
 
         // Save local groups
         await this.context.workspaceState.update(STORAGE_KEY, localGroups);
-        await this.saveToFile(localGroups);
+        await this.saveToFile(localGroups, options);
 
         // Save global groups if any changed
         if (globalGroups.length > 0 || this.getGlobalGroups().length > 0) {
-            await this.saveGlobalGroups(globalGroups);
+            await this.saveGlobalGroups(globalGroups, options);
         }
     }
 
     /**
-     * Save global groups
+     * Record which workspace folder's config file stores each local group
      */
-    async saveGlobalGroups(groups: FileGroup[]): Promise<void> {
-        // Mark all as global
-        const globalGroups = groups.map(g => ({ ...g, isGlobal: true }));
-        await this.context.globalState.update(GLOBAL_STORAGE_KEY, globalGroups);
-        await this.saveToGlobalFile(globalGroups);
+    private assignWorkspaceFolders(groups: FileGroup[]): FileGroup[] {
+        const folderPaths = (vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri.fsPath);
+        const assignments = assignGroupFolders(groups, folderPaths);
+        return groups.map(group => ({ ...group, workspaceFolder: assignments.get(group.id) }));
     }
 
     /**
-     * Save groups to config file
+     * Remember the current groups as an undo step. Inside a batch only the
+     * state from before the batch is recorded, once.
      */
-    private async saveToFile(groups: FileGroup[]): Promise<void> {
-        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-        if (!workspaceRoot) {
-            return;
+    private recordHistory(): void {
+        if (this.batchDepth === 0) {
+            this.history.record(structuredClone(this.getAllGroups()));
+        } else if (this.batchSnapshot) {
+            this.history.record(this.batchSnapshot);
+            this.batchSnapshot = undefined;
         }
-
-        // Convert absolute paths to relative paths for portability.
-        const portableGroups = groups.map(group => ({
-            ...group,
-            files: group.files.map(file => ({
-                ...file,
-                path: toWorkspaceRelativePath(file.path, workspaceRoot)
-            }))
-        }));
-
-        // Merge with the existing config so visibility and future settings survive group saves.
-        await this.saveConfigToFile({
-            version: 2,
-            groups: portableGroups
-        });
     }
 
     /**
-     * Save global groups to config file
+     * Run several saves as a single undo step
      */
-    private async saveToGlobalFile(groups: FileGroup[]): Promise<void> {
-        const configUri = this.getGlobalConfigFileUri();
-        if (!configUri) {
-            return;
+    async batchChanges<T>(operation: () => Promise<T>): Promise<T> {
+        if (this.batchDepth === 0) {
+            this.batchSnapshot = structuredClone(this.getAllGroups());
         }
 
-        // Global groups keep absolute paths
-        const config: FileGroupsConfig = {
-            version: 2,
-            groups: groups
-        };
-
+        this.batchDepth += 1;
         try {
-            // Ensure global storage directory exists
-            const globalStorageDir = this.context.globalStorageUri;
-            try {
-                await vscode.workspace.fs.createDirectory(globalStorageDir);
-            } catch {
-                // Directory might already exist
+            return await operation();
+        } finally {
+            this.batchDepth -= 1;
+            if (this.batchDepth === 0) {
+                this.batchSnapshot = undefined;
             }
-
-            const content = Buffer.from(JSON.stringify(config, null, 2), 'utf-8');
-            await vscode.workspace.fs.writeFile(configUri, content);
-        } catch (error) {
-            console.error('Failed to save global file-groups.json:', error);
         }
     }
 
+    canUndo(): boolean {
+        return this.history.canUndo;
+    }
 
+    canRedo(): boolean {
+        return this.history.canRedo;
+    }
 
     /**
-     * Create a new group
+     * Revert the last recorded change to local or global groups
      */
-    async createGroup(group: FileGroup): Promise<void> {
-        const groups = this.getAllGroups();
-        groups.push(group);
-        await this.saveGroups(groups);
+    async undo(): Promise<boolean> {
+        return this.restoreHistoryState(this.history.undo(structuredClone(this.getAllGroups())));
     }
 
     /**
-     * Update an existing group
+     * Re-apply the last undone change
      */
-    async updateGroup(groupId: string, updates: Partial<FileGroup>): Promise<void> {
-        const groups = this.getAllGroups();
-        const index = groups.findIndex(g => g.id === groupId);
-        if (index !== -1) {
-            groups[index] = { ...groups[index], ...updates };
-            await this.saveGroups(groups);
+    async redo(): Promise<boolean> {
+        return this.restoreHistoryState(this.history.redo(structuredClone(this.getAllGroups())));
+    }
+
+    private async restoreHistoryState(groups: FileGroup[] | undefined): Promise<boolean> {
+        if (!groups) {
+            return false;
         }
+
+        // Collapsing and expanding is view state, so keep it as it is now
+        const collapsedById = new Map(this.getAllGroups().map(g => [g.id, g.collapsed]));
+        const restored = groups.map(g => collapsedById.has(g.id) ? { ...g, collapsed: collapsedById.get(g.id) } : g);
+
+        await this.saveGroups(restored, { recordHistory: false });
+        await this.context.workspaceState.update(TRASH_KEY, pruneRestoredTrashItems(this.getTrash(), restored));
+        this._onDidChange.fire();
+        return true;
     }
 
     /**
-     * Delete a group and all its child groups
+     * Save global groups
+     */
+    async saveGlobalGroups(groups: FileGroup[], options: SaveGroupsOptions = {}): Promise<void> {
+        // Mark all as global; global groups are personal already, so none is private
+        const globalGroups = groups.map(({ workspaceFolder: _workspaceFolder, isPrivate: _isPrivate, ...g }) => ({ ...g, isGlobal: true }));
+        await this.context.globalState.update(GLOBAL_STORAGE_KEY, globalGroups);
+        await this.saveToGlobalFile(globalGroups, options);
+    }
+
+    /**
+     * Save groups to the config file of the workspace folder that stores them.
+     * Other folders only get a file once they have groups of their own.
+     * Private groups and the user's view state go to the personal overlay.
+     */
+    private async saveToFile(groups: FileGroup[], options: SaveGroupsOptions = {}): Promise<void> {
+        const { sharedGroups, overlay } = splitPersonalOverlay(groups, this.teamViewState);
+        await this.context.workspaceState.update(OVERLAY_KEY, overlay);
+
+        const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+        for (const [index, folder] of workspaceFolders.entries()) {
+            const workspaceRoot = folder.uri.fsPath;
+            const folderGroups = sharedGroups.filter(group => group.workspaceFolder === workspaceRoot);
+            if (index > 0 && folderGroups.length === 0 && !await this.configFileExists(folder)) {
+                continue;
+            }
+
+            // Merge with the existing config so visibility and future settings survive group saves.
+            await this.saveConfigToFile({
+                version: CURRENT_CONFIG_VERSION,
+                groups: this.toPortableGroups(folderGroups, workspaceRoot)
+            }, folder, options);
+        }
+    }
+
+    /**
+     * Convert absolute paths to relative paths for portability
+     */
+    private toPortableGroups(groups: FileGroup[], workspaceRoot: string): FileGroup[] {
+        return groups.map(({ workspaceFolder: _workspaceFolder, ...group }) => ({
+            ...group,
+            files: (isDynamicGroup(group) ? getPersistedDynamicFiles(group.files) : group.files).map(file => ({
+                ...file,
+                path: toWorkspaceRelativePath(file.path, workspaceRoot)
+            })),
+            layout: group.layout && mapEditorLayoutPaths(group.layout, filePath => toWorkspaceRelativePath(filePath, workspaceRoot))
+        }));
+    }
+
+    /**
+     * Saved groups as plain JSON, the form three-way merges compare
+     */
+    private toMergeGroups(portableGroups: FileGroup[]): FileGroup[] {
+        return JSON.parse(JSON.stringify(portableGroups.map(({ isGlobal: _isGlobal, ...group }) => group)));
+    }
+
+    /**
+     * Local groups as they would be saved to the team config
+     */
+    private getMergeGroups(groups: FileGroup[], workspaceRoot: string): FileGroup[] {
+        return this.toMergeGroups(this.toPortableGroups(splitPersonalOverlay(groups, this.teamViewState).sharedGroups, workspaceRoot));
+    }
+
+    private async configFileExists(folder: vscode.WorkspaceFolder): Promise<boolean> {
+        if (await this.getConfigLayout(folder) === 'split') {
+            return true;
+        }
+
+        try {
+            await vscode.workspace.fs.stat(this.getConfigFileUri(folder)!);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    private getSplitConfigDirUri(folder: vscode.WorkspaceFolder): vscode.Uri {
+        return vscode.Uri.joinPath(folder.uri, SPLIT_CONFIG_DIR_NAME);
+    }
+
+    /**
+     * A workspace folder uses the split layout once `.vscode/codegroup/index.json` exists
+     */
+    async getConfigLayout(folder = vscode.workspace.workspaceFolders?.[0]): Promise<ConfigLayout> {
+        if (!folder) {
+            return 'single';
+        }
+
+        try {
+            await vscode.workspace.fs.stat(vscode.Uri.joinPath(this.getSplitConfigDirUri(folder), SPLIT_CONFIG_INDEX_FILE_NAME));
+            return 'split';
+        } catch {
+            return 'single';
+        }
+    }
+
+    /**
+     * Read the index and group files of the split layout, keeping the given
+     * side of git conflict regions. Throws when the index is missing or a
+     * file is malformed.
+     */
+    private async readSplitConfig(folder: vscode.WorkspaceFolder, side: ConflictSide = 'ours'): Promise<SplitConfigContents> {
+        const dirUri = this.getSplitConfigDirUri(folder);
+        const indexContent = (await vscode.workspace.fs.readFile(vscode.Uri.joinPath(dirUri, SPLIT_CONFIG_INDEX_FILE_NAME))).toString();
+        const groupContents = new Map<string, string>();
+        for (const [name, type] of await vscode.workspace.fs.readDirectory(dirUri)) {
+            if ((type & vscode.FileType.File) !== 0 && isGroupFileName(name)) {
+                groupContents.set(name, (await vscode.workspace.fs.readFile(vscode.Uri.joinPath(dirUri, name))).toString());
+            }
+        }
+
+        const parseSide = (content: string): unknown => {
+            const text = getConflictSide(content, side);
+            if (text === undefined) {
+                throw new SyntaxError(`No ${side} side in conflict`);
+            }
+            return parseConfigText(text);
+        };
+        const config = joinSplitConfig(
+            parseSide(indexContent) as Partial<SplitConfigIndex>,
+            [...groupContents].map(([fileName, content]) => ({ fileName, group: parseSide(content) }))
+        );
+        const hasConflicts = [indexContent, ...groupContents.values()].some(hasConflictMarkers);
+        return { indexContent, groupContents, config, hasConflicts };
+    }
+
+    /**
+     * Save config changes in the split layout. Only files whose content
+     * changes are written, so a teammate's edit to one group touches one file.
+     * Returns whether the config was written.
+     */
+    private async writeSplitConfig(
+        folder: vscode.WorkspaceFolder,
+        config: Partial<FileGroupsConfig>,
+        options: SaveGroupsOptions = {}
+    ): Promise<boolean> {
+        const location: ConfigLocation = { scope: 'local', folder: folder.name };
+        const dirUri = this.getSplitConfigDirUri(folder);
+
+        try {
+            let existing: SplitConfigContents | undefined;
+            try {
+                existing = await this.readSplitConfig(folder);
+            } catch {
+                // A new or unreadable split layout is written from scratch
+            }
+
+            if (isNewerConfigVersion(existing?.config.version)) {
+                this.showConfigWarning(t('config.newerVersion', { file: this.getConfigFileLabel(location), version: existing!.config.version }));
+                return false;
+            }
+
+            await vscode.workspace.fs.createDirectory(dirUri);
+            const { groups, ...settings } = config;
+            const indexChanges: Record<string, unknown> = { ...settings };
+            if (groups) {
+                const { index, groupFiles } = splitConfig({ version: CURRENT_CONFIG_VERSION, groups });
+                indexChanges.order = index.order;
+
+                for (const { fileName, group } of groupFiles) {
+                    const previousContent = existing?.groupContents.get(fileName);
+                    const content = replaceConfigText(previousContent ?? '', { ...group });
+                    if (content !== previousContent) {
+                        await this.writeConfigFile(vscode.Uri.joinPath(dirUri, fileName), content);
+                    }
+                }
+
+                const fileNames = new Set(groupFiles.map(groupFile => groupFile.fileName));
+                for (const fileName of existing?.groupContents.keys() ?? []) {
+                    if (!fileNames.has(fileName)) {
+                        await this.deleteConfigFile(vscode.Uri.joinPath(dirUri, fileName));
+                    }
+                }
+            }
+
+            const indexContent = updateConfigText(
+                existing?.indexContent ?? JSON.stringify({ version: CURRENT_CONFIG_VERSION, order: [] }, null, 2),
+                indexChanges
+            );
+            if (indexContent !== existing?.indexContent) {
+                await this.writeConfigFile(vscode.Uri.joinPath(dirUri, SPLIT_CONFIG_INDEX_FILE_NAME), indexContent);
+            }
+
+            if (options.recordHistory !== false) {
+                await this.writeConfigSnapshot(location, JSON.stringify((await this.readSplitConfig(folder)).config, null, 2));
+            }
+            return true;
+        } catch (error) {
+            console.error('Failed to save split config:', error);
+            return false;
+        }
+    }
+
+    /**
+     * Get the config of a folder using the split layout as one JSON text, for comparing with snapshots
+     */
+    async getSplitConfigText(folderName?: string): Promise<string | undefined> {
+        const folder = this.getWorkspaceFolder(folderName);
+        if (!folder || await this.getConfigLayout(folder) !== 'split') {
+            return undefined;
+        }
+
+        try {
+            return JSON.stringify((await this.readSplitConfig(folder)).config, null, 2);
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Move the groups of every workspace folder that has any to the single
+     * file or the split layout, deleting the files of the other layout
+     */
+    async setConfigLayout(layout: ConfigLayout): Promise<void> {
+        for (const [index, folder] of (vscode.workspace.workspaceFolders ?? []).entries()) {
+            if (await this.getConfigLayout(folder) === layout || (index > 0 && !await this.configFileExists(folder))) {
+                continue;
+            }
+
+            const configUri = this.getConfigFileUri(folder)!;
+            if (layout === 'split') {
+                let config: FileGroupsConfig | undefined;
+                try {
+                    config = parseConfigText((await vscode.workspace.fs.readFile(configUri)).toString()) as FileGroupsConfig;
+                } catch {
+                    // No single file yet, so only the index is created
+                }
+                if (isNewerConfigVersion(config?.version)) {
+                    this.showConfigWarning(t('config.newerVersion', { file: this.getConfigFileLabel({ scope: 'local', folder: folder.name }), version: config!.version }));
+                    continue;
+                }
+
+                await this.writeSplitConfig(folder, config ?? { version: CURRENT_CONFIG_VERSION });
+                if (config) {
+                    await this.deleteConfigFile(configUri);
+                }
+                continue;
+            }
+
+            const { groupContents, config } = await this.readSplitConfig(folder);
+            await this.writeConfigFile(configUri, JSON.stringify(config, null, 2));
+            const dirUri = this.getSplitConfigDirUri(folder);
+            for (const fileName of [SPLIT_CONFIG_INDEX_FILE_NAME, ...groupContents.keys()]) {
+                await this.deleteConfigFile(vscode.Uri.joinPath(dirUri, fileName));
+            }
+            try {
+                await vscode.workspace.fs.delete(dirUri);
+            } catch {
+                // Keep the directory when it holds other files
+            }
+        }
+
+        // Write groups that only live in workspace state, then pick up the new layout
+        await this.saveToFile(this.assignWorkspaceFolders(this.getStoredLocalGroups()));
+        await this.loadFromFile();
+        this._onDidChange.fire();
+    }
+
+    /**
+     * Save global groups to config file
+     */
+    private async saveToGlobalFile(groups: FileGroup[], options: SaveGroupsOptions = {}): Promise<void> {
+        const configUri = this.getGlobalConfigFileUri();
+        if (!configUri) {
+            return;
+        }
+
+        let existingContent = '';
+        try {
+            existingContent = (await vscode.workspace.fs.readFile(configUri)).toString();
+            const existingConfig = parseConfigText(existingContent) as Partial<FileGroupsConfig>;
+            if (isNewerConfigVersion(existingConfig.version)) {
+                this.showConfigWarning(t('config.newerVersion', { file: GLOBAL_CONFIG_FILE_NAME, version: existingConfig.version }));
+                return;
+            }
+        } catch {
+            // File doesn't exist yet
+        }
+
+        // Global groups keep absolute paths
+        const config: FileGroupsConfig = {
+            version: CURRENT_CONFIG_VERSION,
+            groups: groups.map(group => isDynamicGroup(group) ? { ...group, files: getPersistedDynamicFiles(group.files) } : group)
+        };
+
+        try {
+            // Ensure global storage directory exists
+            const globalStorageDir = this.context.globalStorageUri;
+            try {
+                await vscode.workspace.fs.createDirectory(globalStorageDir);
+            } catch {
+                // Directory might already exist
+            }
+
+            const json = updateConfigText(existingContent, { ...config });
+            await this.writeConfigFile(configUri, json);
+            if (options.recordHistory !== false) {
+                await this.writeConfigSnapshot({ scope: 'global' }, json);
+            }
+        } catch (error) {
+            console.error('Failed to save global file-groups.json:', error);
+        }
+    }
+
+    /**
+     * Get the directory holding config snapshots. Local snapshots live in the
+     * workspace storage, so they survive the config file being overwritten,
+     * with one directory per workspace folder. Snapshots taken before
+     * multi-root support sit directly in the local directory.
+     */
+    private getConfigSnapshotDirUri(location: ConfigLocation): vscode.Uri | undefined {
+        const storageUri = location.scope === 'local' ? this.context.storageUri : this.context.globalStorageUri;
+        if (!storageUri) {
+            return undefined;
+        }
+
+        const dirUri = vscode.Uri.joinPath(storageUri, SNAPSHOTS_DIR_NAME, location.scope);
+        return location.scope === 'local' && location.folder !== undefined
+            ? vscode.Uri.joinPath(dirUri, encodeURIComponent(location.folder))
+            : dirUri;
+    }
+
+    private getConfigSnapshotCacheKey(location: ConfigLocation): string {
+        return location.folder === undefined ? location.scope : `${location.scope}:${location.folder}`;
+    }
+
+    getConfigSnapshotUri(snapshot: ConfigSnapshot): vscode.Uri | undefined {
+        const dirUri = this.getConfigSnapshotDirUri(snapshot);
+        return dirUri ? vscode.Uri.joinPath(dirUri, snapshot.fileName) : undefined;
+    }
+
+    /**
+     * Get the global config file, or the local one of a workspace folder
+     * (the first when no folder name is given)
+     */
+    getConfigFileUriForScope(scope: ConfigSnapshotScope, folder?: string): vscode.Uri | undefined {
+        return scope === 'local' ? this.getConfigFileUri(this.getWorkspaceFolder(folder)) : this.getGlobalConfigFileUri();
+    }
+
+    /**
+     * Identify a config file, along with the folder its relative paths resolve against
+     */
+    getConfigFileScope(uri: vscode.Uri): { scope: ConfigSnapshotScope; workspaceRoot?: string } | undefined {
+        const folder = vscode.workspace.workspaceFolders?.find(candidate => this.getConfigFileUri(candidate)?.toString() === uri.toString());
+        if (folder) {
+            return { scope: 'local', workspaceRoot: folder.uri.fsPath };
+        }
+
+        return this.getGlobalConfigFileUri()?.toString() === uri.toString() ? { scope: 'global' } : undefined;
+    }
+
+    /**
+     * Whether a file belongs to the extension's config: a folder's config
+     * file, any file of its split layout, or the global config
+     */
+    isConfigFile(uri: vscode.Uri): boolean {
+        if (this.getConfigFileScope(uri)) {
+            return true;
+        }
+
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+        return folder !== undefined && uri.path.startsWith(`${this.getSplitConfigDirUri(folder).path}/`);
+    }
+
+    /**
+     * The workspace folder of a group file in the split layout, or undefined
+     * for the index and any other file
+     */
+    getSplitGroupFileFolder(uri: vscode.Uri): vscode.WorkspaceFolder | undefined {
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+        if (!folder) {
+            return undefined;
+        }
+
+        const dirPath = this.getSplitConfigDirUri(folder).path;
+        const name = uri.path.slice(dirPath.length + 1);
+        return uri.path.startsWith(`${dirPath}/`) && !name.includes('/') && isGroupFileName(name) ? folder : undefined;
+    }
+
+    /**
+     * Contents of the group files in a folder's split layout, keyed by uri.
+     * Empty when the folder has no split layout.
+     */
+    async readSplitGroupFiles(folder: vscode.WorkspaceFolder): Promise<Map<string, string>> {
+        const dirUri = this.getSplitConfigDirUri(folder);
+        const contents = new Map<string, string>();
+        try {
+            for (const [name, type] of await vscode.workspace.fs.readDirectory(dirUri)) {
+                if ((type & vscode.FileType.File) !== 0 && isGroupFileName(name)) {
+                    const fileUri = vscode.Uri.joinPath(dirUri, name);
+                    contents.set(fileUri.toString(), (await vscode.workspace.fs.readFile(fileUri)).toString());
+                }
+            }
+        } catch {
+            // No split layout
+        }
+        return contents;
+    }
+
+    /**
+     * List config snapshots of every workspace folder and the global config, newest first
+     */
+    async getConfigSnapshots(): Promise<ConfigSnapshot[]> {
+        const locations: ConfigLocation[] = [
+            { scope: 'local' },
+            ...(vscode.workspace.workspaceFolders ?? []).map(folder => ({ scope: 'local' as const, folder: folder.name })),
+            { scope: 'global' }
+        ];
+        const snapshots: ConfigSnapshot[] = [];
+        for (const location of locations) {
+            snapshots.push(...await this.listConfigSnapshots(location));
+        }
+
+        return snapshots.sort((left, right) => right.createdAt.localeCompare(left.createdAt));
+    }
+
+    private async listConfigSnapshots(location: ConfigLocation): Promise<ConfigSnapshot[]> {
+        const dirUri = this.getConfigSnapshotDirUri(location);
+        if (!dirUri) {
+            return [];
+        }
+
+        try {
+            const entries = await vscode.workspace.fs.readDirectory(dirUri);
+            return listConfigSnapshots(location.scope, entries
+                .filter(([, type]) => (type & vscode.FileType.File) !== 0)
+                .map(([name]) => name))
+                .map(snapshot => location.folder === undefined ? snapshot : { ...snapshot, folder: location.folder });
+        } catch {
+            // No snapshots yet
+            return [];
+        }
+    }
+
+    /**
+     * Store a timestamped copy of a written config, unless it matches the
+     * latest snapshot, and drop the oldest snapshots beyond the limit.
+     */
+    private async writeConfigSnapshot(location: ConfigLocation, json: string): Promise<void> {
+        const dirUri = this.getConfigSnapshotDirUri(location);
+        if (!dirUri) {
+            return;
+        }
+
+        const cacheKey = this.getConfigSnapshotCacheKey(location);
+        try {
+            const snapshots = await this.listConfigSnapshots(location);
+            if (!this.lastConfigSnapshotContent.has(cacheKey) && snapshots.length > 0) {
+                const latest = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(dirUri, snapshots[0].fileName));
+                this.lastConfigSnapshotContent.set(cacheKey, latest.toString());
+            }
+            if (this.lastConfigSnapshotContent.get(cacheKey) === json) {
+                return;
+            }
+
+            await vscode.workspace.fs.createDirectory(dirUri);
+            const snapshotUri = vscode.Uri.joinPath(dirUri, createConfigSnapshotFileName(new Date()));
+            await vscode.workspace.fs.writeFile(snapshotUri, Buffer.from(json, 'utf-8'));
+            this.lastConfigSnapshotContent.set(cacheKey, json);
+
+            for (const snapshot of getConfigSnapshotsToPrune(await this.listConfigSnapshots(location))) {
+                await vscode.workspace.fs.delete(vscode.Uri.joinPath(dirUri, snapshot.fileName));
+            }
+        } catch (error) {
+            console.error('Failed to save config snapshot:', error);
+        }
+    }
+
+    async readConfigSnapshot(snapshot: ConfigSnapshot): Promise<FileGroupsConfig | undefined> {
+        const snapshotUri = this.getConfigSnapshotUri(snapshot);
+        if (!snapshotUri) {
+            return undefined;
+        }
+
+        try {
+            const config = parseConfigText((await vscode.workspace.fs.readFile(snapshotUri)).toString()) as FileGroupsConfig;
+            return Array.isArray(config.groups) ? config : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Replace the local or global config with a snapshot. The config being
+     * replaced is snapshotted first, so a restore can itself be reverted.
+     */
+    async restoreConfigSnapshot(snapshot: ConfigSnapshot): Promise<boolean> {
+        const snapshotUri = this.getConfigSnapshotUri(snapshot);
+        const configUri = this.getConfigFileUriForScope(snapshot.scope, snapshot.folder);
+        if (!snapshotUri || !configUri || !await this.readConfigSnapshot(snapshot)) {
+            return false;
+        }
+
+        // Snapshots taken before multi-root support belong to the first folder
+        const location: ConfigLocation = snapshot.scope === 'local'
+            ? { scope: 'local', folder: snapshot.folder ?? this.getWorkspaceFolder()?.name }
+            : snapshot;
+        const splitFolder = snapshot.scope === 'local' ? this.getWorkspaceFolder(location.folder) : undefined;
+        const isSplit = splitFolder !== undefined && await this.getConfigLayout(splitFolder) === 'split';
+        try {
+            const currentContent = isSplit
+                ? JSON.stringify((await this.readSplitConfig(splitFolder)).config, null, 2)
+                : (await vscode.workspace.fs.readFile(configUri)).toString();
+            await this.writeConfigSnapshot(location, currentContent);
+        } catch {
+            // Nothing to keep when the config file doesn't exist
+        }
+
+        this.recordHistory();
+        if (isSplit) {
+            // Split files are rewritten from the snapshot, which snapshots the result too
+            await this.writeSplitConfig(splitFolder, (await this.readConfigSnapshot(snapshot))!);
+        } else {
+            await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(configUri, '..'));
+            // Write the snapshot back as it was saved, comments included
+            const json = (await vscode.workspace.fs.readFile(snapshotUri)).toString();
+            await this.writeConfigFile(configUri, json);
+            this.lastConfigSnapshotContent.set(this.getConfigSnapshotCacheKey(location), json);
+        }
+
+        const loaded = snapshot.scope === 'local' ? await this.loadFromFile() : await this.loadFromGlobalFile();
+        this._onDidChange.fire();
+        return loaded;
+    }
+
+    /**
+     * Put a single group from a snapshot back, replacing its current version
+     */
+    async restoreGroupFromSnapshot(snapshot: ConfigSnapshot, groupId: string): Promise<boolean> {
+        const snapshotGroup = (await this.readConfigSnapshot(snapshot))?.groups.find(group => group.id === groupId);
+        if (!snapshotGroup) {
+            return false;
+        }
+
+        // Local snapshots store paths relative to their workspace folder
+        const workspaceRoot = this.getWorkspaceFolder(snapshot.folder)?.uri.fsPath;
+        const group: FileGroup = {
+            ...snapshotGroup,
+            tags: normalizeTags(snapshotGroup.tags ?? []),
+            files: snapshotGroup.files.map(file => ({
+                ...file,
+                path: snapshot.scope === 'local' && workspaceRoot ? resolveWorkspacePath(file.path, workspaceRoot) : file.path,
+                tags: normalizeTags(file.tags ?? [])
+            })),
+            isGlobal: snapshot.scope === 'global'
+        };
+
+        await this.saveGroups(restoreSnapshotGroup(this.getAllGroups(), group));
+        return true;
+    }
+
+
+
+    /**
+     * Create a new group
+     */
+    async createGroup(group: FileGroup): Promise<void> {
+        const groups = this.getAllGroups();
+        groups.push(group);
+        await this.saveGroups(groups);
+    }
+
+    /**
+     * Update an existing group
+     */
+    async updateGroup(groupId: string, updates: Partial<FileGroup>, options: SaveGroupsOptions = {}): Promise<void> {
+        const groups = this.getAllGroups();
+        const index = groups.findIndex(g => g.id === groupId);
+        if (index !== -1) {
+            groups[index] = { ...groups[index], ...updates };
+            await this.saveGroups(groups, options);
+        }
+    }
+
+    /**
+     * Replace the files of some groups. Each update runs on the group as it
+     * is now and returns its new files, or undefined to leave it unchanged, so
+     * edits made while the caller was scanning are kept. Returns whether
+     * anything was saved.
+     */
+    async updateGroupFiles(
+        updates: ReadonlyMap<string, (group: FileGroup) => GroupFile[] | undefined>,
+        options: SaveGroupsOptions = {}
+    ): Promise<boolean> {
+        const groups = this.getAllGroups();
+        let changed = false;
+        for (const group of groups) {
+            const files = updates.get(group.id)?.(group);
+            if (files) {
+                group.files = files;
+                changed = true;
+            }
+        }
+
+        if (changed) {
+            await this.saveGroups(groups, options);
+        }
+        return changed;
+    }
+
+    /**
+     * Delete a group and all its child groups, keeping them in the trash
      */
     async deleteGroup(groupId: string): Promise<void> {
         const groups = this.getAllGroups();
         const idsToDelete = this.getGroupAndChildIds(groupId, groups);
         const filtered = groups.filter(g => !idsToDelete.has(g.id));
+        const trashItem = createGroupTrashItem(groups, groupId, 'groupDeleted', generateId(), new Date().toISOString());
         await this.saveGroups(filtered);
+        if (trashItem) {
+            await this.addToTrash([trashItem]);
+        }
+    }
+
+    /**
+     * Get trashed groups and bookmarks, newest first. The trash is kept per workspace.
+     */
+    getTrash(): TrashItem[] {
+        return this.context.workspaceState.get<TrashItem[]>(TRASH_KEY, []);
+    }
+
+    /**
+     * Add deleted groups or auto-removed bookmarks to the trash
+     */
+    async addToTrash(items: TrashItem[]): Promise<void> {
+        if (items.length === 0) {
+            return;
+        }
+
+        await this.context.workspaceState.update(TRASH_KEY, addTrashItems(this.getTrash(), items));
+        this._onDidChange.fire();
+    }
+
+    /**
+     * Restore a trash entry to its original parent and position, or a bookmark
+     * into `targetGroupId`. Returns false when the bookmark's group no longer exists.
+     */
+    async restoreFromTrash(trashId: string, targetGroupId?: string): Promise<boolean> {
+        const item = this.getTrash().find(entry => entry.id === trashId);
+        if (!item) {
+            return false;
+        }
+
+        const result = restoreTrashItem(
+            this.getAllGroups(),
+            item.kind === 'file' && targetGroupId ? { ...item, groupId: targetGroupId } : item
+        );
+        if (!result.restored) {
+            return false;
+        }
+
+        await this.saveGroups(result.groups);
+        await this.purgeTrash([trashId]);
+        return true;
+    }
+
+    /**
+     * Permanently remove trash entries, or empty the trash when no ids are given
+     */
+    async purgeTrash(trashIds?: string[]): Promise<void> {
+        const idsToPurge = trashIds ? new Set(trashIds) : undefined;
+        await this.context.workspaceState.update(
+            TRASH_KEY,
+            idsToPurge ? this.getTrash().filter(entry => !idsToPurge.has(entry.id)) : []
+        );
+        this._onDidChange.fire();
+    }
+
+    /**
+     * Get recorded work sessions, newest first. Sessions are kept per workspace.
+     */
+    getSessions(): readonly ActivitySession[] {
+        return this.context.workspaceState.get<ActivitySession[]>(SESSIONS_KEY, []);
+    }
+
+    /**
+     * Record that a file was opened or edited in the current session. Does not
+     * fire a change, since it runs on every edit; returns whether anything changed.
+     */
+    async recordSessionActivity(filePath: string, kind: SessionActivityKind): Promise<boolean> {
+        const sessions = this.getSessions();
+        const nextSessions = recordSessionActivity(sessions, filePath, kind, new Date(), generateId);
+        if (nextSessions === sessions) {
+            return false;
+        }
+
+        await this.context.workspaceState.update(SESSIONS_KEY, nextSessions);
+        return true;
+    }
+
+    /**
+     * Forget files not active within the last `maxAgeMs`. Returns how many were removed.
+     */
+    async pruneSessions(maxAgeMs: number): Promise<number> {
+        const result = pruneSessionActivity(this.getSessions(), maxAgeMs, new Date());
+        await this.context.workspaceState.update(SESSIONS_KEY, result.sessions);
+        this._onDidChange.fire();
+        return result.removedCount;
+    }
+
+    isSessionActivityVisible(): boolean {
+        return this.context.workspaceState.get<boolean>(SESSION_VISIBLE_KEY, false);
+    }
+
+    async setSessionActivityVisible(visible: boolean): Promise<void> {
+        await this.context.workspaceState.update(SESSION_VISIBLE_KEY, visible);
+        this._onDidChange.fire();
+    }
+
+    /**
+     * Group whose diagnostics the Problems section lists, if it is shown
+     */
+    getProblemsGroupId(): string | undefined {
+        return this.context.workspaceState.get<string>(PROBLEMS_GROUP_KEY);
+    }
+
+    /**
+     * Choose the group shown in the Problems section. This is view state, so
+     * listeners of group changes are not notified; the caller refreshes the tree.
+     */
+    async setProblemsGroupId(groupId: string | undefined): Promise<void> {
+        await this.context.workspaceState.update(PROBLEMS_GROUP_KEY, groupId);
     }
 
     /**
@@ -500,6 +1700,26 @@ export class StorageService {
         await this.saveGroups(updatedGroups);
     }
 
+    /**
+     * Keep a local group and its subgroups out of the team config, or move it
+     * back. Sharing a group also shares its private ancestors, so it keeps its
+     * place in the tree for everyone.
+     */
+    async setGroupPrivate(groupId: string, isPrivate: boolean): Promise<void> {
+        const groups = this.getAllGroups();
+        const groupsById = new Map(groups.map(g => [g.id, g]));
+        const idsToUpdate = new Set<string>();
+        let current = groupsById.get(groupId);
+        while (current && !idsToUpdate.has(current.id)) {
+            idsToUpdate.add(current.id);
+            current = !isPrivate && current.parentId ? groupsById.get(current.parentId) : undefined;
+        }
+
+        await this.saveGroups(groups.map(g =>
+            idsToUpdate.has(g.id) && !g.isGlobal ? { ...g, isPrivate: isPrivate || undefined } : g
+        ));
+    }
+
     /**
      * Get all files in a group and its child groups recursively
      */
@@ -594,6 +1814,55 @@ export class StorageService {
         await this.saveGroups(groups);
     }
 
+    /**
+     * Add a line or range anchor to a file, adding the file to the group first when needed.
+     */
+    async addAnchorToFile(groupId: string, file: GroupFile, anchor: GroupFileAnchor): Promise<boolean> {
+        const groups = this.getAllGroups();
+        const group = groups.find(g => g.id === groupId);
+        if (!group) {
+            return false;
+        }
+
+        let storedFile = group.files.find(f => f.path === file.path);
+        if (!storedFile) {
+            storedFile = { ...file, anchors: [] };
+            group.files.push(storedFile);
+        }
+
+        storedFile.anchors = [...(storedFile.anchors ?? []), anchor];
+        await this.saveGroups(groups);
+        return true;
+    }
+
+    /**
+     * Replace a stored anchor, for example after re-resolving its symbol.
+     */
+    async updateAnchor(groupId: string, filePath: string, anchor: GroupFileAnchor, options: SaveGroupsOptions = {}): Promise<void> {
+        const groups = this.getAllGroups();
+        const file = groups.find(g => g.id === groupId)?.files.find(f => f.path === filePath);
+        if (!file?.anchors?.some(existing => existing.id === anchor.id)) {
+            return;
+        }
+
+        file.anchors = file.anchors.map(existing => existing.id === anchor.id ? anchor : existing);
+        await this.saveGroups(groups, options);
+    }
+
+    /**
+     * Remove one anchor from a file while keeping the file bookmark itself.
+     */
+    async removeAnchorFromFile(groupId: string, filePath: string, anchorId: string): Promise<void> {
+        const groups = this.getAllGroups();
+        const file = groups.find(g => g.id === groupId)?.files.find(f => f.path === filePath);
+        if (!file?.anchors) {
+            return;
+        }
+
+        file.anchors = file.anchors.filter(anchor => anchor.id !== anchorId);
+        await this.saveGroups(groups);
+    }
+
     /**
      * Reorder files within a group
      */
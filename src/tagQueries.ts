@@ -0,0 +1,181 @@
+import { t } from './i18n';
+import type { FileGroup, GroupFile } from './models';
+import { normalizeTags } from './tags';
+
+export type TagQueryNode =
+  | { type: 'tag'; tag: string }
+  | { type: 'not'; operand: TagQueryNode }
+  | { type: 'and' | 'or'; operands: TagQueryNode[] };
+
+export type TagQueryParseResult =
+  | { node: TagQueryNode; error?: undefined }
+  | { node?: undefined; error: string };
+
+export interface TagQueryFileMatch {
+  group: FileGroup;
+  file: GroupFile;
+}
+
+export interface TagQueryResult {
+  groups: FileGroup[];
+  files: TagQueryFileMatch[];
+}
+
+type TagQueryToken = { value: string; position: number };
+
+const OPERATORS = new Set(['and', 'or', 'not']);
+
+function tokenizeTagQuery(expression: string): TagQueryToken[] {
+  const tokens: TagQueryToken[] = [];
+  const pattern = /[()]|[^\s()]+/g;
+
+  for (let match = pattern.exec(expression); match; match = pattern.exec(expression)) {
+    tokens.push({ value: match[0], position: match.index + 1 });
+  }
+
+  return tokens;
+}
+
+function isOperator(token: TagQueryToken | undefined, operator: string): boolean {
+  return token?.value.toLowerCase() === operator;
+}
+
+/**
+ * Parse a tag expression such as `#api AND (#auth OR #billing) AND NOT #legacy`.
+ * Operators are case-insensitive, `NOT` binds tighter than `AND`, which binds
+ * tighter than `OR`, and adjacent tags are combined with `AND`.
+ */
+export function parseTagQuery(expression: string): TagQueryParseResult {
+  const tokens = tokenizeTagQuery(expression);
+  if (tokens.length === 0) {
+    return { error: t('tagQuery.error.empty') };
+  }
+
+  let index = 0;
+  const unexpected = (token: TagQueryToken | undefined): Error => new Error(token
+    ? t('tagQuery.error.unexpected', { token: token.value, position: token.position })
+    : t('tagQuery.error.end'));
+
+  const parseOr = (): TagQueryNode => {
+    const operands = [parseAnd()];
+    while (isOperator(tokens[index], 'or')) {
+      index += 1;
+      operands.push(parseAnd());
+    }
+    return operands.length === 1 ? operands[0] : { type: 'or', operands };
+  };
+
+  const parseAnd = (): TagQueryNode => {
+    const operands = [parseNot()];
+    while (index < tokens.length && tokens[index].value !== ')' && !isOperator(tokens[index], 'or')) {
+      if (isOperator(tokens[index], 'and')) {
+        index += 1;
+      }
+      operands.push(parseNot());
+    }
+    return operands.length === 1 ? operands[0] : { type: 'and', operands };
+  };
+
+  const parseNot = (): TagQueryNode => {
+    if (isOperator(tokens[index], 'not')) {
+      index += 1;
+      return { type: 'not', operand: parseNot() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): TagQueryNode => {
+    const token = tokens[index];
+    if (token?.value === '(') {
+      index += 1;
+      const node = parseOr();
+      if (tokens[index]?.value !== ')') {
+        throw unexpected(tokens[index]);
+      }
+      index += 1;
+      return node;
+    }
+
+    const tag = token && token.value !== ')' && !OPERATORS.has(token.value.toLowerCase())
+      ? normalizeTags([token.value])[0]
+      : undefined;
+    if (!tag) {
+      throw unexpected(token);
+    }
+    index += 1;
+    return { type: 'tag', tag };
+  };
+
+  try {
+    const node = parseOr();
+    if (index < tokens.length) {
+      throw unexpected(tokens[index]);
+    }
+    return { node };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export function getTagQueryError(expression: string): string | undefined {
+  return parseTagQuery(expression).error;
+}
+
+export function evaluateTagQuery(node: TagQueryNode, tags: ReadonlySet<string>): boolean {
+  switch (node.type) {
+    case 'tag':
+      return tags.has(node.tag);
+    case 'not':
+      return !evaluateTagQuery(node.operand, tags);
+    case 'and':
+      return node.operands.every(operand => evaluateTagQuery(operand, tags));
+    case 'or':
+      return node.operands.some(operand => evaluateTagQuery(operand, tags));
+  }
+}
+
+/**
+ * Find the groups whose own tags match and the bookmarks whose tags, combined
+ * with the tags of their group, match. Bookmarks of a matching group are
+ * represented by the group itself.
+ */
+export function collectTagQueryMatches(groups: readonly FileGroup[], node: TagQueryNode): TagQueryResult {
+  const result: TagQueryResult = { groups: [], files: [] };
+
+  for (const group of groups) {
+    const groupTags = normalizeTags(group.tags ?? []);
+    if (evaluateTagQuery(node, new Set(groupTags))) {
+      result.groups.push(group);
+      continue;
+    }
+
+    for (const file of group.files) {
+      if (evaluateTagQuery(node, new Set([...groupTags, ...normalizeTags(file.tags ?? [])]))) {
+        result.files.push({ group, file });
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Flatten a tag query result into the files of a standalone group. Files of
+ * matching groups are included, each path appears once, and every file keeps
+ * the tags it inherited from its group so it still matches the query.
+ */
+export function getTagQueryResultFiles(result: TagQueryResult): GroupFile[] {
+  const files = new Map<string, GroupFile>();
+  const candidates = [
+    ...result.files,
+    ...result.groups.flatMap(group => group.files.map(file => ({ group, file })))
+  ];
+
+  for (const { group, file: { searchMatch: _searchMatch, ...file } } of candidates) {
+    if (!files.has(file.path)) {
+      files.set(file.path, { ...file, tags: normalizeTags([...(group.tags ?? []), ...(file.tags ?? [])]) });
+    }
+  }
+
+  return [...files.values()];
+}
@@ -0,0 +1,132 @@
+import type { FileGroup, GroupFile, TrashItem, TrashReason, TrashedFile, TrashedGroup } from './models';
+
+export const MAX_TRASH_ITEMS = 100;
+
+export type TrashRestoreResult = {
+  groups: FileGroup[];
+  restored: boolean;
+};
+
+function getSubtreeIds(groupId: string, groups: readonly FileGroup[]): Set<string> {
+  const ids = new Set<string>([groupId]);
+  const pendingIds = [groupId];
+  while (pendingIds.length > 0) {
+    const parentId = pendingIds.pop()!;
+    for (const group of groups) {
+      if (group.parentId === parentId && !ids.has(group.id)) {
+        ids.add(group.id);
+        pendingIds.push(group.id);
+      }
+    }
+  }
+
+  return ids;
+}
+
+/**
+ * Capture a group and all of its descendants, root group first.
+ */
+export function createGroupTrashItem(
+  groups: readonly FileGroup[],
+  groupId: string,
+  reason: TrashReason,
+  id: string,
+  deletedAt: string
+): TrashedGroup | undefined {
+  const root = groups.find(group => group.id === groupId);
+  if (!root) {
+    return undefined;
+  }
+
+  const subtreeIds = getSubtreeIds(groupId, groups);
+  return {
+    kind: 'group',
+    id,
+    deletedAt,
+    reason,
+    groups: [root, ...groups.filter(group => group.id !== groupId && subtreeIds.has(group.id))]
+  };
+}
+
+/**
+ * Capture the bookmarks about to be removed from every group, with their positions.
+ */
+export function createFileTrashItems(
+  groups: readonly FileGroup[],
+  shouldRemove: (file: GroupFile, group: FileGroup) => boolean,
+  reason: TrashReason,
+  createId: () => string,
+  deletedAt: string
+): TrashedFile[] {
+  const items: TrashedFile[] = [];
+  for (const group of groups) {
+    group.files.forEach((file, index) => {
+      if (shouldRemove(file, group)) {
+        items.push({ kind: 'file', id: createId(), deletedAt, reason, groupId: group.id, groupName: group.name, index, file });
+      }
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Newest entries first; the oldest entries are purged beyond the limit.
+ */
+export function addTrashItems(trash: readonly TrashItem[], items: readonly TrashItem[], limit: number = MAX_TRASH_ITEMS): TrashItem[] {
+  return [...items, ...trash].slice(0, limit);
+}
+
+/**
+ * Put a trashed group back under its original parent, or a bookmark back
+ * at its original position. A group whose parent is gone becomes a root
+ * group; a bookmark whose group is gone cannot be restored.
+ */
+export function restoreTrashItem(groups: readonly FileGroup[], item: TrashItem): TrashRestoreResult {
+  const existingIds = new Set(groups.map(group => group.id));
+
+  if (item.kind === 'group') {
+    const restoredGroups = item.groups.filter(group => !existingIds.has(group.id));
+    if (restoredGroups.length === 0) {
+      return { groups: [...groups], restored: false };
+    }
+
+    const restoredIds = new Set(restoredGroups.map(group => group.id));
+    return {
+      groups: [
+        ...groups,
+        ...restoredGroups.map(group => group.parentId && !existingIds.has(group.parentId) && !restoredIds.has(group.parentId)
+          ? { ...group, parentId: undefined }
+          : group)
+      ],
+      restored: true
+    };
+  }
+
+  const target = groups.find(group => group.id === item.groupId);
+  if (!target) {
+    return { groups: [...groups], restored: false };
+  }
+
+  if (target.files.some(file => file.path === item.file.path)) {
+    return { groups: [...groups], restored: true };
+  }
+
+  const files = [...target.files];
+  files.splice(Math.min(item.index, files.length), 0, item.file);
+  return {
+    groups: groups.map(group => group === target ? { ...group, files } : group),
+    restored: true
+  };
+}
+
+/**
+ * Drop entries whose group or bookmark is present again, for example after
+ * the deletion was undone.
+ */
+export function pruneRestoredTrashItems(trash: readonly TrashItem[], groups: readonly FileGroup[]): TrashItem[] {
+  const groupsById = new Map(groups.map(group => [group.id, group]));
+  return trash.filter(item => item.kind === 'group'
+    ? !groupsById.has(item.groups[0]?.id)
+    : !groupsById.get(item.groupId)?.files.some(file => file.path === item.file.path));
+}
@@ -0,0 +1,58 @@
+export const MAX_UNDO_HISTORY = 50;
+
+/**
+ * Bounded undo/redo stacks of full state snapshots. Recording a new change
+ * clears the redo stack, like an editor.
+ */
+export class UndoHistory<T> {
+  private undoStack: T[] = [];
+  private redoStack: T[] = [];
+
+  constructor(private readonly limit: number = MAX_UNDO_HISTORY) { }
+
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Remember the state as it was before a change.
+   */
+  record(previousState: T): void {
+    this.undoStack.push(previousState);
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+  }
+
+  /**
+   * Step back from `currentState`. Returns the state to restore, if any.
+   */
+  undo(currentState: T): T | undefined {
+    const previousState = this.undoStack.pop();
+    if (previousState !== undefined) {
+      this.redoStack.push(currentState);
+    }
+    return previousState;
+  }
+
+  /**
+   * Re-apply the last undone change. Returns the state to restore, if any.
+   */
+  redo(currentState: T): T | undefined {
+    const nextState = this.redoStack.pop();
+    if (nextState !== undefined) {
+      this.undoStack.push(currentState);
+    }
+    return nextState;
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+}
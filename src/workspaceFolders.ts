@@ -0,0 +1,85 @@
+import type { FileGroup } from './models';
+import { isPathInsideWorkspace } from './pathUtils';
+
+/**
+ * The innermost workspace folder containing a path, if any.
+ */
+export function getContainingFolder(filePath: string, folderPaths: readonly string[]): string | undefined {
+  let containingFolder: string | undefined;
+  for (const folderPath of folderPaths) {
+    if (isPathInsideWorkspace(filePath, folderPath) && (!containingFolder || folderPath.length > containingFolder.length)) {
+      containingFolder = folderPath;
+    }
+  }
+
+  return containingFolder;
+}
+
+/**
+ * The workspace folder containing most of the given files. Ties go to the
+ * folder listed first; files outside every folder are ignored.
+ */
+export function getOwningFolder(filePaths: readonly string[], folderPaths: readonly string[]): string | undefined {
+  const counts = new Map<string, number>();
+  for (const filePath of filePaths) {
+    const folderPath = getContainingFolder(filePath, folderPaths);
+    if (folderPath) {
+      counts.set(folderPath, (counts.get(folderPath) ?? 0) + 1);
+    }
+  }
+
+  let owner: string | undefined;
+  for (const folderPath of folderPaths) {
+    if ((counts.get(folderPath) ?? 0) > (owner ? counts.get(owner)! : 0)) {
+      owner = folderPath;
+    }
+  }
+
+  return owner;
+}
+
+function getRootGroup(group: FileGroup, groupsById: ReadonlyMap<string, FileGroup>): FileGroup {
+  const ancestors = [group];
+  let parent = group.parentId ? groupsById.get(group.parentId) : undefined;
+  while (parent && !ancestors.includes(parent)) {
+    ancestors.push(parent);
+    parent = parent.parentId ? groupsById.get(parent.parentId) : undefined;
+  }
+
+  if (!parent) {
+    return ancestors[ancestors.length - 1];
+  }
+
+  // Every group of a parent cycle has to settle on the same root
+  return ancestors.slice(ancestors.indexOf(parent)).reduce((root, candidate) => candidate.id < root.id ? candidate : root);
+}
+
+/**
+ * Decide which workspace folder's config file stores each local group, by
+ * group id. A group tree is stored together in the folder owning most of its
+ * files, so parent links never cross files. A tree without files in any
+ * folder stays in its previous folder, or goes to the first one.
+ */
+export function assignGroupFolders(groups: readonly FileGroup[], folderPaths: readonly string[]): Map<string, string> {
+  const assignments = new Map<string, string>();
+  if (folderPaths.length === 0) {
+    return assignments;
+  }
+
+  const groupsById = new Map(groups.map(group => [group.id, group]));
+  const trees = new Map<FileGroup, FileGroup[]>();
+  for (const group of groups) {
+    const root = getRootGroup(group, groupsById);
+    trees.set(root, [...(trees.get(root) ?? []), group]);
+  }
+
+  for (const [root, members] of trees) {
+    const owner = getOwningFolder(members.flatMap(group => group.files.map(file => file.path)), folderPaths)
+      ?? (root.workspaceFolder && folderPaths.includes(root.workspaceFolder) ? root.workspaceFolder : folderPaths[0]);
+    for (const group of members) {
+      assignments.set(group.id, owner);
+    }
+  }
+
+  return assignments;
+}
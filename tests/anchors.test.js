@@ -0,0 +1,173 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import {
+  createAnchorFromSelection,
+  createSymbolAnchor,
+  formatAnchorLocation,
+  getAnchorLabel,
+  getSymbolChainAt,
+  rankSymbolMatches,
+  reanchorToSymbol,
+  resolveSymbolAnchor,
+  shiftAnchorForTextChange,
+  shiftGroupFileAnchors,
+  sortAnchors
+} from '../src/anchors.ts';
+
+const insertLines = (line, count) => ({
+  startLine: line,
+  startCharacter: 0,
+  endLine: line,
+  endCharacter: 0,
+  text: '\n'.repeat(count)
+});
+
+describe('group file anchors', () => {
+  test('moves anchors down when lines are inserted above them', () => {
+    const anchor = { id: 'a', line: 10, character: 4, endLine: 12, endCharacter: 1 };
+
+    assert.deepEqual(shiftAnchorForTextChange(anchor, insertLines(2, 3)), {
+      id: 'a',
+      line: 13,
+      character: 4,
+      endLine: 15,
+      endCharacter: 1
+    });
+  });
+
+  test('keeps anchors in place when edits happen below them', () => {
+    const anchor = { id: 'a', line: 4 };
+
+    assert.deepEqual(shiftAnchorForTextChange(anchor, insertLines(9, 2)), anchor);
+  });
+
+  test('moves anchors up when lines above them are deleted', () => {
+    const anchor = { id: 'a', line: 20 };
+    const deletion = { startLine: 5, startCharacter: 0, endLine: 8, endCharacter: 0, text: '' };
+
+    assert.deepEqual(shiftAnchorForTextChange(anchor, deletion), { id: 'a', line: 17 });
+  });
+
+  test('collapses anchors inside a deleted block onto the edit start', () => {
+    const anchor = { id: 'a', line: 6 };
+    const deletion = { startLine: 5, startCharacter: 0, endLine: 8, endCharacter: 0, text: '' };
+
+    assert.deepEqual(shiftAnchorForTextChange(anchor, deletion), { id: 'a', line: 5 });
+  });
+
+  test('adjusts columns for same-line edits before a range anchor', () => {
+    const anchor = { id: 'a', line: 3, character: 10, endLine: 3, endCharacter: 15 };
+    const insertion = { startLine: 3, startCharacter: 2, endLine: 3, endCharacter: 2, text: 'abc' };
+
+    assert.deepEqual(shiftAnchorForTextChange(anchor, insertion), {
+      id: 'a',
+      line: 3,
+      character: 13,
+      endLine: 3,
+      endCharacter: 18
+    });
+  });
+
+  test('applies batched changes and reports how many anchors moved', () => {
+    const files = [
+      { path: '/repo/a.ts', name: 'a.ts', anchors: [{ id: 'a', line: 1 }, { id: 'b', line: 10 }] },
+      { path: '/repo/a.ts', name: 'a.ts' }
+    ];
+
+    assert.equal(shiftGroupFileAnchors(files, [insertLines(5, 1), insertLines(0, 1)]), 2);
+    assert.deepEqual(files[0].anchors, [{ id: 'a', line: 2 }, { id: 'b', line: 12 }]);
+    assert.equal(files[1].anchors, undefined);
+  });
+
+  test('creates whole-line anchors from empty selections and ranges otherwise', () => {
+    const createId = () => 'new-id';
+
+    assert.deepEqual(
+      createAnchorFromSelection({ startLine: 4, startCharacter: 7, endLine: 4, endCharacter: 7 }, createId, '   const  value = 1;  '),
+      { id: 'new-id', line: 4, label: 'const value = 1;' }
+    );
+    assert.deepEqual(
+      createAnchorFromSelection({ startLine: 4, startCharacter: 2, endLine: 9, endCharacter: 0 }, createId, '   '),
+      { id: 'new-id', line: 4, character: 2, endLine: 9, endCharacter: 0 }
+    );
+  });
+
+  test('formats one-based locations and sorts anchors by position', () => {
+    assert.equal(formatAnchorLocation({ id: 'a', line: 11 }), 'L12');
+    assert.equal(formatAnchorLocation({ id: 'a', line: 11, character: 4, endLine: 11, endCharacter: 9 }), 'L12:5');
+    assert.equal(formatAnchorLocation({ id: 'a', line: 11, character: 0, endLine: 17, endCharacter: 0 }), 'L12-L18');
+
+    assert.deepEqual(
+      sortAnchors([{ id: 'c', line: 8 }, { id: 'a', line: 2, character: 5 }, { id: 'b', line: 2 }]).map(anchor => anchor.id),
+      ['b', 'a', 'c']
+    );
+  });
+});
+
+const range = (startLine, endLine) => ({ startLine, startCharacter: 0, endLine, endCharacter: 0 });
+const symbol = (name, kind, startLine, endLine, children = []) => ({
+  name,
+  kind,
+  range: range(startLine, endLine),
+  selectionRange: { startLine, startCharacter: 6, endLine: startLine, endCharacter: 6 + name.length },
+  children
+});
+
+describe('symbol anchors', () => {
+  const symbols = [
+    symbol('UserService', 4, 2, 40, [
+      symbol('login', 5, 5, 12),
+      symbol('logout', 5, 14, 20)
+    ]),
+    symbol('createUser', 11, 45, 60)
+  ];
+
+  test('creates an anchor for the innermost symbol under the cursor', () => {
+    const chain = getSymbolChainAt(symbols, 8, 3);
+
+    assert.deepEqual(chain.map(item => item.name), ['UserService', 'login']);
+    assert.deepEqual(createSymbolAnchor(chain, () => 'id'), {
+      id: 'id',
+      line: 5,
+      character: 6,
+      symbol: ['UserService', 'login'],
+      symbolKind: 5
+    });
+    assert.equal(createSymbolAnchor(getSymbolChainAt(symbols, 42, 0), () => 'id'), undefined);
+  });
+
+  test('follows a symbol to its new location', () => {
+    const moved = [symbol('UserService', 4, 10, 50, [symbol('login', 5, 30, 35)])];
+    const anchor = { id: 'a', line: 5, character: 6, symbol: ['UserService', 'login'], symbolKind: 5, symbolMissing: true };
+
+    assert.deepEqual(resolveSymbolAnchor(anchor, moved), {
+      found: true,
+      anchor: { id: 'a', line: 30, character: 6, symbol: ['UserService', 'login'], symbolKind: 5 }
+    });
+  });
+
+  test('flags missing symbols and ranks nearest matches', () => {
+    const anchor = { id: 'a', line: 5, character: 6, symbol: ['UserService', 'signIn'], symbolKind: 5 };
+    const renamed = [symbol('UserService', 4, 2, 40, [symbol('signInWithToken', 5, 5, 12), symbol('logout', 5, 14, 20)])];
+
+    const resolution = resolveSymbolAnchor(anchor, renamed);
+    assert.equal(resolution.found, false);
+    assert.equal(resolution.anchor.symbolMissing, true);
+    assert.equal(resolution.anchor.line, 5);
+
+    const matches = rankSymbolMatches(anchor, renamed);
+    assert.deepEqual(matches[0].path, ['UserService', 'signInWithToken']);
+    assert.deepEqual(reanchorToSymbol(resolution.anchor, matches[0]), {
+      id: 'a',
+      line: 5,
+      character: 6,
+      symbol: ['UserService', 'signInWithToken'],
+      symbolKind: 5
+    });
+  });
+
+  test('labels symbol anchors with their symbol path', () => {
+    assert.equal(getAnchorLabel({ id: 'a', line: 5, symbol: ['UserService', 'login'] }), 'UserService.login');
+    assert.equal(getAnchorLabel({ id: 'a', line: 5 }), 'L6');
+  });
+});
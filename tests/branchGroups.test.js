@@ -0,0 +1,30 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { formatBranchPatterns, isGroupOnBranch, matchesBranchPattern, parseBranchPatterns } from '../src/branchGroups.ts';
+
+describe('branch groups', () => {
+  test('parses and formats branch lists', () => {
+    assert.deepEqual(parseBranchPatterns(' feature/checkout, release/*;\nmain\nmain '), ['feature/checkout', 'release/*', 'main']);
+    assert.deepEqual(parseBranchPatterns(' , '), []);
+    assert.equal(formatBranchPatterns(['main', 'release/*']), 'main, release/*');
+    assert.equal(formatBranchPatterns(undefined), '');
+  });
+
+  test('matches exact names and wildcard patterns', () => {
+    assert.equal(matchesBranchPattern('main', 'main'), true);
+    assert.equal(matchesBranchPattern('main-2', 'main'), false);
+    assert.equal(matchesBranchPattern('feature/login', 'feature/*'), true);
+    assert.equal(matchesBranchPattern('feature/login/ui', 'feature/*'), false);
+    assert.equal(matchesBranchPattern('feature/login/ui', 'feature/**'), true);
+    assert.equal(matchesBranchPattern('release/1.2', 'release/?.?'), true);
+    assert.equal(matchesBranchPattern('release/102', 'release/1.2'), false);
+  });
+
+  test('shows unbound groups everywhere and bound groups on matching branches', () => {
+    assert.equal(isGroupOnBranch({}, 'main'), true);
+    assert.equal(isGroupOnBranch({ branches: [] }, 'main'), true);
+    assert.equal(isGroupOnBranch({ branches: ['feature/*', 'hotfix'] }, 'feature/pay'), true);
+    assert.equal(isGroupOnBranch({ branches: ['feature/*', 'hotfix'] }, 'main'), false);
+    assert.equal(isGroupOnBranch({ branches: ['feature/*'] }, undefined), true);
+  });
+});
@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { findConfigIssues, findSplitGroupFileIssues } from '../src/configDiagnostics.ts';
+
+const format = groups => JSON.stringify({ version: 2, groups }, null, 2);
+const group = (id, parentId, paths = [], extra = {}) => ({
+  id,
+  name: id,
+  icon: 'folder',
+  color: '',
+  order: 0,
+  parentId,
+  files: paths.map(filePath => ({ path: filePath, name: filePath })),
+  ...extra
+});
+
+describe('config diagnostics', () => {
+  test('reports duplicate ids, dangling parents and parent cycles at their values', async () => {
+    const text = format([
+      group('a'),
+      group('a'),
+      group('orphan', 'missing'),
+      group('x', 'y'),
+      group('y', 'x'),
+      group('child', 'a')
+    ]);
+
+    const issues = await findConfigIssues(text, async () => true);
+    assert.deepEqual(issues.map(issue => [issue.kind, issue.value]), [
+      ['duplicateId', 'a'],
+      ['danglingParent', 'missing'],
+      ['parentCycle', 'y'],
+      ['parentCycle', 'x']
+    ]);
+    assert.equal(text.slice(issues[1].offset, issues[1].offset + issues[1].length), '"missing"');
+  });
+
+  test('reports missing paths except in dynamic groups', async () => {
+    const text = format([
+      group('static', undefined, ['src/a.ts', 'src/gone.ts']),
+      group('dynamic', undefined, ['src/old.ts'], { patterns: { include: ['src/**'] } })
+    ]);
+
+    const issues = await findConfigIssues(text, async storedPath => storedPath === 'src/a.ts');
+    assert.deepEqual(issues.map(issue => [issue.kind, issue.value]), [['missingPath', 'src/gone.ts']]);
+  });
+
+  test('tolerates comments, trailing commas and files that are not group configs', async () => {
+    const text = '{\n  // team groups\n  "version": 2,\n  "groups": [{ "id": "a", "parentId": "b", "files": [], },],\n}';
+
+    assert.deepEqual((await findConfigIssues(text, async () => true)).map(issue => issue.kind), ['danglingParent']);
+    assert.deepEqual(await findConfigIssues('{ "groups": {} }', async () => false), []);
+    assert.deepEqual(await findConfigIssues('not json', async () => false), []);
+  });
+
+  test('checks a split group file against the other group files of its folder', async () => {
+    const groupFile = (id, parentId, paths) => JSON.stringify(group(id, parentId, paths), null, 2);
+    const others = [groupFile('api'), groupFile('x', 'y'), groupFile('y', 'x'), groupFile('child', 'loop')];
+
+    assert.deepEqual((await findSplitGroupFileIssues(groupFile('api'), others, async () => true)).map(issue => issue.kind), ['duplicateId']);
+    assert.deepEqual((await findSplitGroupFileIssues(groupFile('ui', 'api', ['src/gone.ts']), others, async () => false)).map(issue => [issue.kind, issue.value]), [
+      ['missingPath', 'src/gone.ts']
+    ]);
+    assert.deepEqual((await findSplitGroupFileIssues(groupFile('loop', 'child'), others, async () => true)).map(issue => [issue.kind, issue.value]), [
+      ['parentCycle', 'child']
+    ]);
+    assert.deepEqual((await findSplitGroupFileIssues(groupFile('ui', 'missing'), others, async () => true)).map(issue => issue.kind), ['danglingParent']);
+    assert.deepEqual(await findSplitGroupFileIssues('[]', others, async () => true), []);
+  });
+});
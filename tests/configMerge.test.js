@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { applyMergeChoices, getConflictSide, hasConflictMarkers, mergeGroups } from '../src/configMerge.ts';
+
+const file = (path, extra = {}) => ({ path, name: path.split('/').pop(), ...extra });
+const group = (id, extra = {}) => ({ id, name: id.toUpperCase(), icon: 'folder', color: '', order: 0, files: [], ...extra });
+
+describe('config merge', () => {
+  test('takes changes made on either side to different groups and bookmarks', () => {
+    const base = [group('api', { files: [file('src/a.ts')] }), group('docs')];
+    const ours = [group('api', { files: [file('src/a.ts', { note: 'entry' }), file('src/b.ts')] }), group('docs')];
+    const theirs = [group('api', { name: 'Server', files: [file('src/a.ts')] }), group('docs'), group('tests')];
+
+    const { groups, conflicts } = mergeGroups(base, ours, theirs);
+
+    assert.deepEqual(conflicts, []);
+    assert.deepEqual(groups.map((item) => item.id), ['api', 'docs', 'tests']);
+    assert.equal(groups[0].name, 'Server');
+    assert.deepEqual(groups[0].files, [file('src/a.ts', { note: 'entry' }), file('src/b.ts')]);
+  });
+
+  test('keeps deletions from either side when the other side did not touch the item', () => {
+    const base = [group('api', { files: [file('src/a.ts'), file('src/b.ts')] }), group('docs')];
+    const ours = [group('api', { files: [file('src/a.ts')] }), group('docs')];
+    const theirs = [group('api', { files: [file('src/a.ts'), file('src/b.ts')] })];
+
+    const { groups, conflicts } = mergeGroups(base, ours, theirs);
+
+    assert.deepEqual(conflicts, []);
+    assert.deepEqual(groups, [group('api', { files: [file('src/a.ts')] })]);
+  });
+
+  test('reports changes made differently on both sides and resolves them to theirs', () => {
+    const base = [group('api', { files: [file('src/a.ts')] }), group('docs')];
+    const ours = [group('api', { name: 'Backend', files: [file('src/a.ts', { note: 'mine' })] })];
+    const theirs = [group('api', { name: 'Server', files: [file('src/a.ts', { note: 'theirs' })] }), group('docs', { icon: 'book' })];
+
+    const { groups, conflicts } = mergeGroups(base, ours, theirs);
+
+    assert.deepEqual(conflicts.map((conflict) => [conflict.kind, conflict.groupId]), [['group', 'api'], ['file', 'api'], ['group', 'docs']]);
+    assert.deepEqual(conflicts[0].fields, ['name']);
+    assert.equal(conflicts[2].ours, undefined);
+    assert.equal(groups[0].name, 'Server');
+    assert.equal(groups[0].files[0].note, 'theirs');
+    assert.equal(groups[1].icon, 'book');
+  });
+
+  test('applies the conflicts chosen to keep our side', () => {
+    const base = [group('api', { files: [file('src/a.ts')] }), group('docs')];
+    const ours = [group('api', { name: 'Backend', color: 'red', files: [file('src/a.ts', { note: 'mine' })] })];
+    const theirs = [group('api', { name: 'Server', files: [file('src/a.ts', { note: 'theirs' })] }), group('docs', { icon: 'book' })];
+    const { groups, conflicts } = mergeGroups(base, ours, theirs);
+
+    const merged = applyMergeChoices(groups, conflicts, new Set(conflicts));
+
+    assert.deepEqual(merged, [group('api', { name: 'Backend', color: 'red', files: [file('src/a.ts', { note: 'mine' })] })]);
+    assert.deepEqual(applyMergeChoices(groups, conflicts, new Set()), groups);
+  });
+
+  test('extracts each side of git conflict regions', () => {
+    const text = [
+      '{',
+      '<<<<<<< HEAD',
+      '  "groups": [{ "id": "api" }]',
+      '||||||| base',
+      '  "groups": []',
+      '=======',
+      '  "groups": [{ "id": "docs" }]',
+      '>>>>>>> feature',
+      '}',
+      ''
+    ].join('\n');
+
+    assert.equal(hasConflictMarkers(text), true);
+    assert.equal(getConflictSide(text, 'ours'), '{\n  "groups": [{ "id": "api" }]\n}\n');
+    assert.equal(getConflictSide(text, 'theirs'), '{\n  "groups": [{ "id": "docs" }]\n}\n');
+    assert.equal(getConflictSide(text, 'base'), '{\n  "groups": []\n}\n');
+  });
+
+  test('has no base side without diff3 markers and leaves clean text alone', () => {
+    const text = '{\r\n<<<<<<< HEAD\r\n  "a": 1\r\n=======\r\n  "a": 2\r\n>>>>>>> main\r\n}';
+
+    assert.equal(getConflictSide(text, 'theirs'), '{\r\n  "a": 2\r\n}');
+    assert.equal(getConflictSide(text, 'base'), undefined);
+    assert.equal(hasConflictMarkers('{ "note": "<<<<<<< not a marker" }'), false);
+    assert.equal(getConflictSide('{ "a": 1 }', 'base'), '{ "a": 1 }');
+  });
+});
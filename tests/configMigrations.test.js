@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { CURRENT_CONFIG_VERSION, findUnknownConfigFields, isNewerConfigVersion, migrateConfig } from '../src/configMigrations.ts';
+
+describe('config migrations', () => {
+  test('upgrades version 1 and unversioned configs to the current version', () => {
+    const result = migrateConfig({
+      version: 1,
+      groups: [
+        { id: 'a', name: 'A', files: [{ path: 'src/a.ts', name: 'a.ts' }] },
+        { id: 'b', name: 'B', icon: 'book', order: 7 }
+      ]
+    });
+
+    assert.equal(result.status, 'migrated');
+    assert.equal(result.fromVersion, 1);
+    assert.equal(result.config.version, CURRENT_CONFIG_VERSION);
+    assert.deepEqual(result.config.groups.map(group => [group.icon, group.color, group.order, group.files.length]), [
+      ['folder', '', 0, 1],
+      ['book', '', 7, 0]
+    ]);
+    assert.equal(migrateConfig({ groups: [] }).status, 'migrated');
+  });
+
+  test('leaves current configs as they are and rejects invalid ones', () => {
+    const result = migrateConfig({ version: CURRENT_CONFIG_VERSION, groups: [], hideGlobalGroups: true });
+
+    assert.equal(result.status, 'current');
+    assert.equal(result.config.hideGlobalGroups, true);
+    assert.equal(migrateConfig({ version: 2 }).status, 'invalid');
+    assert.equal(migrateConfig({ version: 'two', groups: [] }).status, 'invalid');
+    assert.equal(migrateConfig(null).status, 'invalid');
+  });
+
+  test('accepts newer configs only when they declare a compatible version', () => {
+    const newer = CURRENT_CONFIG_VERSION + 1;
+
+    assert.deepEqual(migrateConfig({ version: newer, groups: [] }), { status: 'unsupported', fromVersion: newer });
+    assert.equal(migrateConfig({ version: newer, compatibleVersion: newer, groups: [] }).status, 'unsupported');
+
+    const compatible = migrateConfig({ version: newer, compatibleVersion: CURRENT_CONFIG_VERSION, groups: [] });
+    assert.equal(compatible.status, 'newer');
+    assert.equal(compatible.config.version, newer);
+    assert.equal(isNewerConfigVersion(newer), true);
+    assert.equal(isNewerConfigVersion(CURRENT_CONFIG_VERSION), false);
+    assert.equal(isNewerConfigVersion(undefined), false);
+  });
+
+  test('reports fields the current model does not know about', () => {
+    const unknownFields = findUnknownConfigFields({
+      version: 2,
+      workspaceId: 'x',
+      groups: [{
+        id: 'a',
+        name: 'A',
+        icon: 'folder',
+        color: '',
+        order: 0,
+        owner: 'team-api',
+        files: [{ path: 'a.ts', name: 'a.ts', pinned: true, anchors: [{ id: 'n', line: 1, color: 'red' }] }]
+      }],
+      tagQueries: [{ id: 'q', name: 'Q', expression: '#api', shared: true }]
+    });
+
+    assert.deepEqual(unknownFields, [
+      'workspaceId',
+      'groups[0].owner',
+      'groups[0].files[0].pinned',
+      'groups[0].files[0].anchors[0].color',
+      'tagQueries[0].shared'
+    ]);
+  });
+});
@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import {
+  createConfigSnapshotFileName,
+  getConfigSnapshotsToPrune,
+  listConfigSnapshots,
+  parseConfigSnapshotFileName,
+  restoreSnapshotGroup
+} from '../src/configSnapshots.ts';
+
+const createGroup = (id, parentId, name = id) => ({ id, name, icon: 'folder', color: '', order: 0, parentId, files: [] });
+
+describe('config snapshots', () => {
+  test('round-trips the timestamp through a file name that is valid on every platform', () => {
+    const fileName = createConfigSnapshotFileName(new Date('2026-10-19T08:30:05.042Z'));
+
+    assert.equal(fileName, '2026-10-19T08-30-05-042Z.json');
+    assert.doesNotMatch(fileName, /[:<>"|?*]/);
+    assert.deepEqual(parseConfigSnapshotFileName('local', fileName), {
+      scope: 'local',
+      fileName,
+      createdAt: '2026-10-19T08:30:05.042Z'
+    });
+    assert.equal(parseConfigSnapshotFileName('local', 'notes.txt'), undefined);
+  });
+
+  test('lists snapshots newest first and prunes the oldest beyond the limit', () => {
+    const snapshots = listConfigSnapshots('global', [
+      '2026-10-18T10-00-00-000Z.json',
+      '.DS_Store',
+      '2026-10-19T09-00-00-000Z.json',
+      '2026-10-17T23-59-59-999Z.json'
+    ]);
+
+    assert.deepEqual(snapshots.map(snapshot => snapshot.createdAt), [
+      '2026-10-19T09:00:00.000Z',
+      '2026-10-18T10:00:00.000Z',
+      '2026-10-17T23:59:59.999Z'
+    ]);
+    assert.deepEqual(getConfigSnapshotsToPrune(snapshots, 2).map(snapshot => snapshot.fileName), ['2026-10-17T23-59-59-999Z.json']);
+  });
+
+  test('restores a single group in place or as a root group when its parent is gone', () => {
+    const groups = [createGroup('parent'), createGroup('child', 'parent', 'Renamed'), createGroup('other')];
+
+    const replaced = restoreSnapshotGroup(groups, createGroup('child', 'parent', 'Original'));
+    assert.deepEqual(replaced.map(group => `${group.id}:${group.name}`), ['parent:parent', 'child:Original', 'other:other']);
+    assert.equal(replaced[1].parentId, 'parent');
+
+    const added = restoreSnapshotGroup(groups, createGroup('deleted', 'gone'));
+    assert.equal(added.length, 4);
+    assert.equal(added[3].parentId, undefined);
+  });
+});
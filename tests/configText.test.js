@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { parseConfigText, replaceConfigText, updateConfigText } from '../src/configText.ts';
+
+const commented = `{
+  // Shared with the team, keep tidy
+  "version": 2,
+  "groups": [
+    {
+      "id": "api",
+      "name": "API", // renamed in review
+      "files": [
+        { "path": "src/server.ts", "name": "server.ts" },
+      ],
+    },
+    /* legacy screens, remove after launch */
+    {
+      "id": "legacy",
+      "name": "Legacy",
+      "files": []
+    }
+  ],
+  "tagQueries": []
+}
+`;
+
+describe('config text', () => {
+  test('parses comments and trailing commas', () => {
+    const config = parseConfigText(commented);
+
+    assert.equal(config.version, 2);
+    assert.deepEqual(config.groups.map((group) => group.name), ['API', 'Legacy']);
+    assert.throws(() => parseConfigText('{ "version": 2, '), SyntaxError);
+  });
+
+  test('edits only changed values and keeps comments', () => {
+    const config = parseConfigText(commented);
+    config.groups[1].name = 'Old screens';
+
+    const updated = updateConfigText(commented, { version: 2, groups: config.groups });
+
+    assert.equal(updated, commented.replace('"name": "Legacy"', '"name": "Old screens"'));
+  });
+
+  test('inserts and removes groups and keys in place', () => {
+    const config = parseConfigText(commented);
+    const groups = [
+      { ...config.groups[0], pinned: true },
+      { id: 'docs', name: 'Docs', files: [] }
+    ];
+
+    const updated = updateConfigText(commented, { groups, tagQueries: undefined });
+    const parsed = parseConfigText(updated);
+
+    assert.deepEqual(parsed, { version: 2, groups });
+    assert.match(updated, /\/\/ Shared with the team, keep tidy/);
+    assert.match(updated, /\/\/ renamed in review/);
+    assert.doesNotMatch(updated, /"Legacy"/);
+  });
+
+  test('replaces a reordered array and writes malformed or empty files from scratch', () => {
+    const config = parseConfigText(commented);
+    const reordered = [config.groups[1], config.groups[0]];
+
+    assert.deepEqual(parseConfigText(updateConfigText(commented, { groups: reordered })).groups, reordered);
+    assert.equal(updateConfigText('', { version: 2, groups: [] }), JSON.stringify({ version: 2, groups: [] }, null, 2));
+    assert.equal(updateConfigText('{ "version": ', { version: 2 }), JSON.stringify({ version: 2 }, null, 2));
+  });
+
+  test('replaces a whole object, removing keys it no longer has', () => {
+    const text = '{\n  // API group\n  "id": "api",\n  "name": "API",\n  "pinned": true\n}';
+
+    assert.equal(replaceConfigText(text, { id: 'api', name: 'API' }), '{\n  // API group\n  "id": "api",\n  "name": "API"\n}');
+    assert.equal(replaceConfigText('', { id: 'api' }), JSON.stringify({ id: 'api' }, null, 2));
+  });
+
+  test('keeps tab indentation and CRLF line endings for inserted text', () => {
+    const text = '{\r\n\t"version": 2\r\n}';
+
+    assert.equal(updateConfigText(text, { hideGlobalGroups: true }), '{\r\n\t"version": 2,\r\n\t"hideGlobalGroups": true\r\n}');
+  });
+});
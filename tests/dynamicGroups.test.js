@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import {
+  combineGlobPatterns,
+  createGroupFilePatterns,
+  getPersistedDynamicFiles,
+  mergeDynamicGroupFiles,
+  parseGlobPatterns,
+  restoreDynamicGroupFiles
+} from '../src/dynamicGroups.ts';
+
+const createEntry = (filePath) => ({ path: filePath, name: filePath.split('/').pop(), isDirectory: false });
+
+describe('dynamic groups', () => {
+  test('parses glob patterns without splitting brace groups', () => {
+    assert.deepEqual(parseGlobPatterns('src/**/auth/**\n  *.{ts,tsx} ; src\\legacy\\**\n\nsrc/**/auth/**'), [
+      'src/**/auth/**',
+      '*.{ts,tsx}',
+      'src/legacy/**'
+    ]);
+    assert.deepEqual(createGroupFilePatterns('src/**/auth/**', '*.test.ts'), {
+      include: ['src/**/auth/**'],
+      exclude: ['*.test.ts']
+    });
+    assert.deepEqual(createGroupFilePatterns('src/**', ' '), { include: ['src/**'] });
+    assert.equal(createGroupFilePatterns('  ', '*.test.ts'), undefined);
+  });
+
+  test('combines patterns and matches slash-free patterns at any depth', () => {
+    assert.equal(combineGlobPatterns(['src/**/auth/**']), 'src/**/auth/**');
+    assert.equal(combineGlobPatterns(['./docs/*.md', '*.test.ts']), '{docs/*.md,**/*.test.ts}');
+    assert.equal(combineGlobPatterns([]), undefined);
+    assert.equal(combineGlobPatterns(undefined), undefined);
+  });
+
+  test('merges live matches while keeping bookmark metadata', () => {
+    const existing = [
+      { path: '/repo/src/auth/login.ts', name: 'login.ts', note: 'Entry point' },
+      { path: '/repo/src/auth/old.ts', name: 'old.ts' }
+    ];
+
+    const merge = mergeDynamicGroupFiles(existing, ['/repo/src/auth/token.ts', '/repo/src/auth/login.ts'], createEntry);
+
+    assert.equal(merge.changed, true);
+    assert.deepEqual(merge.files.map(file => file.path), ['/repo/src/auth/login.ts', '/repo/src/auth/token.ts']);
+    assert.equal(merge.files[0], existing[0]);
+
+    const unchanged = mergeDynamicGroupFiles(merge.files, ['/repo/src/auth/login.ts', '/repo/src/auth/token.ts'], createEntry);
+    assert.equal(unchanged.changed, false);
+  });
+
+  test('persists only annotated matches and restores computed files on reload', () => {
+    const files = [
+      { path: '/repo/a.ts', name: 'a.ts', tags: [] },
+      { path: '/repo/b.ts', name: 'b.ts', tags: ['auth'] },
+      { path: '/repo/c.ts', name: 'c.ts', anchors: [{ id: 'x', line: 3 }] }
+    ];
+
+    const persisted = getPersistedDynamicFiles(files);
+    assert.deepEqual(persisted.map(file => file.path), ['/repo/b.ts', '/repo/c.ts']);
+
+    const restored = restoreDynamicGroupFiles(persisted, files);
+    assert.deepEqual(restored.map(file => file.path), ['/repo/a.ts', '/repo/b.ts', '/repo/c.ts']);
+    assert.deepEqual(restored[1].tags, ['auth']);
+  });
+});
@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import {
+  compactEditorLayoutColumns,
+  filterEditorLayout,
+  getEditorLayoutRestoreOrder,
+  mapEditorLayoutPaths,
+  removeEditorLayoutPath,
+  renameEditorLayoutPath
+} from '../src/editorLayouts.ts';
+import { renameGroupedFilePath } from '../src/groupFileMaintenance.ts';
+
+const layout = {
+  tabs: [
+    { path: '/repo/src/a.ts', column: 1, active: true },
+    { path: '/repo/src/b.ts', column: 3, pinned: true },
+    { path: '/repo/src/c.ts', column: 3, active: true }
+  ],
+  activeColumn: 3
+};
+
+describe('editor layouts', () => {
+  test('closes gaps between columns', () => {
+    const compacted = compactEditorLayoutColumns(layout);
+
+    assert.deepEqual(compacted.tabs.map((tab) => tab.column), [1, 2, 2]);
+    assert.equal(compacted.activeColumn, 2);
+  });
+
+  test('restores tabs column by column and the focused column last', () => {
+    const { tabs, activeTabs } = getEditorLayoutRestoreOrder({ ...layout, activeColumn: 1 });
+
+    assert.deepEqual(tabs.map((tab) => tab.path), ['/repo/src/a.ts', '/repo/src/b.ts', '/repo/src/c.ts']);
+    assert.deepEqual(activeTabs.map((tab) => tab.path), ['/repo/src/c.ts', '/repo/src/a.ts']);
+  });
+
+  test('maps, filters, renames and removes tab paths', () => {
+    const relative = mapEditorLayoutPaths(layout, (filePath) => filePath.replace('/repo/', ''));
+
+    assert.deepEqual(relative.tabs.map((tab) => tab.path), ['src/a.ts', 'src/b.ts', 'src/c.ts']);
+    assert.deepEqual(filterEditorLayout(layout, new Set(['/repo/src/b.ts'])).tabs, [layout.tabs[1]]);
+    assert.equal(filterEditorLayout(layout, new Set()), undefined);
+    assert.equal(renameEditorLayoutPath(layout, '/repo/src/a.ts', '/repo/src/main.ts').tabs[0].path, '/repo/src/main.ts');
+    assert.equal(removeEditorLayoutPath(layout, '/repo/src/a.ts').tabs.length, 2);
+  });
+
+  test('follows renamed group files', () => {
+    const groups = [{ id: 'api', name: 'API', icon: 'folder', color: '', order: 0, files: [{ path: '/repo/src/a.ts', name: 'a.ts' }], layout }];
+
+    renameGroupedFilePath(groups, '/repo/src/a.ts', '/repo/src/main.ts');
+
+    assert.equal(groups[0].layout.tabs[0].path, '/repo/src/main.ts');
+  });
+});
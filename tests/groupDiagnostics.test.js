@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import * as path from 'node:path';
+import { describe, test } from 'node:test';
+import { countDiagnostics, indexDiagnostics, isCoveredByBookmarks, listGroupProblems, selectBookmarkDiagnostics } from '../src/groupDiagnostics.ts';
+
+const root = path.resolve('repo');
+const cart = path.join(root, 'src', 'cart.ts');
+const payment = path.join(root, 'src', 'checkout', 'payment.ts');
+const other = path.join(root, 'src', 'other.ts');
+const checkoutFolder = path.join(root, 'src', 'checkout');
+
+const diagnostic = (severity, line, message = `problem at ${line}`) => ({
+  severity, message, line, character: 2, endLine: line, endCharacter: 8
+});
+
+const entries = [
+  [other, [diagnostic(0, 1)]],
+  [payment, [diagnostic(1, 9), diagnostic(0, 4)]],
+  [cart, [diagnostic(1, 3), diagnostic(2, 1), diagnostic(0, 7)]]
+];
+
+describe('group diagnostics', () => {
+  test('selects bookmarked files and files inside bookmarked folders in bookmark order', () => {
+    const bookmarks = [
+      { path: cart },
+      { path: checkoutFolder, isDirectory: true },
+      { path: path.join(root, 'src', 'cart.ts') }
+    ];
+
+    assert.deepEqual(selectBookmarkDiagnostics(indexDiagnostics(entries), bookmarks).map(([filePath]) => filePath), [cart, payment]);
+    assert.equal(isCoveredByBookmarks(payment, bookmarks), true);
+    assert.equal(isCoveredByBookmarks(other, bookmarks), false);
+    assert.equal(isCoveredByBookmarks(`${checkoutFolder}-old.ts`, bookmarks), false);
+  });
+
+  test('counts errors and warnings but not information or hints', () => {
+    assert.deepEqual(countDiagnostics(entries), { errors: 3, warnings: 2 });
+    assert.deepEqual(countDiagnostics([]), { errors: 0, warnings: 0 });
+  });
+
+  test('lists problems by severity, then file order, then position', () => {
+    const selected = selectBookmarkDiagnostics(indexDiagnostics(entries), [{ path: cart }, { path: payment }]);
+    const problems = listGroupProblems(selected);
+
+    assert.deepEqual(
+      problems.map(problem => [path.basename(problem.filePath), problem.severity, problem.line]),
+      [
+        ['cart.ts', 0, 7],
+        ['payment.ts', 0, 4],
+        ['cart.ts', 1, 3],
+        ['payment.ts', 1, 9],
+        ['cart.ts', 2, 1]
+      ]
+    );
+    assert.equal(new Set(problems.map(problem => problem.id)).size, problems.length);
+    assert.equal(listGroupProblems(selected, 2).length, 2);
+  });
+});
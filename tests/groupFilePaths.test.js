@@ -1,7 +1,7 @@
 import assert from 'node:assert/strict';
 import * as path from 'node:path';
 import { describe, test } from 'node:test';
-import { buildGroupFilePathsText, collectGroupFilePaths } from '../src/groupFilePaths.ts';
+import { buildGroupFilePathsText, buildGroupPath, buildSearchIncludePattern, collectGroupFilePaths, findGroupsContainingFile } from '../src/groupFilePaths.ts';
 
 describe('copy group file paths', () => {
   test('includes subgroup files in deterministic depth-first order', () => {
@@ -84,4 +84,54 @@ describe('copy group file paths', () => {
       [rootFile, childFile]
     );
   });
+
+  test('finds the groups bookmarking a file with their full group paths', () => {
+    const file = path.resolve('repo', 'api.ts');
+    const groups = [
+      {
+        id: 'docs', name: 'Docs', icon: 'book', color: '', order: 2,
+        files: [{ path: path.join(path.resolve('repo'), '.', 'api.ts'), name: 'api.ts' }]
+      },
+      { id: 'backend', name: 'Backend', icon: 'server', color: '', order: 0, files: [] },
+      {
+        id: 'api', name: 'API', icon: 'rocket', color: '', order: 1, parentId: 'backend',
+        files: [{ path: file, name: 'api.ts' }]
+      },
+      {
+        id: 'folders', name: 'Folders', icon: 'folder', color: '', order: 3,
+        files: [{ path: file, name: 'api.ts', isDirectory: true }]
+      }
+    ];
+    const groupsById = new Map(groups.map(group => [group.id, group]));
+
+    const found = findGroupsContainingFile(groups, file);
+    assert.deepEqual(found.map(group => group.id), ['api', 'docs']);
+    assert.equal(buildGroupPath(found[0], groupsById), 'Backend\\API\\');
+  });
+
+  test('builds a Search view include pattern from files and folder bookmarks', () => {
+    const root = path.resolve('repo');
+    const folder = path.join(root, 'src', 'checkout');
+    const file = path.join(root, 'src', '[id]', 'page,old.tsx');
+    const outside = path.resolve('elsewhere', 'notes.md');
+    const groups = [
+      {
+        id: 'root', name: 'Root', icon: 'folder', color: '', order: 0,
+        files: [
+          { path: folder, name: 'checkout', isDirectory: true },
+          { path: file, name: 'page,old.tsx' },
+          { path: outside, name: 'notes.md' }
+        ]
+      }
+    ];
+
+    const paths = collectGroupFilePaths('root', groups, () => true, { includeDirectories: true });
+    assert.deepEqual(paths, [folder, file, outside]);
+
+    const toRelativePath = (filePath) => filePath.startsWith(root + path.sep) ? path.relative(root, filePath) : undefined;
+    assert.equal(
+      buildSearchIncludePattern(paths, toRelativePath),
+      `./src/checkout, ./src/[[]id]/page[,]old.tsx, ${outside.split(path.sep).join('/')}`
+    );
+  });
 });
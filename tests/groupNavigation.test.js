@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { buildGroupNavigationStops, getAdjacentNavigationStop } from '../src/groupNavigation.ts';
+
+const file = (filePath, anchors) => ({ path: filePath, name: filePath.split('/').pop(), anchors });
+
+const sections = [
+  {
+    groupId: 'checkout',
+    files: [
+      file('/repo/routes.ts'),
+      { path: '/repo/views', name: 'views', isDirectory: true },
+      file('/repo/cart.ts', [
+        { id: 'total', line: 40 },
+        { id: 'add', line: 12 }
+      ])
+    ]
+  },
+  {
+    groupId: 'payments',
+    files: [file('/repo/stripe.ts')]
+  }
+];
+
+describe('group navigation', () => {
+  test('visits files in order, anchors in document order and skips folders', () => {
+    assert.deepEqual(buildGroupNavigationStops(sections), [
+      { groupId: 'checkout', filePath: '/repo/routes.ts' },
+      { groupId: 'checkout', filePath: '/repo/cart.ts', anchorId: 'add', line: 12 },
+      { groupId: 'checkout', filePath: '/repo/cart.ts', anchorId: 'total', line: 40 },
+      { groupId: 'payments', filePath: '/repo/stripe.ts' }
+    ]);
+  });
+
+  test('steps from file to file and wraps around at either end', () => {
+    const stops = buildGroupNavigationStops(sections);
+
+    assert.equal(getAdjacentNavigationStop(stops, { filePath: '/repo/routes.ts', line: 0 }, 1), 1);
+    assert.equal(getAdjacentNavigationStop(stops, { filePath: '/repo/stripe.ts', line: 0 }, 1), 0);
+    assert.equal(getAdjacentNavigationStop(stops, { filePath: '/repo/routes.ts', line: 0 }, -1), 3);
+    assert.equal(getAdjacentNavigationStop(stops, { filePath: '/repo/stripe.ts', line: 0 }, -1), 2);
+  });
+
+  test('uses the cursor line to pick the next or previous anchor in the file', () => {
+    const stops = buildGroupNavigationStops(sections);
+
+    assert.equal(getAdjacentNavigationStop(stops, { filePath: '/repo/cart.ts', line: 0 }, 1), 1);
+    assert.equal(getAdjacentNavigationStop(stops, { filePath: '/repo/cart.ts', line: 12 }, 1), 2);
+    assert.equal(getAdjacentNavigationStop(stops, { filePath: '/repo/cart.ts', line: 40 }, 1), 3);
+    assert.equal(getAdjacentNavigationStop(stops, { filePath: '/repo/cart.ts', line: 40 }, -1), 1);
+    assert.equal(getAdjacentNavigationStop(stops, { filePath: '/repo/cart.ts', line: 12 }, -1), 0);
+    assert.equal(getAdjacentNavigationStop(stops, { filePath: '/repo/cart.ts', line: 90 }, -1), 2);
+  });
+
+  test('starts at the first or last stop outside the group and handles empty groups', () => {
+    const stops = buildGroupNavigationStops(sections);
+
+    assert.equal(getAdjacentNavigationStop(stops, undefined, 1), 0);
+    assert.equal(getAdjacentNavigationStop(stops, { filePath: '/elsewhere.ts', line: 3 }, -1), 3);
+    assert.equal(getAdjacentNavigationStop([], { filePath: '/repo/routes.ts', line: 0 }, 1), undefined);
+  });
+
+  test('continues from the stop last stepped to when a file is listed twice', () => {
+    const stops = buildGroupNavigationStops([
+      { groupId: 'checkout', files: [file('/repo/routes.ts'), file('/repo/cart.ts')] },
+      { groupId: 'checkout-ui', files: [file('/repo/routes.ts'), file('/repo/view.ts')] }
+    ]);
+
+    assert.equal(getAdjacentNavigationStop(stops, { filePath: '/repo/routes.ts', line: 0 }, 1), 1);
+    assert.equal(getAdjacentNavigationStop(stops, { filePath: '/repo/routes.ts', line: 0, stopIndex: 2 }, 1), 3);
+    assert.equal(getAdjacentNavigationStop(stops, { filePath: '/repo/routes.ts', line: 0, stopIndex: 2 }, -1), 1);
+    assert.equal(getAdjacentNavigationStop(stops, { filePath: '/repo/routes.ts', line: 0, stopIndex: 1 }, 1), 1);
+  });
+
+  test('compares paths with the given matcher', () => {
+    const stops = buildGroupNavigationStops(sections);
+    const isSamePath = (left, right) => left.toLowerCase() === right.toLowerCase();
+
+    assert.equal(getAdjacentNavigationStop(stops, { filePath: '/REPO/Routes.ts', line: 0 }, 1, isSamePath), 1);
+  });
+});
@@ -47,7 +47,46 @@ describe('runtime translations', () => {
       'tags.placeholder',
       'tags.updated',
       'editor.tags.label',
-      'editor.tags.hint'
+      'editor.tags.hint',
+      'note.file.prompt',
+      'note.updated',
+      'editor.actions.saveNote',
+      'editor.status.noteSaved',
+      'search.query.prompt',
+      'search.query.invalidRegex',
+      'tree.section.tagQueries',
+      'tagQuery.expression.prompt',
+      'tree.section.trash',
+      'trash.purge.confirm',
+      'action.undo',
+      'undo.groupDeleted',
+      'snapshot.action.restoreAll',
+      'snapshot.restore.confirm',
+      'config.newerVersion',
+      'config.unknownFields',
+      'configIssue.danglingParent',
+      'configIssue.parentCycle',
+      'tree.section.workspaceFolder',
+      'storageLayout.split',
+      'storageLayout.switched',
+      'merge.conflicts',
+      'merge.keepMine',
+      'groupActions.private.label',
+      'group.accessibility.private',
+      'layout.saved',
+      'groupActions.layout.label',
+      'focus.pick',
+      'focus.keptDirty',
+      'tree.section.session',
+      'session.tooltip',
+      'statusBar.none',
+      'statusBar.action.setCurrent',
+      'navigation.pick',
+      'navigation.empty',
+      'groupSearch.pick',
+      'groupSearch.title',
+      'tree.section.problems',
+      'problems.none'
     ];
 
     for (const language of languages) {
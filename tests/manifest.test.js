@@ -72,3 +72,24 @@ test('includes a first-install walkthrough with current screenshots', async () =
   assert.match(extensionSource, /#codegroup\.gettingStarted/);
   assert.match(providerSource, /command: 'fileGroups\.openGettingStarted'/);
 });
+
+test('validates config files against schemas that list every group icon and color', async () => {
+  const packageJson = JSON.parse(await readFile(new URL('../package.json', import.meta.url), 'utf8'));
+  const modelsSource = await readFile(new URL('../src/models.ts', import.meta.url), 'utf8');
+  const readIds = name => {
+    const block = modelsSource.slice(modelsSource.indexOf(`export const ${name}`));
+    return [...block.slice(0, block.indexOf('];')).matchAll(/\{ id: '([^']*)'/g)].map(match => match[1]);
+  };
+
+  for (const { url } of packageJson.contributes.jsonValidation) {
+    const schema = JSON.parse(await readFile(new URL(url, new URL('../', import.meta.url)), 'utf8'));
+    // The split layout index holds settings and the group order, no groups
+    if (url === './schemas/split-index.schema.json') {
+      assert.equal(schema.definitions, undefined);
+      assert.deepEqual(schema.properties.order.items, { type: 'string', minLength: 1 });
+      continue;
+    }
+    assert.deepEqual(schema.definitions.icon.anyOf[0].enum, readIds('GROUP_ICONS'));
+    assert.deepEqual(schema.definitions.color.anyOf[0].enum, readIds('GROUP_COLORS').filter(id => id !== 'custom'));
+  }
+});
@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { applyPersonalOverlay, isPrivateGroup, splitPersonalOverlay, withViewState } from '../src/personalOverlay.ts';
+
+const group = (id, extra = {}) => ({ id, name: id, icon: 'folder', color: '', order: 0, files: [], ...extra });
+
+describe('personal overlay', () => {
+  test('treats subgroups of a private group as private', () => {
+    const groups = [group('notes', { isPrivate: true }), group('drafts', { parentId: 'notes' }), group('api')];
+    const groupsById = new Map(groups.map((item) => [item.id, item]));
+
+    assert.deepEqual(groups.map((item) => isPrivateGroup(item, groupsById)), [true, true, false]);
+  });
+
+  test('keeps view state and private groups out of the team config', () => {
+    const teamViewState = new Map([['api', { collapsed: false, sortOrder: 'name-asc' }]]);
+    const groups = [
+      group('api', { collapsed: true, pinned: false, sortOrder: 'name-asc' }),
+      group('docs', { pinned: true }),
+      group('notes', { isPrivate: true, collapsed: true })
+    ];
+
+    const { sharedGroups, overlay } = splitPersonalOverlay(groups, teamViewState);
+
+    assert.deepEqual(sharedGroups, [group('api', { collapsed: false, sortOrder: 'name-asc' }), group('docs')]);
+    assert.deepEqual(overlay.viewState, { api: { collapsed: true }, docs: { pinned: true } });
+    assert.deepEqual(overlay.privateGroups, [groups[2]]);
+  });
+
+  test('lays the overlay over the team groups', () => {
+    const overlay = {
+      viewState: { api: { collapsed: true } },
+      privateGroups: [group('notes', { isPrivate: true }), group('api', { isPrivate: true })]
+    };
+
+    const groups = applyPersonalOverlay([group('api', { collapsed: false, pinned: true })], overlay);
+
+    assert.deepEqual(groups, [group('api', { collapsed: true, pinned: true }), group('notes', { isPrivate: true })]);
+  });
+
+  test('round-trips the user view state through a save and load', () => {
+    const teamGroups = [group('api', { pinned: true })];
+    const local = [withViewState(teamGroups[0], { pinned: false, collapsed: true })];
+
+    const { sharedGroups, overlay } = splitPersonalOverlay(local, new Map([['api', { pinned: true }]]));
+
+    assert.deepEqual(sharedGroups, teamGroups);
+    assert.deepEqual(applyPersonalOverlay(sharedGroups, overlay), local);
+  });
+});
@@ -1,7 +1,18 @@
 import assert from 'node:assert/strict';
 import * as path from 'node:path';
 import { describe, test } from 'node:test';
-import { buildGroupTrail, buildGroupedFileQuickOpenSections, makeRecentGroupFileKey, normalizeRecentGroupFileKeys } from '../src/quickOpen.ts';
+import {
+  buildGroupTrail,
+  buildGroupedFileQuickOpenSections,
+  filterGroupedFileQuickOpenItems,
+  getFrecencyScore,
+  makeRecentGroupFileKey,
+  migrateRecentGroupFileKeys,
+  normalizeRecentGroupFileKeys,
+  parseQuickOpenQuery,
+  recordFrecencyVisit,
+  scoreFuzzyMatch
+} from '../src/quickOpen.ts';
 
 describe('quick open helpers', () => {
   test('builds nested group trails from parent relationships', () => {
@@ -46,11 +57,11 @@ describe('quick open helpers', () => {
       order: 0
     }];
 
-    const { otherItems } = buildGroupedFileQuickOpenSections(groups, [], workspaceRoot);
+    const { otherItems } = buildGroupedFileQuickOpenSections(groups, {}, workspaceRoot);
     assert.match(otherItems[0]?.detail ?? '', /^\.\.config[\\/]app\.json$/);
   });
 
-  test('prioritizes recent grouped files and hides directories from quick open', () => {
+  test('prioritizes frequently opened grouped files and hides directories from quick open', () => {
     const groups = [
       {
         id: 'root',
@@ -60,7 +71,7 @@ describe('quick open helpers', () => {
         shortDescription: 'Service endpoints',
         tags: ['backend'],
         files: [
-          { path: 'c:/repo/src/api.ts', name: 'api.ts', tags: ['urgent'] },
+          { path: 'c:/repo/src/api.ts', name: 'api.ts', tags: ['urgent'], note: 'Entry point for the\n**billing** migration' },
           { path: 'c:/repo/src/feature', name: 'feature', isDirectory: true }
         ],
         order: 0,
@@ -79,8 +90,9 @@ describe('quick open helpers', () => {
       }
     ];
 
-    const recentKey = makeRecentGroupFileKey('child', 'c:/repo/README.md');
-    const { recentItems, otherItems } = buildGroupedFileQuickOpenSections(groups, [recentKey], 'c:/repo');
+    const now = new Date('2026-03-02T09:00:00.000Z');
+    const frecency = recordFrecencyVisit({}, makeRecentGroupFileKey('child', 'c:/repo/README.md'), now);
+    const { recentItems, otherItems } = buildGroupedFileQuickOpenSections(groups, frecency, 'c:/repo', now);
 
     assert.deepEqual(recentItems.map(item => item.fileName), ['README.md']);
     assert.match(recentItems[0]?.detail ?? '', /README\.md/);
@@ -89,5 +101,100 @@ describe('quick open helpers', () => {
     assert.match(otherItems[0]?.detail ?? '', /src[\\/]api\.ts/);
     assert.match(otherItems[0]?.detail ?? '', /Service endpoints/);
     assert.match(otherItems[0]?.detail ?? '', /#backend #urgent/);
+    assert.match(otherItems[0]?.detail ?? '', /Entry point for the \*\*billing\*\* migration/);
+  });
+
+  test('ranks frequent visits above a single recent one and fades old visits', () => {
+    const now = new Date('2026-03-02T09:00:00.000Z');
+    const lastWeek = new Date('2026-02-25T09:00:00.000Z');
+    let store = recordFrecencyVisit({}, 'often', lastWeek);
+    store = recordFrecencyVisit(store, 'often', lastWeek);
+    store = recordFrecencyVisit(store, 'once', now);
+
+    assert.equal(store.often.count, 2);
+    assert.ok(getFrecencyScore(store.often, now) > getFrecencyScore(store.once, now));
+    assert.ok(getFrecencyScore(store.once, new Date('2026-09-01T00:00:00.000Z')) < getFrecencyScore(store.once, now));
+    assert.equal(getFrecencyScore(undefined, now), 0);
+  });
+
+  test('drops the lowest scoring entries beyond the limit but keeps the new visit', () => {
+    const now = new Date('2026-03-02T09:00:00.000Z');
+    let store = recordFrecencyVisit({}, 'a', now);
+    store = recordFrecencyVisit(store, 'a', now);
+    store = recordFrecencyVisit(store, 'b', now);
+    store = recordFrecencyVisit(store, 'c', now, 2);
+
+    assert.deepEqual(Object.keys(store).sort(), ['a', 'c']);
+  });
+
+  test('seeds frecency from the recent list of earlier versions in order', () => {
+    const now = new Date('2026-03-02T09:00:00.000Z');
+    const store = migrateRecentGroupFileKeys(['first', 'second', 'first'], now);
+
+    assert.deepEqual(Object.keys(store), ['first', 'second']);
+    assert.ok(store.first.lastOpenedAt > store.second.lastOpenedAt);
+  });
+
+  test('puts files of pinned groups first among equally frequent files', () => {
+    const groups = [
+      { id: 'plain', name: 'Plain', icon: '', color: '', files: [{ path: '/repo/a.ts', name: 'a.ts' }], order: 0 },
+      { id: 'pinned', name: 'Pinned', icon: '', color: '', files: [{ path: '/repo/b.ts', name: 'b.ts' }], order: 1, pinned: true }
+    ];
+    const now = new Date('2026-03-02T09:00:00.000Z');
+    let frecency = recordFrecencyVisit({}, makeRecentGroupFileKey('plain', '/repo/a.ts'), now);
+    frecency = recordFrecencyVisit(frecency, makeRecentGroupFileKey('pinned', '/repo/b.ts'), now);
+
+    const { recentItems } = buildGroupedFileQuickOpenSections(groups, frecency, '/repo', now);
+    assert.deepEqual(recentItems.map(item => item.fileName), ['b.ts', 'a.ts']);
+  });
+
+  test('parses #tag and group: filters out of the query', () => {
+    assert.deepEqual(parseQuickOpenQuery('#API group:"Billing API" handler group:auth #'), {
+      terms: ['handler'],
+      tags: ['api'],
+      groups: ['Billing API', 'auth']
+    });
+  });
+
+  test('scores substrings and word starts above scattered characters', () => {
+    assert.equal(scoreFuzzyMatch('xyz', 'userService.ts'), undefined);
+    assert.ok(scoreFuzzyMatch('us', 'userService.ts') > scoreFuzzyMatch('us', 'status.ts'));
+    assert.ok(scoreFuzzyMatch('usvc', 'userService.ts') > 0);
+    assert.ok(scoreFuzzyMatch('service', 'userService.ts') > scoreFuzzyMatch('usvc', 'userService.ts'));
+  });
+
+  test('filters by tags, group trail and fuzzy terms, nudged by frecency', () => {
+    const groups = [
+      {
+        id: 'billing',
+        name: 'Billing',
+        icon: '',
+        color: '',
+        tags: ['api'],
+        files: [{ path: '/repo/src/invoiceHandler.ts', name: 'invoiceHandler.ts' }, { path: '/repo/src/invoiceView.ts', name: 'invoiceView.ts' }],
+        order: 0
+      },
+      {
+        id: 'auth',
+        name: 'Auth',
+        icon: '',
+        color: '',
+        files: [{ path: '/repo/src/loginHandler.ts', name: 'loginHandler.ts', tags: ['api'] }],
+        order: 1
+      }
+    ];
+    const now = new Date('2026-03-02T09:00:00.000Z');
+    const frecency = recordFrecencyVisit({}, makeRecentGroupFileKey('billing', '/repo/src/invoiceView.ts'), now);
+    const { recentItems, otherItems } = buildGroupedFileQuickOpenSections(groups, frecency, '/repo', now);
+    const items = [...recentItems, ...otherItems];
+    const names = query => filterGroupedFileQuickOpenItems(items, parseQuickOpenQuery(query)).map(item => item.fileName);
+
+    assert.deepEqual(names('#api handler'), ['loginHandler.ts', 'invoiceHandler.ts']);
+    assert.deepEqual(names('group:auth #api'), ['loginHandler.ts']);
+    assert.deepEqual(names('group:BILL'), ['invoiceView.ts', 'invoiceHandler.ts']);
+    assert.deepEqual(names('group:blng'), []);
+    assert.deepEqual(names('invoice'), ['invoiceView.ts', 'invoiceHandler.ts']);
+    assert.deepEqual(names('billing'), ['invoiceView.ts', 'invoiceHandler.ts']);
+    assert.deepEqual(names('#missing'), []);
   });
 });
@@ -0,0 +1,115 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import {
+  createSearchMatcher,
+  findSearchMatchLines,
+  findSearchMatches,
+  formatSearchQuery,
+  getSearchGroupExcludePatterns,
+  getSearchQueryError,
+  mergeSearchGroupFiles,
+  parseSearchQueryInput,
+  updateSearchGroupFile
+} from '../src/searchGroups.ts';
+import { getPersistedDynamicFiles, isDynamicGroup, restoreDynamicGroupFiles } from '../src/dynamicGroups.ts';
+
+const createEntry = (filePath) => ({ path: filePath, name: filePath.split('/').pop(), isDirectory: false });
+
+describe('search groups', () => {
+  test('escapes plain text queries and honours match case', () => {
+    const text = 'const a = foo.bar();\nFOO.BAR\nfooxbar';
+    assert.equal(findSearchMatches(text, createSearchMatcher({ query: 'foo.bar' })).count, 2);
+    assert.equal(findSearchMatches(text, createSearchMatcher({ query: 'foo.bar', matchCase: true })).count, 1);
+    assert.equal(findSearchMatches(text, createSearchMatcher({ query: 'foo.bar', isRegex: true, matchCase: true })).count, 2);
+  });
+
+  test('rejects empty queries and invalid regular expressions', () => {
+    assert.equal(createSearchMatcher({ query: '' }), undefined);
+    assert.equal(createSearchMatcher({ query: '(unclosed', isRegex: true }), undefined);
+    assert.ok(getSearchQueryError({ query: '(unclosed', isRegex: true }));
+    assert.equal(getSearchQueryError({ query: '(unclosed' }), undefined);
+    assert.equal(getSearchQueryError({ query: 'FeatureFlag\\.(Checkout|Billing)', isRegex: true }), undefined);
+  });
+
+  test('counts matches and locates the first one', () => {
+    const text = 'import x;\n\n  // @deprecated use y\n/** @deprecated */';
+    assert.deepEqual(findSearchMatches(text, createSearchMatcher({ query: '@deprecated' })), {
+      count: 2,
+      line: 2,
+      character: 5
+    });
+    assert.equal(findSearchMatches(text, createSearchMatcher({ query: 'TODO' })), undefined);
+    assert.equal(findSearchMatches('abc', createSearchMatcher({ query: 'x*', isRegex: true })).count, 4);
+  });
+
+  test('merges matches while keeping bookmark metadata and refreshing counts', () => {
+    const noted = { ...createEntry('/w/a.ts'), note: 'Check flag', searchMatch: { count: 1, line: 0, character: 0 } };
+    const stale = { ...createEntry('/w/b.ts'), searchMatch: { count: 1, line: 3, character: 2 } };
+
+    const unchanged = mergeSearchGroupFiles([noted], new Map([['/w/a.ts', { count: 1, line: 0, character: 0 }]]), createEntry);
+    assert.equal(unchanged.changed, false);
+    assert.equal(unchanged.files[0], noted);
+
+    const merge = mergeSearchGroupFiles([noted, stale], new Map([
+      ['/w/a.ts', { count: 3, line: 4, character: 1 }],
+      ['/w/c.ts', { count: 1, line: 0, character: 0 }]
+    ]), createEntry);
+    assert.equal(merge.changed, true);
+    assert.deepEqual(merge.files.map(file => [file.path, file.searchMatch.count]), [['/w/a.ts', 3], ['/w/c.ts', 1]]);
+    assert.equal(merge.files[0].note, 'Check flag');
+  });
+
+  test('persists queries but not computed match counts', () => {
+    assert.equal(isDynamicGroup({ search: { query: 'TODO' } }), true);
+    assert.equal(isDynamicGroup({ search: { query: '' } }), false);
+
+    const files = [{ ...createEntry('/w/a.ts'), note: 'Check', searchMatch: { count: 2, line: 1, character: 0 } }];
+    const persisted = getPersistedDynamicFiles(files);
+    assert.equal('searchMatch' in persisted[0], false);
+    assert.deepEqual(restoreDynamicGroupFiles(persisted, files)[0].searchMatch, files[0].searchMatch);
+  });
+
+  test('formats queries for tree descriptions', () => {
+    assert.equal(formatSearchQuery({ query: '@deprecated' }), '"@deprecated"');
+    assert.equal(formatSearchQuery({ query: 'Flag\\.\\w+', isRegex: true }), '/Flag\\.\\w+/i');
+    assert.equal(formatSearchQuery({ query: 'Flag', isRegex: true, matchCase: true }), '/Flag/');
+  });
+
+  test('lists matching lines with their first match for group content search', () => {
+    const text = '  import { api } from "./api";\r\nconst x = 1;\n\tcallApi(api, API);';
+    assert.deepEqual(findSearchMatchLines(text, createSearchMatcher({ query: 'api' })), [
+      { line: 0, character: 11, length: 3, preview: 'import { api } from "./api";' },
+      { line: 2, character: 5, length: 3, preview: 'callApi(api, API);' }
+    ]);
+    assert.equal(findSearchMatchLines(text, createSearchMatcher({ query: 'api' }), 1).length, 1);
+  });
+
+  test('reads /regex/ input the way queries are formatted', () => {
+    assert.deepEqual(parseSearchQueryInput('/foo\\d+/'), { query: 'foo\\d+', isRegex: true, matchCase: true });
+    assert.deepEqual(parseSearchQueryInput('/foo/i'), { query: 'foo', isRegex: true, matchCase: false });
+    assert.deepEqual(parseSearchQueryInput('a/b'), { query: 'a/b' });
+    assert.equal(formatSearchQuery(parseSearchQueryInput('/foo/i')), '/foo/i');
+  });
+
+  test('skips search.exclude entries unless the group has excludes of its own', () => {
+    const setting = { '**/node_modules': true, '**/dist': true, '**/*.js': { when: '$(basename).ts' }, '**/bower_components': false };
+
+    assert.deepEqual(getSearchGroupExcludePatterns({ query: 'x' }, setting), ['**/node_modules', '**/dist']);
+    assert.deepEqual(getSearchGroupExcludePatterns({ query: 'x', exclude: ['vendor/**'] }, setting), ['vendor/**']);
+    assert.deepEqual(getSearchGroupExcludePatterns({ query: 'x' }, undefined), []);
+  });
+
+  test('updates only the saved file of a search group', () => {
+    const match = { count: 2, line: 4, character: 1 };
+    const files = [
+      { path: '/repo/a.ts', name: 'a.ts', note: 'keep', searchMatch: { count: 1, line: 0, character: 0 } },
+      { path: '/repo/b.ts', name: 'b.ts', searchMatch: { count: 1, line: 0, character: 0 } }
+    ];
+
+    assert.deepEqual(updateSearchGroupFile(files, '/repo/a.ts', match, createEntry)[0], { ...files[0], searchMatch: match });
+    assert.deepEqual(updateSearchGroupFile(files, '/repo/b.ts', undefined, createEntry).map(file => file.path), ['/repo/a.ts']);
+    assert.deepEqual(updateSearchGroupFile(files, '/repo/c.ts', match, createEntry)[2], { ...createEntry('/repo/c.ts'), searchMatch: match });
+    assert.equal(updateSearchGroupFile(files, '/repo/c.ts', undefined, createEntry), undefined);
+    assert.equal(updateSearchGroupFile(files, '/repo/b.ts', { count: 1, line: 0, character: 0 }, createEntry), undefined);
+  });
+});
@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import {
+  MAX_SESSION_FILES,
+  SESSION_IDLE_GAP_MS,
+  getSessionFilePaths,
+  pruneSessionActivity,
+  recordSessionActivity
+} from '../src/sessionActivity.ts';
+
+const start = new Date('2026-03-02T09:00:00.000Z');
+const at = minutes => new Date(start.getTime() + minutes * 60 * 1000);
+
+function createIds() {
+  let next = 0;
+  return () => `session-${++next}`;
+}
+
+describe('session activity', () => {
+  test('records opens and edits in the current session, most recent first', () => {
+    const createId = createIds();
+    let sessions = recordSessionActivity([], '/repo/a.ts', 'open', at(0), createId);
+    sessions = recordSessionActivity(sessions, '/repo/b.ts', 'open', at(5), createId);
+    sessions = recordSessionActivity(sessions, '/repo/a.ts', 'edit', at(10), createId);
+
+    assert.equal(sessions.length, 1);
+    assert.equal(sessions[0].startedAt, at(0).toISOString());
+    assert.equal(sessions[0].lastActiveAt, at(10).toISOString());
+    assert.deepEqual(
+      sessions[0].files.map(file => [file.path, file.openCount, file.editCount]),
+      [['/repo/a.ts', 1, 1], ['/repo/b.ts', 1, 0]]
+    );
+  });
+
+  test('starts a new session after a long break and keeps the earlier one', () => {
+    const createId = createIds();
+    const first = recordSessionActivity([], '/repo/a.ts', 'open', at(0), createId);
+    const sessions = recordSessionActivity(first, '/repo/b.ts', 'open', new Date(at(0).getTime() + SESSION_IDLE_GAP_MS), createId);
+
+    assert.deepEqual(sessions.map(session => session.id), ['session-2', 'session-1']);
+    assert.deepEqual(sessions[0].files.map(file => file.path), ['/repo/b.ts']);
+    assert.equal(recordSessionActivity(sessions, '/repo/c.ts', 'open', at(300), createId, 2).length, 2);
+  });
+
+  test('counts a burst of edits once and returns the same sessions', () => {
+    const createId = createIds();
+    const sessions = recordSessionActivity([], '/repo/a.ts', 'edit', at(0), createId);
+
+    assert.equal(recordSessionActivity(sessions, '/repo/a.ts', 'edit', at(0.5), createId), sessions);
+    assert.equal(recordSessionActivity(sessions, '/repo/a.ts', 'edit', at(2), createId)[0].files[0].editCount, 2);
+  });
+
+  test('keeps only the most recently active files of a session', () => {
+    const createId = createIds();
+    let sessions = [];
+    for (let index = 0; index <= MAX_SESSION_FILES; index++) {
+      sessions = recordSessionActivity(sessions, `/repo/${index}.ts`, 'open', at(0), createId);
+    }
+
+    assert.equal(sessions[0].files.length, MAX_SESSION_FILES);
+    assert.equal(sessions[0].files.at(-1).path, '/repo/1.ts');
+  });
+
+  test('prunes old files and drops sessions left empty', () => {
+    const createId = createIds();
+    let sessions = recordSessionActivity([], '/repo/old.ts', 'open', at(0), createId);
+    sessions = recordSessionActivity(sessions, '/repo/a.ts', 'open', at(600), createId);
+    sessions = recordSessionActivity(sessions, '/repo/b.ts', 'open', at(660), createId);
+
+    const result = pruneSessionActivity(sessions, 30 * 60 * 1000, at(670));
+
+    assert.equal(result.removedCount, 2);
+    assert.deepEqual(result.sessions.map(session => session.files.map(file => file.path)), [['/repo/b.ts']]);
+  });
+
+  test('lists edited files before files only opened', () => {
+    const createId = createIds();
+    let sessions = recordSessionActivity([], '/repo/edited.ts', 'edit', at(0), createId);
+    sessions = recordSessionActivity(sessions, '/repo/opened.ts', 'open', at(1), createId);
+
+    assert.deepEqual(getSessionFilePaths(sessions[0]), ['/repo/edited.ts', '/repo/opened.ts']);
+  });
+});
@@ -13,7 +13,7 @@ describe('shared groups', () => {
         icon: 'paintcan',
         color: 'charts.blue',
         tags: ['frontend'],
-        files: [{ path: 'c:/repo/src/app.tsx', name: 'app.tsx', tags: ['entrypoint'] }],
+        files: [{ path: 'c:/repo/src/app.tsx', name: 'app.tsx', tags: ['entrypoint'], note: 'Why this **matters**' }],
         order: 0
       },
       {
@@ -41,6 +41,7 @@ describe('shared groups', () => {
     assert.equal(payload.groups[0]?.files[0]?.path, 'src/app.tsx');
     assert.deepEqual(payload.groups[0]?.tags, ['frontend']);
     assert.deepEqual(payload.groups[0]?.files[0]?.tags, ['entrypoint']);
+    assert.equal(payload.groups[0]?.files[0]?.note, 'Why this **matters**');
     assert.equal(payload.groups[1]?.parentId, 'root');
     assert.equal(isSharedGroupPayload(payload), true);
   });
@@ -78,6 +79,16 @@ describe('shared groups', () => {
         { id: 'b', name: 'B', icon: 'folder', color: '', parentId: 'a', files: [] }
       ]
     }), false);
+    assert.equal(isSharedGroupPayload({
+      ...basePayload,
+      groups: [{
+        id: 'root',
+        name: 'Root',
+        icon: 'folder',
+        color: '',
+        files: [{ path: 'src/app.ts', name: 'app.ts', anchors: [{ id: 'a', line: -1 }] }]
+      }]
+    }), false);
   });
 
   test('exports two-dot-prefixed workspace folders as relative paths', () => {
@@ -107,7 +118,7 @@ describe('shared groups', () => {
           icon: 'paintcan',
           color: 'charts.blue',
           tags: ['Front End'],
-          files: [{ path: 'src/app.tsx', name: 'app.tsx', tags: ['Entry Point'] }]
+          files: [{ path: 'src/app.tsx', name: 'app.tsx', tags: ['Entry Point'], note: 'Start **here**' }]
         },
         {
           id: 'child',
@@ -126,6 +137,7 @@ describe('shared groups', () => {
     assert.equal(imported.length, 2);
     assert.equal(imported[0]?.id, 'id-1');
     assert.equal(imported[1]?.parentId, 'id-1');
+    assert.equal(imported[0]?.files[0]?.note, 'Start **here**');
     assert.equal(imported[0]?.files[0]?.path.replace(/\\/g, '/'), 'c:/repo/src/app.tsx');
     assert.deepEqual(imported[0]?.tags, ['front-end']);
     assert.deepEqual(imported[0]?.files[0]?.tags, ['entry-point']);
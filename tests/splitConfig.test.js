@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { getGroupFileName, isGroupFileName, joinSplitConfig, splitConfig } from '../src/splitConfig.ts';
+
+const groups = [
+  { id: 'api', name: 'API', icon: 'folder', color: '', order: 1, files: [{ path: 'src/server.ts', name: 'server.ts' }] },
+  { id: 'docs', name: 'Docs', icon: 'book', color: '', order: 0, files: [] },
+  { id: 'routes', name: 'Routes', icon: 'folder', color: '', order: 0, parentId: 'api', files: [] }
+];
+
+describe('split config layout', () => {
+  test('names group files after safe group ids', () => {
+    assert.equal(getGroupFileName('lx3k9a2'), 'lx3k9a2.json');
+    assert.equal(getGroupFileName('../team/api'), '.._team_api.json');
+    assert.equal(isGroupFileName('api.json'), true);
+    assert.equal(isGroupFileName('index.json'), false);
+    assert.equal(isGroupFileName('notes.md'), false);
+  });
+
+  test('keeps settings and order in the index and groups in their own files', () => {
+    const { index, groupFiles } = splitConfig({ version: 2, hideGlobalGroups: true, groups });
+
+    assert.deepEqual(index, { version: 2, hideGlobalGroups: true, order: ['docs', 'routes', 'api'] });
+    assert.deepEqual(groupFiles.map((groupFile) => groupFile.fileName), ['api.json', 'docs.json', 'routes.json']);
+    assert.equal('order' in groupFiles[0].group, false);
+  });
+
+  test('joins the files back in index order, unlisted groups last', () => {
+    const { index, groupFiles } = splitConfig({ version: 2, groups });
+    const added = { fileName: 'added.json', group: { id: 'added', name: 'Added on a branch', files: [] } };
+
+    const config = joinSplitConfig(index, [added, ...groupFiles, { fileName: 'broken.json', group: [] }]);
+
+    assert.equal(config.version, 2);
+    assert.equal('order' in config, false);
+    assert.deepEqual(config.groups.map((group) => [group.id, group.order]), [['docs', 0], ['routes', 1], ['api', 2], ['added', 3]]);
+    assert.equal(config.groups[1].parentId, 'api');
+  });
+});
@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import {
+  collectTagQueryMatches,
+  evaluateTagQuery,
+  getTagQueryError,
+  getTagQueryResultFiles,
+  parseTagQuery
+} from '../src/tagQueries.ts';
+
+const matches = (expression, tags) => evaluateTagQuery(parseTagQuery(expression).node, new Set(tags));
+
+const createGroup = (id, tags, files) => ({
+  id,
+  name: id,
+  icon: 'folder',
+  color: '',
+  order: 0,
+  tags,
+  files: files.map(([filePath, fileTags]) => ({ path: filePath, name: filePath.split('/').pop(), tags: fileTags }))
+});
+
+describe('tag queries', () => {
+  test('evaluates boolean tag expressions with precedence', () => {
+    const expression = '#api AND (#auth OR #billing) AND NOT #legacy';
+    assert.equal(matches(expression, ['api', 'auth']), true);
+    assert.equal(matches(expression, ['api', 'billing', 'legacy']), false);
+    assert.equal(matches(expression, ['api']), false);
+
+    assert.equal(matches('#a OR #b AND #c', ['a']), true);
+    assert.equal(matches('#a OR #b AND #c', ['b']), false);
+    assert.equal(matches('not not #a', ['a']), true);
+  });
+
+  test('normalizes tags and combines adjacent tags with AND', () => {
+    assert.deepEqual(parseTagQuery('#API #Auth').node, {
+      type: 'and',
+      operands: [{ type: 'tag', tag: 'api' }, { type: 'tag', tag: 'auth' }]
+    });
+    assert.equal(matches('api and ##auth', ['api', 'auth']), true);
+  });
+
+  test('reports syntax errors', () => {
+    assert.ok(getTagQueryError('   '));
+    assert.match(getTagQueryError('#api AND'), /ends unexpectedly/);
+    assert.match(getTagQueryError('#api OR )'), /"\)" at position 9/);
+    assert.match(getTagQueryError('(#api'), /ends unexpectedly/);
+    assert.equal(getTagQueryError('(#api OR #web) AND NOT #legacy'), undefined);
+  });
+
+  test('collects matching groups and bookmarks with inherited group tags', () => {
+    const groups = [
+      createGroup('backend', ['api'], [['/w/auth.ts', ['auth']], ['/w/old-auth.ts', ['auth', 'legacy']], ['/w/util.ts', []]]),
+      createGroup('auth-api', ['api', 'auth'], [['/w/login.ts', []]]),
+      createGroup('frontend', [], [['/w/billing.tsx', ['billing']]])
+    ];
+
+    const result = collectTagQueryMatches(groups, parseTagQuery('#api AND (#auth OR #billing) AND NOT #legacy').node);
+    assert.deepEqual(result.groups.map(group => group.id), ['auth-api']);
+    assert.deepEqual(result.files.map(match => `${match.group.id}:${match.file.path}`), ['backend:/w/auth.ts']);
+  });
+
+  test('flattens results into unique files that keep inherited tags', () => {
+    const apiGroup = createGroup('api', ['api'], [['/w/a.ts', ['auth']], ['/w/b.ts', []]]);
+    apiGroup.files[1].searchMatch = { count: 1, line: 0, character: 0 };
+
+    const files = getTagQueryResultFiles({
+      groups: [apiGroup],
+      files: [{ group: createGroup('other', ['auth'], []), file: { path: '/w/a.ts', name: 'a.ts', note: 'Entry' } }]
+    });
+
+    assert.deepEqual(files.map(file => [file.path, file.tags]), [['/w/a.ts', ['auth']], ['/w/b.ts', ['api']]]);
+    assert.equal(files[0].note, 'Entry');
+    assert.equal('searchMatch' in files[1], false);
+  });
+});
@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { addTrashItems, createFileTrashItems, createGroupTrashItem, pruneRestoredTrashItems, restoreTrashItem } from '../src/trash.ts';
+
+const createGroup = (id, parentId, files = []) => ({
+  id,
+  name: id,
+  icon: 'folder',
+  color: '',
+  order: 0,
+  parentId,
+  files: files.map(filePath => ({ path: filePath, name: filePath.split('/').pop() }))
+});
+
+const deletedAt = '2026-10-01T12:00:00.000Z';
+
+describe('trash', () => {
+  test('captures a deleted group with its full subtree, root first', () => {
+    const groups = [
+      createGroup('child', 'root'),
+      createGroup('root', 'parent'),
+      createGroup('grandchild', 'child'),
+      createGroup('sibling', 'parent')
+    ];
+
+    const item = createGroupTrashItem(groups, 'root', 'groupDeleted', 'trash-1', deletedAt);
+    assert.deepEqual(item.groups.map(group => group.id), ['root', 'child', 'grandchild']);
+    assert.equal(item.reason, 'groupDeleted');
+    assert.equal(createGroupTrashItem(groups, 'missing', 'groupDeleted', 'trash-2', deletedAt), undefined);
+  });
+
+  test('restores groups under their original parent or at the root', () => {
+    const trashed = createGroupTrashItem(
+      [createGroup('parent'), createGroup('root', 'parent'), createGroup('child', 'root')],
+      'root',
+      'groupDeleted',
+      'trash-1',
+      deletedAt
+    );
+
+    const underParent = restoreTrashItem([createGroup('parent')], trashed);
+    assert.equal(underParent.restored, true);
+    assert.deepEqual(underParent.groups.map(group => [group.id, group.parentId]), [
+      ['parent', undefined],
+      ['root', 'parent'],
+      ['child', 'root']
+    ]);
+
+    const atRoot = restoreTrashItem([], trashed);
+    assert.deepEqual(atRoot.groups.map(group => [group.id, group.parentId]), [['root', undefined], ['child', 'root']]);
+
+    assert.equal(restoreTrashItem(underParent.groups, trashed).restored, false);
+  });
+
+  test('captures removed bookmarks with their position and restores them in place', () => {
+    const groups = [createGroup('docs', undefined, ['/w/a.md', '/w/gone.md', '/w/c.md'])];
+    const [item] = createFileTrashItems(groups, file => file.path === '/w/gone.md', 'fileDeleted', () => 'trash-1', deletedAt);
+    assert.equal(item.index, 1);
+    assert.equal(item.groupName, 'docs');
+
+    const remaining = [{ ...groups[0], files: groups[0].files.filter(file => file.path !== '/w/gone.md') }];
+    const result = restoreTrashItem(remaining, item);
+    assert.equal(result.restored, true);
+    assert.deepEqual(result.groups[0].files.map(file => file.path), ['/w/a.md', '/w/gone.md', '/w/c.md']);
+    assert.equal(remaining[0].files.length, 2);
+
+    assert.equal(restoreTrashItem([], item).restored, false);
+  });
+
+  test('keeps the newest entries first within the limit', () => {
+    const entry = id => ({ kind: 'file', id, deletedAt, reason: 'fileMissing', groupId: 'g', groupName: 'g', index: 0, file: { path: id, name: id } });
+    const trash = addTrashItems([entry('old-1'), entry('old-2')], [entry('new')], 2);
+    assert.deepEqual(trash.map(item => item.id), ['new', 'old-1']);
+  });
+
+  test('prunes entries whose group or bookmark exists again', () => {
+    const groups = [createGroup('root', undefined, ['/src/a.ts'])];
+    const groupItem = createGroupTrashItem([createGroup('root'), createGroup('gone')], 'gone', 'groupDeleted', 'trash-1', deletedAt);
+    const restoredGroupItem = createGroupTrashItem(groups, 'root', 'groupDeleted', 'trash-2', deletedAt);
+    const fileItems = createFileTrashItems(
+      [createGroup('root', undefined, ['/src/a.ts', '/src/b.ts'])],
+      () => true,
+      'fileDeleted',
+      (() => { let next = 3; return () => `trash-${next++}`; })(),
+      deletedAt
+    );
+
+    const remaining = pruneRestoredTrashItems([groupItem, restoredGroupItem, ...fileItems], groups);
+    assert.deepEqual(remaining.map(item => item.id), ['trash-1', 'trash-4']);
+  });
+});
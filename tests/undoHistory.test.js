@@ -0,0 +1,44 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { UndoHistory } from '../src/undoHistory.ts';
+
+describe('undo history', () => {
+  test('undoes and redoes recorded states in order', () => {
+    const history = new UndoHistory();
+    history.record('a');
+    history.record('b');
+
+    assert.equal(history.undo('c'), 'b');
+    assert.equal(history.undo('b'), 'a');
+    assert.equal(history.undo('a'), undefined);
+    assert.equal(history.canRedo, true);
+
+    assert.equal(history.redo('a'), 'b');
+    assert.equal(history.redo('b'), 'c');
+    assert.equal(history.redo('c'), undefined);
+    assert.equal(history.undo('c'), 'b');
+  });
+
+  test('clears the redo stack when a new change is recorded', () => {
+    const history = new UndoHistory();
+    history.record('a');
+    assert.equal(history.undo('b'), 'a');
+
+    history.record('a');
+    assert.equal(history.canRedo, false);
+    assert.equal(history.redo('c'), undefined);
+    assert.equal(history.canUndo, true);
+  });
+
+  test('drops the oldest states beyond the limit', () => {
+    const history = new UndoHistory(2);
+    history.record(1);
+    history.record(2);
+    history.record(3);
+
+    assert.equal(history.undo(4), 3);
+    assert.equal(history.undo(3), 2);
+    assert.equal(history.undo(2), undefined);
+    assert.equal(history.canUndo, false);
+  });
+});
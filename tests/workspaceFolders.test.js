@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict';
+import * as path from 'node:path';
+import { describe, test } from 'node:test';
+import { assignGroupFolders, getContainingFolder, getOwningFolder } from '../src/workspaceFolders.ts';
+
+const appRoot = path.resolve('workspace', 'app');
+const apiRoot = path.resolve('workspace', 'api');
+const nestedRoot = path.join(appRoot, 'packages', 'ui');
+const folders = [appRoot, apiRoot, nestedRoot];
+
+function group(id, filePaths, extra = {}) {
+  return {
+    id, name: id, icon: 'folder', color: '', order: 0,
+    files: filePaths.map((filePath) => ({ path: filePath, name: path.basename(filePath) })),
+    ...extra
+  };
+}
+
+describe('workspace folder ownership', () => {
+  test('finds the innermost folder containing a path', () => {
+    assert.equal(getContainingFolder(path.join(appRoot, 'src', 'main.ts'), folders), appRoot);
+    assert.equal(getContainingFolder(path.join(nestedRoot, 'button.ts'), folders), nestedRoot);
+    assert.equal(getContainingFolder(path.resolve('elsewhere', 'notes.md'), folders), undefined);
+  });
+
+  test('picks the folder holding most files, the earlier folder on a tie', () => {
+    const appFile = path.join(appRoot, 'main.ts');
+    const apiFiles = [path.join(apiRoot, 'server.ts'), path.join(apiRoot, 'routes.ts')];
+
+    assert.equal(getOwningFolder([appFile, ...apiFiles], folders), apiRoot);
+    assert.equal(getOwningFolder([appFile, apiFiles[0]], folders), appRoot);
+    assert.equal(getOwningFolder([path.resolve('elsewhere', 'notes.md')], folders), undefined);
+  });
+
+  test('stores a group tree in the folder owning most of its files', () => {
+    const groups = [
+      group('parent', [path.join(appRoot, 'main.ts')]),
+      group('child', [path.join(apiRoot, 'server.ts'), path.join(apiRoot, 'routes.ts')], { parentId: 'parent' }),
+      group('app', [path.join(appRoot, 'index.ts')])
+    ];
+
+    const assignments = assignGroupFolders(groups, folders);
+
+    assert.equal(assignments.get('parent'), apiRoot);
+    assert.equal(assignments.get('child'), apiRoot);
+    assert.equal(assignments.get('app'), appRoot);
+  });
+
+  test('keeps groups without workspace files in their previous or the first folder', () => {
+    const groups = [
+      group('empty', [], { workspaceFolder: apiRoot }),
+      group('outside', [path.resolve('elsewhere', 'notes.md')], { workspaceFolder: path.resolve('removed') }),
+      group('new', [])
+    ];
+
+    const assignments = assignGroupFolders(groups, folders);
+
+    assert.equal(assignments.get('empty'), apiRoot);
+    assert.equal(assignments.get('outside'), appRoot);
+    assert.equal(assignments.get('new'), appRoot);
+    assert.equal(assignGroupFolders(groups, []).size, 0);
+  });
+
+  test('does not loop on cyclic parents', () => {
+    const groups = [
+      group('a', [path.join(apiRoot, 'server.ts')], { parentId: 'b' }),
+      group('b', [], { parentId: 'a' })
+    ];
+
+    const assignments = assignGroupFolders(groups, folders);
+
+    assert.equal(assignments.get('a'), assignments.get('b'));
+  });
+});